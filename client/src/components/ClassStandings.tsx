@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { GraduationCap } from "lucide-react";
+import type { GradeStanding, LeaderboardWindow } from "@shared/schema";
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+const formatPercent = (percent: number) => `${percent > 0 ? "+" : ""}${percent.toFixed(1)}%`;
+
+const percentClass = (percent: number) =>
+  percent > 0
+    ? "text-green-600 dark:text-green-400"
+    : percent < 0
+    ? "text-red-600 dark:text-red-400"
+    : "text-muted-foreground";
+
+// Class vs class: each grade ranked by its students' average return
+export function ClassStandings() {
+  const [timeFilter, setTimeFilter] = useState<LeaderboardWindow>("all");
+
+  const { data: standings, isLoading } = useQuery<GradeStanding[]>({
+    queryKey: ["/api/leagues/grades/standings", timeFilter],
+  });
+
+  return (
+    <Card className="mb-6" data-testid="card-class-standings">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <GraduationCap className="h-5 w-5" />
+          Class Standings
+        </CardTitle>
+        <Tabs value={timeFilter} onValueChange={(v) => setTimeFilter(v as LeaderboardWindow)}>
+          <TabsList>
+            <TabsTrigger value="all" data-testid="tab-class-standings-all">
+              All Time
+            </TabsTrigger>
+            <TabsTrigger value="week" data-testid="tab-class-standings-week">
+              Week
+            </TabsTrigger>
+            <TabsTrigger value="month" data-testid="tab-class-standings-month">
+              Month
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-12" />
+            ))}
+          </div>
+        ) : !standings || standings.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            No grades to compare yet - students pick their grade when they register.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {standings.map((standing) => (
+              <div
+                key={standing.grade}
+                className="flex items-center gap-4 rounded-lg p-3 hover:bg-muted/30"
+                data-testid={`row-class-standing-${standing.rank}`}
+              >
+                <span className="w-8 text-center text-lg font-semibold text-muted-foreground">#{standing.rank}</span>
+                <div className="flex-1">
+                  <p className="font-medium">{standing.grade}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {standing.students} {standing.students === 1 ? "student" : "students"} · Top:{" "}
+                    {standing.leader.displayName} ({formatPercent(standing.leader.changePercent)})
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className={`font-mono text-lg font-bold ${percentClass(standing.averageReturn)}`}>
+                    {formatPercent(standing.averageReturn)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    avg return · {formatCurrency(standing.totalValue)} total
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { apiRequest } from "@/lib/queryClient";
+import { LineChart } from "lucide-react";
+import type { PortfolioHistoryPoint, PortfolioHistoryRange } from "@shared/schema";
+
+const RANGES: { value: PortfolioHistoryRange; label: string }[] = [
+  { value: "1w", label: "1W" },
+  { value: "1m", label: "1M" },
+  { value: "3m", label: "3M" },
+  { value: "all", label: "All" },
+];
+
+const chartConfig = {
+  totalValue: { label: "Total value", color: "hsl(var(--primary))" },
+  cashBalance: { label: "Cash", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+// Snapshot days are YYYY-MM-DD in the server's time zone - parse them as local dates
+function formatDay(day: string): string {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+export function EquityCurveChart() {
+  const [range, setRange] = useState<PortfolioHistoryRange>("1m");
+
+  // Keyed under /api/portfolio so anything that refreshes the portfolio refreshes this too
+  const { data: history, isLoading } = useQuery<PortfolioHistoryPoint[]>({
+    queryKey: ["/api/portfolio", "history", range],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/portfolio/history?range=${range}`);
+      return res.json();
+    },
+  });
+
+  const chartData = (history ?? []).map((point) => ({ ...point, label: formatDay(point.day) }));
+
+  return (
+    <Card className="mb-8" data-testid="card-equity-curve">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <LineChart className="h-5 w-5" />
+          Portfolio Value
+        </CardTitle>
+        <Tabs value={range} onValueChange={(v) => setRange(v as PortfolioHistoryRange)}>
+          <TabsList>
+            {RANGES.map(({ value, label }) => (
+              <TabsTrigger key={value} value={value} data-testid={`tab-equity-range-${value}`}>
+                {label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : chartData.length < 2 ? (
+          <div className="flex h-64 items-center justify-center text-center text-sm text-muted-foreground">
+            Your portfolio is recorded once a day - check back tomorrow to see your equity curve.
+          </div>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-64 w-full">
+            <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid vertical={false} strokeDasharray="3 3" />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={60}
+                tickFormatter={(v: number) => `$${v.toLocaleString("en-US", { maximumFractionDigits: 0 })}`}
+              />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Area
+                type="monotone"
+                dataKey="cashBalance"
+                stroke="var(--color-cashBalance)"
+                fill="var(--color-cashBalance)"
+                fillOpacity={0.05}
+                strokeDasharray="4 4"
+                isAnimationActive={false}
+              />
+              <Area
+                type="monotone"
+                dataKey="totalValue"
+                stroke="var(--color-totalValue)"
+                fill="var(--color-totalValue)"
+                fillOpacity={0.15}
+                strokeWidth={2}
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
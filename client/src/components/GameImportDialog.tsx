@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Upload } from "lucide-react";
+import type { GameImportResult, GameImportRowStatus } from "@shared/schema";
+
+const STATUS_VARIANT: Record<GameImportRowStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  READY: "default",
+  IMPORTED: "default",
+  DUPLICATE: "secondary",
+  INVALID: "destructive",
+  FAILED: "destructive",
+};
+
+export function GameImportDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [content, setContent] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [createMarkets, setCreateMarkets] = useState(false);
+  const [preview, setPreview] = useState<GameImportResult | null>(null);
+
+  const reset = () => {
+    setContent("");
+    setFileName("");
+    setCreateMarkets(false);
+    setPreview(null);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean): Promise<GameImportResult> => {
+      const res = await apiRequest("POST", "/api/admin/games/import", {
+        // Pasted text has no extension - the server works the format out from the content
+        format: fileName.toLowerCase().endsWith(".ics") ? "ICS" : fileName.toLowerCase().endsWith(".csv") ? "CSV" : undefined,
+        content,
+        dryRun,
+        createMarkets,
+      });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/games"] });
+      if (result.marketsCreated > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/markets"] });
+      }
+      const hasErrors = result.failed > 0 || result.rows.some((r) => r.status === "IMPORTED" && r.error);
+      toast({
+        title: `Imported ${result.imported} of ${result.rows.length} games`,
+        description: [
+          result.marketsCreated > 0 && `${result.marketsCreated} markets created`,
+          result.duplicates > 0 && `${result.duplicates} duplicates skipped`,
+          result.invalid > 0 && `${result.invalid} invalid rows skipped`,
+          result.failed > 0 && `${result.failed} rows failed`,
+        ]
+          .filter(Boolean)
+          .join(", "),
+        variant: hasErrors ? "destructive" : "default",
+      });
+      // Keep the dialog open on the results so the failed rows can be seen
+      if (hasErrors) {
+        setPreview(result);
+        return;
+      }
+      setOpen(false);
+      reset();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: parseErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setContent(await file.text());
+    setPreview(null);
+  };
+
+  const readyCount = preview?.rows.filter((r) => r.status === "READY").length ?? 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" data-testid="button-import-schedule">
+          <Upload className="mr-1 h-4 w-4" />
+          Import Schedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Games</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="schedule-file">CSV or iCalendar (.ics) file</Label>
+            <Input
+              id="schedule-file"
+              type="file"
+              accept=".csv,.ics,text/csv,text/calendar"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-schedule-file"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Or paste it</Label>
+            <Textarea
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value);
+                setFileName("");
+                setPreview(null);
+              }}
+              placeholder="BASKETBALL,Sacred Heart Prep,home,2026-01-25T19:00"
+              className="min-h-[120px] font-mono text-sm"
+              data-testid="textarea-schedule-import"
+            />
+            <p className="text-xs text-muted-foreground">
+              CSV columns: sport, opponent, home/away, date - a header row may name them in any order. Calendar
+              events are read from titles like "Varsity Basketball vs. Sacred Heart Prep" or "Football @ Palo Alto".
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="create-markets"
+              checked={createMarkets}
+              onCheckedChange={setCreateMarkets}
+              data-testid="switch-import-create-markets"
+            />
+            <Label htmlFor="create-markets">Create a "Will Menlo win?" market for each imported game</Label>
+          </div>
+
+          {preview && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {preview.dryRun ? `${readyCount} ready to import` : `${preview.imported} imported`},{" "}
+                {preview.duplicates} duplicates, {preview.invalid} invalid
+                {preview.failed > 0 && `, ${preview.failed} failed`}
+              </p>
+              <div className="max-h-64 space-y-1 overflow-y-auto rounded-md border p-2">
+                {preview.rows.map((row) => (
+                  <div
+                    key={row.row}
+                    className="flex items-start justify-between gap-2 text-sm"
+                    data-testid={`import-row-${row.row}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate font-mono text-xs">
+                        {row.row}: {row.source}
+                      </p>
+                      {row.game && (
+                        <p className="text-xs text-muted-foreground">
+                          {row.game.sport} {row.game.isHome ? "vs" : "@"} {row.game.opponent},{" "}
+                          {new Date(row.game.gameDate).toLocaleString()}
+                        </p>
+                      )}
+                      {row.error && <p className="text-xs text-destructive">{row.error}</p>}
+                    </div>
+                    <Badge variant={STATUS_VARIANT[row.status]}>{row.status}</Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => importMutation.mutate(true)}
+              disabled={!content.trim() || importMutation.isPending}
+              data-testid="button-preview-import"
+            >
+              Preview
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={() => importMutation.mutate(false)}
+              disabled={!content.trim() || importMutation.isPending || (preview !== null && readyCount === 0)}
+              data-testid="button-submit-import"
+            >
+              {importMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Import Games"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// apiRequest errors look like `400: {"message":"..."}` - pull out the message
+function parseErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
@@ -0,0 +1,88 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Award, Crown, Medal } from "lucide-react";
+import type { SeasonWithWinners } from "@shared/schema";
+
+const PLACE_ICONS = [
+  <Crown key="1" className="h-4 w-4 text-yellow-500" />,
+  <Medal key="2" className="h-4 w-4 text-gray-400" />,
+  <Medal key="3" className="h-4 w-4 text-amber-600" />,
+];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+// Past season winners, newest season first. Renders nothing until a season has finished.
+export function HallOfFame() {
+  const { data: seasons, isLoading } = useQuery<SeasonWithWinners[]>({
+    queryKey: ["/api/seasons/hall-of-fame"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="mt-6 h-40 w-full" />;
+  }
+  if (!seasons || seasons.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-6" data-testid="card-hall-of-fame">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Award className="h-5 w-5 text-yellow-500" />
+          Hall of Fame
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {seasons.map((season) => (
+          <div key={season.id} className="rounded-lg border p-4" data-testid={`hall-of-fame-season-${season.id}`}>
+            <div className="mb-3 flex flex-wrap items-baseline justify-between gap-2">
+              <p className="font-semibold">{season.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatDate(season.startsAt)} - {formatDate(season.completedAt ?? season.endsAt)}
+              </p>
+            </div>
+            {season.winners.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No students finished this season</p>
+            ) : (
+              <div className="space-y-2">
+                {season.winners.map((winner) => (
+                  <div key={winner.id} className="flex items-center gap-3 text-sm">
+                    <div className="flex w-6 justify-center">{PLACE_ICONS[winner.rank - 1] ?? `#${winner.rank}`}</div>
+                    <span className="flex-1 font-medium">
+                      {winner.displayName}
+                      {winner.grade && (
+                        <Badge variant="secondary" className="ml-2 text-xs">
+                          {winner.grade}
+                        </Badge>
+                      )}
+                    </span>
+                    <span className="font-mono">{formatCurrency(winner.totalValue)}</span>
+                    <span
+                      className={`w-16 text-right font-mono ${
+                        winner.changePercent >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+                      }`}
+                    >
+                      {winner.changePercent > 0 ? "+" : ""}
+                      {winner.changePercent.toFixed(1)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
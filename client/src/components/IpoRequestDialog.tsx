@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Loader2 } from "lucide-react";
+import type { IpoRequest } from "@shared/schema";
+
+const CATEGORIES = ["Clubs", "Sports", "Events", "Food", "Activities"];
+
+const emptyRequest = {
+  ticker: "",
+  name: "",
+  description: "",
+  category: "Clubs",
+  initialPrice: "25",
+  floatSupply: "10000",
+};
+
+export function IpoRequestDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [request, setRequest] = useState(emptyRequest);
+
+  const { data: requests } = useQuery<IpoRequest[]>({
+    queryKey: ["/api/ipos/requests"],
+    enabled: open,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/ipos/requests", {
+        ...request,
+        initialPrice: parseFloat(request.initialPrice),
+        floatSupply: parseInt(request.floatSupply),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ipos/requests"] });
+      toast({
+        title: "IPO request submitted",
+        description: "An admin will review it. Once approved, students can subscribe before trading opens.",
+      });
+      setRequest(emptyRequest);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to submit IPO request",
+        description: parseErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="gap-2" data-testid="button-create-stock">
+          <Plus className="h-4 w-4" />
+          List Your Club
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Request an IPO</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-2">
+          <p className="text-sm text-muted-foreground">
+            Club leaders can list their club as a student stock. After an admin approves it, students subscribe at
+            the IPO price during the allocation window, then the stock opens for trading.
+          </p>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ipo-ticker">Ticker</Label>
+              <Input
+                id="ipo-ticker"
+                value={request.ticker}
+                onChange={(e) => setRequest({ ...request, ticker: e.target.value.toUpperCase().replace(/[^A-Z]/g, "") })}
+                maxLength={5}
+                placeholder="ROBOT"
+                className="font-mono"
+                data-testid="input-ipo-ticker"
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="ipo-name">Club name</Label>
+              <Input
+                id="ipo-name"
+                value={request.name}
+                onChange={(e) => setRequest({ ...request, name: e.target.value })}
+                placeholder="e.g., Menlo Robotics"
+                data-testid="input-ipo-name"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ipo-description">Description</Label>
+            <Textarea
+              id="ipo-description"
+              value={request.description}
+              onChange={(e) => setRequest({ ...request, description: e.target.value })}
+              placeholder="What does your club do? Why should students invest?"
+              data-testid="textarea-ipo-description"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={request.category} onValueChange={(category) => setRequest({ ...request, category })}>
+                <SelectTrigger data-testid="select-ipo-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {category}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ipo-price">IPO price ($)</Label>
+              <Input
+                id="ipo-price"
+                type="number"
+                min="1"
+                max="1000"
+                step="0.01"
+                value={request.initialPrice}
+                onChange={(e) => setRequest({ ...request, initialPrice: e.target.value })}
+                data-testid="input-ipo-price"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ipo-float">Float (shares)</Label>
+              <Input
+                id="ipo-float"
+                type="number"
+                min="100"
+                max="1000000"
+                step="100"
+                value={request.floatSupply}
+                onChange={(e) => setRequest({ ...request, floatSupply: e.target.value })}
+                data-testid="input-ipo-float"
+              />
+            </div>
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => requestMutation.mutate()}
+            disabled={request.ticker.length < 3 || !request.name || !request.description || requestMutation.isPending}
+            data-testid="button-submit-ipo"
+          >
+            {requestMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Submit for Review"}
+          </Button>
+
+          {requests && requests.length > 0 && (
+            <div className="space-y-2 border-t pt-4">
+              <p className="text-sm font-medium">Your IPO requests</p>
+              {requests.map((r) => (
+                <div key={r.id} className="rounded-md border p-3 text-sm" data-testid={`ipo-request-${r.id}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="font-medium">
+                      <span className="font-mono">{r.ticker}</span> · {r.name}
+                    </span>
+                    <Badge
+                      variant={r.status === "REJECTED" ? "destructive" : r.status === "PENDING" ? "secondary" : "default"}
+                    >
+                      {r.status === "PENDING" ? "In review" : r.status === "REJECTED" ? "Rejected" : "Approved"}
+                    </Badge>
+                  </div>
+                  {r.status === "REJECTED" && r.reason && (
+                    <p className="mt-1 text-xs text-muted-foreground">{r.reason}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// apiRequest errors look like `400: {"message":"..."}` - pull out the message
+function parseErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/context/AuthContext";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Clock, Loader2, Rocket } from "lucide-react";
+import type { IpoSubscriptionWithDetails, MarketWithDetails } from "@shared/schema";
+
+interface IpoSubscribeCardProps {
+  // A STOCK market in IPO status
+  market: MarketWithDetails;
+}
+
+function formatTimeLeft(endsAt: Date): string {
+  const ms = new Date(endsAt).getTime() - Date.now();
+  if (ms <= 0) return "Listing shortly";
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  const minutes = Math.floor((ms % (60 * 60 * 1000)) / (60 * 1000));
+  return hours >= 24 ? `${Math.floor(hours / 24)}d ${hours % 24}h left` : `${hours}h ${minutes}m left`;
+}
+
+// Takes the place of the trading widget while a stock is in its allocation window
+export function IpoSubscribeCard({ market }: IpoSubscribeCardProps) {
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
+  const [quantity, setQuantity] = useState("10");
+
+  const { data: subscriptions } = useQuery<IpoSubscriptionWithDetails[]>({
+    queryKey: ["/api/ipos/subscriptions"],
+    enabled: !!user,
+  });
+
+  const subscribeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/ipos/${market.id}/subscribe`, { qty: parseInt(quantity) });
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshUser();
+      queryClient.invalidateQueries({ queryKey: ["/api/ipos/subscriptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      toast({
+        title: "Subscribed",
+        description: "Your cash is held until the window closes. Any shares you don't get are refunded.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Subscription failed",
+        description: parseErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const stock = market.stockMeta;
+  if (!stock) return null;
+
+  const qty = parseInt(quantity) || 0;
+  const cost = qty * stock.initialPrice;
+  const subscription = subscriptions?.find((s) => s.marketId === market.id);
+  const canSubscribe =
+    user?.status === "VERIFIED" && !subscription && qty >= 1 && qty <= 1000 && cost <= (user?.balance ?? 0);
+
+  return (
+    <Card data-testid="card-ipo-subscribe">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between gap-2 text-lg">
+          <span className="flex items-center gap-2">
+            <Rocket className="h-5 w-5 text-primary" />
+            IPO
+          </span>
+          {stock.ipoEndsAt && (
+            <Badge variant="secondary" className="gap-1 font-normal">
+              <Clock className="h-3 w-3" />
+              {formatTimeLeft(stock.ipoEndsAt)}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Subscribe at the IPO price of{" "}
+          <span className="font-mono font-medium text-foreground">${stock.initialPrice.toFixed(2)}</span>. If more
+          shares are requested than offered, everyone gets the same share of their order and the rest is refunded.
+          Trading opens when the window closes.
+        </p>
+
+        {subscription ? (
+          <div className="rounded-md border p-3 text-sm" data-testid="ipo-subscription">
+            <p className="font-medium">You subscribed to {subscription.qty} shares</p>
+            <p className="mt-1 text-muted-foreground">
+              ${(subscription.qty * subscription.price).toFixed(2)} held until allocation
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="ipo-quantity">Shares</Label>
+              <Input
+                id="ipo-quantity"
+                type="number"
+                min="1"
+                max="1000"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                className="font-mono"
+                data-testid="input-ipo-quantity"
+              />
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Cost</span>
+              <span className="font-mono font-medium">${cost.toFixed(2)}</span>
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => subscribeMutation.mutate()}
+              disabled={!canSubscribe || subscribeMutation.isPending}
+              data-testid="button-ipo-subscribe"
+            >
+              {subscribeMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Subscribe"}
+            </Button>
+            {!user && <p className="text-center text-xs text-muted-foreground">Log in to subscribe</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// apiRequest errors look like `400: {"message":"..."}` - pull out the message
+function parseErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
@@ -4,20 +4,71 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Trophy, TrendingUp, TrendingDown, Minus, Crown, Medal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Trophy, TrendingUp, TrendingDown, Minus, Crown, Medal, ChevronLeft, ChevronRight } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
 import { useState } from "react";
-import type { LeaderboardEntry } from "@shared/schema";
+import type { LeaderboardEntry, LeaderboardLeague, LeaderboardWindow } from "@shared/schema";
 
-type TimeFilter = "all" | "week" | "month";
+type TimeFilter = LeaderboardWindow;
 
-export function Leaderboard() {
+// Rankings are by return over the window, net of deposits and bankruptcy resets
+const RETURN_LABELS: Record<TimeFilter, string> = {
+  all: "all time",
+  week: "past 7 days",
+  month: "past 30 days",
+};
+
+const PAGE_SIZE = 50;
+
+// ?grade= or ?groupId= for the selected league, empty for everyone
+function leagueParams(league: LeaderboardLeague): URLSearchParams {
+  const params = new URLSearchParams();
+  if (league.grade) params.set("grade", league.grade);
+  if (league.groupId) params.set("groupId", league.groupId);
+  return params;
+}
+
+interface LeaderboardProps {
+  league?: LeaderboardLeague;
+  title?: string;
+}
+
+export function Leaderboard({ league = {}, title = "Leaderboard" }: LeaderboardProps) {
   const { user } = useAuth();
   const [timeFilter, setTimeFilter] = useState<TimeFilter>("all");
+  const [page, setPage] = useState(0);
+  const [pageLeague, setPageLeague] = useState(league);
+
+  // Switching leagues starts back at the first page
+  if (pageLeague.grade !== league.grade || pageLeague.groupId !== league.groupId) {
+    setPageLeague(league);
+    setPage(0);
+  }
 
   const { data: leaderboard, isLoading } = useQuery<LeaderboardEntry[]>({
-    queryKey: ["/api/leaderboard", timeFilter],
+    queryKey: ["/api/leaderboard", timeFilter, league, page],
+    queryFn: async () => {
+      const params = leagueParams(league);
+      params.set("limit", String(PAGE_SIZE));
+      params.set("offset", String(page * PAGE_SIZE));
+      const res = await apiRequest("GET", `/api/leaderboard/${timeFilter}?${params}`);
+      return res.json();
+    },
+  });
+
+  // The student's own rank, shown under the page when they're not on it
+  const { data: myEntry } = useQuery<LeaderboardEntry>({
+    queryKey: ["/api/leaderboard", timeFilter, league, "me"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/leaderboard/${timeFilter}/me?${leagueParams(league)}`);
+      return res.json();
+    },
+    enabled: !!user,
+    retry: false,
   });
+  const showMyEntry = myEntry && !leaderboard?.some((entry) => entry.userId === myEntry.userId);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
@@ -54,13 +105,100 @@ export function Leaderboard() {
     }
   };
 
+  const renderEntry = (entry: LeaderboardEntry) => {
+    const isCurrentUser = user && entry.userId === user.id;
+    const isTop3 = entry.rank <= 3;
+
+    return (
+      <div
+        key={entry.userId}
+        className={`flex items-center gap-4 rounded-lg p-3 transition-colors ${
+          isCurrentUser
+            ? "border-2 border-primary bg-primary/5"
+            : isTop3
+            ? "bg-muted/50"
+            : "hover:bg-muted/30"
+        }`}
+        data-testid={`row-leaderboard-${entry.rank}`}
+      >
+        <div className="flex w-12 items-center justify-center">
+          {isTop3 ? (
+            <div className={`flex h-8 w-8 items-center justify-center rounded-full border ${getRankBadgeClass(entry.rank)}`}>
+              {getRankIcon(entry.rank)}
+            </div>
+          ) : (
+            <span className="text-lg font-semibold text-muted-foreground">
+              #{entry.rank}
+            </span>
+          )}
+        </div>
+
+        <Avatar className="h-10 w-10">
+          <AvatarFallback className={isTop3 ? "bg-primary/10 text-primary" : ""}>
+            {entry.displayName.charAt(0).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+
+        <div className="flex-1">
+          <div className="flex items-center gap-2">
+            <span className={`font-medium ${isTop3 ? "text-lg" : ""}`}>
+              {entry.displayName}
+            </span>
+            {entry.grade && (
+              <Badge variant="secondary" className="text-xs">
+                {entry.grade}
+              </Badge>
+            )}
+            {isCurrentUser && (
+              <Badge variant="outline" className="text-xs">
+                You
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+            <span>Cash: {formatCurrency(entry.cashBalance)}</span>
+            <span>Positions: {formatCurrency(entry.positionsValue)}</span>
+          </div>
+        </div>
+
+        <div className="text-right">
+          <p className={`font-mono font-bold ${isTop3 ? "text-xl" : "text-lg"}`}>
+            {formatCurrency(entry.totalValue)}
+          </p>
+          <div
+            className={`flex items-center justify-end gap-1 text-sm ${
+              entry.changePercent > 0
+                ? "text-green-600 dark:text-green-400"
+                : entry.changePercent < 0
+                ? "text-red-600 dark:text-red-400"
+                : "text-muted-foreground"
+            }`}
+          >
+            {entry.changePercent > 0 ? (
+              <TrendingUp className="h-3 w-3" />
+            ) : entry.changePercent < 0 ? (
+              <TrendingDown className="h-3 w-3" />
+            ) : (
+              <Minus className="h-3 w-3" />
+            )}
+            <span>
+              {entry.changePercent > 0 ? "+" : ""}
+              {entry.changePercent.toFixed(1)}%
+            </span>
+            <span className="text-xs text-muted-foreground">{RETURN_LABELS[timeFilter]}</span>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   if (isLoading) {
     return (
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Trophy className="h-5 w-5 text-yellow-500" />
-            Leaderboard
+            {title}
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -84,9 +222,15 @@ export function Leaderboard() {
       <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
         <CardTitle className="flex items-center gap-2">
           <Trophy className="h-5 w-5 text-yellow-500" />
-          Leaderboard
+          {title}
         </CardTitle>
-        <Tabs value={timeFilter} onValueChange={(v) => setTimeFilter(v as TimeFilter)}>
+        <Tabs
+          value={timeFilter}
+          onValueChange={(v) => {
+            setTimeFilter(v as TimeFilter);
+            setPage(0);
+          }}
+        >
           <TabsList>
             <TabsTrigger value="all" data-testid="tab-leaderboard-all">
               All Time
@@ -107,91 +251,40 @@ export function Leaderboard() {
           </div>
         ) : (
           <div className="space-y-2">
-            {leaderboard.map((entry) => {
-              const isCurrentUser = user && entry.userId === user.id;
-              const isTop3 = entry.rank <= 3;
-
-              return (
-                <div
-                  key={entry.userId}
-                  className={`flex items-center gap-4 rounded-lg p-3 transition-colors ${
-                    isCurrentUser
-                      ? "border-2 border-primary bg-primary/5"
-                      : isTop3
-                      ? "bg-muted/50"
-                      : "hover:bg-muted/30"
-                  }`}
-                  data-testid={`row-leaderboard-${entry.rank}`}
-                >
-                  <div className="flex w-12 items-center justify-center">
-                    {isTop3 ? (
-                      <div className={`flex h-8 w-8 items-center justify-center rounded-full border ${getRankBadgeClass(entry.rank)}`}>
-                        {getRankIcon(entry.rank)}
-                      </div>
-                    ) : (
-                      <span className="text-lg font-semibold text-muted-foreground">
-                        #{entry.rank}
-                      </span>
-                    )}
-                  </div>
-
-                  <Avatar className="h-10 w-10">
-                    <AvatarFallback className={isTop3 ? "bg-primary/10 text-primary" : ""}>
-                      {entry.displayName.charAt(0).toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2">
-                      <span className={`font-medium ${isTop3 ? "text-lg" : ""}`}>
-                        {entry.displayName}
-                      </span>
-                      {entry.grade && (
-                        <Badge variant="secondary" className="text-xs">
-                          {entry.grade}
-                        </Badge>
-                      )}
-                      {isCurrentUser && (
-                        <Badge variant="outline" className="text-xs">
-                          You
-                        </Badge>
-                      )}
-                    </div>
-                    <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                      <span>Cash: {formatCurrency(entry.cashBalance)}</span>
-                      <span>Positions: {formatCurrency(entry.positionsValue)}</span>
-                    </div>
-                  </div>
-
-                  <div className="text-right">
-                    <p className={`font-mono font-bold ${isTop3 ? "text-xl" : "text-lg"}`}>
-                      {formatCurrency(entry.totalValue)}
-                    </p>
-                    <div
-                      className={`flex items-center justify-end gap-1 text-sm ${
-                        entry.changePercent > 0
-                          ? "text-green-600 dark:text-green-400"
-                          : entry.changePercent < 0
-                          ? "text-red-600 dark:text-red-400"
-                          : "text-muted-foreground"
-                      }`}
-                    >
-                      {entry.changePercent > 0 ? (
-                        <TrendingUp className="h-3 w-3" />
-                      ) : entry.changePercent < 0 ? (
-                        <TrendingDown className="h-3 w-3" />
-                      ) : (
-                        <Minus className="h-3 w-3" />
-                      )}
-                      <span>
-                        {entry.changePercent > 0 ? "+" : ""}
-                        {entry.changePercent.toFixed(1)}%
-                      </span>
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
+            {leaderboard.map(renderEntry)}
+            {showMyEntry && (
+              <>
+                <div className="py-1 text-center text-xs text-muted-foreground">Your rank</div>
+                {renderEntry(myEntry)}
+              </>
+            )}
+          </div>
+        )}
+        {(page > 0 || leaderboard?.length === PAGE_SIZE) && (
+          <div className="mt-4 flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0}
+              data-testid="button-leaderboard-prev"
+            >
+              <ChevronLeft className="mr-1 h-4 w-4" />
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Ranks {page * PAGE_SIZE + 1}-{page * PAGE_SIZE + (leaderboard?.length ?? 0)}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={(leaderboard?.length ?? 0) < PAGE_SIZE}
+              data-testid="button-leaderboard-next"
+            >
+              Next
+              <ChevronRight className="ml-1 h-4 w-4" />
+            </Button>
           </div>
         )}
       </CardContent>
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronDown, ChevronRight, Loader2, Plus, Trash2, UserMinus } from "lucide-react";
+import type {
+  AddLeagueGroupMembersResult,
+  LeagueGroupKind,
+  LeagueGroupMemberWithUser,
+  LeagueGroupWithCount,
+  Leagues,
+} from "@shared/schema";
+
+const KIND_LABELS: Record<LeagueGroupKind, string> = {
+  ADVISORY: "Advisory",
+  CLUB: "Club",
+  OTHER: "Other",
+};
+
+// Groups show up in the leaderboard's league selector and rankings, so refresh those too
+function invalidateLeagues() {
+  queryClient.invalidateQueries({ queryKey: ["/api/leagues"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/leagues/groups"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/leaderboard"] });
+}
+
+export function LeagueGroupsAdmin() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<LeagueGroupKind>("ADVISORY");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: leagues, isLoading } = useQuery<Leagues>({
+    queryKey: ["/api/leagues"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/leagues/groups", { name, kind });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateLeagues();
+      toast({ title: "Group created", description: name });
+      setName("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: parseErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (groupId: string) => {
+      const res = await apiRequest("DELETE", `/api/admin/leagues/groups/${groupId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateLeagues();
+      toast({ title: "Group deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: parseErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Leagues</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Students are ranked within their grade automatically. Groups such as advisories and clubs get their own
+          leaderboard once you add members.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="league-group-name">New group</Label>
+            <Input
+              id="league-group-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Ms. Rivera's Advisory"
+              data-testid="input-league-group-name"
+            />
+          </div>
+          <Select value={kind} onValueChange={(v) => setKind(v as LeagueGroupKind)}>
+            <SelectTrigger className="w-36" data-testid="select-league-group-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(KIND_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || createMutation.isPending}
+            data-testid="button-create-league-group"
+          >
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="mr-1 h-4 w-4" />}
+            Create
+          </Button>
+        </div>
+
+        {leagues && leagues.grades.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Grades:</span>
+            {leagues.grades.map((grade) => (
+              <Badge key={grade} variant="secondary">
+                {grade}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-14" />
+            ))}
+          </div>
+        ) : !leagues || leagues.groups.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">No groups yet</div>
+        ) : (
+          <div className="space-y-2">
+            {leagues.groups.map((group) => (
+              <div key={group.id} className="rounded-lg border" data-testid={`league-group-${group.id}`}>
+                <div className="flex items-center gap-3 p-3">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setExpandedId(expandedId === group.id ? null : group.id)}
+                    data-testid={`button-expand-league-group-${group.id}`}
+                  >
+                    {expandedId === group.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  </Button>
+                  <div className="flex-1">
+                    <p className="font-medium">{group.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {group.memberCount} {group.memberCount === 1 ? "member" : "members"}
+                    </p>
+                  </div>
+                  <Badge variant="outline">{KIND_LABELS[group.kind as LeagueGroupKind] ?? group.kind}</Badge>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(group.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-league-group-${group.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+                {expandedId === group.id && <LeagueGroupMembers group={group} />}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LeagueGroupMembers({ group }: { group: LeagueGroupWithCount }) {
+  const { toast } = useToast();
+  const [emails, setEmails] = useState("");
+
+  const { data: members, isLoading } = useQuery<LeagueGroupMemberWithUser[]>({
+    queryKey: ["/api/admin/leagues/groups", group.id, "members"],
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (): Promise<AddLeagueGroupMembersResult> => {
+      // One email per line, or separated by commas, spaces or semicolons
+      const list = emails.split(/[\s,;]+/).filter(Boolean);
+      const res = await apiRequest("POST", `/api/admin/leagues/groups/${group.id}/members`, { emails: list });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      invalidateLeagues();
+      toast({
+        title: `Added ${result.added} ${result.added === 1 ? "student" : "students"} to ${group.name}`,
+        description: [
+          result.alreadyMembers > 0 && `${result.alreadyMembers} already in the group`,
+          result.notFound.length > 0 && `No account for ${result.notFound.join(", ")}`,
+        ]
+          .filter(Boolean)
+          .join(". "),
+        variant: result.notFound.length > 0 ? "destructive" : "default",
+      });
+      // Keep the emails that didn't match so they can be fixed and retried
+      setEmails(result.notFound.join("\n"));
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: parseErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await apiRequest("DELETE", `/api/admin/leagues/groups/${group.id}/members/${userId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateLeagues();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: parseErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4 border-t p-3">
+      <div className="space-y-2">
+        <Label>Add students by school email</Label>
+        <Textarea
+          value={emails}
+          onChange={(e) => setEmails(e.target.value)}
+          placeholder={"jane.doe@menloschool.org\njohn.smith@menloschool.org"}
+          className="min-h-[80px] font-mono text-sm"
+          data-testid={`textarea-league-group-emails-${group.id}`}
+        />
+        <Button
+          size="sm"
+          onClick={() => addMutation.mutate()}
+          disabled={!emails.trim() || addMutation.isPending}
+          data-testid={`button-add-league-group-members-${group.id}`}
+        >
+          {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Members"}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-20" />
+      ) : !members || members.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No members yet</p>
+      ) : (
+        <div className="space-y-1">
+          {members.map((member) => (
+            <div
+              key={member.id}
+              className="flex items-center justify-between gap-2 text-sm"
+              data-testid={`league-group-member-${member.userId}`}
+            >
+              <div className="min-w-0">
+                <span className="font-medium">{member.displayName}</span>{" "}
+                <span className="text-muted-foreground">{member.email}</span>
+                {member.grade && (
+                  <Badge variant="secondary" className="ml-2 text-xs">
+                    {member.grade}
+                  </Badge>
+                )}
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => removeMutation.mutate(member.userId)}
+                disabled={removeMutation.isPending}
+                data-testid={`button-remove-league-group-member-${member.userId}`}
+              >
+                <UserMinus className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// apiRequest errors look like `400: {"message":"..."}` - pull out the message
+function parseErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
@@ -1,21 +1,26 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQueries } from "@tanstack/react-query";
 import {
   ComposedChart,
   Bar,
+  Line,
   XAxis,
   YAxis,
   Tooltip,
   ResponsiveContainer,
 } from "recharts";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { MarketCandle } from "@shared/schema";
+import type { MarketCandle, Outcome } from "@shared/schema";
 
 interface MarketCandlestickChartProps {
   marketId: string;
-  outcomeId: string;
-  outcomeLabel: string;
+  // Every outcome of the market. The selected one is drawn as candles, the rest as close-price lines.
+  outcomes: Outcome[];
+  selectedOutcomeId: string;
+  onOutcomeSelect?: (outcomeId: string) => void;
 }
 
+const LINE_COLORS = ["#3b82f6", "#a855f7", "#f97316", "#14b8a6", "#eab308", "#ec4899", "#64748b"];
+
 interface CandleData {
   date: string;
   open: number;
@@ -29,15 +34,35 @@ interface CandleData {
   bodyHeight: number;
   wickTop: number;
   wickBottom: number;
+  // Close of every other outcome on the same day, keyed by outcome id
+  [outcomeId: string]: string | number | boolean;
 }
 
-export function MarketCandlestickChart({ marketId, outcomeId, outcomeLabel }: MarketCandlestickChartProps) {
-  const { data: candles, isLoading } = useQuery<MarketCandle[]>({
-    queryKey: ["/api/markets", marketId, "outcomes", outcomeId, "candles"],
-    refetchInterval: 30000,
+export function MarketCandlestickChart({
+  marketId,
+  outcomes,
+  selectedOutcomeId,
+  onOutcomeSelect,
+}: MarketCandlestickChartProps) {
+  const candleQueries = useQueries({
+    queries: outcomes.map((outcome) => ({
+      queryKey: ["/api/markets", marketId, "outcomes", outcome.id, "candles"],
+      refetchInterval: 30000,
+    })),
   });
 
-  if (isLoading) {
+  const selectedIndex = Math.max(
+    outcomes.findIndex((o) => o.id === selectedOutcomeId),
+    0
+  );
+  const selectedOutcome = outcomes[selectedIndex];
+  const outcomeLabel = selectedOutcome?.label ?? "";
+  const candles = candleQueries[selectedIndex]?.data as MarketCandle[] | undefined;
+  const otherOutcomes = outcomes
+    .map((outcome, i) => ({ outcome, color: LINE_COLORS[i % LINE_COLORS.length], query: candleQueries[i] }))
+    .filter(({ outcome }) => outcome.id !== selectedOutcome?.id);
+
+  if (candleQueries[selectedIndex]?.isLoading) {
     return <Skeleton className="h-80 w-full" />;
   }
 
@@ -49,12 +74,27 @@ export function MarketCandlestickChart({ marketId, outcomeId, outcomeLabel }: Ma
     );
   }
 
+  const dayKey = (timestamp: Date) => new Date(timestamp).toDateString();
+  const otherCloses = otherOutcomes.map(({ outcome, query }) => {
+    const closes = new Map<string, number>();
+    for (const candle of (query.data as MarketCandle[] | undefined) ?? []) {
+      closes.set(dayKey(candle.timestamp), candle.close);
+    }
+    return { id: outcome.id, closes };
+  });
+
   const chartData: CandleData[] = candles.map((candle) => {
     const isUp = candle.close >= candle.open;
     const bodyTop = Math.max(candle.open, candle.close);
     const bodyBottom = Math.min(candle.open, candle.close);
-    
+    const others: Record<string, number> = {};
+    for (const { id, closes } of otherCloses) {
+      const close = closes.get(dayKey(candle.timestamp));
+      if (close !== undefined) others[id] = close;
+    }
+
     return {
+      ...others,
       date: new Date(candle.timestamp).toLocaleDateString("en-US", {
         month: "short",
         day: "numeric",
@@ -73,8 +113,9 @@ export function MarketCandlestickChart({ marketId, outcomeId, outcomeLabel }: Ma
     };
   });
 
-  const minPrice = Math.min(...chartData.map((d) => d.low)) * 0.95;
-  const maxPrice = Math.max(...chartData.map((d) => d.high)) * 1.05;
+  const otherPrices = otherCloses.flatMap(({ closes }) => Array.from(closes.values()));
+  const minPrice = Math.min(...chartData.map((d) => d.low), ...otherPrices) * 0.95;
+  const maxPrice = Math.max(...chartData.map((d) => d.high), ...otherPrices) * 1.05;
 
   const CustomCandlestick = (props: any) => {
     const { x, y, width, height, payload } = props;
@@ -137,38 +178,85 @@ export function MarketCandlestickChart({ marketId, outcomeId, outcomeLabel }: Ma
           </span>
           <span className="text-muted-foreground">Volume:</span>
           <span className="text-right">{data.volume.toLocaleString()}</span>
+          {otherOutcomes.map(({ outcome, color }) =>
+            data[outcome.id] === undefined ? null : (
+              <div key={outcome.id} className="contents">
+                <span style={{ color }}>{outcome.label}:</span>
+                <span className="text-right">{(data[outcome.id] * 100).toFixed(0)}¢</span>
+              </div>
+            )
+          )}
         </div>
       </div>
     );
   };
 
   return (
-    <div className="h-80" data-testid="market-candlestick-chart">
-      <ResponsiveContainer width="100%" height="100%">
-        <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
-          <XAxis
-            dataKey="date"
-            tick={{ fontSize: 11 }}
-            tickLine={false}
-            axisLine={{ stroke: "hsl(var(--border))" }}
-            interval="preserveStartEnd"
-          />
-          <YAxis
-            domain={[minPrice, maxPrice]}
-            tickFormatter={(v) => `${(v * 100).toFixed(0)}¢`}
-            tick={{ fontSize: 11 }}
-            tickLine={false}
-            axisLine={{ stroke: "hsl(var(--border))" }}
-            width={50}
-          />
-          <Tooltip content={<CustomTooltip />} />
-          <Bar
-            dataKey="bodyHeight"
-            shape={<CustomCandlestick />}
-            isAnimationActive={false}
-          />
-        </ComposedChart>
-      </ResponsiveContainer>
+    <div data-testid="market-candlestick-chart">
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+            <XAxis
+              dataKey="date"
+              tick={{ fontSize: 11 }}
+              tickLine={false}
+              axisLine={{ stroke: "hsl(var(--border))" }}
+              interval="preserveStartEnd"
+            />
+            <YAxis
+              domain={[minPrice, maxPrice]}
+              tickFormatter={(v) => `${(v * 100).toFixed(0)}¢`}
+              tick={{ fontSize: 11 }}
+              tickLine={false}
+              axisLine={{ stroke: "hsl(var(--border))" }}
+              width={50}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Bar
+              dataKey="bodyHeight"
+              shape={<CustomCandlestick />}
+              isAnimationActive={false}
+            />
+            {otherOutcomes.map(({ outcome, color }) => (
+              <Line
+                key={outcome.id}
+                dataKey={outcome.id}
+                stroke={color}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      {outcomes.length > 1 && (
+        <div className="mt-3 flex flex-wrap gap-2" data-testid="chart-outcome-legend">
+          {outcomes.map((outcome, i) => {
+            const selected = outcome.id === selectedOutcome?.id;
+            return (
+              <button
+                key={outcome.id}
+                type="button"
+                className={`flex items-center gap-1.5 rounded-md border px-2 py-1 text-xs ${
+                  selected ? "border-primary bg-primary/10" : "hover-elevate"
+                }`}
+                onClick={() => onOutcomeSelect?.(outcome.id)}
+                data-testid={`button-chart-outcome-${outcome.id}`}
+              >
+                <span
+                  className="h-2 w-2 rounded-full"
+                  style={{ backgroundColor: selected ? "#22c55e" : LINE_COLORS[i % LINE_COLORS.length] }}
+                />
+                {outcome.label}
+                <span className="font-mono text-muted-foreground">
+                  {(outcome.currentPrice * 100).toFixed(0)}¢
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 }
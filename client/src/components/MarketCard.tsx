@@ -2,12 +2,15 @@ import { Link } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Clock, TrendingUp, TrendingDown, Users } from "lucide-react";
+import { impliedValue, formatScalarValue } from "@/components/ScalarValueChart";
 import type { MarketWithDetails } from "@shared/schema";
 
 interface MarketCardProps {
   market: MarketWithDetails;
 }
 
+const OUTCOME_COLORS = ["bg-blue-500", "bg-purple-500", "bg-orange-500", "bg-teal-500", "bg-yellow-500", "bg-pink-500"];
+
 export function MarketCard({ market }: MarketCardProps) {
   const yesOutcome = market.outcomes?.find((o) => o.label === "YES");
   const noOutcome = market.outcomes?.find((o) => o.label === "NO");
@@ -15,6 +18,11 @@ export function MarketCard({ market }: MarketCardProps) {
   const yesPrice = yesOutcome?.currentPrice ?? 0.5;
   const noPrice = noOutcome?.currentPrice ?? 0.5;
 
+  // Categorical markets (e.g. an election with several candidates) show the leaders instead of YES/NO
+  const isCategorical = (market.outcomes?.length ?? 0) > 2;
+  const longOutcome = market.scalarMeta && market.outcomes?.find((o) => o.label === "LONG");
+  const rankedOutcomes = [...(market.outcomes ?? [])].sort((a, b) => b.currentPrice - a.currentPrice);
+
   const formatPrice = (price: number) => {
     return `$${(price * 100).toFixed(0)}¢`;
   };
@@ -70,38 +78,83 @@ export function MarketCard({ market }: MarketCardProps) {
           {market.description}
         </p>
 
-        <div className="mt-4 flex items-center justify-between">
-          <div className="flex gap-3">
-            <div className="text-center">
-              <p className="text-xs text-muted-foreground">YES</p>
-              <p className="font-mono text-lg font-semibold text-green-600 dark:text-green-400">
-                {formatPrice(yesPrice)}
+        {market.scalarMeta && longOutcome ? (
+          <>
+            <div className="mt-4">
+              <p className="text-xs text-muted-foreground">Expected</p>
+              <p className="font-mono text-lg font-semibold">
+                {formatScalarValue(market.scalarMeta, impliedValue(market.scalarMeta, longOutcome.currentPrice))}
               </p>
             </div>
-            <div className="text-center">
-              <p className="text-xs text-muted-foreground">NO</p>
-              <p className="font-mono text-lg font-semibold text-red-600 dark:text-red-400">
-                {formatPrice(noPrice)}
-              </p>
+
+            <div className="mt-3 flex h-1.5 overflow-hidden rounded-full bg-muted">
+              <div className="bg-blue-500 transition-all" style={{ width: `${longOutcome.currentPrice * 100}%` }} />
+            </div>
+            <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+              <span>{formatScalarValue(market.scalarMeta, market.scalarMeta.lowerBound)}</span>
+              <span>{formatScalarValue(market.scalarMeta, market.scalarMeta.upperBound)}</span>
+            </div>
+          </>
+        ) : isCategorical ? (
+          <>
+            <div className="mt-4 space-y-1">
+              {rankedOutcomes.slice(0, 3).map((outcome) => (
+                <div key={outcome.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{outcome.label}</span>
+                  <span className="font-mono font-semibold">{formatPrice(outcome.currentPrice)}</span>
+                </div>
+              ))}
+              {rankedOutcomes.length > 3 && (
+                <p className="text-xs text-muted-foreground">+{rankedOutcomes.length - 3} more</p>
+              )}
             </div>
-          </div>
 
-          <div className="flex items-center gap-1 text-xs text-muted-foreground">
-            <Users className="h-3 w-3" />
-            <span>124 traders</span>
-          </div>
-        </div>
+            <div className="mt-3 flex h-1.5 overflow-hidden rounded-full bg-muted">
+              {rankedOutcomes.map((outcome, i) => (
+                <div
+                  key={outcome.id}
+                  className={`${OUTCOME_COLORS[i % OUTCOME_COLORS.length]} transition-all`}
+                  style={{ width: `${outcome.currentPrice * 100}%` }}
+                />
+              ))}
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="mt-4 flex items-center justify-between">
+              <div className="flex gap-3">
+                <div className="text-center">
+                  <p className="text-xs text-muted-foreground">YES</p>
+                  <p className="font-mono text-lg font-semibold text-green-600 dark:text-green-400">
+                    {formatPrice(yesPrice)}
+                  </p>
+                </div>
+                <div className="text-center">
+                  <p className="text-xs text-muted-foreground">NO</p>
+                  <p className="font-mono text-lg font-semibold text-red-600 dark:text-red-400">
+                    {formatPrice(noPrice)}
+                  </p>
+                </div>
+              </div>
 
-        <div className="mt-3 flex h-1.5 overflow-hidden rounded-full bg-muted">
-          <div
-            className="bg-green-500 transition-all"
-            style={{ width: `${yesPrice * 100}%` }}
-          />
-          <div
-            className="bg-red-500 transition-all"
-            style={{ width: `${noPrice * 100}%` }}
-          />
-        </div>
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Users className="h-3 w-3" />
+                <span>124 traders</span>
+              </div>
+            </div>
+
+            <div className="mt-3 flex h-1.5 overflow-hidden rounded-full bg-muted">
+              <div
+                className="bg-green-500 transition-all"
+                style={{ width: `${yesPrice * 100}%` }}
+              />
+              <div
+                className="bg-red-500 transition-all"
+                style={{ width: `${noPrice * 100}%` }}
+              />
+            </div>
+          </>
+        )}
       </Card>
     </Link>
   );
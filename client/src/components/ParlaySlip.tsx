@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/context/AuthContext";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Ticket, X } from "lucide-react";
+
+export interface SlipLeg {
+  marketId: string;
+  outcomeId: string;
+  marketTitle: string;
+  outcomeLabel: string;
+  // Current price of the outcome - the server re-reads it when the slip is placed
+  price: number;
+}
+
+interface ParlaySlipProps {
+  legs: SlipLeg[];
+  onRemove: (marketId: string) => void;
+  onPlaced: () => void;
+}
+
+const MIN_LEGS = 2;
+const MAX_LEGS = 8;
+
+export function ParlaySlip({ legs, onRemove, onPlaced }: ParlaySlipProps) {
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
+  const [stake, setStake] = useState("10");
+
+  const placeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/parlays", {
+        stake: parseFloat(stake),
+        legs: legs.map(({ marketId, outcomeId }) => ({ marketId, outcomeId })),
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      refreshUser();
+      queryClient.invalidateQueries({ queryKey: ["/api/parlays"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      toast({
+        title: "Parlay placed",
+        description: `Pays $${data.parlay.potentialPayout.toFixed(2)} if all ${legs.length} legs hit.`,
+      });
+      onPlaced();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Parlay failed",
+        description: parseErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const stakeAmount = parseFloat(stake) || 0;
+  const odds = legs.reduce((product, leg) => product / leg.price, 1);
+  const canPlace =
+    user?.status === "VERIFIED" &&
+    legs.length >= MIN_LEGS &&
+    legs.length <= MAX_LEGS &&
+    stakeAmount >= 1 &&
+    stakeAmount <= 1000 &&
+    stakeAmount <= (user?.balance ?? 0);
+
+  return (
+    <Card data-testid="card-parlay-slip">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between gap-2 text-lg">
+          <span className="flex items-center gap-2">
+            <Ticket className="h-5 w-5 text-primary" />
+            Parlay Slip
+          </span>
+          <Badge variant="secondary">
+            {legs.length}/{MAX_LEGS} legs
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {legs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Pick a side on {MIN_LEGS} to {MAX_LEGS} different games. Every leg has to hit for the slip to pay.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {legs.map((leg) => (
+              <div
+                key={leg.marketId}
+                className="flex items-start justify-between gap-2 rounded-md border p-2 text-sm"
+                data-testid={`slip-leg-${leg.marketId}`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium">{leg.outcomeLabel}</p>
+                  <p className="line-clamp-1 text-xs text-muted-foreground">{leg.marketTitle}</p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <span className="font-mono text-xs">{(1 / leg.price).toFixed(2)}x</span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => onRemove(leg.marketId)}
+                    data-testid={`button-remove-leg-${leg.marketId}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="parlay-stake">Stake ($)</Label>
+          <Input
+            id="parlay-stake"
+            type="number"
+            min="1"
+            max="1000"
+            value={stake}
+            onChange={(e) => setStake(e.target.value)}
+            className="font-mono"
+            data-testid="input-parlay-stake"
+          />
+        </div>
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Combined odds</span>
+            <span className="font-mono">{legs.length ? `${odds.toFixed(2)}x` : "-"}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Payout if every leg hits</span>
+            <span className="font-mono font-medium">${legs.length ? (stakeAmount * odds).toFixed(2) : "0.00"}</span>
+          </div>
+        </div>
+        <Button
+          className="w-full"
+          onClick={() => placeMutation.mutate()}
+          disabled={!canPlace || placeMutation.isPending}
+          data-testid="button-place-parlay"
+        >
+          {placeMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Place Parlay"}
+        </Button>
+        {!user && <p className="text-center text-xs text-muted-foreground">Log in to place a parlay</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+// apiRequest errors look like `400: {"message":"..."}` - pull out the message
+function parseErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, ShieldAlert, Target, X } from "lucide-react";
+import type { ConditionalOrder, ConditionalOrderType, PositionWithDetails } from "@shared/schema";
+
+interface PositionTriggersProps {
+  position: PositionWithDetails;
+  // Active stop-loss / take-profit orders on this position
+  orders: ConditionalOrder[];
+}
+
+export function PositionTriggers({ position, orders }: PositionTriggersProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState<ConditionalOrderType>("STOP_LOSS");
+  const [triggerPrice, setTriggerPrice] = useState("");
+  const [quantity, setQuantity] = useState("");
+
+  const currentPrice = position.outcome?.currentPrice ?? position.stockMeta?.currentPrice ?? 0;
+  const decimals = position.outcome ? 3 : 2;
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/conditional-orders", {
+        positionId: position.id,
+        type,
+        triggerPrice: parseFloat(triggerPrice),
+        qty: quantity ? parseInt(quantity) : null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conditional-orders"] });
+      toast({ title: type === "STOP_LOSS" ? "Stop-loss set" : "Take-profit set" });
+      setOpen(false);
+      setTriggerPrice("");
+      setQuantity("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to set trigger",
+        description: parseErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const res = await apiRequest("DELETE", `/api/conditional-orders/${orderId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conditional-orders"] });
+      toast({ title: "Trigger removed" });
+    },
+    onError: () => {
+      toast({ title: "Failed to remove trigger", variant: "destructive" });
+    },
+  });
+
+  const price = parseFloat(triggerPrice) || 0;
+  const qty = parseInt(quantity) || 0;
+  const validPrice = type === "STOP_LOSS" ? price > 0 && price < currentPrice : price > currentPrice;
+  const validQty = !quantity || (qty >= 1 && qty <= position.qty);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-t px-4 py-2 text-sm">
+      {orders.map((order) => (
+        <Badge key={order.id} variant="outline" className="gap-1" data-testid={`badge-trigger-${order.id}`}>
+          {order.type === "STOP_LOSS" ? <ShieldAlert className="h-3 w-3" /> : <Target className="h-3 w-3" />}
+          {order.type === "STOP_LOSS" ? "Stop" : "Target"} {order.type === "STOP_LOSS" ? "≤" : "≥"} $
+          {order.triggerPrice.toFixed(decimals)}
+          {order.qty ? ` · ${order.qty} sh` : ""}
+          <button
+            type="button"
+            className="ml-1 rounded-sm opacity-60 hover:opacity-100"
+            onClick={() => cancelMutation.mutate(order.id)}
+            disabled={cancelMutation.isPending}
+            aria-label="Remove trigger"
+            data-testid={`button-cancel-trigger-${order.id}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            data-testid={`button-add-trigger-${position.id}`}
+          >
+            <ShieldAlert className="mr-1 h-3 w-3" />
+            {orders.length ? "Add trigger" : "Set stop-loss / take-profit"}
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {position.stockMeta?.ticker ?? position.market?.title}
+              {position.outcome && ` (${position.outcome.label})`}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-2">
+            <Tabs value={type} onValueChange={(v) => setType(v as ConditionalOrderType)}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="STOP_LOSS" data-testid="tab-stop-loss">
+                  Stop-loss
+                </TabsTrigger>
+                <TabsTrigger value="TAKE_PROFIT" data-testid="tab-take-profit">
+                  Take-profit
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <p className="text-sm text-muted-foreground">
+              {type === "STOP_LOSS"
+                ? "Sell at market if the price drops to or below your trigger."
+                : "Sell at market once the price rises to or above your trigger."}{" "}
+              Current price: <span className="font-mono">${currentPrice.toFixed(decimals)}</span>
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="trigger-price">Trigger price</Label>
+              <Input
+                id="trigger-price"
+                type="number"
+                min="0"
+                step={position.outcome ? "0.01" : "0.05"}
+                value={triggerPrice}
+                onChange={(e) => setTriggerPrice(e.target.value)}
+                data-testid="input-trigger-price"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trigger-qty">Shares (leave blank for the whole position)</Label>
+              <Input
+                id="trigger-qty"
+                type="number"
+                min="1"
+                max={position.qty}
+                placeholder={position.qty.toString()}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                data-testid="input-trigger-qty"
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => createMutation.mutate()}
+              disabled={!validPrice || !validQty || createMutation.isPending}
+              data-testid="button-confirm-trigger"
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : type === "STOP_LOSS" ? (
+                "Set stop-loss"
+              ) : (
+                "Set take-profit"
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// apiRequest errors look like `400: {"message":"..."}` - pull out the message
+function parseErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Lightbulb, Loader2 } from "lucide-react";
+import type { ProposedMarket } from "@shared/schema";
+
+const CATEGORIES = ["Clubs", "Sports", "Events", "Academics", "Elections"];
+
+const getDefaultCloseAt = () => {
+  const twoWeeks = new Date();
+  twoWeeks.setDate(twoWeeks.getDate() + 14);
+  twoWeeks.setHours(17, 0, 0, 0);
+  return twoWeeks.toISOString().slice(0, 16);
+};
+
+const emptyProposal = {
+  title: "",
+  description: "",
+  category: "Clubs",
+  closeAt: getDefaultCloseAt(),
+  resolutionRule: "",
+};
+
+export function ProposeMarketDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [proposal, setProposal] = useState(emptyProposal);
+
+  const { data: proposals } = useQuery<ProposedMarket[]>({
+    queryKey: ["/api/markets/proposals"],
+    enabled: open,
+  });
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/markets", {
+        ...proposal,
+        closeAt: new Date(proposal.closeAt).toISOString(),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/markets/proposals"] });
+      toast({
+        title: "Market submitted",
+        description: "An admin will review it. You'll get an email once it's approved or rejected.",
+      });
+      setProposal(emptyProposal);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to submit market",
+        description: parseErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" data-testid="button-propose-market">
+          <Lightbulb className="h-4 w-4" />
+          Propose a Market
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Propose a Market</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-2">
+          <p className="text-sm text-muted-foreground">
+            Ask a YES/NO question about something at Menlo. Admins review every proposal before it opens
+            for trading.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="proposal-title">Question</Label>
+            <Input
+              id="proposal-title"
+              value={proposal.title}
+              onChange={(e) => setProposal({ ...proposal, title: e.target.value })}
+              placeholder="e.g., Will the robotics team make finals?"
+              data-testid="input-proposal-title"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="proposal-description">Description</Label>
+            <Textarea
+              id="proposal-description"
+              value={proposal.description}
+              onChange={(e) => setProposal({ ...proposal, description: e.target.value })}
+              placeholder="What resolves this market YES?"
+              data-testid="textarea-proposal-description"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={proposal.category} onValueChange={(category) => setProposal({ ...proposal, category })}>
+                <SelectTrigger data-testid="select-proposal-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {category}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-close-at">Closes</Label>
+              <Input
+                id="proposal-close-at"
+                type="datetime-local"
+                value={proposal.closeAt}
+                onChange={(e) => setProposal({ ...proposal, closeAt: e.target.value })}
+                data-testid="input-proposal-close-at"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="proposal-resolution-rule">Resolution rule</Label>
+            <Input
+              id="proposal-resolution-rule"
+              value={proposal.resolutionRule}
+              onChange={(e) => setProposal({ ...proposal, resolutionRule: e.target.value })}
+              placeholder="e.g., Based on the official tournament bracket"
+              data-testid="input-proposal-resolution-rule"
+            />
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => proposeMutation.mutate()}
+            disabled={!proposal.title || !proposal.description || !proposal.resolutionRule || proposeMutation.isPending}
+            data-testid="button-submit-proposal"
+          >
+            {proposeMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Submit for Review"}
+          </Button>
+
+          {proposals && proposals.length > 0 && (
+            <div className="space-y-2 border-t pt-4">
+              <p className="text-sm font-medium">Your proposals</p>
+              {proposals.map((p) => (
+                <div key={p.id} className="rounded-md border p-3 text-sm" data-testid={`proposal-${p.id}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="font-medium">{p.title}</span>
+                    <Badge
+                      variant={p.status === "REJECTED" ? "destructive" : p.status === "PENDING_REVIEW" ? "secondary" : "default"}
+                    >
+                      {p.status === "PENDING_REVIEW" ? "In review" : p.status === "REJECTED" ? "Rejected" : "Approved"}
+                    </Badge>
+                  </div>
+                  {p.status === "REJECTED" && p.review?.reason && (
+                    <p className="mt-1 text-xs text-muted-foreground">{p.review.reason}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// apiRequest errors look like `400: {"message":"..."}` - pull out the message
+function parseErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
@@ -0,0 +1,106 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { MarketCandle, ScalarMeta } from "@shared/schema";
+
+interface ScalarValueChartProps {
+  marketId: string;
+  // The LONG outcome - its price is where the market expects the value to land in the range
+  longOutcomeId: string;
+  scalarMeta: ScalarMeta;
+}
+
+export function impliedValue(scalarMeta: ScalarMeta, longPrice: number): number {
+  return scalarMeta.lowerBound + longPrice * (scalarMeta.upperBound - scalarMeta.lowerBound);
+}
+
+export function formatScalarValue(scalarMeta: ScalarMeta, value: number): string {
+  const range = scalarMeta.upperBound - scalarMeta.lowerBound;
+  const formatted = value.toLocaleString("en-US", { maximumFractionDigits: range <= 10 ? 2 : 0 });
+  return scalarMeta.unit ? `${formatted} ${scalarMeta.unit}` : formatted;
+}
+
+export function ScalarValueChart({ marketId, longOutcomeId, scalarMeta }: ScalarValueChartProps) {
+  const { data: candles, isLoading } = useQuery<MarketCandle[]>({
+    queryKey: ["/api/markets", marketId, "outcomes", longOutcomeId, "candles"],
+    refetchInterval: 30000,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-80 w-full" />;
+  }
+
+  if (!candles || candles.length === 0) {
+    return (
+      <div className="flex h-80 items-center justify-center text-muted-foreground">
+        No price history available
+      </div>
+    );
+  }
+
+  const chartData = candles.map((candle) => ({
+    date: new Date(candle.timestamp).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    }),
+    value: impliedValue(scalarMeta, candle.close),
+  }));
+
+  const midpoint = (scalarMeta.lowerBound + scalarMeta.upperBound) / 2;
+
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (!active || !payload || !payload[0]) return null;
+    const data = payload[0].payload;
+    return (
+      <div className="rounded-lg border bg-popover p-3 text-sm shadow-lg">
+        <p className="font-medium text-foreground">{data.date}</p>
+        <p className="mt-1 font-mono text-xs">
+          Expected: {formatScalarValue(scalarMeta, data.value)}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-80" data-testid="scalar-value-chart">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+          <XAxis
+            dataKey="date"
+            tick={{ fontSize: 11 }}
+            tickLine={false}
+            axisLine={{ stroke: "hsl(var(--border))" }}
+            interval="preserveStartEnd"
+          />
+          <YAxis
+            domain={[scalarMeta.lowerBound, scalarMeta.upperBound]}
+            tickFormatter={(v) => v.toLocaleString("en-US", { maximumFractionDigits: 1 })}
+            tick={{ fontSize: 11 }}
+            tickLine={false}
+            axisLine={{ stroke: "hsl(var(--border))" }}
+            width={50}
+          />
+          <Tooltip content={<CustomTooltip />} />
+          <ReferenceLine y={midpoint} stroke="hsl(var(--border))" strokeDasharray="4 4" />
+          <Area
+            type="monotone"
+            dataKey="value"
+            stroke="#3b82f6"
+            fill="#3b82f6"
+            fillOpacity={0.15}
+            strokeWidth={2}
+            isAnimationActive={false}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Flag, Loader2, Plus, Trash2 } from "lucide-react";
+import type { Season, SeasonStatus } from "@shared/schema";
+
+const STATUS_VARIANT: Record<SeasonStatus, "default" | "secondary" | "outline"> = {
+  SCHEDULED: "outline",
+  ACTIVE: "default",
+  ENDING: "default",
+  COMPLETED: "secondary",
+};
+
+const formatDateTime = (date: Date | string) =>
+  new Date(date).toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+
+// Ending a season rewrites every balance, so refresh anything that shows one
+function invalidateSeasons() {
+  queryClient.invalidateQueries({ queryKey: ["/api/seasons"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/leaderboard"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+}
+
+export function SeasonsAdmin() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+
+  const { data: seasons, isLoading } = useQuery<Season[]>({
+    queryKey: ["/api/seasons"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      // datetime-local inputs are in the admin's time zone - send them as instants
+      const res = await apiRequest("POST", "/api/admin/seasons", {
+        name,
+        startsAt: new Date(startsAt).toISOString(),
+        endsAt: new Date(endsAt).toISOString(),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateSeasons();
+      toast({ title: "Season scheduled", description: name });
+      setName("");
+      setStartsAt("");
+      setEndsAt("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: parseErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const endMutation = useMutation({
+    mutationFn: async (seasonId: string): Promise<{ studentsReset: number }> => {
+      const res = await apiRequest("POST", `/api/admin/seasons/${seasonId}/end`);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      invalidateSeasons();
+      toast({ title: "Season ended", description: `Standings archived and ${result.studentsReset} students reset` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: parseErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (seasonId: string) => {
+      const res = await apiRequest("DELETE", `/api/admin/seasons/${seasonId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateSeasons();
+      toast({ title: "Season deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: parseErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const canCreate = name.trim() && startsAt && endsAt && !createMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Seasons</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          When a season ends its final standings go to the Hall of Fame, every open position is sold at the current
+          price and every balance resets to the starting credit.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-2 sm:grid-cols-[1fr_auto_auto_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="season-name">Name</Label>
+            <Input
+              id="season-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Spring 2027"
+              data-testid="input-season-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="season-starts-at">Starts</Label>
+            <Input
+              id="season-starts-at"
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              data-testid="input-season-starts-at"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="season-ends-at">Ends</Label>
+            <Input
+              id="season-ends-at"
+              type="datetime-local"
+              value={endsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+              data-testid="input-season-ends-at"
+            />
+          </div>
+          <Button onClick={() => createMutation.mutate()} disabled={!canCreate} data-testid="button-create-season">
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="mr-1 h-4 w-4" />}
+            Schedule
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-14" />
+            ))}
+          </div>
+        ) : !seasons || seasons.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">No seasons yet</div>
+        ) : (
+          <div className="space-y-2">
+            {seasons.map((season) => (
+              <div
+                key={season.id}
+                className="flex items-center gap-3 rounded-lg border p-3"
+                data-testid={`season-${season.id}`}
+              >
+                <div className="flex-1">
+                  <p className="font-medium">{season.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDateTime(season.startsAt)} - {formatDateTime(season.completedAt ?? season.endsAt)}
+                  </p>
+                </div>
+                <Badge variant={STATUS_VARIANT[season.status as SeasonStatus] ?? "outline"}>{season.status}</Badge>
+                {/* An ENDING season stopped partway through resetting students - ending it again finishes the job */}
+                {(season.status === "ACTIVE" || season.status === "ENDING") && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={endMutation.isPending}
+                        data-testid={`button-end-season-${season.id}`}
+                      >
+                        <Flag className="mr-1 h-4 w-4" />
+                        {season.status === "ENDING" ? "Finish Ending" : "End Now"}
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>End {season.name} now?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The standings will be archived, every student's positions sold at the current price, and
+                          every balance reset to the starting credit. This can't be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => endMutation.mutate(season.id)}>End Season</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+                {season.status === "SCHEDULED" && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(season.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-season-${season.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// apiRequest errors look like `400: {"message":"..."}` - pull out the message
+function parseErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
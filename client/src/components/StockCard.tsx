@@ -47,6 +47,11 @@ export function StockCard({ market }: StockCardProps) {
               <Badge variant="secondary" className={`text-xs ${getCategoryColor(market.category)}`}>
                 {market.category}
               </Badge>
+              {market.status === "IPO" && (
+                <Badge className="text-xs" data-testid={`badge-ipo-${stock.ticker}`}>
+                  IPO
+                </Badge>
+              )}
             </div>
             <p className="mt-1 text-sm text-muted-foreground line-clamp-1">{market.title}</p>
           </div>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,8 +8,13 @@ import { useAuth } from "@/context/AuthContext";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, ArrowUpRight, ArrowDownRight, Wallet, Package } from "lucide-react";
-import type { MarketWithDetails, Position } from "@shared/schema";
+import { Loader2, ArrowUpRight, ArrowDownRight, TrendingDown, Wallet, Package } from "lucide-react";
+import type { LimitOrder, MarketWithDetails, Position, TradeQuote } from "@shared/schema";
+
+// How far the fill may move from the quote before the server rejects the trade
+const SLIPPAGE_TOLERANCE = 0.01;
+// Cash locked on top of the sale proceeds when shorting (INITIAL_MARGIN_RATE on the server)
+const SHORT_MARGIN_RATE = 0.5;
 
 interface TradingWidgetProps {
   market: MarketWithDetails;
@@ -20,8 +25,10 @@ interface TradingWidgetProps {
 export function TradingWidget({ market, selectedOutcomeId, onOutcomeSelect }: TradingWidgetProps) {
   const { user, refreshUser } = useAuth();
   const { toast } = useToast();
-  const [side, setSide] = useState<"BUY" | "SELL">("BUY");
+  const [mode, setMode] = useState<"BUY" | "SELL" | "SHORT">("BUY");
   const [quantity, setQuantity] = useState("");
+  const [orderType, setOrderType] = useState<"MARKET" | "LIMIT">("MARKET");
+  const [limitPrice, setLimitPrice] = useState("");
 
   // Fetch user's portfolio to get owned shares
   const { data: portfolio } = useQuery<{ positions: Position[] }>({
@@ -35,15 +42,49 @@ export function TradingWidget({ market, selectedOutcomeId, onOutcomeSelect }: Tr
   );
   const ownedShares = ownedPosition?.qty ?? 0;
 
-  const isPredictionMarket = market.type === "PREDICTION";
+  // Scalar markets trade LONG/SHORT outcomes the same way
+  const isPredictionMarket = market.type !== "STOCK";
+  // A short is priced like a sell - borrowed shares go into the curve
+  const side = mode === "BUY" ? "BUY" : "SELL";
+  const isShort = mode === "SHORT";
   const selectedOutcome = market.outcomes?.find((o) => o.id === selectedOutcomeId);
   const currentPrice = isPredictionMarket
     ? selectedOutcome?.currentPrice ?? 0.5
     : market.stockMeta?.currentPrice ?? 10;
 
   const qty = parseInt(quantity) || 0;
-  const total = qty * currentPrice;
+  const limit = parseFloat(limitPrice) || 0;
+  const isLimit = orderType === "LIMIT" && !isShort;
+
+  // Only ask for a new quote once the quantity stops changing
+  const [quoteQty, setQuoteQty] = useState(qty);
+  useEffect(() => {
+    const timer = setTimeout(() => setQuoteQty(qty), 300);
+    return () => clearTimeout(timer);
+  }, [qty]);
+
+  // currentPrice is part of the key so the quote refreshes whenever the market moves
+  const { data: quote, error: quoteError, isFetching: quoteFetching } = useQuery<TradeQuote>({
+    queryKey: ["/api/trades/quote", market.id, selectedOutcomeId, side, quoteQty, currentPrice],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/trades/quote", {
+        marketId: market.id,
+        outcomeId: selectedOutcomeId,
+        side,
+        qty: quoteQty,
+      });
+      return res.json();
+    },
+    enabled: market.status === "OPEN" && quoteQty > 0 && (!isPredictionMarket || !!selectedOutcomeId),
+    staleTime: 0,
+  });
+  const liveQuote = quote && quote.qty === qty && quote.side === side ? quote : undefined;
+  const quoteErrorMessage = quoteError ? parseErrorMessage(quoteError) : null;
+
+  const averagePrice = liveQuote?.averagePrice ?? currentPrice;
+  const total = liveQuote?.total ?? qty * currentPrice;
   const estimatedReturn = isPredictionMarket ? qty * 1 - total : 0;
+  const shortMargin = total * SHORT_MARGIN_RATE;
 
   const tradeMutation = useMutation({
     mutationFn: async () => {
@@ -52,6 +93,9 @@ export function TradingWidget({ market, selectedOutcomeId, onOutcomeSelect }: Tr
         outcomeId: selectedOutcomeId,
         side,
         qty,
+        ...(side === "BUY"
+          ? { maxPrice: averagePrice * (1 + SLIPPAGE_TOLERANCE) }
+          : { minPrice: averagePrice * (1 - SLIPPAGE_TOLERANCE) }),
       });
       if (!res.ok) {
         const data = await res.json();
@@ -72,7 +116,70 @@ export function TradingWidget({ market, selectedOutcomeId, onOutcomeSelect }: Tr
     onError: (error: Error) => {
       toast({
         title: "Trade failed",
-        description: error.message,
+        description: parseErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const shortMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/shorts", {
+        marketId: market.id,
+        qty,
+        minPrice: averagePrice * (1 - SLIPPAGE_TOLERANCE),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Short opened",
+        description: `Shorted ${qty} shares - $${shortMargin.toFixed(2)} locked as margin`,
+      });
+      setQuantity("");
+      refreshUser();
+      queryClient.invalidateQueries({ queryKey: ["/api/markets", market.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Short failed",
+        description: parseErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const limitOrderMutation = useMutation({
+    mutationFn: async (): Promise<LimitOrder> => {
+      const res = await apiRequest("POST", "/api/orders", {
+        marketId: market.id,
+        outcomeId: selectedOutcomeId,
+        side,
+        qty,
+        limitPrice: limit,
+      });
+      return res.json();
+    },
+    onSuccess: (order) => {
+      toast({
+        title: order.status === "FILLED" ? "Limit order filled!" : "Limit order placed",
+        description:
+          order.status === "FILLED"
+            ? `${side === "BUY" ? "Bought" : "Sold"} ${order.qty} shares`
+            : `${order.filledQty} of ${order.qty} shares filled so far - see your Portfolio for open orders`,
+      });
+      setQuantity("");
+      setLimitPrice("");
+      refreshUser();
+      queryClient.invalidateQueries({ queryKey: ["/api/markets", market.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Order failed",
+        description: parseErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -80,8 +187,10 @@ export function TradingWidget({ market, selectedOutcomeId, onOutcomeSelect }: Tr
 
   const handleMaxClick = () => {
     if (!user) return;
-    if (side === "BUY") {
-      const maxQty = Math.floor(user.balance / currentPrice);
+    if (isShort) {
+      setQuantity(Math.min(Math.floor(user.balance / (currentPrice * SHORT_MARGIN_RATE)), 1000).toString());
+    } else if (side === "BUY") {
+      const maxQty = Math.floor(user.balance / (isLimit && limit > 0 ? limit : currentPrice));
       setQuantity(Math.min(maxQty, 1000).toString());
     } else {
       // For selling, max is owned shares
@@ -89,10 +198,18 @@ export function TradingWidget({ market, selectedOutcomeId, onOutcomeSelect }: Tr
     }
   };
 
-  // Validate trade conditions
-  const canBuy = user?.status === "VERIFIED" && qty > 0 && total <= (user?.balance ?? 0);
-  const canSell = user?.status === "VERIFIED" && qty > 0 && qty <= ownedShares;
-  const canTrade = side === "BUY" ? canBuy : canSell;
+  // Validate trade conditions. Market orders and shorts wait for a quote for
+  // this exact qty and side - the slippage bound sent with them comes from it.
+  const canBuy = user?.status === "VERIFIED" && !!liveQuote && !quoteErrorMessage && total <= (user?.balance ?? 0);
+  const canSell = user?.status === "VERIFIED" && !!liveQuote && !quoteErrorMessage && qty <= ownedShares;
+  const canPlaceLimit =
+    user?.status === "VERIFIED" &&
+    qty > 0 &&
+    limit > 0 &&
+    (side === "BUY" ? qty * limit <= (user?.balance ?? 0) : qty <= ownedShares);
+  const canShort = user?.status === "VERIFIED" && !!liveQuote && !quoteErrorMessage && shortMargin <= (user?.balance ?? 0);
+  const canTrade = isShort ? canShort : isLimit ? canPlaceLimit : side === "BUY" ? canBuy : canSell;
+  const isPending = tradeMutation.isPending || limitOrderMutation.isPending || shortMutation.isPending;
 
   if (market.status !== "OPEN") {
     return (
@@ -118,16 +235,16 @@ export function TradingWidget({ market, selectedOutcomeId, onOutcomeSelect }: Tr
       </CardHeader>
       <CardContent className="space-y-4">
         {isPredictionMarket && market.outcomes && (
-          <div className="flex gap-2">
+          <div className={market.outcomes.length > 2 ? "grid grid-cols-2 gap-2" : "flex gap-2"}>
             {market.outcomes.map((outcome) => (
               <Button
                 key={outcome.id}
                 variant={selectedOutcomeId === outcome.id ? "default" : "outline"}
-                className="flex-1"
+                className="min-w-0 flex-1"
                 onClick={() => onOutcomeSelect?.(outcome.id)}
-                data-testid={`button-outcome-${outcome.label.toLowerCase()}`}
+                data-testid={`button-outcome-${outcome.label.toLowerCase().replace(/\s+/g, "-")}`}
               >
-                {outcome.label}
+                <span className="truncate">{outcome.label}</span>
                 <span className="ml-2 font-mono">
                   ${(outcome.currentPrice * 100).toFixed(0)}¢
                 </span>
@@ -136,8 +253,8 @@ export function TradingWidget({ market, selectedOutcomeId, onOutcomeSelect }: Tr
           </div>
         )}
 
-        <Tabs value={side} onValueChange={(v) => setSide(v as "BUY" | "SELL")}>
-          <TabsList className="grid w-full grid-cols-2">
+        <Tabs value={mode} onValueChange={(v) => setMode(v as "BUY" | "SELL" | "SHORT")}>
+          <TabsList className={`grid w-full ${isPredictionMarket ? "grid-cols-2" : "grid-cols-3"}`}>
             <TabsTrigger value="BUY" className="gap-2" data-testid="tab-buy">
               <ArrowUpRight className="h-4 w-4" />
               Buy
@@ -146,9 +263,28 @@ export function TradingWidget({ market, selectedOutcomeId, onOutcomeSelect }: Tr
               <ArrowDownRight className="h-4 w-4" />
               Sell
             </TabsTrigger>
+            {!isPredictionMarket && (
+              <TabsTrigger value="SHORT" className="gap-2" data-testid="tab-short">
+                <TrendingDown className="h-4 w-4" />
+                Short
+              </TabsTrigger>
+            )}
           </TabsList>
         </Tabs>
 
+        {!isShort && (
+          <Tabs value={orderType} onValueChange={(v) => setOrderType(v as "MARKET" | "LIMIT")}>
+            <TabsList className="grid h-8 w-full grid-cols-2">
+              <TabsTrigger value="MARKET" className="text-xs" data-testid="tab-order-market">
+                Market
+              </TabsTrigger>
+              <TabsTrigger value="LIMIT" className="text-xs" data-testid="tab-order-limit">
+                Limit
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <Label htmlFor="quantity">Shares</Label>
@@ -175,24 +311,111 @@ export function TradingWidget({ market, selectedOutcomeId, onOutcomeSelect }: Tr
           />
         </div>
 
-        <div className="space-y-2 rounded-md bg-muted p-3 text-sm">
-          <div className="flex justify-between">
-            <span className="text-muted-foreground">Price per share</span>
-            <span className="font-mono font-medium">${currentPrice.toFixed(2)}</span>
+        {isLimit && (
+          <div className="space-y-2">
+            <Label htmlFor="limit-price">Limit price</Label>
+            <Input
+              id="limit-price"
+              type="number"
+              placeholder={currentPrice.toFixed(isPredictionMarket ? 3 : 2)}
+              value={limitPrice}
+              onChange={(e) => setLimitPrice(e.target.value)}
+              min="0"
+              step={isPredictionMarket ? "0.01" : "0.05"}
+              data-testid="input-limit-price"
+            />
           </div>
-          <div className="flex justify-between">
-            <span className="text-muted-foreground">Total cost</span>
-            <span className="font-mono font-medium">${total.toFixed(2)}</span>
+        )}
+
+        {isLimit ? (
+          <div className="space-y-2 rounded-md bg-muted p-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Current price</span>
+              <span className="font-mono font-medium">${currentPrice.toFixed(isPredictionMarket ? 3 : 2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">{side === "BUY" ? "Reserved now" : "Minimum proceeds"}</span>
+              <span className="font-mono font-medium" data-testid="text-limit-total">
+                ${(qty * limit).toFixed(2)}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {side === "BUY"
+                ? "Fills when shares can be bought at or below your limit. Unused cash comes back when the order fills or is cancelled."
+                : "Fills when shares can be sold at or above your limit. The shares stay locked until then."}
+            </p>
           </div>
-          {isPredictionMarket && side === "BUY" && qty > 0 && (
-            <div className="flex justify-between border-t pt-2">
-              <span className="text-muted-foreground">Potential return</span>
-              <span className="font-mono font-medium text-green-600 dark:text-green-400">
-                +${estimatedReturn.toFixed(2)}
+        ) : (
+          <div className="space-y-2 rounded-md bg-muted p-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                {liveQuote ? "Avg. price per share" : "Price per share"}
+              </span>
+              <span className="font-mono font-medium">
+                {quoteFetching && <Loader2 className="mr-1 inline h-3 w-3 animate-spin" />}
+                ${averagePrice.toFixed(isPredictionMarket ? 3 : 2)}
               </span>
             </div>
-          )}
-        </div>
+            {liveQuote && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Price impact</span>
+                  <span
+                    className={`font-mono font-medium ${
+                      liveQuote.priceImpact > 0.05 ? "text-destructive" : ""
+                    }`}
+                    data-testid="text-price-impact"
+                  >
+                    {(liveQuote.priceImpact * 100).toFixed(2)}%
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Price after trade</span>
+                  <span className="font-mono font-medium">
+                    ${liveQuote.postTradePrice.toFixed(isPredictionMarket ? 3 : 2)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Fees</span>
+                  <span className="font-mono font-medium">${liveQuote.fee.toFixed(2)}</span>
+                </div>
+              </>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                {side === "BUY" ? "Total cost" : isShort ? "Proceeds (held as collateral)" : "Total proceeds"}
+              </span>
+              <span className="font-mono font-medium" data-testid="text-trade-total">${total.toFixed(2)}</span>
+            </div>
+            {isShort && qty > 0 && (
+              <>
+                <div className="flex justify-between border-t pt-2">
+                  <span className="text-muted-foreground">Margin from your balance</span>
+                  <span className="font-mono font-medium" data-testid="text-short-margin">
+                    ${shortMargin.toFixed(2)}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  A small borrow fee is charged every price update. If the price rises far enough the
+                  short is covered automatically.
+                </p>
+              </>
+            )}
+            {quoteErrorMessage && qty > 0 && (
+              <p className="text-xs text-destructive" data-testid="text-quote-error">
+                {quoteErrorMessage}
+              </p>
+            )}
+            {isPredictionMarket && side === "BUY" && qty > 0 && (
+              <div className="flex justify-between border-t pt-2">
+                <span className="text-muted-foreground">Potential return</span>
+                <span className="font-mono font-medium text-green-600 dark:text-green-400">
+                  +${estimatedReturn.toFixed(2)}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
 
         {user && (
           <div className="flex flex-col gap-1">
@@ -215,18 +438,21 @@ export function TradingWidget({ market, selectedOutcomeId, onOutcomeSelect }: Tr
 
         <Button
           className="w-full"
-          disabled={!canTrade || tradeMutation.isPending}
-          onClick={() => tradeMutation.mutate()}
+          disabled={!canTrade || isPending}
+          onClick={() =>
+            isShort ? shortMutation.mutate() : isLimit ? limitOrderMutation.mutate() : tradeMutation.mutate()
+          }
           data-testid="button-execute-trade"
         >
-          {tradeMutation.isPending ? (
+          {isPending ? (
             <>
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               Processing...
             </>
           ) : (
             <>
-              {side === "BUY" ? "Buy" : "Sell"} {qty > 0 ? `${qty} shares` : "Shares"}
+              {isShort ? "Short" : isLimit ? `Place limit ${side.toLowerCase()}` : side === "BUY" ? "Buy" : "Sell"}{" "}
+              {qty > 0 ? `${qty} shares` : "Shares"}
             </>
           )}
         </Button>
@@ -246,3 +472,13 @@ export function TradingWidget({ market, selectedOutcomeId, onOutcomeSelect }: Tr
     </Card>
   );
 }
+
+// apiRequest errors look like `400: {"message":"..."}` - pull out the message
+function parseErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
@@ -42,10 +42,17 @@ import {
   Trophy,
   Download,
   ExternalLink,
-  Upload,
+  TrendingUp,
+  Undo2,
+  RefreshCw,
+  GraduationCap,
+  CalendarRange,
 } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
-import type { User, Market, Report, Game, MarketWithDetails, PolymarketLink } from "@shared/schema";
+import { GameImportDialog } from "@/components/GameImportDialog";
+import { LeagueGroupsAdmin } from "@/components/LeagueGroupsAdmin";
+import { SeasonsAdmin } from "@/components/SeasonsAdmin";
+import type { User, Report, GameWithMarkets, GameMarketKind, MarketWithDetails, PolymarketLink, ProposedMarket, IpoRequest } from "@shared/schema";
 
 const SPORTS = [
   "BASKETBALL",
@@ -74,11 +81,26 @@ export default function Admin() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [isCreateGameOpen, setIsCreateGameOpen] = useState(false);
-  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
-  const [csvText, setCsvText] = useState("");
   const [scoreDialogOpen, setScoreDialogOpen] = useState<string | null>(null);
   const [menloScore, setMenloScore] = useState("");
   const [opponentScore, setOpponentScore] = useState("");
+  const [lineDialogOpen, setLineDialogOpen] = useState<string | null>(null);
+  const [lineKind, setLineKind] = useState<GameMarketKind>("TOTAL");
+  const [lineValue, setLineValue] = useState("");
+  const [voidDialogOpen, setVoidDialogOpen] = useState<string | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [resolveDialogOpen, setResolveDialogOpen] = useState<string | null>(null);
+  const [winningOutcomeId, setWinningOutcomeId] = useState("");
+  const [resolvedValue, setResolvedValue] = useState("");
+  const [isCreateMarketOpen, setIsCreateMarketOpen] = useState(false);
+  const [rejectDialogOpen, setRejectDialogOpen] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [editDialogOpen, setEditDialogOpen] = useState<string | null>(null);
+  const [editedProposal, setEditedProposal] = useState({ title: "", closeAt: "", resolutionRule: "" });
+  const [approveIpoDialogOpen, setApproveIpoDialogOpen] = useState<string | null>(null);
+  const [ipoApproval, setIpoApproval] = useState({ allocationHours: "48", generateHistory: false });
+  const [rejectIpoDialogOpen, setRejectIpoDialogOpen] = useState<string | null>(null);
+  const [rejectIpoReason, setRejectIpoReason] = useState("");
   const getDefaultGameDate = () => {
     const nextWeek = new Date();
     nextWeek.setDate(nextWeek.getDate() + 7);
@@ -86,6 +108,20 @@ export default function Admin() {
     return nextWeek.toISOString().slice(0, 16);
   };
 
+  const emptyMarket = {
+    title: "",
+    description: "",
+    category: "Elections",
+    closeAt: getDefaultGameDate(),
+    resolutionRule: "",
+    kind: "PREDICTION" as "PREDICTION" | "SCALAR",
+    outcomes: ["", ""],
+    lowerBound: "",
+    upperBound: "",
+    unit: "",
+  };
+  const [newMarket, setNewMarket] = useState(emptyMarket);
+
   const [newGame, setNewGame] = useState({
     sport: "BASKETBALL" as typeof SPORTS[number],
     opponent: "",
@@ -103,16 +139,26 @@ export default function Admin() {
     enabled: user?.role === "ADMIN",
   });
 
-  const { data: pendingMarkets, isLoading: marketsLoading } = useQuery<Market[]>({
+  const { data: pendingMarkets, isLoading: marketsLoading } = useQuery<ProposedMarket[]>({
     queryKey: ["/api/admin/markets/pending"],
     enabled: user?.role === "ADMIN",
   });
 
-  const { data: games, isLoading: gamesLoading } = useQuery<Game[]>({
+  const { data: pendingIpos, isLoading: iposLoading } = useQuery<IpoRequest[]>({
+    queryKey: ["/api/admin/ipos/pending"],
+    enabled: user?.role === "ADMIN",
+  });
+
+  const { data: games, isLoading: gamesLoading } = useQuery<GameWithMarkets[]>({
     queryKey: ["/api/admin/games"],
     enabled: user?.role === "ADMIN",
   });
 
+  const { data: predictionMarkets, isLoading: predictionMarketsLoading } = useQuery<MarketWithDetails[]>({
+    queryKey: ["/api/markets"],
+    enabled: user?.role === "ADMIN",
+  });
+
   interface PolymarketEvent {
     id: string;
     title: string;
@@ -198,6 +244,27 @@ export default function Admin() {
     },
   });
 
+  const createLineMarketMutation = useMutation({
+    mutationFn: async ({ gameId, kind, line }: { gameId: string; kind: GameMarketKind; line: number }) => {
+      const res = await apiRequest("POST", `/api/admin/games/${gameId}/line-markets`, { kind, line });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to create market");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/games"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/markets"] });
+      toast({ title: lineKind === "TOTAL" ? "Over/under market created" : "Spread market created" });
+      setLineDialogOpen(null);
+      setLineValue("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const updateScoreMutation = useMutation({
     mutationFn: async ({ gameId, menloScore, opponentScore }: { gameId: string; menloScore: number; opponentScore: number }) => {
       const res = await apiRequest("POST", `/api/admin/games/${gameId}/score`, { menloScore, opponentScore });
@@ -210,7 +277,7 @@ export default function Admin() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/games"] });
       queryClient.invalidateQueries({ queryKey: ["/api/markets"] });
-      toast({ title: "Score updated and market resolved" });
+      toast({ title: "Score updated and markets resolved" });
       setScoreDialogOpen(null);
       setMenloScore("");
       setOpponentScore("");
@@ -220,6 +287,203 @@ export default function Admin() {
     },
   });
 
+  const voidMarketMutation = useMutation({
+    mutationFn: async ({ marketId, reason }: { marketId: string; reason: string }) => {
+      const res = await apiRequest("POST", `/api/admin/markets/${marketId}/void`, {
+        reason: reason || undefined,
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to void market");
+      }
+      return res.json();
+    },
+    onSuccess: (data: { refunds: number; totalRefunded: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/markets"] });
+      toast({
+        title: "Market voided",
+        description: `Refunded $${data.totalRefunded.toFixed(2)} across ${data.refunds} positions`,
+      });
+      setVoidDialogOpen(null);
+      setVoidReason("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resolveMarketMutation = useMutation({
+    mutationFn: async ({ marketId, ...resolution }: { marketId: string; winningOutcomeId?: string; value?: number }) => {
+      const res = await apiRequest("POST", `/api/admin/markets/${marketId}/resolve`, resolution);
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to resolve market");
+      }
+      return res.json();
+    },
+    onSuccess: (data: { payouts: number; totalPaid: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/markets"] });
+      toast({
+        title: "Market resolved",
+        description: `Paid $${data.totalPaid.toFixed(2)} across ${data.payouts} positions`,
+      });
+      setResolveDialogOpen(null);
+      setWinningOutcomeId("");
+      setResolvedValue("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createPredictionMarketMutation = useMutation({
+    mutationFn: async ({ kind, outcomes, lowerBound, upperBound, unit, ...market }: typeof newMarket) => {
+      const fields = {
+        ...market,
+        closeAt: new Date(market.closeAt).toISOString(),
+        resolutionRule: market.resolutionRule || undefined,
+      };
+      const res =
+        kind === "SCALAR"
+          ? await apiRequest("POST", "/api/admin/markets/scalar", {
+              ...fields,
+              lowerBound: parseFloat(lowerBound),
+              upperBound: parseFloat(upperBound),
+              unit: unit || undefined,
+            })
+          : await apiRequest("POST", "/api/admin/markets", {
+              ...fields,
+              outcomes: outcomes.map((o) => o.trim()).filter(Boolean),
+            });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to create market");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/markets"] });
+      toast({ title: "Market created" });
+      setIsCreateMarketOpen(false);
+      setNewMarket(emptyMarket);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const approveMarketMutation = useMutation({
+    mutationFn: async (marketId: string) => {
+      const res = await apiRequest("POST", `/api/admin/markets/${marketId}/approve`, {});
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to approve market");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/markets/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/markets"] });
+      toast({ title: "Market approved", description: "It's open for trading and the creator has been notified" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rejectMarketMutation = useMutation({
+    mutationFn: async ({ marketId, reason }: { marketId: string; reason: string }) => {
+      const res = await apiRequest("POST", `/api/admin/markets/${marketId}/reject`, { reason });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to reject market");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/markets/pending"] });
+      toast({ title: "Market rejected", description: "The creator has been notified" });
+      setRejectDialogOpen(null);
+      setRejectReason("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const approveIpoMutation = useMutation({
+    mutationFn: async ({ requestId, ...approval }: { requestId: string } & typeof ipoApproval) => {
+      const res = await apiRequest("POST", `/api/admin/ipos/${requestId}/approve`, {
+        allocationHours: parseInt(approval.allocationHours),
+        generateHistory: approval.generateHistory,
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to approve IPO");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ipos/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stocks"] });
+      toast({ title: "IPO approved", description: "Students can subscribe until the allocation window closes" });
+      setApproveIpoDialogOpen(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rejectIpoMutation = useMutation({
+    mutationFn: async ({ requestId, reason }: { requestId: string; reason: string }) => {
+      const res = await apiRequest("POST", `/api/admin/ipos/${requestId}/reject`, { reason });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to reject IPO");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ipos/pending"] });
+      toast({ title: "IPO rejected" });
+      setRejectIpoDialogOpen(null);
+      setRejectIpoReason("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const editProposalMutation = useMutation({
+    mutationFn: async ({ marketId, ...updates }: { marketId: string } & typeof editedProposal) => {
+      const res = await apiRequest("PATCH", `/api/admin/markets/${marketId}`, {
+        title: updates.title,
+        closeAt: new Date(updates.closeAt).toISOString(),
+        resolutionRule: updates.resolutionRule || undefined,
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to update market");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/markets/pending"] });
+      toast({ title: "Proposal updated" });
+      setEditDialogOpen(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // datetime-local inputs want local time without a timezone suffix
+  const toLocalInput = (date: Date | string | null) => {
+    if (!date) return "";
+    const d = new Date(date);
+    return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+  };
+
   const deleteGameMutation = useMutation({
     mutationFn: async (gameId: string) => {
       const res = await apiRequest("DELETE", `/api/admin/games/${gameId}`, {});
@@ -257,61 +521,25 @@ export default function Admin() {
     },
   });
 
-  const importCsvMutation = useMutation({
-    mutationFn: async (games: Array<{ sport: string; opponent: string; isHome: boolean; gameDate: string }>) => {
-      const res = await apiRequest("POST", "/api/admin/games/import-csv", { games });
+  const syncPolymarketMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/polymarket/sync");
       if (!res.ok) {
         const error = await res.json();
-        throw new Error(error.message || "Failed to import games");
+        throw new Error(error.message || "Failed to sync prices");
       }
       return res.json();
     },
-    onSuccess: (data: { imported: number; total: number }) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/games"] });
-      toast({ title: `Imported ${data.imported} of ${data.total} games` });
-      setIsCsvImportOpen(false);
-      setCsvText("");
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/polymarket-markets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/markets"] });
+      toast({ title: "Polymarket prices synced" });
     },
     onError: (error: Error) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
     },
   });
 
-  const handleCsvImport = () => {
-    const lines = csvText.trim().split("\n").filter(line => line.trim());
-    if (lines.length === 0) {
-      toast({ title: "No data to import", variant: "destructive" });
-      return;
-    }
-
-    const games = [];
-    for (const line of lines) {
-      const parts = line.split(",").map(p => p.trim());
-      if (parts.length < 4) {
-        toast({ title: "Invalid CSV format", description: `Line "${line}" does not have 4 fields`, variant: "destructive" });
-        return;
-      }
-
-      const [sport, opponent, homeAway, gameDate] = parts;
-      const sportUpper = sport.toUpperCase();
-      if (!SPORTS.includes(sportUpper as typeof SPORTS[number])) {
-        toast({ title: "Invalid sport", description: `"${sport}" is not a valid sport`, variant: "destructive" });
-        return;
-      }
-
-      const isHome = homeAway.toLowerCase() === "home" || homeAway.toLowerCase() === "true";
-
-      games.push({
-        sport: sportUpper,
-        opponent,
-        isHome,
-        gameDate,
-      });
-    }
-
-    importCsvMutation.mutate(games);
-  };
-
   const getImportedEventIds = () => {
     if (!importedMarkets) return new Set<string>();
     return new Set(
@@ -339,6 +567,15 @@ export default function Admin() {
     updateScoreMutation.mutate({ gameId, menloScore: mScore, opponentScore: oScore });
   };
 
+  const handleCreateLineMarket = (gameId: string) => {
+    const line = parseFloat(lineValue);
+    if (isNaN(line)) {
+      toast({ title: "Please enter a line", variant: "destructive" });
+      return;
+    }
+    createLineMarketMutation.mutate({ gameId, kind: lineKind, line });
+  };
+
   const formatDate = (date: Date | string) => {
     return new Date(date).toLocaleDateString("en-US", {
       month: "short",
@@ -412,7 +649,7 @@ export default function Admin() {
                 <AlertTriangle className="h-6 w-6 text-yellow-600 dark:text-yellow-400" />
               </div>
               <div>
-                <p className="text-2xl font-bold">{pendingMarkets?.length ?? 0}</p>
+                <p className="text-2xl font-bold">{(pendingMarkets?.length ?? 0) + (pendingIpos?.length ?? 0)}</p>
                 <p className="text-sm text-muted-foreground">Pending Approvals</p>
               </div>
             </CardContent>
@@ -440,10 +677,22 @@ export default function Admin() {
               <Users className="h-4 w-4" />
               Users
             </TabsTrigger>
+            <TabsTrigger value="markets" className="gap-2" data-testid="tab-admin-markets">
+              <TrendingUp className="h-4 w-4" />
+              Markets
+            </TabsTrigger>
             <TabsTrigger value="games" className="gap-2" data-testid="tab-admin-games">
               <Calendar className="h-4 w-4" />
               Games
             </TabsTrigger>
+            <TabsTrigger value="leagues" className="gap-2" data-testid="tab-admin-leagues">
+              <GraduationCap className="h-4 w-4" />
+              Leagues
+            </TabsTrigger>
+            <TabsTrigger value="seasons" className="gap-2" data-testid="tab-admin-seasons">
+              <CalendarRange className="h-4 w-4" />
+              Seasons
+            </TabsTrigger>
             <TabsTrigger value="polymarket" className="gap-2" data-testid="tab-admin-polymarket">
               <Download className="h-4 w-4" />
               Polymarket Import
@@ -488,36 +737,36 @@ export default function Admin() {
                         </div>
                         {report.status === "PENDING" && (
                           <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() =>
-                                resolveReportMutation.mutate({
-                                  reportId: report.id,
-                                  action: "dismiss",
-                                })
-                              }
-                              disabled={resolveReportMutation.isPending}
-                              data-testid={`button-dismiss-report-${report.id}`}
-                            >
-                              <XCircle className="mr-1 h-4 w-4" />
-                              Dismiss
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="destructive"
-                              onClick={() =>
-                                resolveReportMutation.mutate({
-                                  reportId: report.id,
-                                  action: "hide",
-                                })
-                              }
-                              disabled={resolveReportMutation.isPending}
-                              data-testid={`button-hide-content-${report.id}`}
-                            >
-                              <EyeOff className="mr-1 h-4 w-4" />
-                              Hide Content
-                            </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() =>
+                                  resolveReportMutation.mutate({
+                                    reportId: report.id,
+                                    action: "dismiss",
+                                  })
+                                }
+                                disabled={resolveReportMutation.isPending}
+                                data-testid={`button-dismiss-report-${report.id}`}
+                              >
+                                <XCircle className="mr-1 h-4 w-4" />
+                                Dismiss
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() =>
+                                  resolveReportMutation.mutate({
+                                    reportId: report.id,
+                                    action: "hide",
+                                  })
+                                }
+                                disabled={resolveReportMutation.isPending}
+                                data-testid={`button-hide-content-${report.id}`}
+                              >
+                                <EyeOff className="mr-1 h-4 w-4" />
+                                Hide Content
+                              </Button>
                           </div>
                         )}
                       </div>
@@ -596,54 +845,707 @@ export default function Admin() {
             </Card>
           </TabsContent>
 
-          <TabsContent value="games" className="mt-4">
+          <TabsContent value="markets" className="mt-4 space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Pending Review</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {marketsLoading ? (
+                  <Skeleton className="h-16" />
+                ) : !pendingMarkets?.length ? (
+                  <p className="py-4 text-center text-muted-foreground">No student proposals waiting for review</p>
+                ) : (
+                  <div className="space-y-3">
+                    {pendingMarkets.map((market) => (
+                      <div
+                        key={market.id}
+                        className="flex flex-wrap items-start justify-between gap-4 rounded-lg border p-4"
+                        data-testid={`pending-market-row-${market.id}`}
+                      >
+                        <div className="flex-1 space-y-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge variant="outline">{market.category}</Badge>
+                            <span className="text-xs text-muted-foreground">
+                              Proposed by {market.creatorName ?? "Unknown"}
+                              {market.closeAt && ` · closes ${new Date(market.closeAt).toLocaleString()}`}
+                            </span>
+                          </div>
+                          <p className="font-medium">{market.title}</p>
+                          <p className="text-sm text-muted-foreground">{market.description}</p>
+                          {market.resolutionRule && (
+                            <p className="text-xs text-muted-foreground">Resolution: {market.resolutionRule}</p>
+                          )}
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => approveMarketMutation.mutate(market.id)}
+                            disabled={approveMarketMutation.isPending}
+                            data-testid={`button-approve-market-${market.id}`}
+                          >
+                            <CheckCircle className="mr-1 h-4 w-4" />
+                            Approve
+                          </Button>
+                          <Dialog
+                            open={editDialogOpen === market.id}
+                            onOpenChange={(open) => {
+                              setEditDialogOpen(open ? market.id : null);
+                              if (open) {
+                                setEditedProposal({
+                                  title: market.title,
+                                  closeAt: toLocalInput(market.closeAt),
+                                  resolutionRule: market.resolutionRule ?? "",
+                                });
+                              }
+                            }}
+                          >
+                            <DialogTrigger asChild>
+                              <Button size="sm" variant="outline" data-testid={`button-edit-market-${market.id}`}>
+                                Edit
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent>
+                              <DialogHeader>
+                                <DialogTitle>Edit Proposal</DialogTitle>
+                              </DialogHeader>
+                              <div className="space-y-4 pt-4">
+                                <div className="space-y-2">
+                                  <Label htmlFor="editTitle">Question</Label>
+                                  <Input
+                                    id="editTitle"
+                                    value={editedProposal.title}
+                                    onChange={(e) => setEditedProposal({ ...editedProposal, title: e.target.value })}
+                                    data-testid="input-edit-title"
+                                  />
+                                </div>
+                                <div className="space-y-2">
+                                  <Label htmlFor="editCloseAt">Closes</Label>
+                                  <Input
+                                    id="editCloseAt"
+                                    type="datetime-local"
+                                    value={editedProposal.closeAt}
+                                    onChange={(e) => setEditedProposal({ ...editedProposal, closeAt: e.target.value })}
+                                    data-testid="input-edit-close-at"
+                                  />
+                                </div>
+                                <div className="space-y-2">
+                                  <Label htmlFor="editResolutionRule">Resolution rule</Label>
+                                  <Textarea
+                                    id="editResolutionRule"
+                                    value={editedProposal.resolutionRule}
+                                    onChange={(e) =>
+                                      setEditedProposal({ ...editedProposal, resolutionRule: e.target.value })
+                                    }
+                                    data-testid="textarea-edit-resolution-rule"
+                                  />
+                                </div>
+                                <Button
+                                  onClick={() => editProposalMutation.mutate({ marketId: market.id, ...editedProposal })}
+                                  disabled={!editedProposal.title || !editedProposal.closeAt || editProposalMutation.isPending}
+                                  className="w-full"
+                                  data-testid="button-save-proposal"
+                                >
+                                  {editProposalMutation.isPending ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    "Save Changes"
+                                  )}
+                                </Button>
+                              </div>
+                            </DialogContent>
+                          </Dialog>
+                          <Dialog
+                            open={rejectDialogOpen === market.id}
+                            onOpenChange={(open) => {
+                              setRejectDialogOpen(open ? market.id : null);
+                              if (!open) setRejectReason("");
+                            }}
+                          >
+                            <DialogTrigger asChild>
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                data-testid={`button-reject-market-${market.id}`}
+                              >
+                                <XCircle className="mr-1 h-4 w-4" />
+                                Reject
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent>
+                              <DialogHeader>
+                                <DialogTitle>Reject Proposal</DialogTitle>
+                              </DialogHeader>
+                              <div className="space-y-4 pt-4">
+                                <div className="space-y-2">
+                                  <Label htmlFor="rejectReason">Reason (sent to the student)</Label>
+                                  <Textarea
+                                    id="rejectReason"
+                                    value={rejectReason}
+                                    onChange={(e) => setRejectReason(e.target.value)}
+                                    placeholder="e.g., There's no clear way to verify the result"
+                                    data-testid="textarea-reject-reason"
+                                  />
+                                </div>
+                                <Button
+                                  variant="destructive"
+                                  onClick={() => rejectMarketMutation.mutate({ marketId: market.id, reason: rejectReason })}
+                                  disabled={rejectReason.trim().length < 5 || rejectMarketMutation.isPending}
+                                  className="w-full"
+                                  data-testid="button-confirm-reject"
+                                >
+                                  {rejectMarketMutation.isPending ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    "Reject Proposal"
+                                  )}
+                                </Button>
+                              </div>
+                            </DialogContent>
+                          </Dialog>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>IPO Requests</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {iposLoading ? (
+                  <Skeleton className="h-16" />
+                ) : !pendingIpos?.length ? (
+                  <p className="py-4 text-center text-muted-foreground">No clubs waiting to be listed</p>
+                ) : (
+                  <div className="space-y-3">
+                    {pendingIpos.map((ipo) => (
+                      <div
+                        key={ipo.id}
+                        className="flex flex-wrap items-start justify-between gap-4 rounded-lg border p-4"
+                        data-testid={`pending-ipo-row-${ipo.id}`}
+                      >
+                        <div className="flex-1 space-y-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-mono font-bold">{ipo.ticker}</span>
+                            <Badge variant="outline">{ipo.category}</Badge>
+                            <span className="text-xs text-muted-foreground">
+                              ${ipo.initialPrice.toFixed(2)} · {ipo.floatSupply.toLocaleString()} shares
+                            </span>
+                          </div>
+                          <p className="font-medium">{ipo.name}</p>
+                          <p className="text-sm text-muted-foreground">{ipo.description}</p>
+                        </div>
+                        <div className="flex gap-2">
+                          <Dialog
+                            open={approveIpoDialogOpen === ipo.id}
+                            onOpenChange={(open) => {
+                              setApproveIpoDialogOpen(open ? ipo.id : null);
+                              if (open) setIpoApproval({ allocationHours: "48", generateHistory: false });
+                            }}
+                          >
+                            <DialogTrigger asChild>
+                              <Button size="sm" data-testid={`button-approve-ipo-${ipo.id}`}>
+                                <CheckCircle className="mr-1 h-4 w-4" />
+                                Approve
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent>
+                              <DialogHeader>
+                                <DialogTitle>Approve {ipo.ticker} IPO</DialogTitle>
+                              </DialogHeader>
+                              <div className="space-y-4 pt-4">
+                                <div className="space-y-2">
+                                  <Label htmlFor="allocationHours">Allocation window (hours)</Label>
+                                  <Input
+                                    id="allocationHours"
+                                    type="number"
+                                    min="1"
+                                    max="168"
+                                    value={ipoApproval.allocationHours}
+                                    onChange={(e) => setIpoApproval({ ...ipoApproval, allocationHours: e.target.value })}
+                                    data-testid="input-allocation-hours"
+                                  />
+                                </div>
+                                <div className="flex items-center justify-between gap-4">
+                                  <Label htmlFor="generateHistory">Generate price history</Label>
+                                  <Switch
+                                    id="generateHistory"
+                                    checked={ipoApproval.generateHistory}
+                                    onCheckedChange={(generateHistory) => setIpoApproval({ ...ipoApproval, generateHistory })}
+                                    data-testid="switch-generate-history"
+                                  />
+                                </div>
+                                <Button
+                                  onClick={() => approveIpoMutation.mutate({ requestId: ipo.id, ...ipoApproval })}
+                                  disabled={!ipoApproval.allocationHours || approveIpoMutation.isPending}
+                                  className="w-full"
+                                  data-testid="button-confirm-approve-ipo"
+                                >
+                                  {approveIpoMutation.isPending ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    "Open Allocation Window"
+                                  )}
+                                </Button>
+                              </div>
+                            </DialogContent>
+                          </Dialog>
+                          <Dialog
+                            open={rejectIpoDialogOpen === ipo.id}
+                            onOpenChange={(open) => {
+                              setRejectIpoDialogOpen(open ? ipo.id : null);
+                              if (!open) setRejectIpoReason("");
+                            }}
+                          >
+                            <DialogTrigger asChild>
+                              <Button size="sm" variant="destructive" data-testid={`button-reject-ipo-${ipo.id}`}>
+                                <XCircle className="mr-1 h-4 w-4" />
+                                Reject
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent>
+                              <DialogHeader>
+                                <DialogTitle>Reject {ipo.ticker} IPO</DialogTitle>
+                              </DialogHeader>
+                              <div className="space-y-4 pt-4">
+                                <div className="space-y-2">
+                                  <Label htmlFor="rejectIpoReason">Reason (shown to the club leader)</Label>
+                                  <Textarea
+                                    id="rejectIpoReason"
+                                    value={rejectIpoReason}
+                                    onChange={(e) => setRejectIpoReason(e.target.value)}
+                                    placeholder="e.g., This club is already listed under another ticker"
+                                    data-testid="textarea-reject-ipo-reason"
+                                  />
+                                </div>
+                                <Button
+                                  variant="destructive"
+                                  onClick={() => rejectIpoMutation.mutate({ requestId: ipo.id, reason: rejectIpoReason })}
+                                  disabled={rejectIpoReason.trim().length < 5 || rejectIpoMutation.isPending}
+                                  className="w-full"
+                                  data-testid="button-confirm-reject-ipo"
+                                >
+                                  {rejectIpoMutation.isPending ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    "Reject IPO"
+                                  )}
+                                </Button>
+                              </div>
+                            </DialogContent>
+                          </Dialog>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
-                <CardTitle>Games Management</CardTitle>
-                <div className="flex gap-2">
-                  <Dialog open={isCsvImportOpen} onOpenChange={setIsCsvImportOpen}>
-                    <DialogTrigger asChild>
-                      <Button size="sm" variant="outline" data-testid="button-import-csv">
-                        <Upload className="mr-1 h-4 w-4" />
-                        Import CSV
-                      </Button>
-                    </DialogTrigger>
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Import Games from CSV</DialogTitle>
-                      </DialogHeader>
-                      <div className="space-y-4 pt-4">
+                <CardTitle>Prediction Markets</CardTitle>
+                <Dialog open={isCreateMarketOpen} onOpenChange={setIsCreateMarketOpen}>
+                  <DialogTrigger asChild>
+                    <Button size="sm" data-testid="button-create-market">
+                      <Plus className="mr-1 h-4 w-4" />
+                      Create Market
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                      <DialogTitle>Create Prediction Market</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-4 pt-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="marketTitle">Question</Label>
+                        <Input
+                          id="marketTitle"
+                          value={newMarket.title}
+                          onChange={(e) => setNewMarket({ ...newMarket, title: e.target.value })}
+                          placeholder="e.g., Who will win student body president?"
+                          data-testid="input-market-title"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="marketDescription">Description</Label>
+                        <Textarea
+                          id="marketDescription"
+                          value={newMarket.description}
+                          onChange={(e) => setNewMarket({ ...newMarket, description: e.target.value })}
+                          data-testid="textarea-market-description"
+                        />
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
                         <div className="space-y-2">
-                          <Label>CSV Data</Label>
-                          <Textarea
-                            value={csvText}
-                            onChange={(e) => setCsvText(e.target.value)}
-                            placeholder="BASKETBALL,Sacred Heart Prep,home,2026-01-25T19:00"
-                            className="min-h-[150px] font-mono text-sm"
-                            data-testid="textarea-csv-import"
+                          <Label htmlFor="marketCategory">Category</Label>
+                          <Input
+                            id="marketCategory"
+                            value={newMarket.category}
+                            onChange={(e) => setNewMarket({ ...newMarket, category: e.target.value })}
+                            data-testid="input-market-category"
                           />
-                          <p className="text-sm text-muted-foreground">
-                            Format: sport,opponent,home/away,date
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="marketCloseAt">Closes</Label>
+                          <Input
+                            id="marketCloseAt"
+                            type="datetime-local"
+                            value={newMarket.closeAt}
+                            onChange={(e) => setNewMarket({ ...newMarket, closeAt: e.target.value })}
+                            data-testid="input-market-close-at"
+                          />
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="marketResolutionRule">Resolution rule (optional)</Label>
+                        <Input
+                          id="marketResolutionRule"
+                          value={newMarket.resolutionRule}
+                          onChange={(e) => setNewMarket({ ...newMarket, resolutionRule: e.target.value })}
+                          placeholder="e.g., Based on official election results"
+                          data-testid="input-market-resolution-rule"
+                        />
+                      </div>
+                      <Tabs
+                        value={newMarket.kind}
+                        onValueChange={(v) => setNewMarket({ ...newMarket, kind: v as typeof newMarket.kind })}
+                      >
+                        <TabsList className="grid w-full grid-cols-2">
+                          <TabsTrigger value="PREDICTION" data-testid="tab-market-kind-prediction">
+                            Outcomes
+                          </TabsTrigger>
+                          <TabsTrigger value="SCALAR" data-testid="tab-market-kind-scalar">
+                            Numeric range
+                          </TabsTrigger>
+                        </TabsList>
+                      </Tabs>
+                      {newMarket.kind === "SCALAR" ? (
+                        <div className="space-y-2">
+                          <p className="text-xs text-muted-foreground">
+                            Students trade LONG and SHORT on where the answer lands. At resolution LONG
+                            pays out in proportion to how far up the range the value is.
                           </p>
+                          <div className="grid grid-cols-3 gap-2">
+                            <div className="space-y-1">
+                              <Label htmlFor="marketLowerBound">Lower bound</Label>
+                              <Input
+                                id="marketLowerBound"
+                                type="number"
+                                value={newMarket.lowerBound}
+                                onChange={(e) => setNewMarket({ ...newMarket, lowerBound: e.target.value })}
+                                data-testid="input-market-lower-bound"
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <Label htmlFor="marketUpperBound">Upper bound</Label>
+                              <Input
+                                id="marketUpperBound"
+                                type="number"
+                                value={newMarket.upperBound}
+                                onChange={(e) => setNewMarket({ ...newMarket, upperBound: e.target.value })}
+                                data-testid="input-market-upper-bound"
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <Label htmlFor="marketUnit">Unit</Label>
+                              <Input
+                                id="marketUnit"
+                                value={newMarket.unit}
+                                onChange={(e) => setNewMarket({ ...newMarket, unit: e.target.value })}
+                                placeholder="e.g., people"
+                                data-testid="input-market-unit"
+                              />
+                            </div>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          <Label>Outcomes</Label>
                           <p className="text-xs text-muted-foreground">
-                            Example: BASKETBALL,Sacred Heart Prep,home,2026-01-25T19:00
+                            Use YES and NO for a binary market, or list every candidate. Each outcome
+                            starts at an equal price.
                           </p>
+                          {newMarket.outcomes.map((outcome, i) => (
+                            <div key={i} className="flex gap-2">
+                              <Input
+                                value={outcome}
+                                onChange={(e) =>
+                                  setNewMarket({
+                                    ...newMarket,
+                                    outcomes: newMarket.outcomes.map((o, j) => (j === i ? e.target.value : o)),
+                                  })
+                                }
+                                placeholder={`Outcome ${i + 1}`}
+                                data-testid={`input-market-outcome-${i}`}
+                              />
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() =>
+                                  setNewMarket({
+                                    ...newMarket,
+                                    outcomes: newMarket.outcomes.filter((_, j) => j !== i),
+                                  })
+                                }
+                                disabled={newMarket.outcomes.length <= 2}
+                                data-testid={`button-remove-outcome-${i}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setNewMarket({ ...newMarket, outcomes: [...newMarket.outcomes, ""] })}
+                            disabled={newMarket.outcomes.length >= 12}
+                            data-testid="button-add-outcome"
+                          >
+                            <Plus className="mr-1 h-4 w-4" />
+                            Add outcome
+                          </Button>
                         </div>
-                        <Button
-                          onClick={handleCsvImport}
-                          disabled={importCsvMutation.isPending}
-                          className="w-full"
-                          data-testid="button-submit-csv-import"
-                        >
-                          {importCsvMutation.isPending ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                          ) : (
-                            "Import Games"
-                          )}
-                        </Button>
+                      )}
+                      <Button
+                        onClick={() => createPredictionMarketMutation.mutate(newMarket)}
+                        disabled={
+                          createPredictionMarketMutation.isPending ||
+                          !newMarket.title ||
+                          !newMarket.description ||
+                          (newMarket.kind === "SCALAR"
+                            ? !(parseFloat(newMarket.upperBound) > parseFloat(newMarket.lowerBound))
+                            : newMarket.outcomes.filter((o) => o.trim()).length < 2)
+                        }
+                        className="w-full"
+                        data-testid="button-submit-market"
+                      >
+                        {createPredictionMarketMutation.isPending ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          "Create Market"
+                        )}
+                      </Button>
+                    </div>
+                  </DialogContent>
+                </Dialog>
+              </CardHeader>
+              <CardContent>
+                {predictionMarketsLoading ? (
+                  <div className="space-y-4">
+                    {Array.from({ length: 5 }).map((_, i) => (
+                      <Skeleton key={i} className="h-16" />
+                    ))}
+                  </div>
+                ) : !predictionMarkets?.length ? (
+                  <div className="py-8 text-center">
+                    <TrendingUp className="mx-auto h-12 w-12 text-muted-foreground" />
+                    <p className="mt-4 text-muted-foreground">No prediction markets</p>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {predictionMarkets.map((market) => (
+                      <div
+                        key={market.id}
+                        className="flex flex-wrap items-center justify-between gap-4 rounded-lg border p-4"
+                        data-testid={`market-row-${market.id}`}
+                      >
+                        <div className="flex-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge variant="outline">{market.category}</Badge>
+                            <Badge
+                              variant={
+                                market.status === "OPEN"
+                                  ? "default"
+                                  : market.status === "VOIDED"
+                                  ? "destructive"
+                                  : "secondary"
+                              }
+                            >
+                              {market.status}
+                            </Badge>
+                            {(market.status === "OPEN" || market.status === "CLOSED") &&
+                              market.resolveAt &&
+                              new Date(market.resolveAt).getTime() <= Date.now() && (
+                                <Badge variant="destructive" className="gap-1">
+                                  <AlertTriangle className="h-3 w-3" />
+                                  Resolution overdue
+                                </Badge>
+                              )}
+                          </div>
+                          <Link href={`/markets/${market.id}`}>
+                            <p className="mt-2 font-medium hover:underline">{market.title}</p>
+                          </Link>
+                          <p className="mt-1 text-sm text-muted-foreground">
+                            {market.outcomes
+                              ?.map((o) => `${o.label} ${(o.currentPrice * 100).toFixed(0)}¢`)
+                              .join(" · ")}
+                          </p>
+                        </div>
+                        {(market.status === "OPEN" || market.status === "CLOSED") && (
+                          <div className="flex gap-2">
+                          <Dialog
+                            open={resolveDialogOpen === market.id}
+                            onOpenChange={(open) => {
+                              setResolveDialogOpen(open ? market.id : null);
+                              if (!open) {
+                                setWinningOutcomeId("");
+                                setResolvedValue("");
+                              }
+                            }}
+                          >
+                            <DialogTrigger asChild>
+                              <Button size="sm" variant="outline" data-testid={`button-resolve-market-${market.id}`}>
+                                <CheckCircle className="mr-1 h-4 w-4" />
+                                Resolve
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent>
+                              <DialogHeader>
+                                <DialogTitle>Resolve Market</DialogTitle>
+                              </DialogHeader>
+                              <div className="space-y-4 pt-4">
+                                {market.scalarMeta ? (
+                                  <>
+                                    <p className="text-sm text-muted-foreground">
+                                      Enter the final value for "{market.title}". LONG pays the share of the
+                                      range ({market.scalarMeta.lowerBound} to {market.scalarMeta.upperBound})
+                                      below it and SHORT pays the rest. This cannot be undone.
+                                    </p>
+                                    <div className="space-y-2">
+                                      <Label htmlFor="resolvedValue">
+                                        Final value{market.scalarMeta.unit ? ` (${market.scalarMeta.unit})` : ""}
+                                      </Label>
+                                      <Input
+                                        id="resolvedValue"
+                                        type="number"
+                                        value={resolvedValue}
+                                        onChange={(e) => setResolvedValue(e.target.value)}
+                                        data-testid="input-resolved-value"
+                                      />
+                                    </div>
+                                  </>
+                                ) : (
+                                  <>
+                                    <p className="text-sm text-muted-foreground">
+                                      Shares of the winning outcome in "{market.title}" pay $1 each. Every
+                                      other outcome pays nothing. This cannot be undone.
+                                    </p>
+                                    <div className="space-y-2">
+                                      <Label>Winning outcome</Label>
+                                      <Select value={winningOutcomeId} onValueChange={setWinningOutcomeId}>
+                                        <SelectTrigger data-testid="select-winning-outcome">
+                                          <SelectValue placeholder="Select the winner" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                          {market.outcomes?.map((o) => (
+                                            <SelectItem key={o.id} value={o.id}>
+                                              {o.label}
+                                            </SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                    </div>
+                                  </>
+                                )}
+                                <Button
+                                  onClick={() =>
+                                    resolveMarketMutation.mutate(
+                                      market.scalarMeta
+                                        ? { marketId: market.id, value: parseFloat(resolvedValue) }
+                                        : { marketId: market.id, winningOutcomeId }
+                                    )
+                                  }
+                                  disabled={
+                                    (market.scalarMeta ? resolvedValue === "" : !winningOutcomeId) ||
+                                    resolveMarketMutation.isPending
+                                  }
+                                  className="w-full"
+                                  data-testid="button-confirm-resolve"
+                                >
+                                  {resolveMarketMutation.isPending ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    "Resolve and Pay Out"
+                                  )}
+                                </Button>
+                              </div>
+                            </DialogContent>
+                          </Dialog>
+                          <Dialog
+                            open={voidDialogOpen === market.id}
+                            onOpenChange={(open) => {
+                              setVoidDialogOpen(open ? market.id : null);
+                              if (!open) setVoidReason("");
+                            }}
+                          >
+                            <DialogTrigger asChild>
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                data-testid={`button-void-market-${market.id}`}
+                              >
+                                <Undo2 className="mr-1 h-4 w-4" />
+                                Void
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent>
+                              <DialogHeader>
+                                <DialogTitle>Void Market</DialogTitle>
+                              </DialogHeader>
+                              <div className="space-y-4 pt-4">
+                                <p className="text-sm text-muted-foreground">
+                                  Every open position in "{market.title}" will be refunded at its
+                                  average cost and the market will stop trading. This cannot be undone.
+                                </p>
+                                <div className="space-y-2">
+                                  <Label htmlFor="voidReason">Reason (optional)</Label>
+                                  <Textarea
+                                    id="voidReason"
+                                    value={voidReason}
+                                    onChange={(e) => setVoidReason(e.target.value)}
+                                    placeholder="e.g., Event was cancelled"
+                                    data-testid="textarea-void-reason"
+                                  />
+                                </div>
+                                <Button
+                                  variant="destructive"
+                                  onClick={() =>
+                                    voidMarketMutation.mutate({ marketId: market.id, reason: voidReason })
+                                  }
+                                  disabled={voidMarketMutation.isPending}
+                                  className="w-full"
+                                  data-testid="button-confirm-void"
+                                >
+                                  {voidMarketMutation.isPending ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    "Void and Refund"
+                                  )}
+                                </Button>
+                              </div>
+                            </DialogContent>
+                          </Dialog>
+                          </div>
+                        )}
                       </div>
-                    </DialogContent>
-                  </Dialog>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="games" className="mt-4">
+            <Card>
+              <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+                <CardTitle>Games Management</CardTitle>
+                <div className="flex gap-2">
+                  <GameImportDialog />
                   <Dialog open={isCreateGameOpen} onOpenChange={setIsCreateGameOpen}>
                     <DialogTrigger asChild>
                       <Button size="sm" data-testid="button-create-game">
@@ -794,6 +1696,13 @@ export default function Admin() {
                             ) : (
                               <Badge variant="outline">No Market</Badge>
                             )}
+                            {game.lineMarkets.map((gm) => (
+                              <Badge key={gm.id} variant="outline" data-testid={`badge-line-${gm.id}`}>
+                                {gm.kind === "TOTAL"
+                                  ? `O/U ${gm.line}`
+                                  : `Menlo ${gm.line > 0 ? "+" : ""}${gm.line}`}
+                              </Badge>
+                            ))}
                           </div>
                         </div>
                         <div className="flex flex-wrap gap-2">
@@ -815,6 +1724,83 @@ export default function Admin() {
                               )}
                             </Button>
                           )}
+                          {game.status === "UPCOMING" && (
+                            <Dialog
+                              open={lineDialogOpen === game.id}
+                              onOpenChange={(open) => {
+                                setLineDialogOpen(open ? game.id : null);
+                                if (!open) {
+                                  setLineKind("TOTAL");
+                                  setLineValue("");
+                                }
+                              }}
+                            >
+                              <DialogTrigger asChild>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  data-testid={`button-add-line-${game.id}`}
+                                >
+                                  <Plus className="mr-1 h-4 w-4" />
+                                  Add Line
+                                </Button>
+                              </DialogTrigger>
+                              <DialogContent>
+                                <DialogHeader>
+                                  <DialogTitle>Add Line Market</DialogTitle>
+                                </DialogHeader>
+                                <div className="space-y-4 pt-4">
+                                  <div className="space-y-2">
+                                    <Label>Market Type</Label>
+                                    <Select
+                                      value={lineKind}
+                                      onValueChange={(value) => setLineKind(value as GameMarketKind)}
+                                    >
+                                      <SelectTrigger data-testid="select-line-kind">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        <SelectItem value="TOTAL">Over/Under (total points)</SelectItem>
+                                        <SelectItem value="SPREAD">Point Spread</SelectItem>
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                  <div className="space-y-2">
+                                    <Label htmlFor="lineValue">
+                                      {lineKind === "TOTAL" ? "Total Points Line" : "Menlo Spread"}
+                                    </Label>
+                                    <Input
+                                      id="lineValue"
+                                      type="number"
+                                      step="0.5"
+                                      value={lineValue}
+                                      onChange={(e) => setLineValue(e.target.value)}
+                                      placeholder={lineKind === "TOTAL" ? "110.5" : "-3.5"}
+                                      data-testid="input-line-value"
+                                    />
+                                    <p className="text-xs text-muted-foreground">
+                                      {lineKind === "TOTAL"
+                                        ? "Resolves Over or Under on the combined final score."
+                                        : `Negative when Menlo is favored. Menlo covers if its score plus the spread beats ${game.opponent}.`}{" "}
+                                      Use a half point to rule out a push - a push voids the market.
+                                    </p>
+                                  </div>
+                                  <Button
+                                    onClick={() => handleCreateLineMarket(game.id)}
+                                    disabled={createLineMarketMutation.isPending}
+                                    className="w-full"
+                                    data-testid="button-submit-line"
+                                  >
+                                    {createLineMarketMutation.isPending ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                      "Create Market"
+                                    )}
+                                  </Button>
+                                </div>
+                              </DialogContent>
+                            </Dialog>
+                          )}
                           <Dialog
                             open={scoreDialogOpen === game.id}
                             onOpenChange={(open) => {
@@ -901,10 +1887,32 @@ export default function Admin() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="leagues" className="mt-4">
+            <LeagueGroupsAdmin />
+          </TabsContent>
+
+          <TabsContent value="seasons" className="mt-4">
+            <SeasonsAdmin />
+          </TabsContent>
+
           <TabsContent value="polymarket" className="mt-4">
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
                 <CardTitle>Import from Polymarket</CardTitle>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => syncPolymarketMutation.mutate()}
+                  disabled={syncPolymarketMutation.isPending}
+                  data-testid="button-sync-polymarket"
+                >
+                  {syncPolymarketMutation.isPending ? (
+                    <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="mr-1 h-4 w-4" />
+                  )}
+                  Sync Prices
+                </Button>
               </CardHeader>
               <CardContent>
                 {polymarketEventsLoading || importedMarketsLoading ? (
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { MarketCard } from "@/components/MarketCard";
+import { ProposeMarketDialog } from "@/components/ProposeMarketDialog";
 import { StockCard } from "@/components/StockCard";
 import { StockTicker } from "@/components/StockTicker";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -129,12 +130,15 @@ export default function Home() {
               <TrendingUp className="h-5 w-5 text-primary" />
               <h2 className="text-2xl font-semibold">Prediction Markets</h2>
             </div>
-            <Link href="/markets">
-              <Button variant="ghost" className="gap-2" data-testid="link-view-all-markets">
-                View All
-                <ArrowRight className="h-4 w-4" />
-              </Button>
-            </Link>
+            <div className="flex items-center gap-2">
+              {user?.status === "VERIFIED" && <ProposeMarketDialog />}
+              <Link href="/markets">
+                <Button variant="ghost" className="gap-2" data-testid="link-view-all-markets">
+                  View All
+                  <ArrowRight className="h-4 w-4" />
+                </Button>
+              </Link>
+            </div>
           </div>
 
           {marketsLoading ? (
@@ -1,10 +1,86 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Leaderboard } from "@/components/Leaderboard";
+import { ClassStandings } from "@/components/ClassStandings";
+import { HallOfFame } from "@/components/HallOfFame";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/context/AuthContext";
+import { CalendarClock, Users } from "lucide-react";
+import type { LeaderboardLeague, Leagues, Season } from "@shared/schema";
+
+// Select values: "all", "grade:<grade>" or "group:<id>"
+function parseLeague(value: string): LeaderboardLeague {
+  if (value.startsWith("grade:")) return { grade: value.slice("grade:".length) };
+  if (value.startsWith("group:")) return { groupId: value.slice("group:".length) };
+  return {};
+}
 
 export default function LeaderboardPage() {
+  const { user } = useAuth();
+  const [selected, setSelected] = useState("all");
+
+  const { data: leagues } = useQuery<Leagues>({
+    queryKey: ["/api/leagues"],
+  });
+
+  const { data: seasons } = useQuery<Season[]>({
+    queryKey: ["/api/seasons"],
+  });
+  const currentSeason = seasons?.find((s) => s.status === "ACTIVE");
+
+  const league = parseLeague(selected);
+  const title = league.grade
+    ? `${league.grade} Leaderboard`
+    : league.groupId
+    ? `${leagues?.groups.find((g) => g.id === league.groupId)?.name ?? "Group"} Leaderboard`
+    : "Leaderboard";
+
   return (
     <div className="min-h-screen px-4 py-8">
       <div className="mx-auto max-w-4xl">
-        <Leaderboard />
+        <div className="mb-6 flex flex-wrap items-center justify-end gap-2">
+          {currentSeason && (
+            <p className="mr-auto flex items-center gap-2 text-sm text-muted-foreground" data-testid="text-current-season">
+              <CalendarClock className="h-4 w-4" />
+              {currentSeason.name} ends{" "}
+              {new Date(currentSeason.endsAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })} -
+              every balance then resets to the starting credit
+            </p>
+          )}
+          <Users className="h-4 w-4 text-muted-foreground" />
+          <Select value={selected} onValueChange={setSelected}>
+            <SelectTrigger className="w-56" data-testid="select-league">
+              <SelectValue placeholder="All students" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All students</SelectItem>
+              {leagues && leagues.grades.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Grades</SelectLabel>
+                  {leagues.grades.map((grade) => (
+                    <SelectItem key={grade} value={`grade:${grade}`}>
+                      {grade}
+                      {grade === user?.grade ? " (yours)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+              {leagues && leagues.groups.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Groups</SelectLabel>
+                  {leagues.groups.map((group) => (
+                    <SelectItem key={group.id} value={`group:${group.id}`}>
+                      {group.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        {selected === "all" && <ClassStandings />}
+        <Leaderboard league={league} title={title} />
+        <HallOfFame />
       </div>
     </div>
   );
@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { TradingWidget } from "@/components/TradingWidget";
 import { MarketCandlestickChart } from "@/components/MarketCandlestickChart";
+import { ScalarValueChart, impliedValue, formatScalarValue } from "@/components/ScalarValueChart";
 import { useAuth } from "@/context/AuthContext";
 import {
   Clock,
@@ -94,6 +95,8 @@ export default function MarketDetail() {
     setSelectedOutcomeId(market.outcomes[0].id);
   }
 
+  const longOutcome = market.outcomes?.find((o) => o.label === "LONG");
+
   return (
     <div className="min-h-screen px-4 py-8">
       <div className="mx-auto max-w-6xl">
@@ -132,16 +135,47 @@ export default function MarketDetail() {
 
         <div className="mt-8 grid gap-6 lg:grid-cols-3">
           <div className="space-y-6 lg:col-span-2">
-            {market.outcomes && market.outcomes.length > 0 && (
+            {market.scalarMeta && longOutcome && (
+              <Card>
+                <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+                  <CardTitle>Expected Value</CardTitle>
+                  <div className="text-right">
+                    <p className="font-mono text-2xl font-bold" data-testid="text-expected-value">
+                      {formatScalarValue(market.scalarMeta, impliedValue(market.scalarMeta, longOutcome.currentPrice))}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Range {formatScalarValue(market.scalarMeta, market.scalarMeta.lowerBound)} –{" "}
+                      {formatScalarValue(market.scalarMeta, market.scalarMeta.upperBound)}
+                    </p>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <ScalarValueChart
+                    marketId={market.id}
+                    longOutcomeId={longOutcome.id}
+                    scalarMeta={market.scalarMeta}
+                  />
+                  <p className="mt-3 text-sm text-muted-foreground">
+                    LONG pays out more the higher the final value lands in the range, SHORT the lower.
+                    Together they always pay $1 per share.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {!market.scalarMeta && market.outcomes && market.outcomes.length > 0 && selectedOutcomeId && (
               <Card>
                 <CardHeader>
-                  <CardTitle>YES Price History</CardTitle>
+                  <CardTitle>
+                    {market.outcomes.find((o) => o.id === selectedOutcomeId)?.label ?? market.outcomes[0].label} Price History
+                  </CardTitle>
                 </CardHeader>
                 <CardContent>
                   <MarketCandlestickChart
                     marketId={market.id}
-                    outcomeId={market.outcomes[0].id}
-                    outcomeLabel="YES"
+                    outcomes={market.outcomes}
+                    selectedOutcomeId={selectedOutcomeId}
+                    onOutcomeSelect={setSelectedOutcomeId}
                   />
                 </CardContent>
               </Card>
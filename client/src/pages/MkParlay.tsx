@@ -6,13 +6,19 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { MkAiAdvisor } from "@/components/MkAiAdvisor";
-import { Trophy, ExternalLink, TrendingUp, TrendingDown, Loader2, DollarSign } from "lucide-react";
+import { ParlaySlip, type SlipLeg } from "@/components/ParlaySlip";
+import { Trophy, ExternalLink, TrendingUp, TrendingDown, Loader2, DollarSign, Plus } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { MarketWithDetails, Outcome } from "@shared/schema";
+
+const MAX_PARLAY_LEGS = 8;
 
 interface PolymarketEvent {
   id: string;
+  // NBA, NFL, SOCCER, ... or OTHER
+  league: string;
   slug: string;
   title: string;
   description: string;
@@ -33,11 +39,64 @@ export default function MkParlay() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const [loadingEventId, setLoadingEventId] = useState<string | null>(null);
+  const [slip, setSlip] = useState<SlipLeg[]>([]);
 
   const { data: events, isLoading, error } = useQuery<PolymarketEvent[]>({
     queryKey: ["/api/polymarket/sports"],
   });
 
+  // Parlay legs can come from any open sports market - Menlo games or imported Polymarket events
+  const { data: markets } = useQuery<MarketWithDetails[]>({
+    queryKey: ["/api/markets"],
+  });
+  const sportsMarkets =
+    markets?.filter((m) => m.type === "PREDICTION" && m.category === "Sports" && m.status === "OPEN") ?? [];
+
+  const toggleLeg = (market: MarketWithDetails, outcome: Outcome) => {
+    const existing = slip.find((l) => l.marketId === market.id);
+    if (existing?.outcomeId === outcome.id) {
+      setSlip(slip.filter((l) => l.marketId !== market.id));
+      return;
+    }
+    const leg: SlipLeg = {
+      marketId: market.id,
+      outcomeId: outcome.id,
+      marketTitle: market.title,
+      outcomeLabel: outcome.label,
+      price: outcome.currentPrice,
+    };
+    if (existing) {
+      setSlip(slip.map((l) => (l.marketId === market.id ? leg : l)));
+    } else if (slip.length >= MAX_PARLAY_LEGS) {
+      toast({ title: "Slip is full", description: `A parlay can have at most ${MAX_PARLAY_LEGS} legs.` });
+    } else {
+      setSlip([...slip, leg]);
+    }
+  };
+
+  // Imports the event so it shows up on the parlay board
+  const addToBoardMutation = useMutation({
+    mutationFn: async (event: PolymarketEvent) => {
+      const res = await apiRequest("POST", "/api/polymarket/bet-on", {
+        eventId: event.id,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      setLoadingEventId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/markets"] });
+      toast({ title: "Added to the parlay board", description: "Pick a side below to add it to your slip." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add event",
+        description: error.message,
+        variant: "destructive",
+      });
+      setLoadingEventId(null);
+    },
+  });
+
   const betOnMutation = useMutation({
     mutationFn: async (event: PolymarketEvent) => {
       const res = await apiRequest("POST", "/api/polymarket/bet-on", {
@@ -73,6 +132,15 @@ export default function MkParlay() {
     betOnMutation.mutate(event);
   };
 
+  const handleAddToBoard = (event: PolymarketEvent) => {
+    if (!user) {
+      setLocation("/login");
+      return;
+    }
+    setLoadingEventId(event.id);
+    addToBoardMutation.mutate(event);
+  };
+
   const formatVolume = (volume: number) => {
     if (volume >= 1000000) return `$${(volume / 1000000).toFixed(1)}M`;
     if (volume >= 1000) return `$${(volume / 1000).toFixed(0)}K`;
@@ -122,6 +190,62 @@ export default function MkParlay() {
           </div>
         </div>
 
+        <div className="mb-10 grid gap-6 lg:grid-cols-3" data-testid="section-parlay-builder">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Build a Parlay</CardTitle>
+              <CardDescription>
+                Pick a side on 2 to {MAX_PARLAY_LEGS} games. Odds lock in when you place the slip.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {sportsMarkets.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  No open sports markets yet. Add a Polymarket event from below to get started.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {sportsMarkets.map((market) => {
+                    const picked = slip.find((l) => l.marketId === market.id);
+                    return (
+                      <div
+                        key={market.id}
+                        className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3"
+                        data-testid={`parlay-market-${market.id}`}
+                      >
+                        <p className="min-w-0 flex-1 text-sm font-medium">{market.title}</p>
+                        <div className="flex flex-wrap gap-2">
+                          {market.outcomes?.map((outcome) => (
+                            <Button
+                              key={outcome.id}
+                              size="sm"
+                              variant={picked?.outcomeId === outcome.id ? "default" : "outline"}
+                              onClick={() => toggleLeg(market, outcome)}
+                              data-testid={`button-leg-${outcome.id}`}
+                            >
+                              {outcome.label}
+                              <span className="ml-1 font-mono text-xs opacity-80">
+                                {(1 / outcome.currentPrice).toFixed(2)}x
+                              </span>
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+          <div className="lg:sticky lg:top-20 lg:self-start">
+            <ParlaySlip
+              legs={slip}
+              onRemove={(marketId) => setSlip(slip.filter((l) => l.marketId !== marketId))}
+              onPlaced={() => setSlip([])}
+            />
+          </div>
+        </div>
+
         {isLoading && (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
             {[...Array(6)].map((_, i) => (
@@ -193,6 +317,11 @@ export default function MkParlay() {
                       <CardTitle className="text-lg line-clamp-2" data-testid={`title-event-${event.id}`}>
                         {event.title}
                       </CardTitle>
+                      {event.league !== "OTHER" && (
+                        <Badge variant="secondary" className="shrink-0" data-testid={`badge-league-${event.id}`}>
+                          {event.league}
+                        </Badge>
+                      )}
                     </div>
                     {event.description && (
                       <CardDescription className="line-clamp-2" data-testid={`desc-event-${event.id}`}>
@@ -245,6 +374,17 @@ export default function MkParlay() {
                           </>
                         )}
                       </Button>
+
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleAddToBoard(event)}
+                        disabled={isLoadingThis}
+                        data-testid={`button-add-parlay-${event.id}`}
+                      >
+                        <Plus className="mr-1 h-4 w-4" />
+                        Add to Parlay
+                      </Button>
                       
                       <a
                         href={`https://polymarket.com/event/${event.slug}`}
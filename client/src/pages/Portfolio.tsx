@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -6,6 +6,10 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/context/AuthContext";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { PositionTriggers } from "@/components/PositionTriggers";
+import { EquityCurveChart } from "@/components/EquityCurveChart";
 import {
   Wallet,
   TrendingUp,
@@ -16,17 +20,84 @@ import {
   History,
   BarChart3,
   PiggyBank,
+  ListOrdered,
+  X,
+  Loader2,
+  Ticket,
 } from "lucide-react";
-import type { PortfolioSummary, PositionWithDetails, Trade } from "@shared/schema";
+import type {
+  ConditionalOrder,
+  LimitOrderWithDetails,
+  ParlayWithLegs,
+  PortfolioSummary,
+  PositionWithDetails,
+  Trade,
+} from "@shared/schema";
 
 export default function Portfolio() {
-  const { user } = useAuth();
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
 
   const { data: portfolio, isLoading } = useQuery<PortfolioSummary>({
     queryKey: ["/api/portfolio"],
     enabled: !!user,
   });
 
+  const { data: orders } = useQuery<LimitOrderWithDetails[]>({
+    queryKey: ["/api/orders"],
+    enabled: !!user,
+  });
+  const openOrders = orders?.filter((o) => o.status === "OPEN") ?? [];
+
+  const { data: conditionalOrders } = useQuery<ConditionalOrder[]>({
+    queryKey: ["/api/conditional-orders"],
+    enabled: !!user,
+  });
+  const { data: parlays } = useQuery<ParlayWithLegs[]>({
+    queryKey: ["/api/parlays"],
+    enabled: !!user,
+  });
+  const openParlays = parlays?.filter((p) => p.status === "OPEN") ?? [];
+
+  const triggersFor = (positionId: string) =>
+    conditionalOrders?.filter((o) => o.positionId === positionId && o.status === "ACTIVE") ?? [];
+
+  const coverShortMutation = useMutation({
+    mutationFn: async (shortId: string) => {
+      const res = await apiRequest("POST", `/api/shorts/${shortId}/cover`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/markets"] });
+      refreshUser();
+      toast({ title: "Short covered" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to cover short",
+        description: parseErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelOrderMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const res = await apiRequest("DELETE", `/api/orders/${orderId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      refreshUser();
+      toast({ title: "Order cancelled" });
+    },
+    onError: () => {
+      toast({ title: "Failed to cancel order", variant: "destructive" });
+    },
+  });
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -45,6 +116,9 @@ export default function Portfolio() {
     }).format(new Date(date));
   };
 
+  // Covering a short buys the shares back
+  const isBuy = (side: string) => side === "BUY" || side === "COVER";
+
   if (!user) {
     return (
       <div className="flex min-h-[60vh] items-center justify-center px-4">
@@ -151,7 +225,11 @@ export default function Portfolio() {
               <p className="mt-2 font-mono text-3xl font-bold">
                 {formatCurrency(portfolio?.cashBalance ?? user.balance)}
               </p>
-              <p className="mt-1 text-sm text-muted-foreground">Available to trade</p>
+              <p className="mt-1 text-sm text-muted-foreground">
+                {portfolio?.reservedCash
+                  ? `${formatCurrency(portfolio.reservedCash)} reserved in open orders and IPOs`
+                  : "Available to trade"}
+              </p>
             </CardContent>
           </Card>
 
@@ -166,17 +244,42 @@ export default function Portfolio() {
               </p>
               <p className="mt-1 text-sm text-muted-foreground">
                 {portfolio?.positions.length ?? 0} active positions
+                {!!portfolio?.shorts.length &&
+                  ` · ${formatCurrency(portfolio.shortsValue)} equity in ${portfolio.shorts.length} short${
+                    portfolio.shorts.length === 1 ? "" : "s"
+                  }`}
+                {!!portfolio?.parlaysValue && ` · ${formatCurrency(portfolio.parlaysValue)} staked on parlays`}
               </p>
             </CardContent>
           </Card>
         </div>
 
+        <EquityCurveChart />
+
         <Tabs defaultValue="positions">
           <TabsList>
             <TabsTrigger value="positions" className="gap-2" data-testid="tab-positions">
               <BarChart3 className="h-4 w-4" />
               Positions
             </TabsTrigger>
+            <TabsTrigger value="orders" className="gap-2" data-testid="tab-orders">
+              <ListOrdered className="h-4 w-4" />
+              Orders
+              {openOrders.length > 0 && (
+                <Badge variant="secondary" className="ml-1">
+                  {openOrders.length}
+                </Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="parlays" className="gap-2" data-testid="tab-parlays">
+              <Ticket className="h-4 w-4" />
+              Parlays
+              {openParlays.length > 0 && (
+                <Badge variant="secondary" className="ml-1">
+                  {openParlays.length}
+                </Badge>
+              )}
+            </TabsTrigger>
             <TabsTrigger value="history" className="gap-2" data-testid="tab-history">
               <History className="h-4 w-4" />
               History
@@ -202,59 +305,278 @@ export default function Portfolio() {
                 ) : (
                   <div className="space-y-3">
                     {portfolio.positions.map((position) => (
-                      <Link
-                        key={position.id}
-                        href={
-                          position.outcome
-                            ? `/markets/${position.marketId}`
-                            : `/stocks/${position.marketId}`
-                        }
-                      >
-                        <div
-                          className="flex items-center justify-between rounded-lg border p-4 transition-colors hover-elevate cursor-pointer"
-                          data-testid={`row-position-${position.id}`}
+                      <div key={position.id} className="rounded-lg border">
+                        <Link
+                          href={
+                            position.outcome
+                              ? `/markets/${position.marketId}`
+                              : `/stocks/${position.marketId}`
+                          }
                         >
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2">
-                              <span className="font-medium">
-                                {position.stockMeta?.ticker ?? position.market?.title}
-                              </span>
-                              {position.outcome && (
-                                <Badge variant="secondary">{position.outcome.label}</Badge>
-                              )}
+                          <div
+                            className="flex items-center justify-between rounded-t-lg p-4 transition-colors hover-elevate cursor-pointer"
+                            data-testid={`row-position-${position.id}`}
+                          >
+                            <div className="flex-1">
+                              <div className="flex items-center gap-2">
+                                <span className="font-medium">
+                                  {position.stockMeta?.ticker ?? position.market?.title}
+                                </span>
+                                {position.outcome && (
+                                  <Badge variant="secondary">{position.outcome.label}</Badge>
+                                )}
+                              </div>
+                              <p className="mt-1 text-sm text-muted-foreground">
+                                {position.qty} shares @ {formatCurrency(position.avgCost)} avg
+                              </p>
                             </div>
-                            <p className="mt-1 text-sm text-muted-foreground">
-                              {position.qty} shares @ {formatCurrency(position.avgCost)} avg
-                            </p>
+                            <div className="text-right">
+                              <p className="font-mono font-semibold">
+                                {formatCurrency(position.currentValue)}
+                              </p>
+                              <div
+                                className={`flex items-center justify-end gap-1 text-sm ${
+                                  position.pnl > 0
+                                    ? "text-green-600 dark:text-green-400"
+                                    : position.pnl < 0
+                                    ? "text-red-600 dark:text-red-400"
+                                    : "text-muted-foreground"
+                                }`}
+                              >
+                                {position.pnl > 0 ? (
+                                  <ArrowUpRight className="h-3 w-3" />
+                                ) : position.pnl < 0 ? (
+                                  <ArrowDownRight className="h-3 w-3" />
+                                ) : (
+                                  <Minus className="h-3 w-3" />
+                                )}
+                                <span>
+                                  {position.pnl > 0 ? "+" : ""}
+                                  {formatCurrency(position.pnl)}
+                                </span>
+                              </div>
+                            </div>
+                          </div>
+                        </Link>
+                        <PositionTriggers position={position} orders={triggersFor(position.id)} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {!!portfolio?.shorts.length && (
+              <Card className="mt-4">
+                <CardHeader>
+                  <CardTitle>Short Positions</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {portfolio.shorts.map((short) => (
+                      <div
+                        key={short.id}
+                        className="flex items-center justify-between rounded-lg border p-4"
+                        data-testid={`row-short-${short.id}`}
+                      >
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2">
+                            <Link href={`/stocks/${short.marketId}`}>
+                              <span className="font-medium hover:underline">
+                                {short.stockMeta?.ticker ?? short.market?.title}
+                              </span>
+                            </Link>
+                            <Badge variant="secondary">SHORT</Badge>
+                            {short.marginRatio < 0.35 && (
+                              <Badge variant="destructive">Near margin call</Badge>
+                            )}
                           </div>
+                          <p className="mt-1 text-sm text-muted-foreground">
+                            {short.qty} shares @ {formatCurrency(short.entryPrice)} avg ·{" "}
+                            {formatCurrency(short.borrowFeesPaid)} borrow fees ·{" "}
+                            {(short.marginRatio * 100).toFixed(0)}% margin
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-4">
                           <div className="text-right">
-                            <p className="font-mono font-semibold">
-                              {formatCurrency(position.currentValue)}
-                            </p>
-                            <div
-                              className={`flex items-center justify-end gap-1 text-sm ${
-                                position.pnl > 0
+                            <p className="font-mono font-semibold">{formatCurrency(short.equity)}</p>
+                            <p
+                              className={`text-sm ${
+                                short.pnl > 0
                                   ? "text-green-600 dark:text-green-400"
-                                  : position.pnl < 0
+                                  : short.pnl < 0
                                   ? "text-red-600 dark:text-red-400"
                                   : "text-muted-foreground"
                               }`}
                             >
-                              {position.pnl > 0 ? (
-                                <ArrowUpRight className="h-3 w-3" />
-                              ) : position.pnl < 0 ? (
-                                <ArrowDownRight className="h-3 w-3" />
-                              ) : (
-                                <Minus className="h-3 w-3" />
-                              )}
-                              <span>
-                                {position.pnl > 0 ? "+" : ""}
-                                {formatCurrency(position.pnl)}
+                              {short.pnl > 0 ? "+" : ""}
+                              {formatCurrency(short.pnl)}
+                            </p>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => coverShortMutation.mutate(short.id)}
+                            disabled={coverShortMutation.isPending}
+                            data-testid={`button-cover-short-${short.id}`}
+                          >
+                            {coverShortMutation.isPending && coverShortMutation.variables === short.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              "Cover"
+                            )}
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="orders" className="mt-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Open Orders</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {openOrders.length === 0 ? (
+                  <div className="py-8 text-center">
+                    <ListOrdered className="mx-auto h-12 w-12 text-muted-foreground/50" />
+                    <p className="mt-4 text-muted-foreground">No open limit orders</p>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {openOrders.map((order) => (
+                      <div
+                        key={order.id}
+                        className="flex items-center justify-between rounded-lg border p-4"
+                        data-testid={`row-order-${order.id}`}
+                      >
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2">
+                            <Badge variant={order.side === "BUY" ? "default" : "secondary"}>
+                              {order.side}
+                            </Badge>
+                            <Link
+                              href={
+                                order.outcomeId
+                                  ? `/markets/${order.marketId}`
+                                  : `/stocks/${order.marketId}`
+                              }
+                            >
+                              <span className="font-medium hover:underline">
+                                {order.ticker ?? order.market?.title}
                               </span>
+                            </Link>
+                            {order.outcome && <Badge variant="outline">{order.outcome.label}</Badge>}
+                          </div>
+                          <p className="mt-1 text-sm text-muted-foreground">
+                            {order.qty} shares at {formatCurrency(order.limitPrice)} limit
+                            {order.filledQty > 0 && ` · ${order.filledQty} filled`}
+                            {order.reservedAmount > 0 && ` · ${formatCurrency(order.reservedAmount)} reserved`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <p className="text-sm text-muted-foreground">{formatDate(order.createdAt)}</p>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => cancelOrderMutation.mutate(order.id)}
+                            disabled={cancelOrderMutation.isPending}
+                            data-testid={`button-cancel-order-${order.id}`}
+                          >
+                            {cancelOrderMutation.isPending && cancelOrderMutation.variables === order.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <>
+                                <X className="mr-1 h-4 w-4" />
+                                Cancel
+                              </>
+                            )}
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="parlays" className="mt-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Parlay Slips</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!parlays?.length ? (
+                  <div className="py-8 text-center">
+                    <Ticket className="mx-auto h-12 w-12 text-muted-foreground/50" />
+                    <p className="mt-4 text-muted-foreground">No parlays yet</p>
+                    <Link href="/mk-parlay">
+                      <Button variant="outline" className="mt-4">
+                        Build a Parlay
+                      </Button>
+                    </Link>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {parlays.map((parlay) => (
+                      <div key={parlay.id} className="rounded-lg border p-4" data-testid={`row-parlay-${parlay.id}`}>
+                        <div className="flex flex-wrap items-start justify-between gap-2">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{parlay.legs.length}-leg parlay</span>
+                              <Badge
+                                variant={
+                                  parlay.status === "WON"
+                                    ? "default"
+                                    : parlay.status === "LOST"
+                                    ? "destructive"
+                                    : "secondary"
+                                }
+                              >
+                                {parlay.status}
+                              </Badge>
                             </div>
+                            <p className="mt-1 text-sm text-muted-foreground">
+                              {formatCurrency(parlay.stake)} staked · {formatDate(parlay.createdAt)}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-mono font-semibold">
+                              {formatCurrency(parlay.payout ?? parlay.potentialPayout)}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              {parlay.status === "OPEN" ? "to win" : parlay.status === "VOID" ? "refunded" : "paid"}
+                            </p>
                           </div>
                         </div>
-                      </Link>
+                        <div className="mt-3 space-y-1 border-t pt-3">
+                          {parlay.legs.map((leg) => (
+                            <div key={leg.id} className="flex items-center justify-between gap-2 text-sm">
+                              <Link href={`/markets/${leg.marketId}`}>
+                                <span className="line-clamp-1 hover:underline">
+                                  {leg.outcome?.label ?? "?"} · {leg.market?.title ?? "Market"}
+                                </span>
+                              </Link>
+                              <div className="flex shrink-0 items-center gap-2">
+                                <span className="font-mono text-muted-foreground">{(1 / leg.price).toFixed(2)}x</span>
+                                <Badge
+                                  variant={
+                                    leg.status === "WON" ? "default" : leg.status === "LOST" ? "destructive" : "outline"
+                                  }
+                                  className="text-xs"
+                                >
+                                  {leg.status}
+                                </Badge>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
                     ))}
                   </div>
                 )}
@@ -284,12 +606,12 @@ export default function Portfolio() {
                         <div className="flex items-center gap-3">
                           <div
                             className={`flex h-8 w-8 items-center justify-center rounded-full ${
-                              trade.side === "BUY"
+                              isBuy(trade.side)
                                 ? "bg-green-500/10 text-green-600 dark:text-green-400"
                                 : "bg-red-500/10 text-red-600 dark:text-red-400"
                             }`}
                           >
-                            {trade.side === "BUY" ? (
+                            {isBuy(trade.side) ? (
                               <ArrowUpRight className="h-4 w-4" />
                             ) : (
                               <ArrowDownRight className="h-4 w-4" />
@@ -297,7 +619,7 @@ export default function Portfolio() {
                           </div>
                           <div>
                             <div className="flex items-center gap-2">
-                              <Badge variant={trade.side === "BUY" ? "default" : "secondary"}>
+                              <Badge variant={isBuy(trade.side) ? "default" : "secondary"}>
                                 {trade.side}
                               </Badge>
                               <span className="font-medium">{trade.qty} shares</span>
@@ -309,7 +631,7 @@ export default function Portfolio() {
                         </div>
                         <div className="text-right">
                           <p className="font-mono font-semibold">
-                            {trade.side === "BUY" ? "-" : "+"}
+                            {isBuy(trade.side) ? "-" : "+"}
                             {formatCurrency(trade.total)}
                           </p>
                           <p className="text-sm text-muted-foreground">
@@ -328,3 +650,13 @@ export default function Portfolio() {
     </div>
   );
 }
+
+// apiRequest errors look like `400: {"message":"..."}` - pull out the message
+function parseErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { TradingWidget } from "@/components/TradingWidget";
+import { IpoSubscribeCard } from "@/components/IpoSubscribeCard";
 import { CandlestickChart } from "@/components/CandlestickChart";
 import { MkAiAdvisor } from "@/components/MkAiAdvisor";
 import {
@@ -215,7 +216,7 @@ export default function StockDetail() {
           </div>
 
           <div className="lg:sticky lg:top-20 space-y-4">
-            <TradingWidget market={market} />
+            {market.status === "IPO" ? <IpoSubscribeCard market={market} /> : <TradingWidget market={market} />}
             <MkAiAdvisor currentStock={market} mode="stock" />
           </div>
         </div>
@@ -8,6 +8,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { StockCard } from "@/components/StockCard";
 import { StockTicker } from "@/components/StockTicker";
+import { IpoRequestDialog } from "@/components/IpoRequestDialog";
 import { useAuth } from "@/context/AuthContext";
 import { Search, Plus, BarChart3, TrendingUp, TrendingDown, Target, Shield, Briefcase, PiggyBank } from "lucide-react";
 import type { MarketWithDetails } from "@shared/schema";
@@ -95,14 +96,7 @@ export default function Stocks() {
               <Shield className="h-3 w-3" />
               Long-Term
             </Badge>
-            {user?.status === "VERIFIED" && (
-              <Link href="/stocks/create">
-                <Button className="gap-2" data-testid="button-create-stock">
-                  <Plus className="h-4 w-4" />
-                  Create Stock
-                </Button>
-              </Link>
-            )}
+            {user?.status === "VERIFIED" && <IpoRequestDialog />}
           </div>
         </div>
 
@@ -150,3 +150,106 @@ export async function sendPasswordResetEmail(toEmail: string, resetToken: string
     return false;
   }
 }
+
+// Market titles come from students, so they can't go into the HTML as-is
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export async function sendMarketReviewEmail(
+  toEmail: string,
+  marketId: string,
+  marketTitle: string,
+  approved: boolean,
+  reason?: string | null
+): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getUncachableResendClient();
+
+    const baseUrl = process.env.REPLIT_DEV_DOMAIN 
+      ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+      : 'http://localhost:5000';
+
+    const marketLink = `${baseUrl}/markets/${marketId}`;
+    const title = escapeHtml(marketTitle);
+    const body = approved
+      ? `<p>Your market <strong>"${title}"</strong> was approved and is now open for trading.</p>
+          <p><a href="${marketLink}" style="background: #7c3aed; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block;">View Market</a></p>`
+      : `<p>Your market <strong>"${title}"</strong> was not approved.</p>
+          ${reason ? `<p style="background: #f8fafc; border-radius: 6px; padding: 12px;">${escapeHtml(reason)}</p>` : ''}
+          <p>You're welcome to submit a revised version.</p>`;
+
+    await client.emails.send({
+      from: fromEmail,
+      to: toEmail,
+      subject: approved ? 'Your Trading Knights market is live' : 'Your Trading Knights market proposal',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; padding: 20px; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #7c3aed;">Trading Knights</h1>
+          ${body}
+        </body>
+        </html>
+      `,
+    });
+
+    console.log('Market review email sent successfully to:', toEmail);
+    return true;
+  } catch (error: any) {
+    console.error('Error sending market review email:', error);
+    return false;
+  }
+}
+
+export async function sendResolutionReminderEmail(
+  toEmail: string,
+  marketId: string,
+  marketTitle: string,
+  resolveAt: Date
+): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getUncachableResendClient();
+
+    const baseUrl = process.env.REPLIT_DEV_DOMAIN 
+      ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+      : 'http://localhost:5000';
+
+    const marketLink = `${baseUrl}/markets/${marketId}`;
+    const adminLink = `${baseUrl}/admin`;
+    const due = new Date(resolveAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+    await client.emails.send({
+      from: fromEmail,
+      to: toEmail,
+      subject: 'Trading Knights market needs resolving',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; padding: 20px; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #7c3aed;">Trading Knights</h1>
+          <p>The market <a href="${marketLink}"><strong>"${escapeHtml(marketTitle)}"</strong></a> was due to be resolved on ${due} and still hasn't been.</p>
+          <p>Students' money stays locked in it until it's resolved or voided.</p>
+          <p><a href="${adminLink}" style="background: #7c3aed; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block;">Open Admin Panel</a></p>
+        </body>
+        </html>
+      `,
+    });
+
+    console.log('Resolution reminder email sent successfully to:', toEmail);
+    return true;
+  } catch (error: any) {
+    console.error('Error sending resolution reminder email:', error);
+    return false;
+  }
+}
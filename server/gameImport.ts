@@ -0,0 +1,295 @@
+import { storage } from "./storage";
+import { createGameMoneylineMarket } from "./gameMarkets";
+import {
+  insertGameSchema,
+  type Game,
+  type GameImportResult,
+  type GameImportRow,
+  type ImportGames,
+  type SportType,
+} from "@shared/schema";
+
+// Raised for files that can't be read at all (as opposed to individual bad rows)
+export class GameImportError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "GameImportError";
+  }
+}
+
+// A row pulled out of a file, before validation
+interface RawGame {
+  row: number;
+  source: string;
+  sport?: string;
+  opponent?: string;
+  isHome?: boolean;
+  gameDate?: string;
+  // Set when the row couldn't be parsed into the fields above
+  error?: string;
+}
+
+// Calendar summaries name the sport in words ("Boys Varsity Basketball vs. ...")
+const SPORT_KEYWORDS: [SportType, string[]][] = [
+  ["BASKETBALL", ["basketball"]],
+  ["FOOTBALL", ["football"]],
+  ["SOCCER", ["soccer"]],
+  ["BASEBALL", ["baseball"]],
+  ["VOLLEYBALL", ["volleyball"]],
+  ["TENNIS", ["tennis"]],
+  ["SWIMMING", ["swim", "dive", "diving"]],
+  ["TRACK", ["track", "cross country"]],
+];
+
+const HOME_VALUES = ["home", "h", "true", "yes"];
+const AWAY_VALUES = ["away", "a", "false", "no"];
+
+// ==================== CSV ====================
+
+// Splits CSV text into records, honoring quoted fields ("Menlo, CA") and
+// doubled quotes inside them. Each record keeps the line it started on.
+function parseCsvRecords(text: string): { line: number; fields: string[]; source: string }[] {
+  const records: { line: number; fields: string[]; source: string }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let recordStart = 0;
+
+  const endRecord = (end: number) => {
+    fields.push(field);
+    if (fields.some((f) => f.trim())) {
+      records.push({ line: recordLine, fields: fields.map((f) => f.trim()), source: text.slice(recordStart, end).trim() });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      endRecord(i);
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      line++;
+      recordLine = line;
+      recordStart = i + 1;
+    } else {
+      field += char;
+    }
+  }
+  endRecord(text.length);
+  return records;
+}
+
+// Columns are sport, opponent, home/away, date. A header row naming them lets
+// the columns come in any order.
+function parseCsv(text: string): RawGame[] {
+  const records = parseCsvRecords(text);
+  if (records.length === 0) return [];
+
+  let columns = { sport: 0, opponent: 1, location: 2, date: 3 };
+  const header = records[0].fields.map((f) => f.toLowerCase().replace(/[^a-z]/g, ""));
+  if (header.includes("sport")) {
+    const find = (...names: string[]) => header.findIndex((h) => names.includes(h));
+    columns = {
+      sport: find("sport"),
+      opponent: find("opponent", "vs", "against"),
+      location: find("homeaway", "home", "location", "ishome"),
+      date: find("date", "gamedate", "datetime", "start"),
+    };
+    const missing = Object.entries(columns).find(([, index]) => index < 0);
+    if (missing) {
+      throw new GameImportError(`The CSV header is missing a "${missing[0]}" column`);
+    }
+    records.shift();
+  }
+
+  return records.map(({ line, fields, source }) => {
+    if (fields.length < 4) {
+      return { row: line, source, error: "Expected 4 fields: sport, opponent, home/away, date" };
+    }
+    const location = fields[columns.location].toLowerCase();
+    const isHome = HOME_VALUES.includes(location) ? true : AWAY_VALUES.includes(location) ? false : undefined;
+    if (isHome === undefined) {
+      return { row: line, source, error: `"${fields[columns.location]}" should be home or away` };
+    }
+    return {
+      row: line,
+      source,
+      sport: fields[columns.sport].toUpperCase(),
+      opponent: fields[columns.opponent],
+      isHome,
+      gameDate: fields[columns.date],
+    };
+  });
+}
+
+// ==================== iCalendar ====================
+
+// Undoes RFC 5545 text escaping
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? " " : char));
+}
+
+// DTSTART comes as a date (20260125), a floating or TZID-tagged local time
+// (20260125T190000) or UTC (20260125T190000Z). Local times are read in the
+// server's time zone, which for Menlo calendars is the school's.
+function parseIcsDate(value: string): string | undefined {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return undefined;
+  const [, year, month, day, hour = "00", minute = "00", second = "00", utc = ""] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${utc}`;
+}
+
+// "Boys Varsity Basketball vs. Sacred Heart Prep" is a home game;
+// "Varsity Football @ Palo Alto" and "... at Palo Alto" are away games
+function parseSummary(summary: string): Pick<RawGame, "sport" | "opponent" | "isHome" | "error"> {
+  const lower = summary.toLowerCase();
+  const sport = SPORT_KEYWORDS.find(([, keywords]) => keywords.some((k) => lower.includes(k)))?.[0] ?? "OTHER";
+
+  const match = summary.match(/\s(vs\.?|v\.|@|at)\s+(.+)$/i);
+  if (!match) {
+    return { error: "Couldn't find an opponent (expected \"vs.\" or \"@\" in the title)" };
+  }
+  const opponent = match[2].replace(/\s*\(.*\)\s*$/, "").trim();
+  const marker = match[1].toLowerCase();
+  return { sport, opponent, isHome: marker.startsWith("v") };
+}
+
+function parseIcs(text: string): RawGame[] {
+  // Long lines are folded onto continuation lines that start with a space or tab
+  const lines = text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const games: RawGame[] = [];
+  let event: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+      continue;
+    }
+    if (!event) continue;
+    if (line === "END:VEVENT") {
+      games.push(fromIcsEvent(games.length + 1, event));
+      event = null;
+      continue;
+    }
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    // Drop parameters like DTSTART;TZID=America/Los_Angeles
+    const name = line.slice(0, colon).split(";")[0].toUpperCase();
+    event[name] = line.slice(colon + 1);
+  }
+  return games;
+}
+
+function fromIcsEvent(row: number, event: Record<string, string>): RawGame {
+  const source = unescapeIcsText(event.SUMMARY || "").trim();
+  if (!source) {
+    return { row, source: "(untitled event)", error: "Event has no title" };
+  }
+  if (event.STATUS?.toUpperCase() === "CANCELLED") {
+    return { row, source, error: "Event is cancelled in the calendar" };
+  }
+  const gameDate = parseIcsDate(event.DTSTART || "");
+  if (!gameDate) {
+    return { row, source, error: "Event has no start time" };
+  }
+  return { row, source, gameDate, ...parseSummary(source) };
+}
+
+// ==================== Import ====================
+
+function detectFormat(content: string): "CSV" | "ICS" {
+  return content.trimStart().startsWith("BEGIN:VCALENDAR") ? "ICS" : "CSV";
+}
+
+// Two games are the same if they're the same sport against the same opponent on the same day
+function duplicateKey(game: Pick<Game, "sport" | "opponent" | "gameDate">): string {
+  const date = new Date(game.gameDate);
+  const day = `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+  return `${game.sport}|${game.opponent.trim().toLowerCase()}|${day}`;
+}
+
+// Parses and validates every row of a schedule file. Unless it's a dry run,
+// READY rows are created as games (and given markets if asked). A row that
+// fails to save is reported as FAILED and the rest of the file still imports.
+export async function importGames(input: ImportGames, createdBy: string): Promise<GameImportResult> {
+  const format = input.format ?? detectFormat(input.content);
+  const rawGames = format === "ICS" ? parseIcs(input.content) : parseCsv(input.content);
+  if (rawGames.length === 0) {
+    throw new GameImportError(format === "ICS" ? "No events found in the calendar" : "No rows found in the CSV");
+  }
+
+  const seen = new Set((await storage.getAllGames()).map(duplicateKey));
+  const rows: GameImportRow[] = rawGames.map(({ row, source, error, ...fields }) => {
+    if (error) {
+      return { row, source, status: "INVALID", error };
+    }
+    const parsed = insertGameSchema.safeParse(fields);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      return { row, source, status: "INVALID", error: `${issue.path.join(".") || "row"}: ${issue.message}` };
+    }
+    const key = duplicateKey(parsed.data);
+    if (seen.has(key)) {
+      return { row, source, status: "DUPLICATE", game: parsed.data, error: "Already scheduled" };
+    }
+    seen.add(key);
+    return { row, source, status: "READY", game: parsed.data };
+  });
+
+  let marketsCreated = 0;
+  if (!input.dryRun) {
+    for (const row of rows) {
+      if (row.status !== "READY" || !row.game) continue;
+      let game: Game;
+      try {
+        game = await storage.createGame({ ...row.game, createdBy });
+      } catch (error) {
+        console.error(`Game import failed on row ${row.row}:`, error);
+        row.status = "FAILED";
+        row.error = "Couldn't save this game";
+        continue;
+      }
+      row.status = "IMPORTED";
+      row.gameId = game.id;
+      if (input.createMarkets) {
+        try {
+          await createGameMoneylineMarket(game, createdBy);
+          marketsCreated++;
+        } catch (error) {
+          // The game is saved, so a re-run would skip it as a duplicate - say so
+          console.error(`Game import market creation failed on row ${row.row}:`, error);
+          row.error = "Game imported, but its market couldn't be created - add it from the games list";
+        }
+      }
+    }
+  }
+
+  return {
+    format,
+    dryRun: input.dryRun,
+    rows,
+    imported: rows.filter((r) => r.status === "IMPORTED").length,
+    duplicates: rows.filter((r) => r.status === "DUPLICATE").length,
+    invalid: rows.filter((r) => r.status === "INVALID").length,
+    failed: rows.filter((r) => r.status === "FAILED").length,
+    marketsCreated,
+  };
+}
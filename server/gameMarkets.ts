@@ -0,0 +1,168 @@
+import { storage } from "./storage";
+import { DEFAULT_LIQUIDITY } from "./trading";
+import { resolveMarket, voidMarket, ResolutionError } from "./resolution";
+import type { Game, GameMarket, GameMarketKind, Market } from "@shared/schema";
+
+// Raised for line markets that can't be created
+export class GameMarketError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "GameMarketError";
+  }
+}
+
+// Game markets close at tip-off and are due to resolve within a day
+const RESOLVE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+function sportName(game: Game): string {
+  return game.sport.charAt(0) + game.sport.slice(1).toLowerCase();
+}
+
+// Spread lines read like a sportsbook's: "+3.5", "-7"
+function formatSpread(line: number): string {
+  return line > 0 ? `+${line}` : String(line);
+}
+
+// Outcome labels in the order they're created - the first is the side that
+// wins when the score beats the line
+function outcomeLabels(game: Game, kind: GameMarketKind, line: number): [string, string] {
+  if (kind === "TOTAL") {
+    return [`Over ${line}`, `Under ${line}`];
+  }
+  return [`Menlo ${formatSpread(line)}`, `${game.opponent} ${formatSpread(-line)}`];
+}
+
+// The "Will Menlo win?" market, linked to the game through games.marketId
+export async function createGameMoneylineMarket(
+  game: Game,
+  createdBy: string
+): Promise<{ game: Game; market: Market }> {
+  if (game.marketId) {
+    throw new GameMarketError("Market already exists for this game");
+  }
+
+  const sport = sportName(game);
+  const market = await storage.createMarket({
+    type: "PREDICTION",
+    title: `Menlo ${sport} vs ${game.opponent}: Will Menlo win?`,
+    description: `Prediction market for the ${sport} game against ${game.opponent}. Resolves YES if Menlo wins and NO if Menlo loses. A tie voids the market and refunds every position.`,
+    category: "Sports",
+    status: "OPEN",
+    source: "INTERNAL",
+    closeAt: game.gameDate,
+    resolveAt: new Date(new Date(game.gameDate).getTime() + RESOLVE_WINDOW_MS),
+    resolutionRule: "Based on official game results",
+    liquidity: DEFAULT_LIQUIDITY,
+    createdBy,
+  });
+  await storage.createOutcome({ marketId: market.id, label: "Yes", currentPrice: 0.5 });
+  await storage.createOutcome({ marketId: market.id, label: "No", currentPrice: 0.5 });
+
+  await storage.updateGame(game.id, { marketId: market.id });
+  return { game: { ...game, marketId: market.id }, market };
+}
+
+export async function createGameLineMarket(
+  game: Game,
+  kind: GameMarketKind,
+  line: number,
+  createdBy: string
+): Promise<{ gameMarket: GameMarket; market: Market }> {
+  if (game.status !== "UPCOMING") {
+    throw new GameMarketError("Lines can only be added before the game is played");
+  }
+  const existing = await storage.getGameMarkets(game.id);
+  if (existing.some((gm) => gm.kind === kind && gm.line === line)) {
+    throw new GameMarketError("A market already exists for this line", 409);
+  }
+
+  const sport = sportName(game);
+  const [first, second] = outcomeLabels(game, kind, line);
+  const title =
+    kind === "TOTAL"
+      ? `Menlo ${sport} vs ${game.opponent}: Over/Under ${line} total points?`
+      : `Menlo ${sport} vs ${game.opponent}: Will Menlo cover ${formatSpread(line)}?`;
+  const description =
+    kind === "TOTAL"
+      ? `Total points scored by both teams in the ${sport} game against ${game.opponent}. Resolves "${first}" if the combined score is above ${line}, "${second}" if below. Voided on an exact push.`
+      : `Point spread for the ${sport} game against ${game.opponent}. Resolves "${first}" if Menlo's score ${line > 0 ? "plus" : "minus"} ${Math.abs(line)} beats ${game.opponent}'s, "${second}" otherwise. Voided on an exact push.`;
+
+  const market = await storage.createMarket({
+    type: "PREDICTION",
+    title,
+    description,
+    category: "Sports",
+    status: "OPEN",
+    source: "INTERNAL",
+    closeAt: game.gameDate,
+    resolveAt: new Date(new Date(game.gameDate).getTime() + RESOLVE_WINDOW_MS),
+    resolutionRule: "Based on official game results",
+    liquidity: DEFAULT_LIQUIDITY,
+    createdBy,
+  });
+  await storage.createOutcome({ marketId: market.id, label: first, currentPrice: 0.5 });
+  await storage.createOutcome({ marketId: market.id, label: second, currentPrice: 0.5 });
+
+  const gameMarket = await storage.createGameMarket({ gameId: game.id, marketId: market.id, kind, line });
+  return { gameMarket, market };
+}
+
+// Settles the moneyline market and every line market on a completed game.
+// Markets that were already resolved or voided by hand are left alone.
+export async function resolveGameMarkets(game: Game, resolvedBy: string): Promise<void> {
+  if (game.menloScore === null || game.opponentScore === null) return;
+  const menloScore = game.menloScore;
+  const opponentScore = game.opponentScore;
+  const note = `Final score: Menlo ${menloScore} - ${opponentScore} ${game.opponent}`;
+
+  if (game.marketId) {
+    // Tie game - void the market and refund everyone's stake
+    const margin = menloScore - opponentScore;
+    await settle(game.marketId, ["Yes", "No"], margin, resolvedBy, note, "Game ended in a tie");
+  }
+
+  for (const gm of await storage.getGameMarkets(game.id)) {
+    const margin =
+      gm.kind === "TOTAL" ? menloScore + opponentScore - gm.line : menloScore - opponentScore + gm.line;
+    await settle(
+      gm.marketId,
+      outcomeLabels(game, gm.kind as GameMarketKind, gm.line),
+      margin,
+      resolvedBy,
+      note,
+      "Push - the final score landed on the line"
+    );
+  }
+}
+
+// Resolves to the first label when `margin` is positive, the second when
+// negative, and voids the market when it's exactly 0
+async function settle(
+  marketId: string,
+  [first, second]: [string, string],
+  margin: number,
+  resolvedBy: string,
+  note: string,
+  pushReason: string
+): Promise<void> {
+  const market = await storage.getMarket(marketId);
+  if (!market || (market.status !== "OPEN" && market.status !== "CLOSED")) return;
+
+  const winner = market.outcomes?.find((o) => o.label === (margin > 0 ? first : second));
+  if (margin !== 0 && !winner) {
+    console.warn(`Market ${marketId} is missing its "${first}"/"${second}" outcomes, skipping resolution`);
+    return;
+  }
+
+  try {
+    if (margin === 0) {
+      await voidMarket(marketId, resolvedBy, pushReason);
+    } else {
+      await resolveMarket(marketId, winner!.id, resolvedBy, note);
+    }
+  } catch (error) {
+    // One market failing to settle shouldn't hold up the others on the game
+    if (!(error instanceof ResolutionError)) throw error;
+    console.warn(`Could not settle game market ${marketId}: ${error.message}`);
+  }
+}
@@ -0,0 +1,266 @@
+import { storage, TradeError, type IpoSubscriptionExecution } from "./storage";
+import { DEFAULT_LIQUIDITY, TRADE_ERROR_STATUS } from "./trading";
+import { assignPatternType, createStockSimProfile, generateHistoricalCandles } from "./stockSimulator";
+import type {
+  ApproveIpo,
+  InsertStock,
+  IpoRequest,
+  IpoSubscription,
+  IpoSubscriptionWithDetails,
+  Market,
+  MarketWithDetails,
+} from "@shared/schema";
+
+// Raised for IPO requests and subscriptions that can't go through
+export class IpoError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "IpoError";
+  }
+}
+
+// One listing in the queue per club leader at a time
+const MAX_PENDING_REQUESTS_PER_USER = 1;
+// Same pool depth as the seeded club stocks
+const IPO_VIRTUAL_LIQUIDITY = 100000;
+// Share of the float sold in the allocation window; the rest is left for open trading
+const IPO_ALLOCATION_SHARE = 0.5;
+const HISTORY_DAYS = 90;
+
+// A club leader asks for their club to be listed as a student stock
+export async function requestIpo(userId: string, input: InsertStock): Promise<IpoRequest> {
+  const pending = (await storage.getIpoRequestsByUser(userId)).filter((r) => r.status === "PENDING");
+  if (pending.length >= MAX_PENDING_REQUESTS_PER_USER) {
+    throw new IpoError("You already have an IPO request waiting for review");
+  }
+  await checkTickerAvailable(input.ticker);
+
+  return storage.createIpoRequest({
+    requestedBy: userId,
+    ticker: input.ticker,
+    name: input.name,
+    description: input.description,
+    category: input.category,
+    initialPrice: input.initialPrice,
+    floatSupply: input.floatSupply,
+  });
+}
+
+export async function getIpoRequestsByUser(userId: string): Promise<IpoRequest[]> {
+  return storage.getIpoRequestsByUser(userId);
+}
+
+export async function getPendingIpoRequests(): Promise<IpoRequest[]> {
+  return storage.getIpoRequests("PENDING");
+}
+
+// Approval creates the STOCK market, its stock meta and simulation profile. The
+// market starts in IPO status: students can subscribe at the IPO price until
+// the allocation window ends, then it lists and opens for trading.
+export async function approveIpo(requestId: string, adminId: string, options: ApproveIpo): Promise<IpoRequest> {
+  const request = await getPendingRequest(requestId);
+  // Another stock may have taken the ticker while the request sat in the queue
+  await checkTickerAvailable(request.ticker, request.id);
+
+  // Claim the request before listing anything, so a double-clicked approve
+  // can't create the stock twice
+  await claimPendingRequest(request.id, { status: "APPROVED", reviewedBy: adminId, reviewedAt: new Date() });
+
+  let market: Market | undefined;
+  try {
+    market = await storage.createMarket({
+      type: "STOCK",
+      title: request.name,
+      description: request.description,
+      category: request.category,
+      status: "IPO",
+      source: "INTERNAL",
+      closeAt: null,
+      resolveAt: null,
+      resolutionRule: null,
+      liquidity: DEFAULT_LIQUIDITY,
+      createdBy: request.requestedBy,
+    });
+    await listStock(market, request, options);
+    const approved = await storage.updateIpoRequest(request.id, { marketId: market.id });
+    return approved!;
+  } catch (error) {
+    // Take down the half-built stock so the ticker is free for another try -
+    // unless students have already subscribed, in which case it stays listed
+    if (market && !(await storage.deleteIpoStock(market.id))) {
+      await storage.updateIpoRequest(request.id, { marketId: market.id });
+      throw error;
+    }
+    // Put it back in the queue so the admin can try again
+    await storage.updateIpoRequest(request.id, { status: "PENDING", reviewedBy: null, reviewedAt: null });
+    throw error;
+  }
+}
+
+// Gives a new IPO market its stock meta, simulation profile and price history
+async function listStock(market: Market, request: IpoRequest, options: ApproveIpo): Promise<void> {
+  const ipoEndsAt = new Date(Date.now() + options.allocationHours * 60 * 60 * 1000);
+  // Pattern types rotate through the stocks listed before this one
+  const listedStocks = (await storage.getMarkets("STOCK")).filter((m) => m.id !== market.id);
+
+  await storage.createStockMeta({
+    marketId: market.id,
+    ticker: request.ticker,
+    initialPrice: request.initialPrice,
+    currentPrice: request.initialPrice,
+    floatSupply: request.floatSupply,
+    virtualLiquidity: IPO_VIRTUAL_LIQUIDITY,
+    ipoEndsAt,
+  });
+
+  const patternType = assignPatternType(listedStocks.length);
+  if (options.generateHistory) {
+    await generateHistoricalCandles(market.id, request.initialPrice, patternType, HISTORY_DAYS, request.initialPrice);
+  } else {
+    await createStockSimProfile(market.id, request.initialPrice, patternType);
+    // The simulator extends the latest candle, so a new stock needs one to start from
+    const now = new Date();
+    await storage.addStockCandle({
+      marketId: market.id,
+      open: request.initialPrice,
+      high: request.initialPrice,
+      low: request.initialPrice,
+      close: request.initialPrice,
+      volume: 0,
+      timestamp: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+    });
+  }
+}
+
+export async function rejectIpo(requestId: string, adminId: string, reason: string): Promise<IpoRequest> {
+  const request = await getPendingRequest(requestId);
+  return claimPendingRequest(request.id, {
+    status: "REJECTED",
+    reviewedBy: adminId,
+    reason,
+    reviewedAt: new Date(),
+  });
+}
+
+export async function subscribeToIpo(userId: string, marketId: string, qty: number): Promise<IpoSubscriptionExecution> {
+  try {
+    return await storage.subscribeToIpo(userId, marketId, qty);
+  } catch (error) {
+    if (error instanceof TradeError) {
+      throw new IpoError(error.message, TRADE_ERROR_STATUS[error.code]);
+    }
+    throw error;
+  }
+}
+
+export async function getSubscriptionsByUser(userId: string): Promise<IpoSubscriptionWithDetails[]> {
+  const subscriptions = await storage.getIpoSubscriptionsByUser(userId);
+  return Promise.all(
+    subscriptions.map(async (subscription) => {
+      const market = await storage.getMarket(subscription.marketId);
+      return { ...subscription, market, ticker: market?.stockMeta?.ticker };
+    })
+  );
+}
+
+// Splits `offered` shares across subscriptions. Everyone is filled in full when
+// there's enough; otherwise each gets the same fraction of what they asked for,
+// rounded down, and the leftover shares go one each to the largest remainders
+// (earliest subscription first on ties).
+export function allocateShares(subscriptions: Pick<IpoSubscription, "id" | "qty">[], offered: number): Map<string, number> {
+  const requested = subscriptions.reduce((sum, s) => sum + s.qty, 0);
+  const allocations = new Map<string, number>();
+  if (requested <= offered) {
+    for (const s of subscriptions) allocations.set(s.id, s.qty);
+    return allocations;
+  }
+
+  const ratio = offered / requested;
+  let leftover = offered;
+  const remainders = subscriptions.map((s, index) => {
+    const exact = s.qty * ratio;
+    const shares = Math.floor(exact);
+    allocations.set(s.id, shares);
+    leftover -= shares;
+    return { id: s.id, remainder: exact - shares, index };
+  });
+  remainders.sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { id } of remainders.slice(0, leftover)) {
+    allocations.set(id, allocations.get(id)! + 1);
+  }
+  return allocations;
+}
+
+// Fills every subscription for a stock whose window has ended and opens it for trading
+export async function listIpo(market: MarketWithDetails): Promise<void> {
+  if (!market.stockMeta) return;
+
+  const subscriptions = await storage.getIpoSubscriptions(market.id);
+  // Shares already handed out by an earlier, interrupted run still count against the offering
+  const alreadyAllocated = subscriptions.reduce((sum, s) => sum + (s.allocatedQty ?? 0), 0);
+  const offered = Math.floor(market.stockMeta.floatSupply * IPO_ALLOCATION_SHARE) - alreadyAllocated;
+  const pending = subscriptions.filter((s) => s.status === "PENDING");
+
+  const allocations = allocateShares(pending, Math.max(0, offered));
+  let allocated = 0;
+  for (const subscription of pending) {
+    const qty = allocations.get(subscription.id) ?? 0;
+    await storage.allocateIpoSubscription(subscription.id, qty);
+    allocated += qty;
+  }
+
+  await storage.setMarketStatus(market.id, "OPEN", {
+    fromStatus: "IPO",
+    changedBy: null,
+    reason: "IPO allocation complete",
+  });
+  console.log(
+    `Listed ${market.stockMeta.ticker}: allocated ${allocated} shares across ${pending.length} subscriptions`
+  );
+}
+
+// Runs on the simulator tick - lists every IPO whose allocation window is over
+export async function closeIpoWindows(): Promise<void> {
+  const now = Date.now();
+  const due = (await storage.getMarketsByStatus("IPO")).filter(
+    (m) => m.stockMeta?.ipoEndsAt && new Date(m.stockMeta.ipoEndsAt).getTime() <= now
+  );
+  for (const market of due) {
+    try {
+      await listIpo(market);
+    } catch (error) {
+      console.error(`IPO listing error for ${market.id}:`, error);
+    }
+  }
+}
+
+async function getPendingRequest(requestId: string): Promise<IpoRequest> {
+  const request = await storage.getIpoRequest(requestId);
+  if (!request) {
+    throw new IpoError("IPO request not found", 404);
+  }
+  if (request.status !== "PENDING") {
+    throw new IpoError("IPO request is not waiting for review");
+  }
+  return request;
+}
+
+// Moves a request out of PENDING only if nothing else has reviewed it meanwhile
+async function claimPendingRequest(requestId: string, updates: Partial<IpoRequest>): Promise<IpoRequest> {
+  const claimed = await storage.updateIpoRequest(requestId, updates, "PENDING");
+  if (!claimed) {
+    throw new IpoError("IPO request is not waiting for review", 409);
+  }
+  return claimed;
+}
+
+async function checkTickerAvailable(ticker: string, excludeRequestId?: string): Promise<void> {
+  const stocks = await storage.getMarkets("STOCK");
+  const pending = await storage.getIpoRequests("PENDING");
+  const taken =
+    stocks.some((s) => s.stockMeta?.ticker === ticker) ||
+    pending.some((r) => r.ticker === ticker && r.id !== excludeRequestId);
+  if (taken) {
+    throw new IpoError(`Ticker ${ticker} is already taken`, 409);
+  }
+}
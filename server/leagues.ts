@@ -0,0 +1,65 @@
+import { storage } from "./storage";
+import type {
+  AddLeagueGroupMembersResult,
+  GradeStanding,
+  InsertLeagueGroup,
+  LeagueGroup,
+  Leagues,
+} from "@shared/schema";
+
+// Students compete in their grade (from registration) and in any groups an
+// admin puts them in. The leaderboard itself does the ranking - this module
+// manages the groups and serves the class-vs-class standings built on it.
+
+export class LeagueError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "LeagueError";
+  }
+}
+
+export async function getLeagues(): Promise<Leagues> {
+  const [grades, groups] = await Promise.all([storage.getLeagueGrades(), storage.getLeagueGroups()]);
+  return { grades, groups };
+}
+
+export async function createLeagueGroup(input: InsertLeagueGroup, createdBy: string): Promise<LeagueGroup> {
+  const groups = await storage.getLeagueGroups();
+  if (groups.some((g) => g.name.toLowerCase() === input.name.toLowerCase())) {
+    throw new LeagueError(`There's already a group called "${input.name}"`, 409);
+  }
+  return storage.createLeagueGroup({ ...input, createdBy });
+}
+
+export async function getLeagueGroupOrThrow(groupId: string): Promise<LeagueGroup> {
+  const group = await storage.getLeagueGroup(groupId);
+  if (!group) {
+    throw new LeagueError("Group not found", 404);
+  }
+  return group;
+}
+
+// Adds students by school email. Emails that don't match an account are
+// reported back rather than failing the whole list.
+export async function addLeagueGroupMembers(groupId: string, emails: string[]): Promise<AddLeagueGroupMembersResult> {
+  await getLeagueGroupOrThrow(groupId);
+
+  const result: AddLeagueGroupMembersResult = { added: 0, alreadyMembers: 0, notFound: [] };
+  for (const email of Array.from(new Set(emails.map((e) => e.trim()).filter(Boolean)))) {
+    const user = (await storage.getUserByEmail(email)) ?? (await storage.getUserByEmail(email.toLowerCase()));
+    if (!user) {
+      result.notFound.push(email);
+    } else if (await storage.addLeagueGroupMember(groupId, user.id)) {
+      result.added++;
+    } else {
+      result.alreadyMembers++;
+    }
+  }
+  return result;
+}
+
+// Each grade's average return over the window, best first. Averaging returns
+// rather than summing value keeps a big class from winning on headcount.
+export async function getGradeStandings(timeFilter?: string): Promise<GradeStanding[]> {
+  return storage.getGradeStandings(timeFilter);
+}
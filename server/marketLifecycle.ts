@@ -0,0 +1,80 @@
+import { storage } from "./storage";
+import { sendResolutionReminderEmail } from "./email";
+import { cancelConditionalOrders, cancelOpenOrders } from "./trading";
+import type { Market } from "@shared/schema";
+
+// Enforces the dates on a market. On every tick, OPEN markets past their
+// closeAt move to CLOSED (trading stops and resting orders are cancelled), and
+// markets past their resolveAt that still haven't been resolved are flagged to
+// admins by email, once per market.
+
+// Moves every OPEN market whose close date has passed to CLOSED
+export async function closeExpiredMarkets(now: Date = new Date()): Promise<number> {
+  let closed = 0;
+  for (const market of await storage.getMarketsPastClose(now)) {
+    // An admin may have resolved or voided it since we read it - then leave it alone
+    const updated = await storage.setMarketStatus(market.id, "CLOSED", {
+      fromStatus: "OPEN",
+      changedBy: null,
+      reason: "Close date passed",
+    });
+    if (!updated) continue;
+
+    // Resting orders hold cash and shares that can't trade any more
+    await cancelOpenOrders(market.id);
+    await cancelConditionalOrders(market.id, "Market closed");
+    closed++;
+  }
+  return closed;
+}
+
+// Emails every admin about markets that are past their resolution date
+export async function flagOverdueResolutions(now: Date = new Date()): Promise<number> {
+  const overdue: Market[] = [];
+  for (const market of await storage.getMarketsPastResolve(now)) {
+    if (await storage.createResolutionReminder(market.id)) {
+      overdue.push(market);
+    }
+  }
+  if (overdue.length === 0) return 0;
+
+  const admins = (await storage.getAllUsers()).filter((u) => u.role === "ADMIN");
+  for (const market of overdue) {
+    for (const admin of admins) {
+      await sendResolutionReminderEmail(admin.email, market.id, market.title, market.resolveAt!);
+    }
+  }
+  return overdue.length;
+}
+
+export async function runMarketLifecycle(): Promise<void> {
+  const closed = await closeExpiredMarkets();
+  const flagged = await flagOverdueResolutions();
+  if (closed > 0 || flagged > 0) {
+    console.log(`Market lifecycle: closed ${closed} markets, flagged ${flagged} for resolution`);
+  }
+}
+
+let lifecycleInterval: ReturnType<typeof setInterval> | null = null;
+
+export function startMarketLifecycle(intervalMinutes: number = 1): void {
+  if (lifecycleInterval) {
+    clearInterval(lifecycleInterval);
+  }
+
+  console.log(`Starting market lifecycle scheduler (runs every ${intervalMinutes} minutes)`);
+
+  runMarketLifecycle().catch(console.error);
+
+  lifecycleInterval = setInterval(() => {
+    runMarketLifecycle().catch(console.error);
+  }, intervalMinutes * 60 * 1000);
+}
+
+export function stopMarketLifecycle(): void {
+  if (lifecycleInterval) {
+    clearInterval(lifecycleInterval);
+    lifecycleInterval = null;
+    console.log("Market lifecycle scheduler stopped");
+  }
+}
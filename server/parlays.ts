@@ -0,0 +1,151 @@
+import { storage, TradeError, type ParlayExecution } from "./storage";
+import { TRADE_ERROR_STATUS } from "./trading";
+import type {
+  MarketWithDetails,
+  Parlay,
+  ParlayLeg,
+  ParlayLegStatus,
+  ParlayWithLegs,
+  PlaceParlay,
+} from "@shared/schema";
+
+// Raised for parlay slips that can't be placed
+export class ParlayError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ParlayError";
+  }
+}
+
+// Near-certain legs add nothing to a slip, and long shots would let a $1 stake
+// multiply into an absurd payout
+const MIN_LEG_PRICE = 0.02;
+const MAX_LEG_PRICE = 0.98;
+const MAX_PAYOUT = 50000;
+
+// Parlays are for sports: imported Polymarket events and markets on Menlo games
+export function isParlayMarket(market: MarketWithDetails): boolean {
+  return market.type === "PREDICTION" && market.category === "Sports";
+}
+
+// stake x the product of each leg's decimal odds (1 / price), rounded to cents.
+// Voided legs are left out, as if they were never on the slip.
+export function parlayPayout(stake: number, legs: Pick<ParlayLeg, "price" | "status">[]): number {
+  const odds = legs.filter((l) => l.status !== "VOID").reduce((product, l) => product / l.price, 1);
+  return Math.round(stake * odds * 100) / 100;
+}
+
+export async function placeParlay(userId: string, input: PlaceParlay): Promise<ParlayExecution> {
+  const legs = await Promise.all(
+    input.legs.map(async ({ marketId, outcomeId }) => {
+      const market = await storage.getMarket(marketId);
+      if (!market) {
+        throw new ParlayError("Market not found", 404);
+      }
+      if (!isParlayMarket(market)) {
+        throw new ParlayError(`"${market.title}" isn't a sports market`);
+      }
+      if (market.status !== "OPEN") {
+        throw new ParlayError(`"${market.title}" is not open for betting`);
+      }
+      const outcome = market.outcomes?.find((o) => o.id === outcomeId);
+      if (!outcome) {
+        throw new ParlayError(`Outcome does not belong to "${market.title}"`);
+      }
+      if (outcome.currentPrice < MIN_LEG_PRICE || outcome.currentPrice > MAX_LEG_PRICE) {
+        throw new ParlayError(
+          `${outcome.label} on "${market.title}" is priced too close to 0 or 1 to add to a parlay`
+        );
+      }
+      return { marketId, outcomeId, price: outcome.currentPrice };
+    })
+  );
+
+  // A game's moneyline, spread and total move together, so a slip can only
+  // take one of them
+  const gameIds = await Promise.all(legs.map((leg) => storage.getGameIdForMarket(leg.marketId)));
+  const seenGames = new Set<string>();
+  for (const gameId of gameIds) {
+    if (!gameId) continue;
+    if (seenGames.has(gameId)) {
+      throw new ParlayError("A parlay can only have one leg per game");
+    }
+    seenGames.add(gameId);
+  }
+
+  const potentialPayout = parlayPayout(input.stake, legs.map((l) => ({ ...l, status: "PENDING" })));
+  if (potentialPayout > MAX_PAYOUT) {
+    throw new ParlayError(`Parlays can pay at most $${MAX_PAYOUT.toLocaleString()} - lower the stake or drop a leg`);
+  }
+
+  try {
+    return await storage.placeParlay(userId, input.stake, potentialPayout, legs);
+  } catch (error) {
+    if (error instanceof TradeError) {
+      throw new ParlayError(error.message, TRADE_ERROR_STATUS[error.code]);
+    }
+    throw error;
+  }
+}
+
+export async function getParlaysByUser(userId: string): Promise<ParlayWithLegs[]> {
+  const slips = await storage.getParlaysByUser(userId);
+  return Promise.all(slips.map(withLegs));
+}
+
+// Called when a market resolves: settles every pending leg on it, then any slip
+// that no longer has anything to wait for
+export async function settleParlayLegs(marketId: string, winningOutcomeId: string): Promise<void> {
+  await settleLegs(marketId, (leg) => (leg.outcomeId === winningOutcomeId ? "WON" : "LOST"));
+}
+
+// Called when a market is voided: its legs drop out of their slips
+export async function voidParlayLegs(marketId: string): Promise<void> {
+  await settleLegs(marketId, () => "VOID");
+}
+
+async function settleLegs(
+  marketId: string,
+  statusFor: (leg: ParlayLeg) => Exclude<ParlayLegStatus, "PENDING">
+): Promise<void> {
+  const parlayIds = new Set<string>();
+  for (const leg of await storage.getPendingParlayLegs(marketId)) {
+    if (await storage.settleParlayLeg(leg.id, statusFor(leg))) {
+      parlayIds.add(leg.parlayId);
+    }
+  }
+  for (const parlayId of Array.from(parlayIds)) {
+    await settleParlayIfDone(parlayId);
+  }
+}
+
+// A single losing leg loses the slip. Otherwise it waits until every leg is in,
+// then pays out on the legs that stood - or refunds the stake if none did.
+async function settleParlayIfDone(parlayId: string): Promise<Parlay | undefined> {
+  const parlay = await storage.getParlay(parlayId);
+  if (!parlay || parlay.status !== "OPEN") return undefined;
+
+  const legs = await storage.getParlayLegs(parlayId);
+  if (legs.some((l) => l.status === "LOST")) {
+    return storage.settleParlay(parlayId, "LOST", 0);
+  }
+  if (legs.some((l) => l.status === "PENDING")) return undefined;
+
+  if (legs.every((l) => l.status === "VOID")) {
+    return storage.settleParlay(parlayId, "VOID", parlay.stake);
+  }
+  return storage.settleParlay(parlayId, "WON", parlayPayout(parlay.stake, legs));
+}
+
+async function withLegs(parlay: Parlay): Promise<ParlayWithLegs> {
+  const legs = await storage.getParlayLegs(parlay.id);
+  return {
+    ...parlay,
+    legs: await Promise.all(
+      legs.map(async (leg) => {
+        const market = await storage.getMarket(leg.marketId);
+        return { ...leg, market, outcome: market?.outcomes?.find((o) => o.id === leg.outcomeId) };
+      })
+    ),
+  };
+}
@@ -0,0 +1,45 @@
+// A small in-memory cache where every entry expires `ttlMs` after it was stored.
+// Concurrent loads of the same key share one in-flight request.
+export class TtlCache<T> {
+  private entries: Map<string, { value: T; expiresAt: number }> = new Map();
+  private pending: Map<string, Promise<T>> = new Map();
+
+  constructor(private ttlMs: number) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: T): void {
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  // Returns the cached value, or runs `load` and caches what it returns. A
+  // failed load isn't cached, so the next call tries again.
+  async getOrLoad(key: string, load: () => Promise<T>): Promise<T> {
+    const cached = this.get(key);
+    if (cached !== undefined) return cached;
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const request = load()
+      .then((value) => {
+        this.set(key, value);
+        return value;
+      })
+      .finally(() => this.pending.delete(key));
+    this.pending.set(key, request);
+    return request;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
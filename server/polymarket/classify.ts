@@ -0,0 +1,93 @@
+import type { PolymarketEvent } from "./client";
+
+export type SportsLeague =
+  | "NBA"
+  | "NFL"
+  | "MLB"
+  | "NHL"
+  | "NCAA"
+  | "SOCCER"
+  | "TENNIS"
+  | "GOLF"
+  | "F1"
+  | "NASCAR"
+  | "UFC"
+  | "BOXING"
+  | "OTHER";
+
+// Matched against the event slug
+const SPORTS_SLUG_PATTERNS = [
+  "nba", "nfl", "mlb", "nhl", "mls", "premier-league", "la-liga", "bundesliga", "serie-a", "ligue-1",
+  "super-bowl", "world-series", "stanley-cup", "champions-league", "world-cup", "euro-", "copa-america",
+  "wimbledon", "us-open", "french-open", "australian-open", "masters", "pga", "f1-", "formula-1",
+  "nascar", "ufc", "boxing", "golf", "tennis", "soccer", "football-", "basketball", "baseball", "hockey",
+];
+
+// Matched against the title and description
+const SPORTS_KEYWORDS = [
+  "nba", "nfl", "mlb", "nhl", "mls", "premier league", "la liga", "bundesliga", "serie a", "ligue 1",
+  "super bowl", "world series", "stanley cup", "champions league", "world cup", "wimbledon",
+  "us open", "french open", "australian open", "the masters", "pga tour", "lpga", "f1 ", "formula 1",
+  "nascar", "indy 500", "march madness", "ncaa", "college football", "mvp award", "heisman",
+  "ufc ", "boxing", "mma", "golf", "tennis", "soccer", "football game", "basketball", "baseball", "hockey",
+];
+
+// Political and economic events that happen to mention a sports keyword
+const EXCLUDE_KEYWORDS = [
+  "president", "election", "trump", "biden", "political", "congress", "parliament",
+  "macron", "ukraine", "nato", "war", "tariff", "recession", "inflation", "fed ", "rates",
+];
+
+// Checked in order - the first league whose slug patterns (or failing that, keywords) match wins.
+// Sports events that match none (e.g. a generic "basketball" event) are OTHER.
+const LEAGUE_RULES: { league: SportsLeague; slugPatterns: string[]; keywords: string[] }[] = [
+  { league: "NBA", slugPatterns: ["nba"], keywords: ["nba"] },
+  { league: "NFL", slugPatterns: ["nfl", "super-bowl"], keywords: ["nfl", "super bowl"] },
+  { league: "MLB", slugPatterns: ["mlb", "world-series"], keywords: ["mlb", "world series"] },
+  { league: "NHL", slugPatterns: ["nhl", "stanley-cup"], keywords: ["nhl", "stanley cup"] },
+  {
+    league: "NCAA",
+    slugPatterns: ["ncaa", "march-madness", "college-football", "heisman"],
+    keywords: ["ncaa", "march madness", "college football", "heisman"],
+  },
+  {
+    league: "SOCCER",
+    slugPatterns: [
+      "mls", "premier-league", "la-liga", "bundesliga", "serie-a", "ligue-1", "champions-league",
+      "world-cup", "euro-", "copa-america", "soccer",
+    ],
+    keywords: [
+      "mls", "premier league", "la liga", "bundesliga", "serie a", "ligue 1", "champions league",
+      "world cup", "soccer",
+    ],
+  },
+  {
+    league: "TENNIS",
+    slugPatterns: ["wimbledon", "us-open", "french-open", "australian-open", "tennis"],
+    keywords: ["wimbledon", "us open", "french open", "australian open", "tennis"],
+  },
+  { league: "GOLF", slugPatterns: ["masters", "pga", "golf"], keywords: ["the masters", "pga tour", "lpga", "golf"] },
+  { league: "F1", slugPatterns: ["f1-", "formula-1"], keywords: ["f1 ", "formula 1"] },
+  { league: "NASCAR", slugPatterns: ["nascar"], keywords: ["nascar"] },
+  { league: "UFC", slugPatterns: ["ufc"], keywords: ["ufc ", "mma"] },
+  { league: "BOXING", slugPatterns: ["boxing"], keywords: ["boxing"] },
+];
+
+// Returns the event's league, or null if it isn't a sports event
+export function classifySportsEvent(event: Pick<PolymarketEvent, "slug" | "title" | "description">): SportsLeague | null {
+  const slug = (event.slug || "").toLowerCase();
+  const text = (event.title + " " + (event.description || "")).toLowerCase();
+
+  const isSports =
+    SPORTS_SLUG_PATTERNS.some((pattern) => slug.includes(pattern)) ||
+    SPORTS_KEYWORDS.some((keyword) => text.includes(keyword));
+  if (!isSports || EXCLUDE_KEYWORDS.some((keyword) => text.includes(keyword))) {
+    return null;
+  }
+
+  // The slug is the more reliable signal, so it gets the first say
+  const rule =
+    LEAGUE_RULES.find((r) => r.slugPatterns.some((pattern) => slug.includes(pattern))) ??
+    LEAGUE_RULES.find((r) => r.keywords.some((keyword) => text.includes(keyword)));
+  return rule?.league ?? "OTHER";
+}
@@ -0,0 +1,107 @@
+import { readFile } from "fs/promises";
+import { TtlCache } from "./cache";
+
+const GAMMA_API_URL = "https://gamma-api.polymarket.com";
+
+// Gamma responses change slowly; a minute keeps page loads and the AI advisor
+// from hitting Polymarket on every request
+const DEFAULT_CACHE_TTL_MS = 60 * 1000;
+
+// The sync looks links up one at a time, so a request that hangs would hold up
+// every market behind it
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+// One market (question) inside an event. `outcomes` and `outcomePrices` come
+// back as JSON-encoded arrays of strings, e.g. '["Yes","No"]' and '["0.62","0.38"]'.
+export interface PolymarketMarket {
+  id: string;
+  question?: string;
+  outcomes?: string;
+  outcomePrices?: string;
+  closed?: boolean;
+}
+
+// The fields of a gamma-api event that Trading Knights reads
+export interface PolymarketEvent {
+  id: string;
+  slug?: string;
+  title: string;
+  description?: string;
+  image?: string;
+  icon?: string;
+  endDate?: string;
+  volume?: number;
+  liquidity?: number;
+  active?: boolean;
+  closed?: boolean;
+  markets?: PolymarketMarket[];
+}
+
+// Anything that can look up events - the live gamma API, or recorded fixtures
+// for offline development and tests
+export interface PolymarketClient {
+  // Active events that haven't closed, most relevant first
+  listOpenEvents(limit: number): Promise<PolymarketEvent[]>;
+  getEvent(eventId: string): Promise<PolymarketEvent | undefined>;
+}
+
+export function createGammaClient(baseUrl: string = GAMMA_API_URL): PolymarketClient {
+  return {
+    async listOpenEvents(limit) {
+      const response = await fetch(`${baseUrl}/events?closed=false&limit=${limit}&active=true`, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Polymarket returned ${response.status} listing events`);
+      }
+      return response.json();
+    },
+
+    async getEvent(eventId) {
+      const response = await fetch(`${baseUrl}/events/${encodeURIComponent(eventId)}`, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (response.status === 404) return undefined;
+      if (!response.ok) {
+        throw new Error(`Polymarket returned ${response.status} for event ${eventId}`);
+      }
+      return response.json();
+    },
+  };
+}
+
+// Serves events from a JSON file holding an array of recorded gamma-api events
+export function createFixtureClient(path: string): PolymarketClient {
+  let events: Promise<PolymarketEvent[]> | null = null;
+  const load = (): Promise<PolymarketEvent[]> =>
+    (events ??= readFile(path, "utf8").then((data) => JSON.parse(data)));
+
+  return {
+    async listOpenEvents(limit) {
+      return (await load()).filter((e) => e.active !== false && !e.closed).slice(0, limit);
+    },
+
+    async getEvent(eventId) {
+      return (await load()).find((e) => e.id === eventId);
+    },
+  };
+}
+
+// Wraps a client so repeated lookups within `ttlMs` are answered from memory
+export function withCache(client: PolymarketClient, ttlMs: number = DEFAULT_CACHE_TTL_MS): PolymarketClient {
+  const lists = new TtlCache<PolymarketEvent[]>(ttlMs);
+  const events = new TtlCache<PolymarketEvent | undefined>(ttlMs);
+
+  return {
+    listOpenEvents: (limit) => lists.getOrLoad(String(limit), () => client.listOpenEvents(limit)),
+    getEvent: (eventId) => events.getOrLoad(eventId, () => client.getEvent(eventId)),
+  };
+}
+
+// The client the app uses. Set POLYMARKET_FIXTURES to a fixture file (e.g.
+// server/polymarket/fixtures/events.json) to run without network access.
+export const polymarketClient: PolymarketClient = withCache(
+  process.env.POLYMARKET_FIXTURES
+    ? createFixtureClient(process.env.POLYMARKET_FIXTURES)
+    : createGammaClient()
+);
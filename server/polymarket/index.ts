@@ -0,0 +1,20 @@
+export {
+  polymarketClient,
+  createGammaClient,
+  createFixtureClient,
+  withCache,
+  type PolymarketClient,
+  type PolymarketEvent,
+  type PolymarketMarket,
+} from "./client";
+export { TtlCache } from "./cache";
+export { classifySportsEvent, type SportsLeague } from "./classify";
+export {
+  syncPolymarketMarket,
+  syncPolymarketMarkets,
+  startPolymarketSync,
+  stopPolymarketSync,
+  mapOutcomePrices,
+  POLYMARKET_RESOLVER,
+  type PolymarketSyncResult,
+} from "./sync";
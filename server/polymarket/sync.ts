@@ -0,0 +1,153 @@
+import { storage } from "../storage";
+import { afterPriceMove, normalizePrices } from "../trading";
+import { resolveMarket, voidMarket } from "../resolution";
+import { polymarketClient, type PolymarketClient, type PolymarketEvent } from "./client";
+import type { MarketWithDetails, Outcome, PolymarketLink } from "@shared/schema";
+
+// Keeps imported Polymarket markets in step with Polymarket. On every tick each
+// linked OPEN market takes its outcome prices from the event's main market
+// (the first one, same as the MK Parlay cards), and once the event closes the
+// Trading Knights market is resolved to the outcome Polymarket settled on.
+
+// Recorded as the resolver on markets settled by the sync
+export const POLYMARKET_RESOLVER = "polymarket-sync";
+
+// A closed event's winning outcome trades at (or within rounding of) $1
+const SETTLED_PRICE = 0.99;
+
+export type PolymarketSyncResult = "synced" | "resolved" | "voided" | "skipped";
+
+// The main market's price for each Trading Knights outcome, keyed by outcome id.
+// Outcomes are matched by label, falling back to order (YES first) for markets
+// whose Polymarket outcomes are named something else, like two team names.
+export function mapOutcomePrices(event: PolymarketEvent, outcomes: Outcome[]): Record<string, number> | undefined {
+  const main = event.markets?.[0];
+  if (!main?.outcomePrices) return undefined;
+
+  let labels: string[];
+  let prices: number[];
+  try {
+    labels = main.outcomes ? JSON.parse(main.outcomes) : [];
+    prices = JSON.parse(main.outcomePrices).map((p: string) => parseFloat(p));
+  } catch {
+    return undefined;
+  }
+  if (prices.length !== outcomes.length || prices.some((p) => !Number.isFinite(p))) return undefined;
+
+  const byLabel = outcomes.map((o) => labels.findIndex((l) => l.toLowerCase() === o.label.toLowerCase()));
+  const indexes = byLabel.every((i) => i !== -1)
+    ? byLabel
+    : outcomes.map((o) => (o.label === "YES" ? 0 : o.label === "NO" ? 1 : -1));
+  if (indexes.some((i) => i === -1) || new Set(indexes).size !== indexes.length) return undefined;
+
+  const result: Record<string, number> = {};
+  outcomes.forEach((outcome, j) => {
+    result[outcome.id] = prices[indexes[j]];
+  });
+  return result;
+}
+
+export async function syncPolymarketMarket(
+  market: MarketWithDetails,
+  link: PolymarketLink,
+  client: PolymarketClient = polymarketClient
+): Promise<PolymarketSyncResult> {
+  const outcomes = market.outcomes ?? [];
+  const event = await client.getEvent(link.polymarketEventId);
+  if (!event) return "skipped";
+
+  const raw = mapOutcomePrices(event, outcomes);
+  if (!raw) {
+    console.warn(`Polymarket sync: can't map event ${link.polymarketEventId} onto market ${market.id}`);
+    return "skipped";
+  }
+
+  if (event.closed || event.markets?.[0]?.closed) {
+    const winner = outcomes.find((o) => raw[o.id] >= SETTLED_PRICE);
+    if (winner) {
+      await resolveMarket(market.id, winner.id, POLYMARKET_RESOLVER, `Resolved ${winner.label} on Polymarket`);
+      await storage.updatePolymarketLink(market.id, { lastSynced: new Date() });
+      return "resolved";
+    }
+    // Polymarket settles unresolvable markets 50/50 - treat that as a void
+    if (outcomes.every((o) => Math.abs(raw[o.id] - 1 / outcomes.length) < 0.01)) {
+      await voidMarket(market.id, POLYMARKET_RESOLVER, "Voided on Polymarket");
+      await storage.updatePolymarketLink(market.id, { lastSynced: new Date() });
+      return "voided";
+    }
+    // Closed but not settled yet - keep tracking prices until it is
+  }
+
+  const normalized = normalizePrices(outcomes.map((o) => raw[o.id]));
+  const prices: Record<string, number> = {};
+  outcomes.forEach((outcome, j) => {
+    prices[outcome.id] = normalized[j];
+  });
+
+  // Undefined when an admin closed, resolved or voided the market in the meantime
+  const updated = await storage.syncOutcomePrices(market.id, prices);
+  if (!updated) return "skipped";
+
+  await storage.updatePolymarketLink(market.id, { lastSynced: new Date() });
+  afterPriceMove(market.id);
+  return "synced";
+}
+
+export async function syncPolymarketMarkets(client: PolymarketClient = polymarketClient): Promise<void> {
+  const links = await storage.getPolymarketLinks();
+  const counts: Record<PolymarketSyncResult, number> = { synced: 0, resolved: 0, voided: 0, skipped: 0 };
+
+  for (const link of links) {
+    const market = await storage.getMarket(link.marketId);
+    // CLOSED markets stop taking prices but can still be resolved from Polymarket
+    if (!market || (market.status !== "OPEN" && market.status !== "CLOSED")) continue;
+    try {
+      counts[await syncPolymarketMarket(market, link, client)]++;
+    } catch (error) {
+      console.error(`Polymarket sync error for ${market.id}:`, error);
+      counts.skipped++;
+    }
+  }
+
+  if (counts.resolved > 0 || counts.voided > 0) {
+    console.log(
+      `Polymarket sync: ${counts.synced} synced, ${counts.resolved} resolved, ${counts.voided} voided, ${counts.skipped} skipped`
+    );
+  }
+}
+
+let syncInterval: ReturnType<typeof setInterval> | null = null;
+// Set while a scheduled sync is running, so a slow one isn't overlapped by the next tick
+let syncRunning = false;
+
+function runScheduledSync(client: PolymarketClient): void {
+  if (syncRunning) return;
+  syncRunning = true;
+  syncPolymarketMarkets(client)
+    .catch(console.error)
+    .finally(() => {
+      syncRunning = false;
+    });
+}
+
+export function startPolymarketSync(intervalMinutes: number = 5, client: PolymarketClient = polymarketClient): void {
+  if (syncInterval) {
+    clearInterval(syncInterval);
+  }
+
+  console.log(`Starting Polymarket sync (runs every ${intervalMinutes} minutes)`);
+
+  runScheduledSync(client);
+
+  syncInterval = setInterval(() => {
+    runScheduledSync(client);
+  }, intervalMinutes * 60 * 1000);
+}
+
+export function stopPolymarketSync(): void {
+  if (syncInterval) {
+    clearInterval(syncInterval);
+    syncInterval = null;
+    console.log("Polymarket sync stopped");
+  }
+}
@@ -0,0 +1,86 @@
+import { storage } from "./storage";
+import type { PortfolioHistoryPoint, PortfolioHistoryRange } from "@shared/schema";
+
+// Records what every student's portfolio is worth, one row per day. The
+// scheduled job and every trade overwrite today's row, so past days hold their
+// closing value. Windowed leaderboard returns and the equity curve on the
+// portfolio page are built from these.
+
+const RANGE_DAYS: Record<Exclude<PortfolioHistoryRange, "all">, number> = {
+  "1w": 7,
+  "1m": 30,
+  "3m": 90,
+};
+
+// The server's calendar date as YYYY-MM-DD
+export function snapshotDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export async function takePortfolioSnapshots(now: Date = new Date()): Promise<number> {
+  const day = snapshotDay(now);
+  const values = await storage.getPortfolioValues();
+  for (const { user, totalValue, cashBalance, positionsValue } of values) {
+    await storage.savePortfolioSnapshot({ userId: user.id, day, totalValue, cashBalance, positionsValue });
+  }
+  return values.length;
+}
+
+// Refreshes one student's snapshot for today
+export async function snapshotPortfolio(userId: string, now: Date = new Date()): Promise<void> {
+  const value = await storage.getPortfolioValue(userId);
+  if (!value) return;
+  const { totalValue, cashBalance, positionsValue } = value;
+  await storage.savePortfolioSnapshot({ userId, day: snapshotDay(now), totalValue, cashBalance, positionsValue });
+}
+
+// Called after a trade settles. Runs in the background.
+export function afterPortfolioChange(userId: string): void {
+  snapshotPortfolio(userId).catch((error) => console.error("Portfolio snapshot error:", error));
+}
+
+// Daily closing values over the range, oldest first, ending on today's live value
+export async function getPortfolioHistory(
+  userId: string,
+  range: PortfolioHistoryRange,
+  now: Date = new Date()
+): Promise<PortfolioHistoryPoint[]> {
+  const since = range === "all" ? undefined : new Date(now.getTime() - RANGE_DAYS[range] * 24 * 60 * 60 * 1000);
+  const today = snapshotDay(now);
+  const history: PortfolioHistoryPoint[] = (await storage.getPortfolioSnapshots(userId, since))
+    .filter((s) => s.day !== today)
+    .map(({ day, totalValue, cashBalance, positionsValue }) => ({ day, totalValue, cashBalance, positionsValue }));
+
+  const live = await storage.getPortfolioValue(userId);
+  if (live) {
+    const { totalValue, cashBalance, positionsValue } = live;
+    history.push({ day: today, totalValue, cashBalance, positionsValue });
+  }
+  return history;
+}
+
+let snapshotInterval: ReturnType<typeof setInterval> | null = null;
+
+export function startPortfolioSnapshots(intervalMinutes: number = 60): void {
+  if (snapshotInterval) {
+    clearInterval(snapshotInterval);
+  }
+
+  console.log(`Starting portfolio snapshots (runs every ${intervalMinutes} minutes)`);
+
+  takePortfolioSnapshots().catch(console.error);
+
+  snapshotInterval = setInterval(() => {
+    takePortfolioSnapshots().catch(console.error);
+  }, intervalMinutes * 60 * 1000);
+}
+
+export function stopPortfolioSnapshots(): void {
+  if (snapshotInterval) {
+    clearInterval(snapshotInterval);
+    snapshotInterval = null;
+    console.log("Portfolio snapshots stopped");
+  }
+}
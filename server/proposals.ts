@@ -0,0 +1,163 @@
+import { storage } from "./storage";
+import { sendMarketReviewEmail } from "./email";
+import { DEFAULT_LIQUIDITY } from "./trading";
+import type { InsertMarket, Market, ProposedMarket, UpdateProposedMarket } from "@shared/schema";
+
+// Raised for proposals that can't be created or reviewed (not pending, bad dates, etc.)
+export class ProposalError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ProposalError";
+  }
+}
+
+// Keeps one student from flooding the review queue
+const MAX_PENDING_PER_USER = 3;
+const DEFAULT_RESOLVE_DELAY_MS = 7 * 24 * 60 * 60 * 1000;
+
+function checkCloseAt(closeAt: Date): void {
+  if (isNaN(closeAt.getTime()) || closeAt.getTime() <= Date.now()) {
+    throw new ProposalError("Close date must be in the future");
+  }
+}
+
+// Students propose YES/NO markets. They sit in PENDING_REVIEW (unlisted and
+// untradeable) until an admin approves or rejects them.
+export async function proposeMarket(userId: string, input: InsertMarket): Promise<ProposedMarket> {
+  checkCloseAt(input.closeAt);
+  if (input.resolveAt && input.resolveAt.getTime() < input.closeAt.getTime()) {
+    throw new ProposalError("Resolution date can't be before the close date");
+  }
+
+  const pending = (await storage.getMarketsByCreator(userId)).filter((m) => m.status === "PENDING_REVIEW");
+  if (pending.length >= MAX_PENDING_PER_USER) {
+    throw new ProposalError(`You can have at most ${MAX_PENDING_PER_USER} markets waiting for review`);
+  }
+
+  const market = await storage.createMarket({
+    type: input.type,
+    title: input.title,
+    description: input.description,
+    category: input.category,
+    status: "PENDING_REVIEW",
+    source: "INTERNAL",
+    closeAt: input.closeAt,
+    resolveAt: input.resolveAt ?? new Date(input.closeAt.getTime() + DEFAULT_RESOLVE_DELAY_MS),
+    resolutionRule: input.resolutionRule,
+    liquidity: DEFAULT_LIQUIDITY,
+    createdBy: userId,
+  });
+
+  const outcomes = [];
+  for (const label of ["YES", "NO"]) {
+    outcomes.push(await storage.createOutcome({ marketId: market.id, label, currentPrice: 0.5 }));
+  }
+
+  return { ...market, outcomes };
+}
+
+// A student's proposals: still pending, or reviewed either way
+export async function getProposalsByUser(userId: string): Promise<ProposedMarket[]> {
+  const created = await withReviews(await storage.getMarketsByCreator(userId));
+  return created.filter((m) => m.status === "PENDING_REVIEW" || m.review);
+}
+
+export async function getPendingProposals(): Promise<ProposedMarket[]> {
+  return withReviews(await storage.getMarketsByStatus("PENDING_REVIEW"));
+}
+
+export async function approveMarket(marketId: string, adminId: string): Promise<Market> {
+  const market = await getPendingMarket(marketId);
+  // A proposal can sit in the queue past its own close date
+  if (market.closeAt) checkCloseAt(new Date(market.closeAt));
+
+  const opened = await storage.setMarketStatus(marketId, "OPEN", {
+    fromStatus: "PENDING_REVIEW",
+    changedBy: adminId,
+    reason: "Proposal approved",
+  });
+  if (!opened) {
+    throw new ProposalError("Market is not waiting for review");
+  }
+  await storage.createMarketReview({
+    marketId,
+    reviewedBy: adminId,
+    decision: "APPROVED",
+    reason: null,
+  });
+  notifyCreator(market, true, null);
+  return opened;
+}
+
+export async function rejectMarket(marketId: string, adminId: string, reason: string): Promise<Market> {
+  const market = await getPendingMarket(marketId);
+
+  const rejected = await storage.setMarketStatus(marketId, "REJECTED", {
+    fromStatus: "PENDING_REVIEW",
+    changedBy: adminId,
+    reason,
+  });
+  if (!rejected) {
+    throw new ProposalError("Market is not waiting for review");
+  }
+  await storage.createMarketReview({
+    marketId,
+    reviewedBy: adminId,
+    decision: "REJECTED",
+    reason,
+  });
+  notifyCreator(market, false, reason);
+  return rejected;
+}
+
+// Admins can tidy up a proposal (wording, dates) before approving it
+export async function updateProposedMarket(marketId: string, updates: UpdateProposedMarket): Promise<Market> {
+  const market = await getPendingMarket(marketId);
+  if (updates.closeAt) checkCloseAt(updates.closeAt);
+
+  // Only touch the fields the edit includes
+  const changes: Partial<Market> = {};
+  if (updates.title !== undefined) changes.title = updates.title;
+  if (updates.closeAt !== undefined) changes.closeAt = updates.closeAt;
+  if (updates.resolveAt !== undefined) changes.resolveAt = updates.resolveAt;
+  if (updates.resolutionRule !== undefined) changes.resolutionRule = updates.resolutionRule;
+
+  const closeAt = changes.closeAt ?? market.closeAt;
+  const resolveAt = changes.resolveAt ?? market.resolveAt;
+  if (closeAt && resolveAt && resolveAt.getTime() < closeAt.getTime()) {
+    if (updates.resolveAt) {
+      throw new ProposalError("Resolution date can't be before the close date");
+    }
+    // Moving the close past the old resolution date pushes that out with it
+    changes.resolveAt = new Date(closeAt.getTime() + DEFAULT_RESOLVE_DELAY_MS);
+  }
+  const updated = await storage.updateMarket(marketId, changes);
+  return updated!;
+}
+
+async function getPendingMarket(marketId: string): Promise<Market> {
+  const market = await storage.getMarket(marketId);
+  if (!market) {
+    throw new ProposalError("Market not found", 404);
+  }
+  if (market.status !== "PENDING_REVIEW") {
+    throw new ProposalError("Market is not waiting for review");
+  }
+  return market;
+}
+
+async function withReviews(markets: ProposedMarket[]): Promise<ProposedMarket[]> {
+  return Promise.all(
+    markets.map(async (m) => ({ ...m, review: await storage.getLatestMarketReview(m.id) }))
+  );
+}
+
+// Runs in the background - a failed email shouldn't undo the decision
+function notifyCreator(market: Market, approved: boolean, reason: string | null): void {
+  storage
+    .getUser(market.createdBy)
+    .then((creator) => {
+      if (creator) return sendMarketReviewEmail(creator.email, market.id, market.title, approved, reason);
+    })
+    .catch((error) => console.error("Market review notification error:", error));
+}
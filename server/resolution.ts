@@ -0,0 +1,178 @@
+import { storage } from "./storage";
+import { cancelConditionalOrders, cancelOpenOrders, longPayout } from "./trading";
+import { settleParlayLegs, voidParlayLegs } from "./parlays";
+import type { MarketStatus, MarketType, MarketWithDetails, Outcome, Resolution } from "@shared/schema";
+
+// Raised for requests that can't be resolved (bad outcome, already resolved, etc.)
+export class ResolutionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ResolutionError";
+  }
+}
+
+export interface ResolutionSummary {
+  resolution: Resolution;
+  payouts: number;
+  totalPaid: number;
+}
+
+// Winning shares pay out $1 each; every position in the market is closed out.
+const PAYOUT_PER_SHARE = 1;
+
+export async function resolveMarket(
+  marketId: string,
+  winningOutcomeId: string,
+  resolvedBy: string,
+  note?: string
+): Promise<ResolutionSummary> {
+  const market = await getResolvableMarket(marketId, "PREDICTION");
+
+  const winningOutcome = market.outcomes?.find((o) => o.id === winningOutcomeId);
+  if (!winningOutcome) {
+    throw new ResolutionError("Winning outcome does not belong to this market");
+  }
+
+  return settleMarket(
+    market,
+    { resolvedBy, winningOutcomeId, value: null, note: note ?? null },
+    (outcome) => (outcome.id === winningOutcomeId ? PAYOUT_PER_SHARE : 0)
+  );
+}
+
+// Scalar markets resolve to a number: LONG and SHORT split the $1 per share
+// according to where the value landed between the bounds
+export async function resolveScalarMarket(
+  marketId: string,
+  value: number,
+  resolvedBy: string,
+  note?: string
+): Promise<ResolutionSummary> {
+  const market = await getResolvableMarket(marketId, "SCALAR");
+  if (!market.scalarMeta) {
+    throw new ResolutionError("Scalar market is missing its bounds");
+  }
+
+  const longShare = longPayout(market.scalarMeta, value);
+  return settleMarket(
+    market,
+    { resolvedBy, winningOutcomeId: null, value, note: note ?? null },
+    (outcome) => PAYOUT_PER_SHARE * (outcome.label === "LONG" ? longShare : 1 - longShare)
+  );
+}
+
+async function getResolvableMarket(marketId: string, type: MarketType): Promise<MarketWithDetails> {
+  const market = await storage.getMarket(marketId);
+  if (!market) {
+    throw new ResolutionError("Market not found", 404);
+  }
+  if (market.type !== type) {
+    throw new ResolutionError(
+      type === "SCALAR"
+        ? "Only scalar markets resolve to a value"
+        : "Only prediction markets resolve to a winning outcome"
+    );
+  }
+  if (market.status !== "OPEN" && market.status !== "CLOSED") {
+    throw new ResolutionError(`Market is already ${market.status.toLowerCase()}`);
+  }
+  if (await storage.getResolution(marketId)) {
+    throw new ResolutionError("Market has already been resolved");
+  }
+  return market;
+}
+
+// Pays every position its outcome's per-share payout, closes it out, and pins
+// each outcome's price to that payout
+async function settleMarket(
+  market: MarketWithDetails,
+  details: Omit<Resolution, "id" | "marketId" | "resolvedAt">,
+  payoutFor: (outcome: Outcome) => number
+): Promise<ResolutionSummary> {
+  const marketId = market.id;
+
+  // Closing the market, recording the resolution and paying out all commit
+  // together - the unique marketId on the resolution guards against paying out twice
+  const settlement = await storage.settleMarketPositions(
+    marketId,
+    {
+      fromStatus: market.status as MarketStatus,
+      toStatus: "RESOLVED",
+      changedBy: details.resolvedBy,
+      reason: details.note,
+      resolution: { marketId, ...details },
+    },
+    (position) => {
+      const outcome = market.outcomes?.find((o) => o.id === position.outcomeId);
+      if (!outcome) return null;
+      return {
+        amount: position.qty * payoutFor(outcome),
+        note: `${position.qty} ${outcome.label} shares paid out on "${market.title}"`,
+      };
+    }
+  );
+  if (!settlement?.resolution) {
+    throw new ResolutionError("Market changed status while it was being resolved - try again", 409);
+  }
+
+  // Nothing can fill resting orders any more - release their reservations
+  await cancelOpenOrders(marketId);
+  await cancelConditionalOrders(marketId, "Market resolved");
+
+  for (const outcome of market.outcomes ?? []) {
+    await storage.updateOutcome(outcome.id, { currentPrice: payoutFor(outcome) });
+  }
+
+  if (details.winningOutcomeId) {
+    await settleParlayLegs(marketId, details.winningOutcomeId);
+  }
+
+  return { resolution: settlement.resolution, payouts: settlement.payouts, totalPaid: settlement.totalPaid };
+}
+
+export interface VoidSummary {
+  refunds: number;
+  totalRefunded: number;
+}
+
+// Voiding cancels a market outright: every holder gets back what they paid
+// for their remaining shares (qty x avgCost, as built up from their trades).
+export async function voidMarket(
+  marketId: string,
+  voidedBy: string,
+  reason?: string
+): Promise<VoidSummary> {
+  const market = await storage.getMarket(marketId);
+  if (!market) {
+    throw new ResolutionError("Market not found", 404);
+  }
+  if (market.type === "STOCK") {
+    throw new ResolutionError("Only prediction markets can be voided");
+  }
+  if (market.status !== "OPEN" && market.status !== "CLOSED") {
+    throw new ResolutionError(`Market is already ${market.status.toLowerCase()}`);
+  }
+
+  // Voiding, like resolving, only goes ahead if nothing else closed the market
+  // out first - the refunds commit along with the status change
+  const settlement = await storage.settleMarketPositions(
+    marketId,
+    { fromStatus: market.status as MarketStatus, toStatus: "VOIDED", changedBy: voidedBy, reason: reason ?? null },
+    (position) => {
+      const outcome = market.outcomes?.find((o) => o.id === position.outcomeId);
+      return {
+        amount: position.qty * position.avgCost,
+        note: `Refund for ${position.qty} ${outcome?.label ?? ""} shares on voided market "${market.title}"${reason ? ` (${reason})` : ""}`,
+      };
+    }
+  );
+  if (!settlement) {
+    throw new ResolutionError("Market changed status while it was being voided - try again", 409);
+  }
+
+  await cancelOpenOrders(marketId);
+  await cancelConditionalOrders(marketId, "Market voided");
+  await voidParlayLegs(marketId);
+
+  return { refunds: settlement.payouts, totalRefunded: settlement.totalPaid };
+}
@@ -0,0 +1,86 @@
+import type { BalanceEvent, BalanceEventType, LeaderboardWindow, PortfolioSnapshot, User } from "@shared/schema";
+
+// Money that enters or leaves a portfolio from outside - not a gain or loss on
+// trading. Everything else in balanceEvents moves value around inside it.
+export const EXTERNAL_FLOW_TYPES: BalanceEventType[] = [
+  "STARTING_CREDIT",
+  "BANKRUPTCY_RESET",
+  "ADMIN_ADJUST",
+  "MK_AI_PURCHASE",
+  "SEASON_RESET",
+];
+
+const WINDOW_DAYS: Record<Exclude<LeaderboardWindow, "all">, number> = {
+  week: 7,
+  month: 30,
+};
+
+export function parseLeaderboardWindow(timeFilter?: string): LeaderboardWindow {
+  return timeFilter === "week" || timeFilter === "month" ? timeFilter : "all";
+}
+
+// When the window opens, or null for all-time
+export function windowStart(window: LeaderboardWindow, now: Date = new Date()): Date | null {
+  if (window === "all") return null;
+  return new Date(now.getTime() - WINDOW_DAYS[window] * 24 * 60 * 60 * 1000);
+}
+
+export interface CashFlow {
+  amount: number;
+  at: Date;
+}
+
+// Modified Dietz return over [start, end]: the gain net of deposits, divided by
+// the starting value plus each deposit weighted by how much of the window it
+// was invested for. Returns 0 when there was nothing invested to measure.
+export function modifiedDietzReturn(
+  startValue: number,
+  endValue: number,
+  start: Date,
+  end: Date,
+  flows: CashFlow[]
+): number {
+  const span = end.getTime() - start.getTime();
+  let netFlow = 0;
+  let weightedFlow = 0;
+  for (const flow of flows) {
+    const weight = span > 0 ? Math.min(1, Math.max(0, (end.getTime() - flow.at.getTime()) / span)) : 1;
+    netFlow += flow.amount;
+    weightedFlow += weight * flow.amount;
+  }
+
+  const invested = startValue + weightedFlow;
+  if (invested <= 0) return 0;
+  return (endValue - startValue - netFlow) / invested;
+}
+
+// A student's return since `opensAt` (null for all-time), as a percentage.
+// `baseline` is the last snapshot taken before the window opened (or the first
+// one after, if snapshots began partway through it). Students who joined during
+// the window, or who have no snapshot, start from nothing at their first
+// deposit. `events` can hold any of the student's balance events - only
+// external flows after the baseline count.
+export function windowedReturnPercent(
+  user: User,
+  endValue: number,
+  opensAt: Date | null,
+  baseline: PortfolioSnapshot | undefined,
+  events: BalanceEvent[],
+  now: Date = new Date()
+): number {
+  const from = opensAt && user.createdAt < opensAt ? baseline : undefined;
+
+  const flows = externalFlows(events).filter((f) => !from || f.at > from.takenAt);
+  if (!from && flows.length === 0) return 0;
+
+  const start = from?.takenAt ?? flows[0].at;
+  return modifiedDietzReturn(from?.totalValue ?? 0, endValue, start, now, flows) * 100;
+}
+
+// Oldest first
+function externalFlows(events: BalanceEvent[]): CashFlow[] {
+  return events
+    .filter((e) => EXTERNAL_FLOW_TYPES.includes(e.type as BalanceEventType))
+    .map((e) => ({ amount: e.amount, at: new Date(e.createdAt) }))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
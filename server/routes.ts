@@ -4,9 +4,83 @@ import session from "express-session";
 import pgSession from "connect-pg-simple";
 import { pool } from "./db";
 import { storage } from "./storage";
-import { insertUserSchema, loginSchema, insertTradeSchema, insertCommentSchema, insertReportSchema, insertGameSchema } from "@shared/schema";
+import { insertUserSchema, loginSchema, insertTradeSchema, insertCommentSchema, insertReportSchema, insertGameSchema, resolveMarketSchema, voidMarketSchema, tradeQuoteSchema, insertLimitOrderSchema, insertConditionalOrderSchema, openShortSchema, coverShortSchema, createPredictionMarketSchema, createScalarMarketSchema, insertMarketSchema, updateProposedMarketSchema, rejectMarketSchema, insertStockSchema, approveIpoSchema, rejectIpoSchema, ipoSubscribeSchema, placeParlaySchema, createGameLineMarketSchema, importGamesSchema, portfolioHistoryQuerySchema, leaderboardQuerySchema, insertLeagueGroupSchema, addLeagueGroupMembersSchema, insertSeasonSchema, type GameWithMarkets, type LimitOrderStatus, type PolymarketLink, type ConditionalOrderStatus } from "@shared/schema";
 import { createHash } from "crypto";
 import { sendVerificationEmail, sendPasswordResetEmail } from "./email";
+import { resolveMarket, resolveScalarMarket, voidMarket, ResolutionError } from "./resolution";
+import {
+  proposeMarket,
+  getProposalsByUser,
+  getPendingProposals,
+  approveMarket,
+  rejectMarket,
+  updateProposedMarket,
+  ProposalError,
+} from "./proposals";
+import {
+  requestIpo,
+  getIpoRequestsByUser,
+  getPendingIpoRequests,
+  approveIpo,
+  rejectIpo,
+  subscribeToIpo,
+  getSubscriptionsByUser,
+  closeIpoWindows,
+  IpoError,
+} from "./ipo";
+import { placeParlay, getParlaysByUser, ParlayError } from "./parlays";
+import {
+  createGameMoneylineMarket,
+  createGameLineMarket,
+  resolveGameMarkets,
+  GameMarketError,
+} from "./gameMarkets";
+import { importGames, GameImportError } from "./gameImport";
+import {
+  quoteTrade,
+  executeTrade,
+  QuoteError,
+  TRADE_ERROR_STATUS,
+  DEFAULT_LIQUIDITY,
+  SCALAR_OUTCOME_LABELS,
+  placeLimitOrder,
+  cancelLimitOrder,
+  getOrdersWithDetails,
+  matchAllOpenOrders,
+  createConditionalOrder,
+  cancelConditionalOrder,
+  getConditionalOrdersWithDetails,
+  checkAllConditionalOrders,
+  openShort,
+  coverShort,
+  runShortMaintenance,
+} from "./trading";
+import { onStockPricesUpdated } from "./stockSimulator";
+import { startMarketLifecycle } from "./marketLifecycle";
+import { startPortfolioSnapshots, getPortfolioHistory } from "./portfolioSnapshots";
+import {
+  getLeagues,
+  createLeagueGroup,
+  getLeagueGroupOrThrow,
+  addLeagueGroupMembers,
+  getGradeStandings,
+  LeagueError,
+} from "./leagues";
+import {
+  createSeason,
+  deleteSeason,
+  endSeason,
+  getHallOfFame,
+  startSeasonSchedule,
+  SeasonError,
+} from "./seasons";
+import {
+  polymarketClient,
+  classifySportsEvent,
+  startPolymarketSync,
+  syncPolymarketMarket,
+  syncPolymarketMarkets,
+} from "./polymarket";
 
 // Extend express-session types
 declare module "express-session" {
@@ -53,6 +127,17 @@ async function requireAdmin(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// Newly imported markets take Polymarket's prices right away instead of waiting
+// for the next sync tick. A failure here just leaves them at 50/50 until then.
+async function syncImportedMarket(marketId: string, link: PolymarketLink): Promise<void> {
+  try {
+    const market = await storage.getMarket(marketId);
+    if (market) await syncPolymarketMarket(market, link);
+  } catch (error) {
+    console.error("Polymarket sync error:", error);
+  }
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -281,22 +366,61 @@ export async function registerRoutes(
 
   // ==================== MARKETS ROUTES ====================
 
+  // Closes markets at their closeAt and reminds admins about overdue resolutions
+  startMarketLifecycle();
+
   app.get("/api/markets", async (req, res) => {
     try {
-      const markets = await storage.getMarkets("PREDICTION");
-      res.json(markets);
+      // Prediction and scalar markets - stocks have their own routes
+      const markets = await storage.getMarkets();
+      res.json(markets.filter((m) => m.type !== "STOCK"));
     } catch (error) {
       console.error("Get markets error:", error);
       res.status(500).json({ message: "Failed to fetch markets" });
     }
   });
 
+  // Student proposals - created PENDING_REVIEW and opened by an admin
+  app.post("/api/markets", requireVerified, async (req, res) => {
+    try {
+      const parsed = insertMarketSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const market = await proposeMarket(req.session.userId!, parsed.data);
+      res.status(201).json(market);
+    } catch (error) {
+      if (error instanceof ProposalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Propose market error:", error);
+      res.status(500).json({ message: "Failed to submit market" });
+    }
+  });
+
+  app.get("/api/markets/proposals", requireAuth, async (req, res) => {
+    try {
+      const proposals = await getProposalsByUser(req.session.userId!);
+      res.json(proposals);
+    } catch (error) {
+      console.error("Get proposals error:", error);
+      res.status(500).json({ message: "Failed to fetch proposals" });
+    }
+  });
+
   app.get("/api/markets/:id", async (req, res) => {
     try {
       const market = await storage.getMarket(req.params.id);
       if (!market) {
         return res.status(404).json({ message: "Market not found" });
       }
+      // Unapproved proposals are only visible to their creator and admins
+      if (market.status === "PENDING_REVIEW" || market.status === "REJECTED") {
+        const viewer = req.session.userId ? await storage.getUser(req.session.userId) : undefined;
+        if (!viewer || (viewer.id !== market.createdBy && viewer.role !== "ADMIN")) {
+          return res.status(404).json({ message: "Market not found" });
+        }
+      }
       res.json(market);
     } catch (error) {
       console.error("Get market error:", error);
@@ -373,169 +497,285 @@ export async function registerRoutes(
 
   // ==================== TRADING ROUTES ====================
 
-  app.post("/api/trades", requireVerified, async (req, res) => {
+  // Preview a trade without executing it
+  app.post("/api/trades/quote", async (req, res) => {
     try {
-      const parsed = insertTradeSchema.safeParse(req.body);
+      const parsed = tradeQuoteSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: parsed.error.errors[0].message });
       }
 
       const { marketId, outcomeId, side, qty } = parsed.data;
-      const user = await storage.getUser(req.session.userId!);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-
       const market = await storage.getMarket(marketId);
       if (!market || market.status !== "OPEN") {
         return res.status(400).json({ message: "Market not available for trading" });
       }
 
-      // Get current price
-      let currentPrice: number;
-      if (market.type === "PREDICTION" && outcomeId) {
-        const outcomes = market.outcomes;
-        const outcome = outcomes?.find((o) => o.id === outcomeId);
-        if (!outcome) {
-          return res.status(400).json({ message: "Outcome not found" });
-        }
-        currentPrice = outcome.currentPrice;
-      } else if (market.type === "STOCK") {
-        const stockMeta = market.stockMeta;
-        if (!stockMeta) {
-          return res.status(400).json({ message: "Stock not found" });
-        }
-        currentPrice = stockMeta.currentPrice;
-      } else {
-        return res.status(400).json({ message: "Invalid trade" });
+      const sharesOutstanding = market.type === "STOCK" ? await storage.getSharesOutstanding(marketId) : 0;
+      const { outcomePrices, ...quote } = quoteTrade(market, { outcomeId, side, qty }, sharesOutstanding);
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof QuoteError) {
+        return res.status(TRADE_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
       }
+      console.error("Trade quote error:", error);
+      res.status(500).json({ message: "Failed to quote trade" });
+    }
+  });
 
-      const total = qty * currentPrice;
+  app.post("/api/trades", requireVerified, async (req, res) => {
+    try {
+      const parsed = insertTradeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
 
-      // Check balance for buy
-      if (side === "BUY") {
-        if (user.balance < total) {
-          return res.status(400).json({ message: "Insufficient balance" });
-        }
+      const result = await executeTrade(req.session.userId!, parsed.data, { source: "WEB" });
+      if (!result.ok) {
+        return res.status(TRADE_ERROR_STATUS[result.code]).json({ message: result.message, code: result.code });
       }
 
-      // Check position for sell
-      if (side === "SELL") {
-        const position = await storage.getPosition(user.id, marketId, outcomeId ?? undefined);
-        if (!position || position.qty < qty) {
-          return res.status(400).json({ message: "Insufficient shares" });
-        }
+      res.json({ trade: result.trade, newBalance: result.newBalance, bankruptcyReset: result.bankruptcyReset });
+    } catch (error: any) {
+      console.error("Trade error:", error);
+      console.error("Trade error stack:", error?.stack);
+      res.status(500).json({ message: error?.message || "Trade failed" });
+    }
+  });
+
+  // ==================== ORDER ROUTES ====================
+
+  // Stock prices move on every simulator tick, which can push resting orders through their limits
+  onStockPricesUpdated(() => matchAllOpenOrders());
+
+  app.post("/api/orders", requireVerified, async (req, res) => {
+    try {
+      const parsed = insertLimitOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
 
-      // Execute trade
-      const trade = await storage.createTrade({
-        userId: user.id,
-        marketId,
-        outcomeId: outcomeId || null,
-        side,
-        qty,
-        price: currentPrice,
-        total,
-      });
+      const result = await placeLimitOrder(req.session.userId!, parsed.data);
+      if (!result.ok) {
+        return res.status(TRADE_ERROR_STATUS[result.code]).json({ message: result.message, code: result.code });
+      }
+      res.json(result.order);
+    } catch (error) {
+      console.error("Place order error:", error);
+      res.status(500).json({ message: "Failed to place order" });
+    }
+  });
+
+  app.get("/api/orders", requireAuth, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !["OPEN", "FILLED", "CANCELLED"].includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      const orders = await getOrdersWithDetails(
+        req.session.userId!,
+        status as LimitOrderStatus | undefined
+      );
+      res.json(orders);
+    } catch (error) {
+      console.error("Get orders error:", error);
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
 
-      // Update user balance
-      const newBalance =
-        side === "BUY" ? user.balance - total : user.balance + total;
-      await storage.updateUser(user.id, { balance: newBalance });
+  app.delete("/api/orders/:id", requireAuth, async (req, res) => {
+    try {
+      const result = await cancelLimitOrder(req.params.id, req.session.userId!);
+      if (!result.ok) {
+        return res.status(TRADE_ERROR_STATUS[result.code]).json({ message: result.message, code: result.code });
+      }
+      res.json(result.order);
+    } catch (error) {
+      console.error("Cancel order error:", error);
+      res.status(500).json({ message: "Failed to cancel order" });
+    }
+  });
 
-      // Log balance event
-      await storage.logBalanceEvent({
-        userId: user.id,
-        type: "TRADE",
-        amount: side === "BUY" ? -total : total,
-        note: `${side} ${qty} shares at $${currentPrice.toFixed(2)}`,
-      });
+  // ==================== CONDITIONAL ORDER ROUTES ====================
 
-      // Update position
-      const existingPosition = await storage.getPosition(user.id, marketId, outcomeId ?? undefined);
-      if (side === "BUY") {
-        if (existingPosition) {
-          const newQty = existingPosition.qty + qty;
-          const newAvgCost =
-            (existingPosition.qty * existingPosition.avgCost + qty * currentPrice) /
-            newQty;
-          await storage.upsertPosition({
-            userId: user.id,
-            marketId,
-            outcomeId: outcomeId || null,
-            qty: newQty,
-            avgCost: newAvgCost,
-          });
-        } else {
-          await storage.upsertPosition({
-            userId: user.id,
-            marketId,
-            outcomeId: outcomeId || null,
-            qty,
-            avgCost: currentPrice,
-          });
-        }
-      } else {
-        // SELL
-        if (existingPosition) {
-          const newQty = existingPosition.qty - qty;
-          await storage.upsertPosition({
-            userId: user.id,
-            marketId,
-            outcomeId: outcomeId || null,
-            qty: newQty,
-            avgCost: existingPosition.avgCost,
-          });
-        }
+  // Stop-losses need checking while nobody is watching, so every simulator tick re-checks them
+  onStockPricesUpdated(() => checkAllConditionalOrders());
+
+  app.post("/api/conditional-orders", requireVerified, async (req, res) => {
+    try {
+      const parsed = insertConditionalOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
 
-      // Simple AMM price update
-      if (market.type === "PREDICTION" && outcomeId) {
-        const priceChange = side === "BUY" ? 0.02 : -0.02;
-        const outcome = market.outcomes?.find((o) => o.id === outcomeId);
-        if (outcome) {
-          const newPrice = Math.max(0.01, Math.min(0.99, outcome.currentPrice + priceChange));
-          await storage.updateOutcome(outcomeId, { currentPrice: newPrice });
+      const result = await createConditionalOrder(req.session.userId!, parsed.data);
+      if (!result.ok) {
+        return res.status(TRADE_ERROR_STATUS[result.code]).json({ message: result.message, code: result.code });
+      }
+      res.json(result.order);
+    } catch (error) {
+      console.error("Create conditional order error:", error);
+      res.status(500).json({ message: "Failed to create order" });
+    }
+  });
 
-          // Update opposite outcome
-          const otherOutcome = market.outcomes?.find((o) => o.id !== outcomeId);
-          if (otherOutcome) {
-            await storage.updateOutcome(otherOutcome.id, { currentPrice: 1 - newPrice });
-          }
-        }
-      } else if (market.type === "STOCK") {
-        const priceChange = side === "BUY" ? currentPrice * 0.01 : -currentPrice * 0.01;
-        await storage.updateStockMeta(marketId, {
-          currentPrice: Math.max(0.01, currentPrice + priceChange),
-        });
+  app.get("/api/conditional-orders", requireAuth, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !["ACTIVE", "TRIGGERED", "FAILED", "CANCELLED"].includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
       }
+      const orders = await getConditionalOrdersWithDetails(
+        req.session.userId!,
+        status as ConditionalOrderStatus | undefined
+      );
+      res.json(orders);
+    } catch (error) {
+      console.error("Get conditional orders error:", error);
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
 
-      // Check for bankruptcy reset
-      const updatedUser = await storage.getUser(user.id);
-      if (updatedUser && updatedUser.balance <= 0) {
-        const canReset =
-          !updatedUser.lastBankruptcyReset ||
-          Date.now() - new Date(updatedUser.lastBankruptcyReset).getTime() >
-            24 * 60 * 60 * 1000;
-        if (canReset) {
-          await storage.updateUser(user.id, {
-            balance: 100,
-            lastBankruptcyReset: new Date(),
-          });
-          await storage.logBalanceEvent({
-            userId: user.id,
-            type: "BANKRUPTCY_RESET",
-            amount: 100,
-            note: "Automatic bankruptcy reset",
-          });
-        }
+  app.delete("/api/conditional-orders/:id", requireAuth, async (req, res) => {
+    try {
+      const result = await cancelConditionalOrder(req.params.id, req.session.userId!);
+      if (!result.ok) {
+        return res.status(TRADE_ERROR_STATUS[result.code]).json({ message: result.message, code: result.code });
       }
+      res.json(result.order);
+    } catch (error) {
+      console.error("Cancel conditional order error:", error);
+      res.status(500).json({ message: "Failed to cancel order" });
+    }
+  });
 
-      res.json({ trade, newBalance });
-    } catch (error: any) {
-      console.error("Trade error:", error);
-      console.error("Trade error stack:", error?.stack);
-      res.status(500).json({ message: error?.message || "Trade failed" });
+  // ==================== SHORT ROUTES ====================
+
+  // Borrow fees accrue per simulator tick, and the new prices may trigger margin calls
+  onStockPricesUpdated(() => runShortMaintenance());
+
+  app.post("/api/shorts", requireVerified, async (req, res) => {
+    try {
+      const parsed = openShortSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const result = await openShort(req.session.userId!, parsed.data);
+      if (!result.ok) {
+        return res.status(TRADE_ERROR_STATUS[result.code]).json({ message: result.message, code: result.code });
+      }
+      res.json({ short: result.short, trade: result.trade, newBalance: result.newBalance });
+    } catch (error) {
+      console.error("Open short error:", error);
+      res.status(500).json({ message: "Failed to open short" });
+    }
+  });
+
+  app.post("/api/shorts/:id/cover", requireVerified, async (req, res) => {
+    try {
+      const parsed = coverShortSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const result = await coverShort(req.params.id, req.session.userId!, parsed.data);
+      if (!result.ok) {
+        return res.status(TRADE_ERROR_STATUS[result.code]).json({ message: result.message, code: result.code });
+      }
+      res.json({ short: result.short, trade: result.trade, newBalance: result.newBalance });
+    } catch (error) {
+      console.error("Cover short error:", error);
+      res.status(500).json({ message: "Failed to cover short" });
+    }
+  });
+
+  // ==================== IPO ROUTES ====================
+
+  // Allocation windows end on the simulator tick, same as the short maintenance above
+  onStockPricesUpdated(() => closeIpoWindows());
+
+  // Club leaders request a listing; an admin approves it into an allocation window
+  app.post("/api/ipos/requests", requireVerified, async (req, res) => {
+    try {
+      const parsed = insertStockSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const request = await requestIpo(req.session.userId!, parsed.data);
+      res.status(201).json(request);
+    } catch (error) {
+      if (error instanceof IpoError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Request IPO error:", error);
+      res.status(500).json({ message: "Failed to submit IPO request" });
+    }
+  });
+
+  app.get("/api/ipos/requests", requireAuth, async (req, res) => {
+    try {
+      const requests = await getIpoRequestsByUser(req.session.userId!);
+      res.json(requests);
+    } catch (error) {
+      console.error("Get IPO requests error:", error);
+      res.status(500).json({ message: "Failed to fetch IPO requests" });
+    }
+  });
+
+  app.get("/api/ipos/subscriptions", requireAuth, async (req, res) => {
+    try {
+      const subscriptions = await getSubscriptionsByUser(req.session.userId!);
+      res.json(subscriptions);
+    } catch (error) {
+      console.error("Get IPO subscriptions error:", error);
+      res.status(500).json({ message: "Failed to fetch IPO subscriptions" });
+    }
+  });
+
+  app.post("/api/ipos/:marketId/subscribe", requireVerified, async (req, res) => {
+    try {
+      const parsed = ipoSubscribeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const result = await subscribeToIpo(req.session.userId!, req.params.marketId, parsed.data.qty);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof IpoError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("IPO subscribe error:", error);
+      res.status(500).json({ message: "Failed to subscribe to IPO" });
+    }
+  });
+
+  // ==================== PARLAY ROUTES ====================
+
+  app.get("/api/parlays", requireAuth, async (req, res) => {
+    try {
+      const slips = await getParlaysByUser(req.session.userId!);
+      res.json(slips);
+    } catch (error) {
+      console.error("Get parlays error:", error);
+      res.status(500).json({ message: "Failed to fetch parlays" });
+    }
+  });
+
+  app.post("/api/parlays", requireVerified, async (req, res) => {
+    try {
+      const parsed = placeParlaySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const result = await placeParlay(req.session.userId!, parsed.data);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof ParlayError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Place parlay error:", error);
+      res.status(500).json({ message: "Failed to place parlay" });
     }
   });
 
@@ -551,14 +791,46 @@ export async function registerRoutes(
     }
   });
 
+  // GET /api/portfolio/history?range=1w|1m|3m|all - Daily portfolio values for the equity curve
+  app.get("/api/portfolio/history", requireAuth, async (req, res) => {
+    try {
+      const parsed = portfolioHistoryQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const history = await getPortfolioHistory(req.session.userId!, parsed.data.range);
+      res.json(history);
+    } catch (error) {
+      console.error("Get portfolio history error:", error);
+      res.status(500).json({ message: "Failed to fetch portfolio history" });
+    }
+  });
+
   // ==================== LEADERBOARD ROUTES ====================
 
+  // Daily portfolio values that the week and month leaderboards measure returns from
+  startPortfolioSnapshots();
+
+  // Both take ?limit= (default 50, at most 100) and ?offset= to page through the
+  // rankings, and ?grade= or ?groupId= to rank within one league
   app.get("/api/leaderboard", async (req, res) => {
     try {
+      const parsed = leaderboardQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      if (parsed.data.groupId) {
+        await getLeagueGroupOrThrow(parsed.data.groupId);
+      }
+
       const timeFilter = req.query.timeFilter as string | undefined;
-      const leaderboard = await storage.getLeaderboard(timeFilter);
+      const leaderboard = await storage.getLeaderboard(timeFilter, parsed.data);
       res.json(leaderboard);
     } catch (error) {
+      if (error instanceof LeagueError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Get leaderboard error:", error);
       res.status(500).json({ message: "Failed to fetch leaderboard" });
     }
@@ -566,14 +838,221 @@ export async function registerRoutes(
 
   app.get("/api/leaderboard/:timeFilter", async (req, res) => {
     try {
-      const leaderboard = await storage.getLeaderboard(req.params.timeFilter);
+      const parsed = leaderboardQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      if (parsed.data.groupId) {
+        await getLeagueGroupOrThrow(parsed.data.groupId);
+      }
+
+      const leaderboard = await storage.getLeaderboard(req.params.timeFilter, parsed.data);
       res.json(leaderboard);
     } catch (error) {
+      if (error instanceof LeagueError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Get leaderboard error:", error);
       res.status(500).json({ message: "Failed to fetch leaderboard" });
     }
   });
 
+  // GET /api/leaderboard/:timeFilter/me - The logged-in student's own rank, in
+  // the league given by ?grade= or ?groupId= if any
+  app.get("/api/leaderboard/:timeFilter/me", requireAuth, async (req, res) => {
+    try {
+      const parsed = leaderboardQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const { grade, groupId } = parsed.data;
+      const entry = await storage.getLeaderboardEntry(req.session.userId!, req.params.timeFilter, { grade, groupId });
+      if (!entry) {
+        return res.status(404).json({ message: "You're not on the leaderboard yet" });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error("Get leaderboard rank error:", error);
+      res.status(500).json({ message: "Failed to fetch leaderboard rank" });
+    }
+  });
+
+  // ==================== LEAGUE ROUTES ====================
+
+  // GET /api/leagues - The grades and groups the leaderboard can be narrowed to
+  app.get("/api/leagues", async (req, res) => {
+    try {
+      res.json(await getLeagues());
+    } catch (error) {
+      console.error("Get leagues error:", error);
+      res.status(500).json({ message: "Failed to fetch leagues" });
+    }
+  });
+
+  // GET /api/leagues/grades/standings/:timeFilter - Class-vs-class table by average return
+  app.get("/api/leagues/grades/standings/:timeFilter", async (req, res) => {
+    try {
+      const standings = await getGradeStandings(req.params.timeFilter);
+      res.json(standings);
+    } catch (error) {
+      console.error("Get grade standings error:", error);
+      res.status(500).json({ message: "Failed to fetch class standings" });
+    }
+  });
+
+  app.post("/api/admin/leagues/groups", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertLeagueGroupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const group = await createLeagueGroup(parsed.data, req.session.userId!);
+      res.json(group);
+    } catch (error) {
+      if (error instanceof LeagueError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Create league group error:", error);
+      res.status(500).json({ message: "Failed to create group" });
+    }
+  });
+
+  app.delete("/api/admin/leagues/groups/:id", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteLeagueGroup(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete league group error:", error);
+      res.status(500).json({ message: "Failed to delete group" });
+    }
+  });
+
+  app.get("/api/admin/leagues/groups/:id/members", requireAdmin, async (req, res) => {
+    try {
+      await getLeagueGroupOrThrow(req.params.id);
+      const members = await storage.getLeagueGroupMembers(req.params.id);
+      res.json(members);
+    } catch (error) {
+      if (error instanceof LeagueError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Get league group members error:", error);
+      res.status(500).json({ message: "Failed to fetch group members" });
+    }
+  });
+
+  // POST /api/admin/leagues/groups/:id/members - Add students by email; unknown emails are reported back
+  app.post("/api/admin/leagues/groups/:id/members", requireAdmin, async (req, res) => {
+    try {
+      const parsed = addLeagueGroupMembersSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const result = await addLeagueGroupMembers(req.params.id, parsed.data.emails);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof LeagueError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Add league group members error:", error);
+      res.status(500).json({ message: "Failed to add group members" });
+    }
+  });
+
+  app.delete("/api/admin/leagues/groups/:id/members/:userId", requireAdmin, async (req, res) => {
+    try {
+      const removed = await storage.removeLeagueGroupMember(req.params.id, req.params.userId);
+      if (!removed) {
+        return res.status(404).json({ message: "Student isn't in this group" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Remove league group member error:", error);
+      res.status(500).json({ message: "Failed to remove group member" });
+    }
+  });
+
+  // ==================== SEASON ROUTES ====================
+
+  // Starts scheduled seasons and closes out ones whose end date has passed
+  startSeasonSchedule();
+
+  // GET /api/seasons - Every season, latest start first
+  app.get("/api/seasons", async (req, res) => {
+    try {
+      res.json(await storage.getSeasons());
+    } catch (error) {
+      console.error("Get seasons error:", error);
+      res.status(500).json({ message: "Failed to fetch seasons" });
+    }
+  });
+
+  // GET /api/seasons/hall-of-fame - Finished seasons with their top finishers
+  app.get("/api/seasons/hall-of-fame", async (req, res) => {
+    try {
+      res.json(await getHallOfFame());
+    } catch (error) {
+      console.error("Get hall of fame error:", error);
+      res.status(500).json({ message: "Failed to fetch hall of fame" });
+    }
+  });
+
+  app.post("/api/admin/seasons", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertSeasonSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const season = await createSeason(parsed.data, req.session.userId!);
+      res.json(season);
+    } catch (error) {
+      if (error instanceof SeasonError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Create season error:", error);
+      res.status(500).json({ message: "Failed to create season" });
+    }
+  });
+
+  // POST /api/admin/seasons/:id/end - End a season now: archive standings and reset every student
+  app.post("/api/admin/seasons/:id/end", requireAdmin, async (req, res) => {
+    try {
+      const season = await storage.getSeason(req.params.id);
+      if (!season) {
+        return res.status(404).json({ message: "Season not found" });
+      }
+
+      const studentsReset = await endSeason(season);
+      res.json({ success: true, studentsReset });
+    } catch (error) {
+      if (error instanceof SeasonError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("End season error:", error);
+      res.status(500).json({ message: "Failed to end season" });
+    }
+  });
+
+  app.delete("/api/admin/seasons/:id", requireAdmin, async (req, res) => {
+    try {
+      await deleteSeason(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof SeasonError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Delete season error:", error);
+      res.status(500).json({ message: "Failed to delete season" });
+    }
+  });
+
   // ==================== COMMENTS ROUTES ====================
 
   app.post("/api/comments", requireVerified, async (req, res) => {
@@ -671,20 +1150,252 @@ export async function registerRoutes(
 
   app.get("/api/admin/markets/pending", requireAdmin, async (req, res) => {
     try {
-      // For now, just return empty array as we don't have pending approval flow
-      res.json([]);
+      const pending = await getPendingProposals();
+      res.json(pending);
     } catch (error) {
       console.error("Get pending markets error:", error);
       res.status(500).json({ message: "Failed to fetch pending markets" });
     }
   });
 
+  app.post("/api/admin/markets/:id/approve", requireAdmin, async (req, res) => {
+    try {
+      const market = await approveMarket(req.params.id, req.session.userId!);
+      res.json(market);
+    } catch (error) {
+      if (error instanceof ProposalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Approve market error:", error);
+      res.status(500).json({ message: "Failed to approve market" });
+    }
+  });
+
+  app.post("/api/admin/markets/:id/reject", requireAdmin, async (req, res) => {
+    try {
+      const parsed = rejectMarketSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const market = await rejectMarket(req.params.id, req.session.userId!, parsed.data.reason);
+      res.json(market);
+    } catch (error) {
+      if (error instanceof ProposalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Reject market error:", error);
+      res.status(500).json({ message: "Failed to reject market" });
+    }
+  });
+
+  app.patch("/api/admin/markets/:id", requireAdmin, async (req, res) => {
+    try {
+      const parsed = updateProposedMarketSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const market = await updateProposedMarket(req.params.id, parsed.data);
+      res.json(market);
+    } catch (error) {
+      if (error instanceof ProposalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Update market error:", error);
+      res.status(500).json({ message: "Failed to update market" });
+    }
+  });
+
+  app.post("/api/admin/markets", requireAdmin, async (req, res) => {
+    try {
+      const parsed = createPredictionMarketSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const input = parsed.data;
+      if (input.closeAt && (isNaN(input.closeAt.getTime()) || input.closeAt.getTime() <= Date.now())) {
+        return res.status(400).json({ message: "Close date must be in the future" });
+      }
+
+      const market = await storage.createMarket({
+        type: "PREDICTION",
+        title: input.title,
+        description: input.description,
+        category: input.category,
+        status: "OPEN",
+        source: "INTERNAL",
+        closeAt: input.closeAt ?? null,
+        resolveAt: input.closeAt ? new Date(input.closeAt.getTime() + 7 * 24 * 60 * 60 * 1000) : null,
+        resolutionRule: input.resolutionRule ?? null,
+        liquidity: input.liquidity ?? DEFAULT_LIQUIDITY,
+        createdBy: req.session.userId!,
+      });
+
+      // Every outcome starts equally likely; prices always sum to 1 from here on
+      const outcomes = [];
+      for (const label of input.outcomes) {
+        outcomes.push(
+          await storage.createOutcome({
+            marketId: market.id,
+            label,
+            currentPrice: 1 / input.outcomes.length,
+          })
+        );
+      }
+
+      res.json({ ...market, outcomes });
+    } catch (error) {
+      console.error("Create market error:", error);
+      res.status(500).json({ message: "Failed to create market" });
+    }
+  });
+
+  app.post("/api/admin/markets/scalar", requireAdmin, async (req, res) => {
+    try {
+      const parsed = createScalarMarketSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const input = parsed.data;
+      if (input.closeAt && (isNaN(input.closeAt.getTime()) || input.closeAt.getTime() <= Date.now())) {
+        return res.status(400).json({ message: "Close date must be in the future" });
+      }
+
+      const market = await storage.createMarket({
+        type: "SCALAR",
+        title: input.title,
+        description: input.description,
+        category: input.category,
+        status: "OPEN",
+        source: "INTERNAL",
+        closeAt: input.closeAt ?? null,
+        resolveAt: input.closeAt ? new Date(input.closeAt.getTime() + 7 * 24 * 60 * 60 * 1000) : null,
+        resolutionRule: input.resolutionRule ?? null,
+        liquidity: input.liquidity ?? DEFAULT_LIQUIDITY,
+        createdBy: req.session.userId!,
+      });
+      const scalarMeta = await storage.createScalarMeta({
+        marketId: market.id,
+        lowerBound: input.lowerBound,
+        upperBound: input.upperBound,
+        unit: input.unit || null,
+      });
+
+      // Starts out expecting the midpoint of the range
+      const outcomes = [];
+      for (const label of SCALAR_OUTCOME_LABELS) {
+        outcomes.push(await storage.createOutcome({ marketId: market.id, label, currentPrice: 0.5 }));
+      }
+
+      res.json({ ...market, outcomes, scalarMeta });
+    } catch (error) {
+      console.error("Create scalar market error:", error);
+      res.status(500).json({ message: "Failed to create market" });
+    }
+  });
+
+  app.post("/api/admin/markets/:id/resolve", requireAdmin, async (req, res) => {
+    try {
+      const parsed = resolveMarketSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const { winningOutcomeId, value, note } = parsed.data;
+      const summary =
+        value !== undefined
+          ? await resolveScalarMarket(req.params.id, value, req.session.userId!, note)
+          : await resolveMarket(req.params.id, winningOutcomeId!, req.session.userId!, note);
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof ResolutionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Resolve market error:", error);
+      res.status(500).json({ message: "Failed to resolve market" });
+    }
+  });
+
+  app.post("/api/admin/markets/:id/void", requireAdmin, async (req, res) => {
+    try {
+      const parsed = voidMarketSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const summary = await voidMarket(req.params.id, req.session.userId!, parsed.data.reason);
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof ResolutionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Void market error:", error);
+      res.status(500).json({ message: "Failed to void market" });
+    }
+  });
+
+  app.get("/api/admin/markets/:id/history", requireAdmin, async (req, res) => {
+    try {
+      const history = await storage.getMarketStatusHistory(req.params.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Get market history error:", error);
+      res.status(500).json({ message: "Failed to fetch market history" });
+    }
+  });
+
+  app.get("/api/admin/ipos/pending", requireAdmin, async (req, res) => {
+    try {
+      const pending = await getPendingIpoRequests();
+      res.json(pending);
+    } catch (error) {
+      console.error("Get pending IPOs error:", error);
+      res.status(500).json({ message: "Failed to fetch IPO requests" });
+    }
+  });
+
+  app.post("/api/admin/ipos/:id/approve", requireAdmin, async (req, res) => {
+    try {
+      const parsed = approveIpoSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const request = await approveIpo(req.params.id, req.session.userId!, parsed.data);
+      res.json(request);
+    } catch (error) {
+      if (error instanceof IpoError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Approve IPO error:", error);
+      res.status(500).json({ message: "Failed to approve IPO" });
+    }
+  });
+
+  app.post("/api/admin/ipos/:id/reject", requireAdmin, async (req, res) => {
+    try {
+      const parsed = rejectIpoSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const request = await rejectIpo(req.params.id, req.session.userId!, parsed.data.reason);
+      res.json(request);
+    } catch (error) {
+      if (error instanceof IpoError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Reject IPO error:", error);
+      res.status(500).json({ message: "Failed to reject IPO" });
+    }
+  });
+
   // ==================== GAMES ROUTES ====================
 
   app.get("/api/admin/games", requireAdmin, async (req, res) => {
     try {
       const games = await storage.getAllGames();
-      res.json(games);
+      const withMarkets: GameWithMarkets[] = await Promise.all(
+        games.map(async (game) => ({ ...game, lineMarkets: await storage.getGameMarkets(game.id) }))
+      );
+      res.json(withMarkets);
     } catch (error) {
       console.error("Get games error:", error);
       res.status(500).json({ message: "Failed to fetch games" });
@@ -717,70 +1428,56 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Game not found" });
       }
 
-      if (game.marketId) {
-        return res.status(400).json({ message: "Market already exists for this game" });
+      const result = await createGameMoneylineMarket(game, req.session.userId!);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof GameMarketError) {
+        return res.status(error.status).json({ message: error.message });
       }
+      console.error("Create market for game error:", error);
+      res.status(500).json({ message: "Failed to create market" });
+    }
+  });
 
-      const sportName = game.sport.charAt(0) + game.sport.slice(1).toLowerCase();
-      const market = await storage.createMarket({
-        type: "PREDICTION",
-        title: `Menlo ${sportName} vs ${game.opponent}: Will Menlo win?`,
-        description: `Prediction market for the ${sportName} game against ${game.opponent}. Resolves YES if Menlo wins, NO if Menlo loses or ties.`,
-        category: "Sports",
-        status: "OPEN",
-        source: "INTERNAL",
-        closeAt: game.gameDate,
-        resolveAt: new Date(new Date(game.gameDate).getTime() + 24 * 60 * 60 * 1000),
-        resolutionRule: "Based on official game results",
-        createdBy: req.session.userId!,
-      });
-
-      await storage.createOutcome({
-        marketId: market.id,
-        label: "Yes",
-        currentPrice: 0.5,
-      });
-
-      await storage.createOutcome({
-        marketId: market.id,
-        label: "No",
-        currentPrice: 0.5,
-      });
+  // POST /api/admin/games/:id/line-markets - Add an over/under or spread market to a game
+  app.post("/api/admin/games/:id/line-markets", requireAdmin, async (req, res) => {
+    try {
+      const parsed = createGameLineMarketSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
 
-      await storage.updateGame(game.id, { marketId: market.id });
+      const game = await storage.getGame(req.params.id);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
 
-      res.json({ game: { ...game, marketId: market.id }, market });
+      const result = await createGameLineMarket(game, parsed.data.kind, parsed.data.line, req.session.userId!);
+      res.json(result);
     } catch (error) {
-      console.error("Create market for game error:", error);
+      if (error instanceof GameMarketError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Create line market for game error:", error);
       res.status(500).json({ message: "Failed to create market" });
     }
   });
 
-  // POST /api/admin/games/import-csv - Bulk import games from CSV data
-  app.post("/api/admin/games/import-csv", requireAdmin, async (req, res) => {
+  // POST /api/admin/games/import - Import a CSV or iCalendar schedule, or preview it with dryRun
+  app.post("/api/admin/games/import", requireAdmin, async (req, res) => {
     try {
-      const { games } = req.body;
-      if (!Array.isArray(games)) {
-        return res.status(400).json({ message: "Invalid games data" });
-      }
-
-      const results = [];
-      for (const gameData of games) {
-        try {
-          const game = await storage.createGame({
-            ...gameData,
-            createdBy: req.session.userId!,
-            gameDate: new Date(gameData.gameDate),
-          });
-          results.push({ success: true, game });
-        } catch (error) {
-          results.push({ success: false, error: String(error), data: gameData });
-        }
+      const parsed = importGamesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
 
-      res.json({ imported: results.filter(r => r.success).length, total: games.length, results });
+      const result = await importGames(parsed.data, req.session.userId!);
+      res.json(result);
     } catch (error) {
-      console.error("Import CSV games error:", error);
+      if (error instanceof GameImportError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Import games error:", error);
       res.status(500).json({ message: "Failed to import games" });
     }
   });
@@ -803,31 +1500,9 @@ export async function registerRoutes(
         status: "COMPLETED",
       });
 
-      if (game.marketId) {
-        const market = await storage.getMarket(game.marketId);
-        if (market && market.status === "OPEN") {
-          const outcomes = await storage.getOutcomesByMarket(game.marketId);
-          const yesOutcome = outcomes.find((o) => o.label === "Yes");
-          const noOutcome = outcomes.find((o) => o.label === "No");
-
-          if (!yesOutcome || !noOutcome) {
-            console.warn("Market missing expected Yes/No outcomes, skipping resolution");
-          } else if (menloScore === opponentScore) {
-            // Tie game - don't resolve market, mark as cancelled
-            await storage.updateMarket(game.marketId, { status: "CLOSED" });
-            // Refund logic would go here in a real system
-            console.log("Game tied - market closed without resolution");
-          } else {
-            // Resolve market based on winner
-            await storage.updateMarket(game.marketId, { status: "RESOLVED" });
-            const menloWon = menloScore > opponentScore;
-            const winningOutcome = menloWon ? yesOutcome : noOutcome;
-            const losingOutcome = menloWon ? noOutcome : yesOutcome;
-
-            await storage.updateOutcome(winningOutcome.id, { currentPrice: 1 });
-            await storage.updateOutcome(losingOutcome.id, { currentPrice: 0 });
-          }
-        }
+      // Resolve the moneyline and any over/under or spread markets and pay out winning positions
+      if (updatedGame) {
+        await resolveGameMarkets(updatedGame, req.session.userId!);
       }
 
       res.json(updatedGame);
@@ -994,20 +1669,27 @@ USER'S CURRENT PORTFOLIO:`;
         }
       }
 
+      const openPredictions = allPredictions.filter((p) => p.status === "OPEN");
+      context += `\n\nOPEN PREDICTION MARKETS (${openPredictions.length} total):`;
+      for (const prediction of openPredictions.slice(0, 20)) {
+        const outcomeList = (prediction.outcomes ?? [])
+          .map((o) => `${o.label} ${(o.currentPrice * 100).toFixed(0)}% (outcome ID: ${o.id})`)
+          .join(", ");
+        context += `\n- ${prediction.title} (ID: ${prediction.id}): ${outcomeList}`;
+      }
+
       if (mode === "sports") {
         context += `\n\nSPORTS BETTING MODE: `;
         try {
-          const polyResponse = await fetch("https://gamma-api.polymarket.com/events?closed=false&limit=50&active=true");
-          const events = await polyResponse.json();
-          const sportsEvents = events.filter((e: any) => {
-            const slug = (e.slug || "").toLowerCase();
-            const text = (e.title + " " + (e.description || "")).toLowerCase();
-            return ["nba", "nfl", "mlb", "nhl", "super-bowl", "champions-league", "world-cup", "tennis", "golf", "masters", "ufc"].some(k => slug.includes(k) || text.includes(k));
-          }).slice(0, 15);
+          const events = await polymarketClient.listOpenEvents(50);
+          const sportsEvents = events
+            .map((event) => ({ event, league: classifySportsEvent(event) }))
+            .filter(({ league }) => league !== null)
+            .slice(0, 15);
           
           context += `Current live sports markets from Polymarket:`;
-          for (const event of sportsEvents) {
-            context += `\n- ${event.title}`;
+          for (const { event, league } of sportsEvents) {
+            context += `\n- [${league}] ${event.title}`;
             if (event.markets?.[0]) {
               try {
                 const prices = JSON.parse(event.markets[0].outcomePrices || "[]");
@@ -1030,7 +1712,7 @@ USER'S CURRENT PORTFOLIO:`;
       context += `
 
 CAPABILITIES:
-You can execute trades for the user by calling the buy_stock or sell_stock functions. When the user asks to buy or sell, USE the function - don't just describe it.
+You can execute trades for the user by calling the buy_stock or sell_stock functions. For prediction markets, also pass the outcome ID. When the user asks to buy or sell, USE the function - don't just describe it.
 
 TRADING RULES:
 - Minimum trade: 1 share, Maximum: 1000 shares per trade
@@ -1057,12 +1739,13 @@ Be confident, give specific recommendations with reasoning. When appropriate, pr
           type: "function",
           function: {
             name: "buy_stock",
-            description: "Buy shares of a stock for the user. Use this when the user wants to purchase shares.",
+            description: "Buy shares of a stock or a prediction market outcome for the user. Use this when the user wants to purchase shares.",
             parameters: {
               type: "object",
               properties: {
                 marketId: { type: "string", description: "The market/stock ID to buy" },
-                ticker: { type: "string", description: "The stock ticker symbol for confirmation" },
+                outcomeId: { type: "string", description: "For prediction markets only: the outcome ID to buy" },
+                ticker: { type: "string", description: "The stock ticker symbol (or outcome label) for confirmation" },
                 quantity: { type: "number", description: "Number of shares to buy (1-1000)" },
               },
               required: ["marketId", "ticker", "quantity"],
@@ -1073,12 +1756,13 @@ Be confident, give specific recommendations with reasoning. When appropriate, pr
           type: "function",
           function: {
             name: "sell_stock",
-            description: "Sell shares of a stock for the user. Use this when the user wants to sell shares they own.",
+            description: "Sell shares of a stock or a prediction market outcome for the user. Use this when the user wants to sell shares they own.",
             parameters: {
               type: "object",
               properties: {
                 marketId: { type: "string", description: "The market/stock ID to sell" },
-                ticker: { type: "string", description: "The stock ticker symbol for confirmation" },
+                outcomeId: { type: "string", description: "For prediction markets only: the outcome ID to sell" },
+                ticker: { type: "string", description: "The stock ticker symbol (or outcome label) for confirmation" },
                 quantity: { type: "number", description: "Number of shares to sell (1-1000)" },
               },
               required: ["marketId", "ticker", "quantity"],
@@ -1116,95 +1800,20 @@ Be confident, give specific recommendations with reasoning. When appropriate, pr
             const quantity = Math.floor(Number(args.quantity) || 0);
             
             try {
-              const market = await storage.getMarket(marketId);
-              if (!market || market.status !== "OPEN" || !market.stockMeta) {
-                functionResults.push(`Failed to ${side.toLowerCase()} ${ticker}: Market not found or not available.`);
+              const result = await executeTrade(
+                user.id,
+                { marketId, outcomeId: args.outcomeId || null, side, qty: quantity },
+                { source: "MK_AI" }
+              );
+              if (!result.ok) {
+                functionResults.push(`Failed to ${side.toLowerCase()} ${quantity} shares of ${ticker}: ${result.message} (${result.code}).`);
                 continue;
               }
 
-              const currentPrice = market.stockMeta.currentPrice;
-              const total = quantity * currentPrice;
-
-              // Validate trade
-              if (side === "BUY" && user.balance < total) {
-                functionResults.push(`Failed to buy ${quantity} shares of ${ticker}: Insufficient balance. Need $${total.toFixed(2)} but have $${user.balance.toFixed(2)}.`);
-                continue;
-              }
-
-              if (side === "SELL") {
-                const position = await storage.getPosition(user.id, marketId);
-                if (!position || position.qty < quantity) {
-                  functionResults.push(`Failed to sell ${quantity} shares of ${ticker}: You only own ${position?.qty || 0} shares.`);
-                  continue;
-                }
-              }
-
-              // Execute trade
-              const trade = await storage.createTrade({
-                userId: user.id,
-                marketId,
-                outcomeId: null,
-                side,
-                qty: quantity,
-                price: currentPrice,
-                total,
-              });
-
-              // Update balance
-              const newBalance = side === "BUY" ? user.balance - total : user.balance + total;
-              await storage.updateUser(user.id, { balance: newBalance });
+              const { newBalance, quote } = result;
               user.balance = newBalance; // Update local copy
 
-              // Log balance event
-              await storage.logBalanceEvent({
-                userId: user.id,
-                type: "TRADE",
-                amount: side === "BUY" ? -total : total,
-                note: `MK AI: ${side} ${quantity} shares of ${ticker} at $${currentPrice.toFixed(2)}`,
-              });
-
-              // Update position
-              const existingPosition = await storage.getPosition(user.id, marketId);
-              if (side === "BUY") {
-                if (existingPosition) {
-                  const newQty = existingPosition.qty + quantity;
-                  const newAvgCost = (existingPosition.qty * existingPosition.avgCost + quantity * currentPrice) / newQty;
-                  await storage.upsertPosition({
-                    userId: user.id,
-                    marketId,
-                    outcomeId: null,
-                    qty: newQty,
-                    avgCost: newAvgCost,
-                  });
-                } else {
-                  await storage.upsertPosition({
-                    userId: user.id,
-                    marketId,
-                    outcomeId: null,
-                    qty: quantity,
-                    avgCost: currentPrice,
-                  });
-                }
-              } else {
-                if (existingPosition) {
-                  const newQty = existingPosition.qty - quantity;
-                  await storage.upsertPosition({
-                    userId: user.id,
-                    marketId,
-                    outcomeId: null,
-                    qty: newQty,
-                    avgCost: existingPosition.avgCost,
-                  });
-                }
-              }
-
-              // Update stock price (simple AMM)
-              const priceChange = side === "BUY" ? currentPrice * 0.01 : -currentPrice * 0.01;
-              await storage.updateStockMeta(marketId, {
-                currentPrice: Math.max(0.01, currentPrice + priceChange),
-              });
-
-              functionResults.push(`Successfully ${side === "BUY" ? "bought" : "sold"} ${quantity} shares of ${ticker} at $${currentPrice.toFixed(2)} for $${total.toFixed(2)}. New balance: $${newBalance.toFixed(2)}`);
+              functionResults.push(`Successfully ${side === "BUY" ? "bought" : "sold"} ${quantity} shares of ${ticker} at $${quote.averagePrice.toFixed(2)} for $${quote.total.toFixed(2)}. New balance: $${newBalance.toFixed(2)}${result.bankruptcyReset ? " (bankruptcy reset applied)" : ""}`);
             } catch (error: any) {
               functionResults.push(`Trade error for ${ticker}: ${error.message}`);
             }
@@ -1258,54 +1867,21 @@ Be confident, give specific recommendations with reasoning. When appropriate, pr
 
   // ==================== POLYMARKET ROUTES ====================
 
+  // Pulls prices for imported markets and resolves them when their event closes
+  startPolymarketSync();
+
   app.get("/api/polymarket/sports", async (req, res) => {
     try {
       // Fetch more events to find sports-related ones
-      const response = await fetch("https://gamma-api.polymarket.com/events?closed=false&limit=100&active=true");
-      const events = await response.json();
-      
-      // Sports-specific slugs and keywords - more precise matching
-      const sportsSlugPatterns = [
-        "nba", "nfl", "mlb", "nhl", "mls", "premier-league", "la-liga", "bundesliga", "serie-a", "ligue-1",
-        "super-bowl", "world-series", "stanley-cup", "champions-league", "world-cup", "euro-", "copa-america",
-        "wimbledon", "us-open", "french-open", "australian-open", "masters", "pga", "f1-", "formula-1",
-        "nascar", "ufc", "boxing", "golf", "tennis", "soccer", "football-", "basketball", "baseball", "hockey"
-      ];
-      
-      // Keywords for title/description matching
-      const sportsKeywords = [
-        "nba", "nfl", "mlb", "nhl", "mls", "premier league", "la liga", "bundesliga", "serie a", "ligue 1",
-        "super bowl", "world series", "stanley cup", "champions league", "world cup", "wimbledon",
-        "us open", "french open", "australian open", "the masters", "pga tour", "lpga", "f1 ", "formula 1",
-        "nascar", "indy 500", "march madness", "ncaa", "college football", "mvp award", "heisman",
-        "ufc ", "boxing", "mma", "golf", "tennis", "soccer", "football game", "basketball", "baseball", "hockey"
-      ];
-      
-      // Exclude keywords to filter out false positives
-      const excludeKeywords = [
-        "president", "election", "trump", "biden", "political", "congress", "parliament",
-        "macron", "ukraine", "nato", "war", "tariff", "recession", "inflation", "fed ", "rates"
-      ];
-      
-      const sportsEvents = events.filter((event: any) => {
-        const slug = (event.slug || "").toLowerCase();
-        const text = (event.title + " " + (event.description || "")).toLowerCase();
-        
-        // Check if slug matches sports patterns
-        const slugMatch = sportsSlugPatterns.some(pattern => slug.includes(pattern));
-        
-        // Check if title/description matches sports keywords
-        const keywordMatch = sportsKeywords.some(keyword => text.includes(keyword));
-        
-        // Exclude political/economic events
-        const isExcluded = excludeKeywords.some(keyword => text.includes(keyword));
-        
-        return (slugMatch || keywordMatch) && !isExcluded;
-      });
+      const events = await polymarketClient.listOpenEvents(100);
+      const sportsEvents = events
+        .map((event) => ({ event, league: classifySportsEvent(event) }))
+        .filter(({ league }) => league !== null);
       
       // Format events for display
-      const formattedEvents = sportsEvents.map((event: any) => ({
+      const formattedEvents = sportsEvents.map(({ event, league }) => ({
         id: event.id,
+        league,
         slug: event.slug,
         title: event.title,
         description: event.description,
@@ -1313,7 +1889,7 @@ Be confident, give specific recommendations with reasoning. When appropriate, pr
         endDate: event.endDate,
         volume: event.volume,
         liquidity: event.liquidity,
-        markets: event.markets?.map((m: any) => ({
+        markets: event.markets?.map((m) => ({
           id: m.id,
           question: m.question,
           outcomePrices: m.outcomePrices,
@@ -1352,42 +1928,17 @@ Be confident, give specific recommendations with reasoning. When appropriate, pr
       }
 
       // Fetch event details from Polymarket to validate and get trusted data
-      const pmResponse = await fetch(`https://gamma-api.polymarket.com/events/${eventId}`);
-      if (!pmResponse.ok) {
+      const pmEvent = await polymarketClient.getEvent(String(eventId));
+      if (!pmEvent) {
         return res.status(404).json({ message: "Event not found on Polymarket" });
       }
-      const pmEvent = await pmResponse.json();
       
-      if (!pmEvent || !pmEvent.title) {
+      if (!pmEvent.title) {
         return res.status(400).json({ message: "Invalid Polymarket event data" });
       }
 
       // Validate that this is a sports event using the same criteria as /api/polymarket/sports
-      const sportsSlugPatterns = [
-        "nba", "nfl", "mlb", "nhl", "mls", "premier-league", "la-liga", "bundesliga", "serie-a", "ligue-1",
-        "super-bowl", "world-series", "stanley-cup", "champions-league", "world-cup", "euro-", "copa-america",
-        "wimbledon", "us-open", "french-open", "australian-open", "masters", "pga", "f1-", "formula-1",
-        "nascar", "ufc", "boxing", "golf", "tennis", "soccer", "football-", "basketball", "baseball", "hockey"
-      ];
-      const sportsKeywords = [
-        "nba", "nfl", "mlb", "nhl", "mls", "premier league", "la liga", "bundesliga", "serie a", "ligue 1",
-        "super bowl", "world series", "stanley cup", "champions league", "world cup", "wimbledon",
-        "us open", "french open", "australian open", "the masters", "pga tour", "lpga", "f1 ", "formula 1",
-        "nascar", "indy 500", "march madness", "ncaa", "college football", "mvp award", "heisman",
-        "ufc ", "boxing", "mma", "golf", "tennis", "soccer", "football game", "basketball", "baseball", "hockey"
-      ];
-      const excludeKeywords = [
-        "president", "election", "trump", "biden", "political", "congress", "parliament",
-        "macron", "ukraine", "nato", "war", "tariff", "recession", "inflation", "fed ", "rates"
-      ];
-      
-      const eventSlug = (pmEvent.slug || "").toLowerCase();
-      const eventText = (pmEvent.title + " " + (pmEvent.description || "")).toLowerCase();
-      const slugMatch = sportsSlugPatterns.some(pattern => eventSlug.includes(pattern));
-      const keywordMatch = sportsKeywords.some(keyword => eventText.includes(keyword));
-      const isExcluded = excludeKeywords.some(keyword => eventText.includes(keyword));
-      
-      if (!(slugMatch || keywordMatch) || isExcluded) {
+      if (!classifySportsEvent(pmEvent)) {
         return res.status(400).json({ message: "This event is not a sports market" });
       }
 
@@ -1408,6 +1959,7 @@ Be confident, give specific recommendations with reasoning. When appropriate, pr
         closeAt: null,
         resolveAt: null,
         resolutionRule: "Based on Polymarket resolution",
+        liquidity: DEFAULT_LIQUIDITY,
         createdBy: req.session.userId!,
       });
 
@@ -1423,12 +1975,13 @@ Be confident, give specific recommendations with reasoning. When appropriate, pr
         currentPrice: 0.5,
       });
 
-      await storage.createPolymarketLink({
+      const link = await storage.createPolymarketLink({
         marketId: market.id,
         polymarketEventId: eventId,
         polymarketSlug: slug,
         polymarketImage: image || null,
       });
+      await syncImportedMarket(market.id, link);
 
       res.json({ marketId: market.id, isNew: true });
     } catch (error) {
@@ -1486,6 +2039,7 @@ Be confident, give specific recommendations with reasoning. When appropriate, pr
         closeAt: null,
         resolveAt: null,
         resolutionRule: "Based on Polymarket resolution",
+        liquidity: DEFAULT_LIQUIDITY,
         createdBy: req.session.userId!,
       });
 
@@ -1507,6 +2061,7 @@ Be confident, give specific recommendations with reasoning. When appropriate, pr
         polymarketSlug: slug,
         polymarketImage: image || null,
       });
+      await syncImportedMarket(market.id, polymarketLink);
 
       const enrichedMarket = await storage.getMarket(market.id);
       res.json({ market: enrichedMarket, polymarketLink });
@@ -1516,5 +2071,15 @@ Be confident, give specific recommendations with reasoning. When appropriate, pr
     }
   });
 
+  app.post("/api/admin/polymarket/sync", requireAdmin, async (req, res) => {
+    try {
+      await syncPolymarketMarkets();
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Polymarket sync error:", error);
+      res.status(500).json({ message: "Failed to sync polymarket markets" });
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,205 @@
+import { storage } from "./storage";
+import { afterPortfolioChange } from "./portfolioSnapshots";
+import { cancelConditionalOrder, cancelLimitOrder, coverShort, executeTrade } from "./trading";
+import type { InsertSeason, Season, SeasonStatus, SeasonWithWinners } from "@shared/schema";
+
+// Seasons give everyone a fresh start. On every tick a SCHEDULED season whose
+// start has passed becomes ACTIVE, and one whose end has passed is closed out:
+// it goes to ENDING, its standings (return since the season started) are
+// archived, then every student is liquidated and reset to the starting credit.
+// Each reset marks the student's result, so a season left in ENDING by a crash
+// picks up where it stopped on the next tick. Then it's COMPLETED.
+
+// What every student starts a season with - the same as the registration credit
+export const SEASON_STARTING_BALANCE = 1000;
+
+// How many finishers per season the Hall of Fame shows
+const HALL_OF_FAME_PLACES = 3;
+
+export class SeasonError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "SeasonError";
+  }
+}
+
+export async function createSeason(input: InsertSeason, createdBy: string): Promise<Season> {
+  const existing = await storage.getSeasons();
+  if (existing.some((s) => s.name.toLowerCase() === input.name.toLowerCase())) {
+    throw new SeasonError(`There's already a season called "${input.name}"`, 409);
+  }
+  // A season ended early only ran until it was ended
+  const overlapping = existing.find(
+    (s) => input.startsAt < (s.completedAt ?? s.endsAt) && s.startsAt < input.endsAt
+  );
+  if (overlapping) {
+    throw new SeasonError(`Overlaps with ${overlapping.name}`, 409);
+  }
+  return storage.createSeason({ ...input, createdBy });
+}
+
+// Only seasons that haven't started can be deleted - a running or finished
+// season has standings that students have been playing for
+export async function deleteSeason(seasonId: string): Promise<void> {
+  const season = await storage.getSeason(seasonId);
+  if (!season) {
+    throw new SeasonError("Season not found", 404);
+  }
+  if (season.status !== "SCHEDULED") {
+    throw new SeasonError("Only seasons that haven't started can be deleted");
+  }
+  await storage.deleteSeason(seasonId);
+}
+
+// Seasons being closed out by this process, so an admin's End Now and a slow
+// scheduler tick can't liquidate the same students side by side
+const endingSeasons = new Set<string>();
+
+// Archives the final standings and resets every student, or finishes the job
+// for a season already ENDING. Returns how many students this call reset, or
+// 0 if something else is ending the season.
+export async function endSeason(season: Season): Promise<number> {
+  if (season.status === "COMPLETED") {
+    throw new SeasonError("This season has already ended");
+  }
+  if (season.startsAt > new Date()) {
+    throw new SeasonError("This season hasn't started yet");
+  }
+  if (endingSeasons.has(season.id)) return 0;
+  endingSeasons.add(season.id);
+  try {
+    // Claim it first so the scheduler and an admin can't both archive the standings
+    if (season.status !== "ENDING") {
+      const claimed = await storage.setSeasonStatus(season.id, "ENDING", season.status as SeasonStatus);
+      if (!claimed) return 0;
+    }
+
+    // Nobody is reset before the standings are saved, so if there are none yet
+    // they can still be worked out
+    let results = await storage.getSeasonResults(season.id);
+    if (results.length === 0) {
+      const standings = await storage.getSeasonStandings(season.startsAt);
+      await storage.saveSeasonResults(
+        standings.map((entry) => ({
+          seasonId: season.id,
+          userId: entry.userId,
+          rank: entry.rank,
+          displayName: entry.displayName,
+          grade: entry.grade ?? null,
+          totalValue: entry.totalValue,
+          changePercent: entry.changePercent,
+        }))
+      );
+      results = await storage.getSeasonResults(season.id);
+    }
+
+    const note = `${season.name} ended - balance reset to $${SEASON_STARTING_BALANCE.toLocaleString("en-US")}`;
+    let reset = 0;
+    for (const result of results) {
+      if (result.resetAt) continue;
+      await liquidate(result.userId);
+      if ((await storage.resetPortfolioForSeason(season.id, result.userId, SEASON_STARTING_BALANCE, note)) !== undefined) {
+        reset++;
+        afterPortfolioChange(result.userId);
+      }
+    }
+
+    await storage.setSeasonStatus(season.id, "COMPLETED", "ENDING");
+    return reset;
+  } finally {
+    endingSeasons.delete(season.id);
+  }
+}
+
+// Sells what the student holds the way they could themselves - triggers and
+// resting orders cancelled, shorts covered and positions sold through the
+// pricing engine - so prices and share counts reflect the sale. Whatever can't
+// trade right now is left for resetPortfolioForSeason to write off.
+async function liquidate(userId: string): Promise<void> {
+  for (const order of await storage.getConditionalOrdersByUser(userId, "ACTIVE")) {
+    await cancelConditionalOrder(order.id, userId);
+  }
+  for (const order of await storage.getLimitOrdersByUser(userId, "OPEN")) {
+    await cancelLimitOrder(order.id, userId);
+  }
+
+  for (const short of await storage.getShortPositionsByUser(userId, "OPEN")) {
+    const result = await coverShort(short.id, userId, {});
+    if (!result.ok && result.code !== "MARKET_CLOSED") {
+      console.error(`Season end: couldn't cover short ${short.id}: ${result.message}`);
+    }
+  }
+
+  for (const position of await storage.getPositionsByUser(userId)) {
+    let remaining = position.qty;
+    while (remaining > 0) {
+      // executeTrade takes at most 1000 shares at a time
+      const qty = Math.min(remaining, 1000);
+      const result = await executeTrade(
+        userId,
+        { marketId: position.marketId, outcomeId: position.outcomeId, side: "SELL", qty },
+        { source: "SEASON_END" }
+      );
+      if (!result.ok) {
+        if (result.code !== "MARKET_CLOSED") {
+          console.error(`Season end: couldn't sell position ${position.id}: ${result.message}`);
+        }
+        break;
+      }
+      remaining -= qty;
+    }
+  }
+}
+
+// Finished seasons, most recent first, each with its podium
+export async function getHallOfFame(): Promise<SeasonWithWinners[]> {
+  const completed = (await storage.getSeasons()).filter((s) => s.status === "COMPLETED");
+  return Promise.all(
+    completed.map(async (season) => ({
+      ...season,
+      winners: await storage.getSeasonResults(season.id, HALL_OF_FAME_PLACES),
+    }))
+  );
+}
+
+export async function runSeasonSchedule(now: Date = new Date()): Promise<void> {
+  for (const season of await storage.getSeasons()) {
+    if (season.status === "COMPLETED") continue;
+
+    // An ENDING season was ended but not every student was reset - finish it
+    if (season.status === "ENDING" || season.endsAt <= now) {
+      const reset = await endSeason(season);
+      if (reset > 0) {
+        console.log(`Season ${season.name} ended: archived standings and reset ${reset} students`);
+      }
+    } else if (season.status === "SCHEDULED" && season.startsAt <= now) {
+      if (await storage.setSeasonStatus(season.id, "ACTIVE", "SCHEDULED")) {
+        console.log(`Season ${season.name} started`);
+      }
+    }
+  }
+}
+
+let seasonInterval: ReturnType<typeof setInterval> | null = null;
+
+export function startSeasonSchedule(intervalMinutes: number = 5): void {
+  if (seasonInterval) {
+    clearInterval(seasonInterval);
+  }
+
+  console.log(`Starting season scheduler (runs every ${intervalMinutes} minutes)`);
+
+  runSeasonSchedule().catch(console.error);
+
+  seasonInterval = setInterval(() => {
+    runSeasonSchedule().catch(console.error);
+  }, intervalMinutes * 60 * 1000);
+}
+
+export function stopSeasonSchedule(): void {
+  if (seasonInterval) {
+    clearInterval(seasonInterval);
+    seasonInterval = null;
+    console.log("Season scheduler stopped");
+  }
+}
@@ -85,14 +85,9 @@ function generateOHLC(
   };
 }
 
-export async function generateHistoricalCandles(marketId: string, initialPrice: number, patternType: PatternType, days: number = 180): Promise<void> {
-  const existingCandles = await db.select().from(stockCandles).where(eq(stockCandles.marketId, marketId)).limit(1);
-  if (existingCandles.length > 0) {
-    return;
-  }
-
+function simulationParams(patternType: PatternType, initialPrice: number): SimulationParams {
   const config = PATTERN_CONFIGS[patternType];
-  const params: SimulationParams = {
+  return {
     patternType,
     baseVolatility: config.baseVolatility || 0.03,
     drift: config.drift || 0,
@@ -101,6 +96,23 @@ export async function generateHistoricalCandles(marketId: string, initialPrice:
     jumpFrequency: config.jumpFrequency || 0.03,
     jumpMagnitude: config.jumpMagnitude || 0.07,
   };
+}
+
+// Pass `endPrice` to rescale the history so its last close lands on that price
+// (e.g. an IPO price) instead of wherever the random walk finished.
+export async function generateHistoricalCandles(
+  marketId: string,
+  initialPrice: number,
+  patternType: PatternType,
+  days: number = 180,
+  endPrice?: number
+): Promise<void> {
+  const existingCandles = await db.select().from(stockCandles).where(eq(stockCandles.marketId, marketId)).limit(1);
+  if (existingCandles.length > 0) {
+    return;
+  }
+
+  const params = simulationParams(patternType, initialPrice);
 
   let currentPrice = initialPrice * (0.7 + Math.random() * 0.6);
   let currentVolatility = params.baseVolatility;
@@ -137,6 +149,17 @@ export async function generateHistoricalCandles(marketId: string, initialPrice:
     });
   }
 
+  if (endPrice !== undefined && candlesToInsert.length > 0) {
+    const scale = endPrice / currentPrice;
+    for (const candle of candlesToInsert) {
+      candle.open = Math.round(candle.open * scale * 100) / 100;
+      candle.high = Math.round(candle.high * scale * 100) / 100;
+      candle.low = Math.round(candle.low * scale * 100) / 100;
+      candle.close = Math.round(candle.close * scale * 100) / 100;
+    }
+    currentPrice = endPrice;
+  }
+
   if (candlesToInsert.length > 0) {
     for (let i = 0; i < candlesToInsert.length; i += 50) {
       const batch = candlesToInsert.slice(i, i + 50);
@@ -146,20 +169,35 @@ export async function generateHistoricalCandles(marketId: string, initialPrice:
 
   await db.update(stockMeta).set({ currentPrice }).where(eq(stockMeta.marketId, marketId));
 
+  await insertSimProfile(marketId, params, currentPrice, currentVolatility);
+}
+
+// Starts simulating a stock from its current price without backfilling any history
+export async function createStockSimProfile(marketId: string, price: number, patternType: PatternType): Promise<void> {
+  const params = simulationParams(patternType, price);
+  await insertSimProfile(marketId, params, price, params.baseVolatility);
+}
+
+async function insertSimProfile(
+  marketId: string,
+  params: SimulationParams,
+  lastPrice: number,
+  lastVolatility: number
+): Promise<void> {
   const existingProfile = await db.select().from(stockSimProfiles).where(eq(stockSimProfiles.marketId, marketId)).limit(1);
   if (existingProfile.length === 0) {
     await db.insert(stockSimProfiles).values({
       id: randomUUID(),
       marketId,
-      patternType,
+      patternType: params.patternType,
       baseVolatility: params.baseVolatility,
       drift: params.drift,
       meanReversionSpeed: params.meanReversionSpeed,
       longTermMean: params.longTermMean,
       jumpFrequency: params.jumpFrequency,
       jumpMagnitude: params.jumpMagnitude,
-      lastPrice: currentPrice,
-      lastVolatility: currentVolatility,
+      lastPrice,
+      lastVolatility,
       lastUpdated: new Date(),
     });
   }
@@ -167,8 +205,19 @@ export async function generateHistoricalCandles(marketId: string, initialPrice:
 
 const VIBE_MARKET_ID = "200aaca8-b63f-416f-b2f1-d8dfc92cdb71";
 
+type StockPriceListener = () => Promise<void> | void;
+const stockPriceListeners: StockPriceListener[] = [];
+
+// Called after every simulation tick, once all stock prices have been updated
+export function onStockPricesUpdated(listener: StockPriceListener): void {
+  stockPriceListeners.push(listener);
+}
+
 export async function updateStockPrices(): Promise<void> {
-  const profiles = await db.select().from(stockSimProfiles);
+  // Stocks still in their IPO allocation window hold at the IPO price until they list
+  const ipoMarkets = await db.select({ id: markets.id }).from(markets).where(eq(markets.status, "IPO"));
+  const ipoMarketIds = new Set(ipoMarkets.map((m) => m.id));
+  const profiles = (await db.select().from(stockSimProfiles)).filter((p) => !ipoMarketIds.has(p.marketId));
   
   for (const profile of profiles) {
     const isVibe = profile.marketId === VIBE_MARKET_ID;
@@ -185,47 +234,66 @@ export async function updateStockPrices(): Promise<void> {
 
     const now = new Date();
     const dayOfYear = Math.floor((now.getTime() - new Date(now.getFullYear(), 0, 0).getTime()) / (24 * 60 * 60 * 1000));
-    let { price: newPrice, volatility: newVolatility } = simulateNextPrice(profile.lastPrice, profile.lastVolatility, params, dayOfYear);
-    
-    if (isVibe && Math.random() < 0.6) {
-      newPrice *= 1 + (Math.random() * 0.005);
-      newPrice = Math.round(newPrice * 100) / 100;
-    }
 
-    await db.update(stockSimProfiles).set({
-      lastPrice: newPrice,
-      lastVolatility: newVolatility,
-      lastUpdated: now,
-    }).where(eq(stockSimProfiles.id, profile.id));
-
-    await db.update(stockMeta).set({ currentPrice: newPrice }).where(eq(stockMeta.marketId, profile.marketId));
-
-    const lastCandle = await db.select().from(stockCandles)
-      .where(eq(stockCandles.marketId, profile.marketId))
-      .orderBy(desc(stockCandles.timestamp))
-      .limit(1);
-
-    if (lastCandle.length > 0) {
-      const lastCandleDate = new Date(lastCandle[0].timestamp);
-      const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    await db.transaction(async (tx) => {
+      // Trades move stockMeta.currentPrice along the bonding curve, so step from
+      // there rather than from the profile's last simulated price. The row stays
+      // locked (as executeTrade locks it) until the new price is written, so a
+      // trade can't land in between and be overwritten.
+      const [meta] = await tx.select({ currentPrice: stockMeta.currentPrice }).from(stockMeta)
+        .where(eq(stockMeta.marketId, profile.marketId))
+        .for("update");
+      const startPrice = meta?.currentPrice ?? profile.lastPrice;
+      let { price: newPrice, volatility: newVolatility } = simulateNextPrice(startPrice, profile.lastVolatility, params, dayOfYear);
       
-      if (lastCandleDate < todayStart) {
-        const ohlc = generateOHLC(profile.lastPrice, newPrice, newVolatility);
-        await db.insert(stockCandles).values({
-          id: randomUUID(),
-          marketId: profile.marketId,
-          ...ohlc,
-          timestamp: todayStart,
-        });
-      } else {
-        const currentCandle = lastCandle[0];
-        await db.update(stockCandles).set({
-          high: Math.max(currentCandle.high, newPrice),
-          low: Math.min(currentCandle.low, newPrice),
-          close: newPrice,
-          volume: currentCandle.volume + Math.floor(Math.random() * 100 + 50),
-        }).where(eq(stockCandles.id, currentCandle.id));
+      if (isVibe && Math.random() < 0.6) {
+        newPrice *= 1 + (Math.random() * 0.005);
+        newPrice = Math.round(newPrice * 100) / 100;
+      }
+
+      await tx.update(stockSimProfiles).set({
+        lastPrice: newPrice,
+        lastVolatility: newVolatility,
+        lastUpdated: now,
+      }).where(eq(stockSimProfiles.id, profile.id));
+
+      await tx.update(stockMeta).set({ currentPrice: newPrice }).where(eq(stockMeta.marketId, profile.marketId));
+
+      const lastCandle = await tx.select().from(stockCandles)
+        .where(eq(stockCandles.marketId, profile.marketId))
+        .orderBy(desc(stockCandles.timestamp))
+        .limit(1);
+
+      if (lastCandle.length > 0) {
+        const lastCandleDate = new Date(lastCandle[0].timestamp);
+        const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+        
+        if (lastCandleDate < todayStart) {
+          const ohlc = generateOHLC(startPrice, newPrice, newVolatility);
+          await tx.insert(stockCandles).values({
+            id: randomUUID(),
+            marketId: profile.marketId,
+            ...ohlc,
+            timestamp: todayStart,
+          });
+        } else {
+          const currentCandle = lastCandle[0];
+          await tx.update(stockCandles).set({
+            high: Math.max(currentCandle.high, newPrice),
+            low: Math.min(currentCandle.low, newPrice),
+            close: newPrice,
+            volume: currentCandle.volume + Math.floor(Math.random() * 100 + 50),
+          }).where(eq(stockCandles.id, currentCandle.id));
+        }
       }
+    });
+  }
+
+  for (const listener of stockPriceListeners) {
+    try {
+      await listener();
+    } catch (error) {
+      console.error("Stock price listener error:", error);
     }
   }
 }
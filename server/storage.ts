@@ -4,29 +4,85 @@ import {
   type Market,
   type Outcome,
   type StockMeta,
+  type ScalarMeta,
   type Trade,
   type Position,
   type Comment,
   type Report,
   type Resolution,
+  type MarketReview,
+  type MarketStatus,
+  type MarketStatusChange,
   type BalanceEvent,
+  type PortfolioSnapshot,
   type MarketWithDetails,
   type LeaderboardEntry,
+  type GradeStanding,
+  type LeaderboardQuery,
+  type LeaderboardLeague,
+  type LeagueGroup,
+  type LeagueGroupMember,
+  type LeagueGroupWithCount,
+  type LeagueGroupMemberWithUser,
+  type InsertLeagueGroup,
+  type Season,
+  type SeasonStatus,
+  type SeasonResult,
+  type InsertSeason,
+  type BalanceEventType,
   type PortfolioSummary,
   type PositionWithDetails,
   type StockCandle,
   type MarketCandle,
   type Game,
   type PolymarketLink,
+  type TradeSide,
+  type TradeQuote,
+  type TradeErrorCode,
+  type LimitOrder,
+  type LimitOrderStatus,
+  type InsertLimitOrder,
+  type ConditionalOrder,
+  type ConditionalOrderStatus,
+  type ShortPosition,
+  type ShortPositionStatus,
+  type ShortPositionWithDetails,
+  type IpoRequest,
+  type IpoRequestStatus,
+  type IpoSubscription,
+  type IpoSubscriptionStatus,
+  type Parlay,
+  type ParlayLeg,
+  type GameMarket,
+  type ParlayStatus,
+  type ParlayLegStatus,
   users,
   markets,
   outcomes,
   stockMeta as stockMetaTable,
+  scalarMeta as scalarMetaTable,
   trades,
   positions,
+  limitOrders,
+  conditionalOrders,
+  shortPositions,
   comments,
   reports,
+  resolutions,
+  marketReviews,
+  marketStatusHistory,
+  resolutionReminders,
+  ipoRequests,
+  ipoSubscriptions,
+  parlays,
+  parlayLegs,
+  gameMarkets,
+  leagueGroups,
+  leagueGroupMembers,
+  seasons,
+  seasonResults,
   balanceEvents,
+  portfolioSnapshots,
   stockCandles,
   marketCandles,
   games,
@@ -37,9 +93,508 @@ import {
 import { randomUUID } from "crypto";
 import { createHash } from "crypto";
 import { db } from "./db";
-import { eq, and, desc, sql, ne, isNull } from "drizzle-orm";
+import { eq, and, or, desc, asc, sql, ne, isNull, isNotNull, inArray, notInArray, lt, lte, gt, gte, type SQL } from "drizzle-orm";
 import { generateHistoricalCandles, assignPatternType, startStockSimulation } from "./stockSimulator";
 import { stockSimProfiles } from "@shared/schema";
+import { quoteTrade, checkSlippage, QuoteError, type PricedTrade } from "./trading/quote";
+import { normalizePrices } from "./trading/lmsr";
+import { SCALAR_OUTCOME_LABELS } from "./trading/scalar";
+import { EXTERNAL_FLOW_TYPES, parseLeaderboardWindow, windowStart, windowedReturnPercent } from "./returns";
+import {
+  INITIAL_MARGIN_RATE,
+  shortEquity,
+  shortMarketValue,
+  shortPnL,
+  marginRatio,
+} from "./trading/margin";
+
+// Raised when a trade is rejected (insufficient balance, closed market, etc.).
+// Nothing has been written when this is thrown.
+export class TradeError extends Error {
+  constructor(public code: TradeErrorCode, message: string) {
+    super(message);
+    this.name = "TradeError";
+  }
+}
+
+export interface TradeOrder {
+  marketId: string;
+  outcomeId?: string | null;
+  side: TradeSide;
+  qty: number;
+  maxPrice?: number;
+  minPrice?: number;
+  // Set when this fill belongs to a resting limit order - its reservation is released in the same transaction
+  limitOrderId?: string;
+}
+
+export interface TradeExecution {
+  trade: Trade;
+  newBalance: number;
+  quote: TradeQuote;
+}
+
+export interface ShortOrder {
+  marketId: string;
+  qty: number;
+  minPrice?: number;
+}
+
+export interface CoverOrder {
+  // Defaults to the whole short
+  qty?: number;
+  maxPrice?: number;
+  // Only the owner may cover their own short; margin calls leave this unset
+  userId?: string;
+  reason: "USER" | "MARGIN_CALL";
+}
+
+export interface ShortExecution {
+  short: ShortPosition;
+  trade: Trade;
+  newBalance: number;
+  quote: TradeQuote;
+}
+
+export interface MarketStatusUpdate {
+  // Only change the status if the market is still in this one (guards against racing the scheduler)
+  fromStatus?: MarketStatus;
+  // Null for changes made by the lifecycle scheduler
+  changedBy: string | null;
+  reason?: string | null;
+}
+
+export interface IpoSubscriptionExecution {
+  subscription: IpoSubscription;
+  newBalance: number;
+}
+
+export interface ParlayExecution {
+  parlay: Parlay;
+  legs: ParlayLeg[];
+  newBalance: number;
+}
+
+export type NewParlayLeg = Pick<ParlayLeg, "marketId" | "outcomeId" | "price">;
+
+// What settling a market credits one position's holder, or null for nothing
+export type PositionPayout = { amount: number; note: string } | null;
+
+// How a settlement takes the market out of trading. It only goes ahead while
+// the market is still in `fromStatus`; a resolution is recorded along with it.
+export interface MarketClosing extends MarketStatusUpdate {
+  fromStatus: MarketStatus;
+  toStatus: Extract<MarketStatus, "RESOLVED" | "VOIDED">;
+  resolution?: Omit<Resolution, "id" | "resolvedAt">;
+}
+
+export interface MarketSettlement {
+  resolution?: Resolution;
+  payouts: number;
+  totalPaid: number;
+}
+
+// What a ranked student's portfolio is worth right now
+export interface PortfolioValue {
+  user: User;
+  totalValue: number;
+  cashBalance: number;
+  positionsValue: number;
+}
+
+// Prices an order against freshly-read state and runs every pre-trade check.
+// Shared by both storage backends so they reject exactly the same trades.
+function priceOrder(
+  market: MarketWithDetails | undefined,
+  order: TradeOrder,
+  balance: number,
+  heldQty: number,
+  sharesOutstanding: number
+): PricedTrade {
+  if (!market) {
+    throw new TradeError("MARKET_NOT_FOUND", "Market not found");
+  }
+  if (market.status !== "OPEN") {
+    throw new TradeError("MARKET_CLOSED", "Market not available for trading");
+  }
+
+  let quote: PricedTrade;
+  try {
+    quote = quoteTrade(market, order, sharesOutstanding);
+  } catch (error) {
+    if (error instanceof QuoteError) {
+      throw new TradeError(error.code, error.message);
+    }
+    throw error;
+  }
+
+  const slippageError = checkSlippage(quote, order);
+  if (slippageError) {
+    throw new TradeError("SLIPPAGE_EXCEEDED", slippageError);
+  }
+  if (order.side === "BUY" && balance < quote.total) {
+    throw new TradeError("INSUFFICIENT_BALANCE", "Insufficient balance");
+  }
+  if (order.side === "SELL" && heldQty < order.qty) {
+    throw new TradeError("INSUFFICIENT_SHARES", "Insufficient shares");
+  }
+  return quote;
+}
+
+// Position after a fill - buys blend into the average cost, sells leave it alone
+function nextPosition(existing: Position | undefined, side: TradeSide, qty: number, price: number) {
+  if (side === "SELL") {
+    return { qty: (existing?.qty ?? 0) - qty, avgCost: existing?.avgCost ?? price };
+  }
+  if (!existing || existing.qty <= 0) {
+    return { qty, avgCost: price };
+  }
+  const newQty = existing.qty + qty;
+  return { qty: newQty, avgCost: (existing.qty * existing.avgCost + qty * price) / newQty };
+}
+
+// Shares of a position locked up by the owner's open SELL orders
+function reservedShares(orders: LimitOrder[], excludeOrderId?: string): number {
+  return orders
+    .filter((o) => o.status === "OPEN" && o.side === "SELL" && o.id !== excludeOrderId)
+    .reduce((sum, o) => sum + o.qty - o.filledQty, 0);
+}
+
+// Checks that a fill matches its limit order and returns how much reserved cash it frees up
+function limitOrderRelease(limitOrder: LimitOrder | undefined, userId: string, order: TradeOrder): number {
+  if (!limitOrder || limitOrder.userId !== userId) {
+    throw new TradeError("ORDER_NOT_FOUND", "Order not found");
+  }
+  if (limitOrder.status !== "OPEN") {
+    throw new TradeError("ORDER_NOT_OPEN", "Order is no longer open");
+  }
+  const remaining = limitOrder.qty - limitOrder.filledQty;
+  if (
+    limitOrder.marketId !== order.marketId ||
+    (limitOrder.outcomeId ?? null) !== (order.outcomeId ?? null) ||
+    limitOrder.side !== order.side ||
+    order.qty > remaining
+  ) {
+    throw new TradeError("INVALID_ORDER", "Fill does not match the limit order");
+  }
+  if (limitOrder.side === "SELL") return 0;
+  // The last fill releases whatever is left so rounding never strands cash
+  return order.qty === remaining
+    ? limitOrder.reservedAmount
+    : Math.min(limitOrder.reservedAmount, order.qty * limitOrder.limitPrice);
+}
+
+function limitOrderAfterFill(limitOrder: LimitOrder, qty: number, released: number) {
+  const filledQty = limitOrder.filledQty + qty;
+  return {
+    filledQty,
+    reservedAmount: Math.max(0, limitOrder.reservedAmount - released),
+    status: (filledQty >= limitOrder.qty ? "FILLED" : "OPEN") as LimitOrderStatus,
+    updatedAt: new Date(),
+  };
+}
+
+function checkLimitOrderMarket(market: MarketWithDetails | undefined, input: InsertLimitOrder): void {
+  if (!market) {
+    throw new TradeError("MARKET_NOT_FOUND", "Market not found");
+  }
+  if (market.status !== "OPEN") {
+    throw new TradeError("MARKET_CLOSED", "Market not available for trading");
+  }
+  if (market.type !== "STOCK") {
+    if (!input.outcomeId || !market.outcomes?.some((o) => o.id === input.outcomeId)) {
+      throw new TradeError("OUTCOME_NOT_FOUND", "Outcome not found");
+    }
+    if (input.limitPrice >= 1) {
+      throw new TradeError("INVALID_ORDER", "Limit price for an outcome must be below $1.00");
+    }
+  } else if (input.outcomeId) {
+    throw new TradeError("INVALID_ORDER", "Stock orders don't take an outcome");
+  }
+}
+
+// Checks a BUY and a SELL order can trade `qty` shares with each other at `price`
+function checkOrderMatch(buy: LimitOrder | undefined, sell: LimitOrder | undefined, qty: number, price: number): void {
+  if (!buy || !sell) {
+    throw new TradeError("ORDER_NOT_FOUND", "Order not found");
+  }
+  if (buy.status !== "OPEN" || sell.status !== "OPEN") {
+    throw new TradeError("ORDER_NOT_OPEN", "Order is no longer open");
+  }
+  if (
+    buy.side !== "BUY" ||
+    sell.side !== "SELL" ||
+    buy.userId === sell.userId ||
+    buy.marketId !== sell.marketId ||
+    (buy.outcomeId ?? null) !== (sell.outcomeId ?? null) ||
+    qty > buy.qty - buy.filledQty ||
+    qty > sell.qty - sell.filledQty ||
+    price > buy.limitPrice ||
+    price < sell.limitPrice
+  ) {
+    throw new TradeError("INVALID_ORDER", "Orders don't cross");
+  }
+}
+
+function tradeNote(order: TradeOrder, quote: TradeQuote, prefix: string): string {
+  return `${prefix}${order.side} ${order.qty} shares at $${quote.averagePrice.toFixed(2)}`;
+}
+
+function quoteOrThrow(market: MarketWithDetails, side: TradeSide, qty: number, sharesOutstanding: number): PricedTrade {
+  try {
+    return quoteTrade(market, { side, qty }, sharesOutstanding);
+  } catch (error) {
+    if (error instanceof QuoteError) {
+      throw new TradeError(error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+// Prices opening (or adding to) a short and the margin it takes out of the balance
+function priceShortOpen(
+  market: MarketWithDetails | undefined,
+  order: ShortOrder,
+  balance: number
+): { quote: PricedTrade; margin: number } {
+  if (!market) {
+    throw new TradeError("MARKET_NOT_FOUND", "Market not found");
+  }
+  if (market.type !== "STOCK") {
+    throw new TradeError("INVALID_ORDER", "Only student stocks can be shorted");
+  }
+  if (market.status !== "OPEN") {
+    throw new TradeError("MARKET_CLOSED", "Market not available for trading");
+  }
+
+  const quote = quoteOrThrow(market, "SELL", order.qty, 0);
+  const slippageError = checkSlippage(quote, order);
+  if (slippageError) {
+    throw new TradeError("SLIPPAGE_EXCEEDED", slippageError);
+  }
+  const margin = quote.total * INITIAL_MARGIN_RATE;
+  if (balance < margin) {
+    throw new TradeError(
+      "INSUFFICIENT_BALANCE",
+      `Shorting ${order.qty} shares needs $${margin.toFixed(2)} of margin`
+    );
+  }
+  return { quote, margin };
+}
+
+function shortAfterOpen(existing: ShortPosition | undefined, qty: number, quote: TradeQuote, margin: number) {
+  const previousQty = existing?.qty ?? 0;
+  const newQty = previousQty + qty;
+  return {
+    qty: newQty,
+    entryPrice: (previousQty * (existing?.entryPrice ?? 0) + qty * quote.averagePrice) / newQty,
+    collateral: (existing?.collateral ?? 0) + quote.total + margin,
+  };
+}
+
+// Prices buying back some or all of a short. `released` is the collateral freed
+// up for those shares; the student gets back whatever is left after the buy.
+function priceShortCover(
+  market: MarketWithDetails | undefined,
+  short: ShortPosition | undefined,
+  order: CoverOrder
+): { quote: PricedTrade; qty: number; released: number } {
+  if (!short || (order.userId && short.userId !== order.userId)) {
+    throw new TradeError("POSITION_NOT_FOUND", "Short position not found");
+  }
+  if (short.status !== "OPEN") {
+    throw new TradeError("POSITION_NOT_FOUND", "Short position is already closed");
+  }
+  if (!market) {
+    throw new TradeError("MARKET_NOT_FOUND", "Market not found");
+  }
+  if (market.status !== "OPEN") {
+    throw new TradeError("MARKET_CLOSED", "Market not available for trading");
+  }
+
+  const qty = order.qty ?? short.qty;
+  if (qty > short.qty) {
+    throw new TradeError("INVALID_ORDER", `You are only short ${short.qty} shares`);
+  }
+  // Covered shares go back to the lender rather than into circulation, so the float check doesn't apply
+  const quote = quoteOrThrow(market, "BUY", qty, 0);
+  const slippageError = checkSlippage(quote, order);
+  if (slippageError) {
+    throw new TradeError("SLIPPAGE_EXCEEDED", slippageError);
+  }
+  return { quote, qty, released: (short.collateral * qty) / short.qty };
+}
+
+function shortAfterCover(short: ShortPosition, qty: number, released: number, reason: CoverOrder["reason"]) {
+  const remaining = short.qty - qty;
+  if (remaining > 0) {
+    return {
+      qty: remaining,
+      collateral: short.collateral - released,
+      borrowFeesPaid: (short.borrowFeesPaid * remaining) / short.qty,
+    };
+  }
+  return {
+    qty: 0,
+    collateral: 0,
+    status: (reason === "MARGIN_CALL" ? "LIQUIDATED" : "COVERED") as ShortPositionStatus,
+    closedAt: new Date(),
+  };
+}
+
+function coverNote(reason: CoverOrder["reason"], qty: number, quote: TradeQuote, payout: number): string {
+  const prefix = reason === "MARGIN_CALL" ? "Margin call: " : "";
+  return `${prefix}COVER ${qty} shares at $${quote.averagePrice.toFixed(2)} (returned $${payout.toFixed(2)} of collateral)`;
+}
+
+// A short that blew through its collateral can't take the student below zero
+function balanceAfterCover(balance: number, released: number, quote: TradeQuote): number {
+  return Math.max(0, balance + released - quote.total);
+}
+
+function shortWithDetails(
+  short: ShortPosition,
+  market: Market | undefined,
+  stockMeta: StockMeta | undefined
+): ShortPositionWithDetails {
+  const price = stockMeta?.currentPrice ?? short.entryPrice;
+  return {
+    ...short,
+    market,
+    stockMeta,
+    marketValue: shortMarketValue(short, price),
+    equity: shortEquity(short, price),
+    pnl: shortPnL(short, price),
+    marginRatio: marginRatio(short, price),
+  };
+}
+
+// Checks a new IPO subscription and returns what it costs at the IPO price
+function priceIpoSubscription(
+  market: MarketWithDetails | undefined,
+  existing: IpoSubscription | undefined,
+  qty: number,
+  balance: number
+): number {
+  if (!market || market.type !== "STOCK" || !market.stockMeta) {
+    throw new TradeError("MARKET_NOT_FOUND", "Stock not found");
+  }
+  const endsAt = market.stockMeta.ipoEndsAt;
+  if (market.status !== "IPO" || !endsAt || new Date(endsAt).getTime() <= Date.now()) {
+    throw new TradeError("MARKET_CLOSED", "This stock's IPO window is closed");
+  }
+  if (existing) {
+    throw new TradeError("INVALID_ORDER", "You've already subscribed to this IPO");
+  }
+  const cost = qty * market.stockMeta.initialPrice;
+  if (balance < cost) {
+    throw new TradeError("INSUFFICIENT_BALANCE", `Subscribing to ${qty} shares costs $${cost.toFixed(2)}`);
+  }
+  return cost;
+}
+
+function ipoSubscriptionAfterAllocation(subscription: IpoSubscription | undefined, allocatedQty: number) {
+  if (!subscription) {
+    throw new TradeError("ORDER_NOT_FOUND", "Subscription not found");
+  }
+  if (subscription.status !== "PENDING") {
+    throw new TradeError("ORDER_NOT_OPEN", "Subscription has already been settled");
+  }
+  if (!Number.isInteger(allocatedQty) || allocatedQty < 0 || allocatedQty > subscription.qty) {
+    throw new TradeError("INVALID_ORDER", `Can't allocate ${allocatedQty} of ${subscription.qty} shares`);
+  }
+  return {
+    allocatedQty,
+    status: (allocatedQty > 0 ? "ALLOCATED" : "REFUNDED") as IpoSubscriptionStatus,
+    settledAt: new Date(),
+  };
+}
+
+// Ranks students by their return since `opensAt` (null for all-time), richest
+// first on a tie. MemStorage's version - DbStorage does the same in SQL.
+async function rankLeaderboard(
+  storage: IStorage,
+  values: PortfolioValue[],
+  opensAt: Date | null,
+  now: Date = new Date()
+): Promise<LeaderboardEntry[]> {
+  const baselines = new Map(
+    (opensAt ? await storage.getWindowBaselines(opensAt) : []).map((snapshot) => [snapshot.userId, snapshot])
+  );
+  const flows = new Map<string, BalanceEvent[]>();
+  for (const event of await storage.getBalanceEventsByType(EXTERNAL_FLOW_TYPES)) {
+    flows.set(event.userId, [...(flows.get(event.userId) ?? []), event]);
+  }
+
+  const entries: LeaderboardEntry[] = values.map(({ user, totalValue, cashBalance, positionsValue }) => ({
+    rank: 0,
+    userId: user.id,
+    displayName: user.displayName,
+    grade: user.grade || undefined,
+    totalValue,
+    cashBalance,
+    positionsValue,
+    changePercent: windowedReturnPercent(
+      user,
+      totalValue,
+      opensAt,
+      baselines.get(user.id),
+      flows.get(user.id) ?? [],
+      now
+    ),
+  }));
+
+  entries.sort((a, b) => b.changePercent - a.changePercent || b.totalValue - a.totalValue);
+  entries.forEach((entry, index) => {
+    entry.rank = index + 1;
+  });
+  return entries;
+}
+
+function leaderboardPage(entries: LeaderboardEntry[], query?: LeaderboardQuery): LeaderboardEntry[] {
+  return query ? entries.slice(query.offset, query.offset + query.limit) : entries;
+}
+
+function leaderboardEntry(entries: LeaderboardEntry[], userId: string): LeaderboardEntry | undefined {
+  const entry = entries.find((e) => e.userId === userId);
+  return entry && { ...entry, isCurrentUser: true };
+}
+
+// Rolls a full ranking up by grade: average return best first, then the bigger
+// grade, then the grade whose leader ranks higher. MemStorage's version -
+// DbStorage does the same in SQL.
+function gradeStandings(entries: LeaderboardEntry[]): GradeStanding[] {
+  const byGrade = new Map<string, LeaderboardEntry[]>();
+  // The ranking is already sorted, so each grade's first entry is its leader
+  for (const entry of entries) {
+    if (!entry.grade) continue;
+    const grade = byGrade.get(entry.grade);
+    if (grade) grade.push(entry);
+    else byGrade.set(entry.grade, [entry]);
+  }
+
+  const standings: GradeStanding[] = Array.from(byGrade.entries()).map(([grade, members]) => ({
+    rank: 0,
+    grade,
+    students: members.length,
+    averageReturn: members.reduce((sum, e) => sum + e.changePercent, 0) / members.length,
+    totalValue: members.reduce((sum, e) => sum + e.totalValue, 0),
+    leader: {
+      userId: members[0].userId,
+      displayName: members[0].displayName,
+      changePercent: members[0].changePercent,
+    },
+  }));
+
+  standings.sort((a, b) => b.averageReturn - a.averageReturn || b.students - a.students);
+  standings.forEach((standing, index) => {
+    standing.rank = index + 1;
+  });
+  return standings;
+}
+
+// Hidden markets and proposals that haven't been approved stay out of public listings
+const UNLISTED_STATUSES: MarketStatus[] = ["HIDDEN", "PENDING_REVIEW", "REJECTED"];
 
 export interface IStorage {
   // Users
@@ -47,6 +602,10 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser & { id?: string }): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
+  // Sets a broke user's balance to `amount` and logs it - only while their
+  // balance is still at or below zero and they haven't been reset since
+  // `notSince`. Undefined, changing nothing, otherwise.
+  resetBankruptUser(userId: string, amount: number, notSince: Date): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
 
   // Email verification
@@ -63,6 +622,24 @@ export interface IStorage {
   getMarket(id: string): Promise<MarketWithDetails | undefined>;
   createMarket(market: Omit<Market, "id" | "createdAt">): Promise<Market>;
   updateMarket(id: string, updates: Partial<Market>): Promise<Market | undefined>;
+  getMarketsByStatus(status: MarketStatus): Promise<MarketWithDetails[]>;
+  getMarketsByCreator(userId: string): Promise<MarketWithDetails[]>;
+
+  // Market lifecycle
+  // Changes the status and records it in the status history. Returns undefined,
+  // changing nothing, if the market doesn't exist or has left `fromStatus`.
+  setMarketStatus(id: string, toStatus: MarketStatus, update: MarketStatusUpdate): Promise<Market | undefined>;
+  getMarketStatusHistory(marketId: string): Promise<MarketStatusChange[]>;
+  // OPEN markets whose closeAt is at or before `asOf`
+  getMarketsPastClose(asOf: Date): Promise<Market[]>;
+  // OPEN or CLOSED markets whose resolveAt is at or before `asOf`
+  getMarketsPastResolve(asOf: Date): Promise<Market[]>;
+  // Records that admins were reminded about a market; false if they already were
+  createResolutionReminder(marketId: string): Promise<boolean>;
+
+  // Market reviews (admin decisions on student proposals)
+  createMarketReview(review: Omit<MarketReview, "id" | "createdAt">): Promise<MarketReview>;
+  getLatestMarketReview(marketId: string): Promise<MarketReview | undefined>;
 
   // Outcomes
   createOutcome(outcome: Omit<Outcome, "id">): Promise<Outcome>;
@@ -74,14 +651,103 @@ export interface IStorage {
   getStockMeta(marketId: string): Promise<StockMeta | undefined>;
   updateStockMeta(marketId: string, updates: Partial<StockMeta>): Promise<StockMeta | undefined>;
 
+  // Scalar meta
+  createScalarMeta(scalarMeta: Omit<ScalarMeta, "id">): Promise<ScalarMeta>;
+  getScalarMeta(marketId: string): Promise<ScalarMeta | undefined>;
+
   // Trading
   createTrade(trade: Omit<Trade, "id" | "createdAt">): Promise<Trade>;
   getTradesByUser(userId: string): Promise<Trade[]>;
+  // Checks, fills and books a trade atomically: balance, trade, position, prices and balance event
+  executeTrade(userId: string, order: TradeOrder, notePrefix?: string): Promise<TradeExecution>;
+
+  // Limit orders
+  placeLimitOrder(userId: string, order: InsertLimitOrder): Promise<LimitOrder>;
+  cancelLimitOrder(id: string, userId?: string): Promise<LimitOrder>;
+  getLimitOrder(id: string): Promise<LimitOrder | undefined>;
+  getLimitOrdersByUser(userId: string, status?: LimitOrderStatus): Promise<LimitOrder[]>;
+  getOpenLimitOrders(marketId?: string): Promise<LimitOrder[]>;
+  // Cash held out of the balance by a user's open BUY orders and pending IPO subscriptions
+  getReservedCash(userId: string): Promise<number>;
+  // Trades two crossing orders against each other (user to user, no AMM involved)
+  matchLimitOrders(buyOrderId: string, sellOrderId: string, qty: number, price: number): Promise<Trade[]>;
+
+  // Conditional (stop-loss / take-profit) orders
+  createConditionalOrder(
+    order: Omit<ConditionalOrder, "id" | "status" | "tradeId" | "note" | "createdAt" | "triggeredAt">
+  ): Promise<ConditionalOrder>;
+  getConditionalOrder(id: string): Promise<ConditionalOrder | undefined>;
+  getConditionalOrdersByUser(userId: string, status?: ConditionalOrderStatus): Promise<ConditionalOrder[]>;
+  getActiveConditionalOrders(marketId?: string): Promise<ConditionalOrder[]>;
+  // Only applies the update if the order is still in `fromStatus` - used to claim
+  // an order before executing it so it can never fire twice
+  transitionConditionalOrder(
+    id: string,
+    fromStatus: ConditionalOrderStatus,
+    updates: Partial<ConditionalOrder>
+  ): Promise<ConditionalOrder | undefined>;
+
+  // Short selling (student stocks only)
+  openShort(userId: string, order: ShortOrder): Promise<ShortExecution>;
+  coverShort(shortId: string, order: CoverOrder): Promise<ShortExecution>;
+  // Takes one tick of borrow fees out of every open short's collateral; returns how many were charged
+  chargeBorrowFees(rate: number): Promise<number>;
+  getShortPosition(id: string): Promise<ShortPosition | undefined>;
+  getShortPositionsByUser(userId: string, status?: ShortPositionStatus): Promise<ShortPosition[]>;
+  getOpenShortPositions(marketId?: string): Promise<ShortPosition[]>;
+
+  // IPO requests (club leaders asking to list a stock)
+  createIpoRequest(
+    request: Omit<IpoRequest, "id" | "status" | "marketId" | "reviewedBy" | "reason" | "createdAt" | "reviewedAt">
+  ): Promise<IpoRequest>;
+  getIpoRequest(id: string): Promise<IpoRequest | undefined>;
+  getIpoRequests(status?: IpoRequestStatus): Promise<IpoRequest[]>;
+  getIpoRequestsByUser(userId: string): Promise<IpoRequest[]>;
+  // With `fromStatus`, only updates a request still in that status - undefined otherwise
+  updateIpoRequest(
+    id: string,
+    updates: Partial<IpoRequest>,
+    fromStatus?: IpoRequestStatus
+  ): Promise<IpoRequest | undefined>;
+  // Takes down a stock still in its IPO window - the market, its meta, candles
+  // and simulation profile. False, removing nothing, if it isn't an IPO stock or
+  // anyone has subscribed to it.
+  deleteIpoStock(marketId: string): Promise<boolean>;
+
+  // IPO subscriptions
+  // Takes qty x the IPO price out of the balance and records the subscription
+  subscribeToIpo(userId: string, marketId: string, qty: number): Promise<IpoSubscriptionExecution>;
+  // Books `allocatedQty` shares at the IPO price and refunds the rest of the subscription
+  allocateIpoSubscription(id: string, allocatedQty: number): Promise<IpoSubscription>;
+  getIpoSubscriptions(marketId: string, status?: IpoSubscriptionStatus): Promise<IpoSubscription[]>;
+  getIpoSubscriptionsByUser(userId: string): Promise<IpoSubscription[]>;
+
+  // Parlays
+  // Takes the stake out of the balance and records the slip with its legs
+  placeParlay(userId: string, stake: number, potentialPayout: number, legs: NewParlayLeg[]): Promise<ParlayExecution>;
+  getParlay(id: string): Promise<Parlay | undefined>;
+  getParlaysByUser(userId: string, status?: ParlayStatus): Promise<Parlay[]>;
+  getParlayLegs(parlayId: string): Promise<ParlayLeg[]>;
+  getPendingParlayLegs(marketId: string): Promise<ParlayLeg[]>;
+  // Only settles a leg that is still PENDING; undefined otherwise
+  settleParlayLeg(id: string, status: Exclude<ParlayLegStatus, "PENDING">): Promise<ParlayLeg | undefined>;
+  // Closes an OPEN slip and credits `payout`. Undefined if it was already settled.
+  settleParlay(id: string, status: Exclude<ParlayStatus, "OPEN">, payout: number): Promise<Parlay | undefined>;
 
   // Positions
   getPosition(userId: string, marketId: string, outcomeId?: string): Promise<Position | undefined>;
   upsertPosition(position: Omit<Position, "id">): Promise<Position>;
   getPositionsByUser(userId: string): Promise<Position[]>;
+  getPositionsByMarket(marketId: string): Promise<Position[]>;
+  // Closes the market as `closing` says, credits every position in it what
+  // `payoutFor` says and zeroes it, all in one transaction with the holders
+  // locked. Undefined, changing nothing, if the market has left `fromStatus`.
+  settleMarketPositions(
+    marketId: string,
+    closing: MarketClosing,
+    payoutFor: (position: Position) => PositionPayout
+  ): Promise<MarketSettlement | undefined>;
+  getSharesOutstanding(marketId: string): Promise<number>;
 
   // Comments
   getCommentsByMarket(marketId: string): Promise<Comment[]>;
@@ -92,11 +758,36 @@ export interface IStorage {
   getReports(): Promise<Report[]>;
   updateReport(id: string, updates: Partial<Report>): Promise<Report | undefined>;
 
+  // Resolutions
+  createResolution(resolution: Omit<Resolution, "id" | "resolvedAt">): Promise<Resolution>;
+  getResolution(marketId: string): Promise<Resolution | undefined>;
+
   // Balance events
   logBalanceEvent(event: Omit<BalanceEvent, "id" | "createdAt">): Promise<BalanceEvent>;
-
-  // Leaderboard
-  getLeaderboard(timeFilter?: string): Promise<LeaderboardEntry[]>;
+  // Oldest first; with `since`, only events after it
+  getBalanceEventsByUser(userId: string, since?: Date): Promise<BalanceEvent[]>;
+  // Every user's events of these types, oldest first
+  getBalanceEventsByType(types: BalanceEventType[]): Promise<BalanceEvent[]>;
+
+  // Leaderboard - ranked by return over the window; `query` slices the ranking
+  // and can narrow it to one league, ranked among its own members
+  getLeaderboard(timeFilter?: string, query?: LeaderboardQuery): Promise<LeaderboardEntry[]>;
+  // One student's entry with their rank, or undefined if they aren't ranked
+  getLeaderboardEntry(userId: string, timeFilter?: string, league?: LeaderboardLeague): Promise<LeaderboardEntry | undefined>;
+  // Each grade's average return over the window, best first
+  getGradeStandings(timeFilter?: string): Promise<GradeStanding[]>;
+  // Current value of every verified, non-admin student, optionally in one league
+  getPortfolioValues(league?: LeaderboardLeague): Promise<PortfolioValue[]>;
+  getPortfolioValue(userId: string): Promise<PortfolioValue | undefined>;
+
+  // Portfolio snapshots
+  // Inserts the user's snapshot for `day`, or overwrites it if there already is one
+  savePortfolioSnapshot(snapshot: Omit<PortfolioSnapshot, "id" | "takenAt">): Promise<PortfolioSnapshot>;
+  // Oldest first; with `since`, only snapshots taken at or after it
+  getPortfolioSnapshots(userId: string, since?: Date): Promise<PortfolioSnapshot[]>;
+  // Per user, the latest snapshot taken at or before `at` - or, for users with
+  // none that old, their first snapshot after it
+  getWindowBaselines(at: Date): Promise<PortfolioSnapshot[]>;
 
   // Portfolio
   getPortfolio(userId: string): Promise<PortfolioSummary>;
@@ -108,6 +799,9 @@ export interface IStorage {
 
   // Market Candles (for prediction markets)
   getMarketCandles(marketId: string, outcomeId: string, limit?: number): Promise<MarketCandle[]>;
+  // Sets outcome prices from an outside source (keyed by outcome id) and folds them into
+  // today's candles. Returns undefined, changing nothing, if the market isn't OPEN.
+  syncOutcomePrices(marketId: string, prices: Record<string, number>): Promise<Outcome[] | undefined>;
 
   // Games
   createGame(game: Partial<Game>): Promise<Game>;
@@ -115,10 +809,58 @@ export interface IStorage {
   getAllGames(): Promise<Game[]>;
   updateGame(id: string, updates: Partial<Game>): Promise<Game | undefined>;
   deleteGame(id: string): Promise<boolean>;
+  // Over/under and spread markets generated from a game
+  createGameMarket(gameMarket: Omit<GameMarket, "id" | "createdAt">): Promise<GameMarket>;
+  getGameMarkets(gameId: string): Promise<GameMarket[]>;
+  // The game whose moneyline or line market this is, if any
+  getGameIdForMarket(marketId: string): Promise<string | undefined>;
+
+  // Leagues
+  createLeagueGroup(group: InsertLeagueGroup & { createdBy: string }): Promise<LeagueGroup>;
+  getLeagueGroup(id: string): Promise<LeagueGroup | undefined>;
+  // By name, with how many students are in each
+  getLeagueGroups(): Promise<LeagueGroupWithCount[]>;
+  // Removes the group's memberships too
+  deleteLeagueGroup(id: string): Promise<boolean>;
+  // False if the student was already a member
+  addLeagueGroupMember(groupId: string, userId: string): Promise<boolean>;
+  removeLeagueGroupMember(groupId: string, userId: string): Promise<boolean>;
+  getLeagueGroupMembers(groupId: string): Promise<LeagueGroupMemberWithUser[]>;
+  // Every grade a ranked student has, alphabetically
+  getLeagueGrades(): Promise<string[]>;
+
+  // Seasons
+  createSeason(season: InsertSeason & { createdBy: string }): Promise<Season>;
+  getSeason(id: string): Promise<Season | undefined>;
+  // Latest start first
+  getSeasons(): Promise<Season[]>;
+  // Moves the season to `status` only if it's still in `fromStatus`, so two
+  // callers can't both end it. Returns undefined if it had already moved on.
+  setSeasonStatus(id: string, status: SeasonStatus, fromStatus: SeasonStatus): Promise<Season | undefined>;
+  deleteSeason(id: string): Promise<boolean>;
+  saveSeasonResults(results: Omit<SeasonResult, "id" | "createdAt" | "resetAt">[]): Promise<void>;
+  // Best first; with `limit`, only the top of the standings
+  getSeasonResults(seasonId: string, limit?: number): Promise<SeasonResult[]>;
+  // Every student ranked by their return since `since`
+  getSeasonStandings(since: Date): Promise<LeaderboardEntry[]>;
+  // Refunds the student's resting orders, open parlays and IPO subscriptions,
+  // writes off whatever is still held (positions and shorts in markets that
+  // can't trade) at current prices, and sets their balance to
+  // `startingBalance`, logged as a SEASON_RESET. Marks their season result as
+  // reset in the same transaction. Returns what the portfolio was worth
+  // beforehand, or undefined if they'd already been reset for this season.
+  resetPortfolioForSeason(
+    seasonId: string,
+    userId: string,
+    startingBalance: number,
+    note: string
+  ): Promise<number | undefined>;
 
   // Polymarket links
   createPolymarketLink(link: Omit<PolymarketLink, "id" | "lastSynced">): Promise<PolymarketLink>;
   getPolymarketLink(marketId: string): Promise<PolymarketLink | undefined>;
+  getPolymarketLinks(): Promise<PolymarketLink[]>;
+  updatePolymarketLink(marketId: string, updates: Partial<PolymarketLink>): Promise<PolymarketLink | undefined>;
   getPolymarketMarkets(): Promise<MarketWithDetails[]>;
 }
 
@@ -129,20 +871,77 @@ export class MemStorage implements IStorage {
   private markets: Map<string, Market> = new Map();
   private outcomes: Map<string, Outcome> = new Map();
   private stockMetas: Map<string, StockMeta> = new Map();
+  private scalarMetas: Map<string, ScalarMeta> = new Map();
   private trades: Map<string, Trade> = new Map();
   private positions: Map<string, Position> = new Map();
   private comments: Map<string, Comment> = new Map();
   private reports: Map<string, Report> = new Map();
+  private resolutions: Map<string, Resolution> = new Map();
+  private marketReviews: Map<string, MarketReview> = new Map();
+  private marketStatusHistory: Map<string, MarketStatusChange> = new Map();
+  private resolutionReminders: Set<string> = new Set();
   private balanceEvents: Map<string, BalanceEvent> = new Map();
+  private portfolioSnapshots: Map<string, PortfolioSnapshot> = new Map();
   private stockCandles: Map<string, StockCandle[]> = new Map();
   private marketCandles: Map<string, MarketCandle[]> = new Map();
   private games: Map<string, Game> = new Map();
   private polymarketLinks: Map<string, PolymarketLink> = new Map();
+  private limitOrders: Map<string, LimitOrder> = new Map();
+  private conditionalOrders: Map<string, ConditionalOrder> = new Map();
+  private shortPositions: Map<string, ShortPosition> = new Map();
+  private ipoRequests: Map<string, IpoRequest> = new Map();
+  private ipoSubscriptions: Map<string, IpoSubscription> = new Map();
+  private parlays: Map<string, Parlay> = new Map();
+  private parlayLegs: Map<string, ParlayLeg> = new Map();
+  private gameMarkets: Map<string, GameMarket> = new Map();
+  private leagueGroups: Map<string, LeagueGroup> = new Map();
+  private leagueGroupMembers: Map<string, LeagueGroupMember> = new Map();
+  private seasons: Map<string, Season> = new Map();
+  private seasonResults: Map<string, SeasonResult> = new Map();
+  // Trades run one at a time so concurrent requests can't both pass the balance check
+  private tradeQueue: Promise<unknown> = Promise.resolve();
 
   constructor() {
     this.seedData();
   }
 
+  // Random starting odds that sum to 1, plus 30 days of candles per outcome
+  private seedCategoricalOutcomes(marketId: string, labels: string[]) {
+    const ids = labels.map(() => randomUUID());
+    let prices = normalizePrices(labels.map(() => 0.5 + Math.random()));
+    const candles: MarketCandle[][] = labels.map(() => []);
+    const now = new Date();
+
+    for (let i = 29; i >= 0; i--) {
+      const candleDate = new Date(now);
+      candleDate.setDate(candleDate.getDate() - i);
+      candleDate.setHours(9, 30, 0, 0);
+
+      const next = normalizePrices(prices.map((p) => p * (1 + (Math.random() - 0.5) * 0.1)));
+      const volume = Math.floor(50 + Math.random() * 500);
+      next.forEach((close, j) => {
+        const open = prices[j];
+        candles[j].push({
+          id: randomUUID(),
+          marketId,
+          outcomeId: ids[j],
+          open,
+          high: Math.min(0.99, Math.max(open, close) * (1 + Math.random() * 0.02)),
+          low: Math.max(0.01, Math.min(open, close) * (1 - Math.random() * 0.02)),
+          close,
+          volume,
+          timestamp: candleDate,
+        });
+      });
+      prices = next;
+    }
+
+    labels.forEach((label, j) => {
+      this.outcomes.set(ids[j], { id: ids[j], marketId, label, currentPrice: prices[j] });
+      this.marketCandles.set(`${marketId}:${ids[j]}`, candles[j]);
+    });
+  }
+
   private seedData() {
     // Create admin user
     const adminId = randomUUID();
@@ -171,8 +970,8 @@ export class MemStorage implements IStorage {
       { title: "Will Parliamentary Debate reach nationals?", description: "Resolves YES if Menlo's debate team qualifies for the national tournament.", category: "Clubs", closeAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), resolutionRule: "Based on qualification results" },
       { title: "Will DECA advance to ICDC?", description: "Resolves YES if any Menlo DECA member qualifies for the International Career Development Conference.", category: "Clubs", closeAt: new Date(Date.now() + 75 * 24 * 60 * 60 * 1000), resolutionRule: "Based on DECA competition results" },
       { title: "Will Engineering Club finish their go-kart?", description: "Resolves YES if Engineering Club completes their electric go-kart project this semester.", category: "Clubs", closeAt: new Date(Date.now() + 120 * 24 * 60 * 60 * 1000), resolutionRule: "Based on club announcement" },
-      { title: "Will TEDx Menlo have 200+ attendees?", description: "Resolves YES if TEDx Menlo event has over 200 attendees.", category: "Clubs", closeAt: new Date(Date.now() + 60 * 24 * 60 * 60 * 1000), resolutionRule: "Based on event attendance records" },
-      { title: "Will Beekeeping harvest 50+ lbs of honey?", description: "Resolves YES if the Beekeeping Club harvests more than 50 pounds of honey this season.", category: "Clubs", closeAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), resolutionRule: "Based on harvest records" },
+      { title: "How many people will attend TEDx Menlo?", description: "Resolves to the number of attendees at the TEDx Menlo event. LONG pays more the closer attendance gets to 400.", category: "Clubs", closeAt: new Date(Date.now() + 60 * 24 * 60 * 60 * 1000), resolutionRule: "Based on event attendance records", scalar: { lowerBound: 0, upperBound: 400, unit: "people" } },
+      { title: "How much honey will Beekeeping harvest?", description: "Resolves to the pounds of honey the Beekeeping Club harvests this season. LONG pays more the closer the harvest gets to 100 lbs.", category: "Clubs", closeAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), resolutionRule: "Based on harvest records", scalar: { lowerBound: 0, upperBound: 100, unit: "lbs" } },
       { title: "Will Girls Who Code host a hackathon?", description: "Resolves YES if Girls Who Code organizes and hosts a hackathon this semester.", category: "Clubs", closeAt: new Date(Date.now() + 60 * 24 * 60 * 60 * 1000), resolutionRule: "Based on event occurrence" },
       { title: "Will Anime Club get 50+ members?", description: "Resolves YES if Anime Club reaches 50 or more active members.", category: "Clubs", closeAt: new Date(Date.now() + 45 * 24 * 60 * 60 * 1000), resolutionRule: "Based on club roster" },
       { title: "Will STAR win at Science Olympiad regionals?", description: "Resolves YES if STAR places top 3 at Science Olympiad regionals.", category: "Clubs", closeAt: new Date(Date.now() + 50 * 24 * 60 * 60 * 1000), resolutionRule: "Based on competition results" },
@@ -192,15 +991,15 @@ export class MemStorage implements IStorage {
       { title: "Will Business Club launch a student startup?", description: "Resolves YES if Business & Entrepreneurship Club helps launch an actual student business.", category: "Clubs", closeAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), resolutionRule: "Based on business launch" },
       // School-wide Events
       { title: "Will Spirit Week have 80%+ participation?", description: "Resolves YES if more than 80% of students participate in at least one Spirit Week event.", category: "Events", closeAt: new Date(Date.now() + 21 * 24 * 60 * 60 * 1000), resolutionRule: "Based on attendance records" },
-      { title: "Will the average AP Calc score be above 4.0?", description: "Resolves YES if the class average on AP Calculus exam exceeds 4.0.", category: "Academics", closeAt: new Date(Date.now() + 120 * 24 * 60 * 60 * 1000), resolutionRule: "Based on College Board results" },
-      { title: "Who will win student body president?", description: "Predict the outcome of the upcoming student body elections.", category: "Elections", closeAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), resolutionRule: "Based on official election results" },
+      { title: "What will the average AP Calc score be?", description: "Resolves to the class average on the AP Calculus exam. LONG pays more the closer the average gets to 5.", category: "Academics", closeAt: new Date(Date.now() + 120 * 24 * 60 * 60 * 1000), resolutionRule: "Based on College Board results", scalar: { lowerBound: 1, upperBound: 5, unit: null } },
+      { title: "Who will win student body president?", description: "Predict the outcome of the upcoming student body elections.", category: "Elections", closeAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), resolutionRule: "Based on official election results", outcomes: ["Maya Chen", "Jordan Ellis", "Priya Raman", "Sam Whitaker"] },
     ];
 
     predictionMarkets.forEach((m) => {
       const marketId = randomUUID();
       this.markets.set(marketId, {
         id: marketId,
-        type: "PREDICTION",
+        type: m.scalar ? "SCALAR" : "PREDICTION",
         title: m.title,
         description: m.description,
         category: m.category,
@@ -209,10 +1008,21 @@ export class MemStorage implements IStorage {
         closeAt: m.closeAt,
         resolveAt: new Date(m.closeAt.getTime() + 7 * 24 * 60 * 60 * 1000),
         resolutionRule: m.resolutionRule,
+        liquidity: 100,
         createdBy: adminId,
         createdAt: new Date(),
       });
 
+      if (m.outcomes) {
+        this.seedCategoricalOutcomes(marketId, m.outcomes);
+        return;
+      }
+      if (m.scalar) {
+        this.scalarMetas.set(marketId, { id: randomUUID(), marketId, ...m.scalar });
+        this.seedCategoricalOutcomes(marketId, [...SCALAR_OUTCOME_LABELS]);
+        return;
+      }
+
       // Create YES/NO outcomes
       const yesId = randomUUID();
       const noId = randomUUID();
@@ -352,6 +1162,7 @@ export class MemStorage implements IStorage {
         closeAt: null,
         resolveAt: null,
         resolutionRule: null,
+        liquidity: 100,
         createdBy: adminId,
         createdAt: new Date(),
       });
@@ -365,6 +1176,7 @@ export class MemStorage implements IStorage {
         currentPrice: priceVariation,
         floatSupply: 10000,
         virtualLiquidity: 100000,
+        ipoEndsAt: null,
       });
 
       // Generate historical candle data for this stock
@@ -446,6 +1258,19 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async resetBankruptUser(userId: string, amount: number, notSince: Date): Promise<User | undefined> {
+    return this.serialize(async () => {
+      const user = this.users.get(userId);
+      if (!user || user.balance > 0) return undefined;
+      if (user.lastBankruptcyReset && new Date(user.lastBankruptcyReset).getTime() >= notSince.getTime()) return undefined;
+
+      const updated = { ...user, balance: amount, lastBankruptcyReset: new Date() };
+      this.users.set(userId, updated);
+      await this.logBalanceEvent({ userId, type: "BANKRUPTCY_RESET", amount, note: "Automatic bankruptcy reset" });
+      return updated;
+    });
+  }
+
   async getAllUsers(): Promise<User[]> {
     return Array.from(this.users.values());
   }
@@ -523,7 +1348,7 @@ export class MemStorage implements IStorage {
 
   async getMarkets(type?: string): Promise<MarketWithDetails[]> {
     const markets = Array.from(this.markets.values())
-      .filter((m) => m.status !== "HIDDEN" && (!type || m.type === type))
+      .filter((m) => !UNLISTED_STATUSES.includes(m.status as MarketStatus) && (!type || m.type === type))
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
     return Promise.all(markets.map((m) => this.enrichMarket(m)));
@@ -538,16 +1363,19 @@ export class MemStorage implements IStorage {
   private async enrichMarket(market: Market): Promise<MarketWithDetails> {
     const creator = await this.getUser(market.createdBy);
     const outcomes =
-      market.type === "PREDICTION"
+      market.type !== "STOCK"
         ? await this.getOutcomesByMarket(market.id)
         : undefined;
     const stockMeta =
       market.type === "STOCK" ? await this.getStockMeta(market.id) : undefined;
+    const scalarMeta =
+      market.type === "SCALAR" ? await this.getScalarMeta(market.id) : undefined;
 
     return {
       ...market,
       outcomes,
       stockMeta,
+      scalarMeta,
       creatorName: creator?.displayName,
     };
   }
@@ -571,6 +1399,67 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async setMarketStatus(id: string, toStatus: MarketStatus, update: MarketStatusUpdate): Promise<Market | undefined> {
+    const market = this.markets.get(id);
+    if (!market || (update.fromStatus && market.status !== update.fromStatus)) return undefined;
+    if (market.status === toStatus) return market;
+
+    const updated = { ...market, status: toStatus };
+    this.markets.set(id, updated);
+    const change: MarketStatusChange = {
+      id: randomUUID(),
+      marketId: id,
+      fromStatus: market.status,
+      toStatus,
+      changedBy: update.changedBy,
+      reason: update.reason ?? null,
+      createdAt: new Date(),
+    };
+    this.marketStatusHistory.set(change.id, change);
+    return updated;
+  }
+
+  async getMarketStatusHistory(marketId: string): Promise<MarketStatusChange[]> {
+    return Array.from(this.marketStatusHistory.values())
+      .filter((c) => c.marketId === marketId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getMarketsPastClose(asOf: Date): Promise<Market[]> {
+    return Array.from(this.markets.values()).filter(
+      (m) => m.status === "OPEN" && m.closeAt && new Date(m.closeAt).getTime() <= asOf.getTime()
+    );
+  }
+
+  async getMarketsPastResolve(asOf: Date): Promise<Market[]> {
+    return Array.from(this.markets.values()).filter(
+      (m) =>
+        (m.status === "OPEN" || m.status === "CLOSED") &&
+        m.resolveAt &&
+        new Date(m.resolveAt).getTime() <= asOf.getTime()
+    );
+  }
+
+  async createResolutionReminder(marketId: string): Promise<boolean> {
+    if (this.resolutionReminders.has(marketId)) return false;
+    this.resolutionReminders.add(marketId);
+    return true;
+  }
+  async getMarketsByStatus(status: MarketStatus): Promise<MarketWithDetails[]> {
+    const markets = Array.from(this.markets.values())
+      .filter((m) => m.status === status)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    return Promise.all(markets.map((m) => this.enrichMarket(m)));
+  }
+
+  async getMarketsByCreator(userId: string): Promise<MarketWithDetails[]> {
+    const markets = Array.from(this.markets.values())
+      .filter((m) => m.createdBy === userId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    return Promise.all(markets.map((m) => this.enrichMarket(m)));
+  }
+
+
   async createOutcome(outcome: Omit<Outcome, "id">): Promise<Outcome> {
     const id = randomUUID();
     const newOutcome: Outcome = { ...outcome, id };
@@ -601,6 +1490,17 @@ export class MemStorage implements IStorage {
     return this.stockMetas.get(marketId);
   }
 
+  async createScalarMeta(scalarMeta: Omit<ScalarMeta, "id">): Promise<ScalarMeta> {
+    const id = randomUUID();
+    const newScalarMeta: ScalarMeta = { ...scalarMeta, id };
+    this.scalarMetas.set(scalarMeta.marketId, newScalarMeta);
+    return newScalarMeta;
+  }
+
+  async getScalarMeta(marketId: string): Promise<ScalarMeta | undefined> {
+    return this.scalarMetas.get(marketId);
+  }
+
   async updateStockMeta(marketId: string, updates: Partial<StockMeta>): Promise<StockMeta | undefined> {
     const stockMeta = this.stockMetas.get(marketId);
     if (!stockMeta) return undefined;
@@ -622,560 +1522,2561 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
-  async getPosition(userId: string, marketId: string, outcomeId?: string): Promise<Position | undefined> {
-    const key = `${userId}-${marketId}-${outcomeId || "stock"}`;
-    return this.positions.get(key);
+  private serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.tradeQueue.then(fn);
+    this.tradeQueue = run.catch(() => undefined);
+    return run;
   }
 
-  async upsertPosition(position: Omit<Position, "id">): Promise<Position> {
-    const key = `${position.userId}-${position.marketId}-${position.outcomeId || "stock"}`;
-    const existing = this.positions.get(key);
-    if (existing) {
-      const updated: Position = {
-        ...existing,
-        qty: position.qty,
-        avgCost: position.avgCost,
-      };
-      this.positions.set(key, updated);
-      return updated;
-    }
-    const id = randomUUID();
-    const newPosition: Position = { ...position, id };
-    this.positions.set(key, newPosition);
-    return newPosition;
+  async executeTrade(userId: string, order: TradeOrder, notePrefix: string = ""): Promise<TradeExecution> {
+    return this.serialize(() => this.executeTradeNow(userId, order, notePrefix));
   }
 
-  async getPositionsByUser(userId: string): Promise<Position[]> {
-    return Array.from(this.positions.values()).filter(
-      (p) => p.userId === userId && p.qty > 0
+  private openSellOrders(userId: string, marketId: string, outcomeId?: string | null): LimitOrder[] {
+    return Array.from(this.limitOrders.values()).filter(
+      (o) =>
+        o.userId === userId &&
+        o.marketId === marketId &&
+        (o.outcomeId ?? null) === (outcomeId ?? null) &&
+        o.side === "SELL" &&
+        o.status === "OPEN"
     );
   }
 
-  async getCommentsByMarket(marketId: string): Promise<Comment[]> {
-    return Array.from(this.comments.values())
-      .filter((c) => c.marketId === marketId && !c.hiddenAt)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-  }
+  private async executeTradeNow(userId: string, order: TradeOrder, notePrefix: string): Promise<TradeExecution> {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new TradeError("USER_NOT_FOUND", "User not found");
+    }
+    const market = await this.getMarket(order.marketId);
+    const positionKey = `${userId}-${order.marketId}-${order.outcomeId || "stock"}`;
+    const existing = this.positions.get(positionKey);
+    const sharesOutstanding = market?.type === "STOCK" ? await this.getSharesOutstanding(order.marketId) : 0;
+    const limitOrder = order.limitOrderId ? this.limitOrders.get(order.limitOrderId) : undefined;
+    const released = order.limitOrderId ? limitOrderRelease(limitOrder, userId, order) : 0;
+    const available =
+      (existing?.qty ?? 0) - reservedShares(this.openSellOrders(userId, order.marketId, order.outcomeId), order.limitOrderId);
+
+    // Everything is computed up front; nothing below can throw
+    const quote = priceOrder(market, order, user.balance + released, available, sharesOutstanding);
+    const newBalance =
+      released + (order.side === "BUY" ? user.balance - quote.total : user.balance + quote.total);
+    const position = nextPosition(existing, order.side, order.qty, quote.averagePrice);
+    const now = new Date();
 
-  async createComment(comment: Omit<Comment, "id" | "createdAt" | "hiddenAt">): Promise<Comment> {
-    const id = randomUUID();
-    const newComment: Comment = { ...comment, id, createdAt: new Date(), hiddenAt: null };
-    this.comments.set(id, newComment);
-    return newComment;
-  }
+    if (limitOrder) {
+      this.limitOrders.set(limitOrder.id, { ...limitOrder, ...limitOrderAfterFill(limitOrder, order.qty, released) });
+      if (released > 0) {
+        const releaseId = randomUUID();
+        this.balanceEvents.set(releaseId, {
+          id: releaseId,
+          userId,
+          type: "ORDER_RELEASE",
+          amount: released,
+          note: `Released reserve for ${order.qty} filled shares`,
+          createdAt: now,
+        });
+      }
+    }
 
-  async createReport(report: Omit<Report, "id" | "createdAt" | "status">): Promise<Report> {
-    const id = randomUUID();
-    const newReport: Report = { ...report, id, status: "PENDING", createdAt: new Date() };
-    this.reports.set(id, newReport);
-    return newReport;
-  }
+    const trade: Trade = {
+      id: randomUUID(),
+      userId,
+      marketId: order.marketId,
+      outcomeId: order.outcomeId || null,
+      side: order.side,
+      qty: order.qty,
+      price: quote.averagePrice,
+      total: quote.total,
+      createdAt: now,
+    };
+    this.trades.set(trade.id, trade);
+    this.users.set(userId, { ...user, balance: newBalance });
+    const eventId = randomUUID();
+    this.balanceEvents.set(eventId, {
+      id: eventId,
+      userId,
+      type: "TRADE",
+      amount: order.side === "BUY" ? -quote.total : quote.total,
+      note: tradeNote(order, quote, notePrefix),
+      createdAt: now,
+    });
+    this.positions.set(positionKey, {
+      id: existing?.id ?? randomUUID(),
+      userId,
+      marketId: order.marketId,
+      outcomeId: order.outcomeId || null,
+      ...position,
+    });
+    if (quote.outcomePrices) {
+      for (const [id, price] of Object.entries(quote.outcomePrices)) {
+        const outcome = this.outcomes.get(id);
+        if (outcome) this.outcomes.set(id, { ...outcome, currentPrice: price });
+      }
+    } else if (market?.stockMeta) {
+      this.stockMetas.set(order.marketId, { ...market.stockMeta, currentPrice: quote.postTradePrice });
+    }
 
-  async getReports(): Promise<Report[]> {
-    return Array.from(this.reports.values()).sort(
-      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+    return { trade, newBalance, quote };
   }
 
-  async updateReport(id: string, updates: Partial<Report>): Promise<Report | undefined> {
-    const report = this.reports.get(id);
-    if (!report) return undefined;
-    const updated = { ...report, ...updates };
-    this.reports.set(id, updated);
-    return updated;
-  }
+  async placeLimitOrder(userId: string, input: InsertLimitOrder): Promise<LimitOrder> {
+    return this.serialize(async () => {
+      const user = this.users.get(userId);
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+      checkLimitOrderMarket(await this.getMarket(input.marketId), input);
 
-  async logBalanceEvent(event: Omit<BalanceEvent, "id" | "createdAt">): Promise<BalanceEvent> {
-    const id = randomUUID();
-    const newEvent: BalanceEvent = { ...event, id, createdAt: new Date() };
-    this.balanceEvents.set(id, newEvent);
-    return newEvent;
+      let reservedAmount = 0;
+      if (input.side === "BUY") {
+        reservedAmount = input.qty * input.limitPrice;
+        if (user.balance < reservedAmount) {
+          throw new TradeError("INSUFFICIENT_BALANCE", "Insufficient balance");
+        }
+      } else {
+        const position = await this.getPosition(userId, input.marketId, input.outcomeId ?? undefined);
+        const available = (position?.qty ?? 0) - reservedShares(this.openSellOrders(userId, input.marketId, input.outcomeId));
+        if (available < input.qty) {
+          throw new TradeError("INSUFFICIENT_SHARES", "Insufficient shares");
+        }
+      }
+
+      const now = new Date();
+      const limitOrder: LimitOrder = {
+        id: randomUUID(),
+        userId,
+        marketId: input.marketId,
+        outcomeId: input.outcomeId || null,
+        side: input.side,
+        qty: input.qty,
+        filledQty: 0,
+        limitPrice: input.limitPrice,
+        reservedAmount,
+        status: "OPEN",
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.limitOrders.set(limitOrder.id, limitOrder);
+      if (reservedAmount > 0) {
+        this.users.set(userId, { ...user, balance: user.balance - reservedAmount });
+        await this.logBalanceEvent({
+          userId,
+          type: "ORDER_RESERVE",
+          amount: -reservedAmount,
+          note: `Reserved for limit BUY ${input.qty} @ $${input.limitPrice.toFixed(2)}`,
+        });
+      }
+      return limitOrder;
+    });
   }
 
-  async getLeaderboard(timeFilter?: string): Promise<LeaderboardEntry[]> {
-    const users = Array.from(this.users.values())
-      .filter((u) => u.status === "VERIFIED" && u.role !== "ADMIN");
-
-    const entries: LeaderboardEntry[] = await Promise.all(
-      users.map(async (user) => {
-        const positions = await this.getPositionsByUser(user.id);
-        let positionsValue = 0;
-
-        for (const pos of positions) {
-          if (pos.outcomeId) {
-            const outcome = this.outcomes.get(pos.outcomeId);
-            if (outcome) {
-              positionsValue += pos.qty * outcome.currentPrice;
-            }
-          } else {
-            const stockMeta = this.stockMetas.get(pos.marketId);
-            if (stockMeta) {
-              positionsValue += pos.qty * stockMeta.currentPrice;
-            }
-          }
-        }
+  async cancelLimitOrder(id: string, userId?: string): Promise<LimitOrder> {
+    return this.serialize(async () => {
+      const limitOrder = this.limitOrders.get(id);
+      if (!limitOrder || (userId && limitOrder.userId !== userId)) {
+        throw new TradeError("ORDER_NOT_FOUND", "Order not found");
+      }
+      if (limitOrder.status !== "OPEN") {
+        throw new TradeError("ORDER_NOT_OPEN", "Order is no longer open");
+      }
 
-        const totalValue = user.balance + positionsValue;
-        const changePercent = ((totalValue - 1000) / 1000) * 100;
+      const owner = this.users.get(limitOrder.userId);
+      if (owner && limitOrder.reservedAmount > 0) {
+        this.users.set(owner.id, { ...owner, balance: owner.balance + limitOrder.reservedAmount });
+        await this.logBalanceEvent({
+          userId: owner.id,
+          type: "ORDER_RELEASE",
+          amount: limitOrder.reservedAmount,
+          note: "Limit order cancelled",
+        });
+      }
+      const cancelled: LimitOrder = { ...limitOrder, status: "CANCELLED", reservedAmount: 0, updatedAt: new Date() };
+      this.limitOrders.set(id, cancelled);
+      return cancelled;
+    });
+  }
 
-        return {
-          rank: 0,
-          userId: user.id,
-          displayName: user.displayName,
-          grade: user.grade || undefined,
-          totalValue,
-          cashBalance: user.balance,
-          positionsValue,
-          changePercent,
-        };
-      })
-    );
+  async getLimitOrder(id: string): Promise<LimitOrder | undefined> {
+    return this.limitOrders.get(id);
+  }
+
+  async getLimitOrdersByUser(userId: string, status?: LimitOrderStatus): Promise<LimitOrder[]> {
+    return Array.from(this.limitOrders.values())
+      .filter((o) => o.userId === userId && (!status || o.status === status))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getOpenLimitOrders(marketId?: string): Promise<LimitOrder[]> {
+    return Array.from(this.limitOrders.values())
+      .filter((o) => o.status === "OPEN" && (!marketId || o.marketId === marketId))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getReservedCash(userId: string): Promise<number> {
+    const orders = Array.from(this.limitOrders.values())
+      .filter((o) => o.userId === userId && o.status === "OPEN")
+      .reduce((sum, o) => sum + o.reservedAmount, 0);
+    const subscriptions = Array.from(this.ipoSubscriptions.values())
+      .filter((s) => s.userId === userId && s.status === "PENDING")
+      .reduce((sum, s) => sum + s.qty * s.price, 0);
+    return orders + subscriptions;
+  }
+
+  async matchLimitOrders(buyOrderId: string, sellOrderId: string, qty: number, price: number): Promise<Trade[]> {
+    return this.serialize(async () => {
+      const buy = this.limitOrders.get(buyOrderId);
+      const sell = this.limitOrders.get(sellOrderId);
+      checkOrderMatch(buy, sell, qty, price);
+      const market = await this.getMarket(buy!.marketId);
+      if (!market || market.status !== "OPEN") {
+        throw new TradeError("MARKET_CLOSED", "Market not available for trading");
+      }
+      const buyer = this.users.get(buy!.userId);
+      const seller = this.users.get(sell!.userId);
+      if (!buyer || !seller) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+      const buyerPosition = await this.getPosition(buyer.id, buy!.marketId, buy!.outcomeId ?? undefined);
+      const sellerPosition = await this.getPosition(seller.id, sell!.marketId, sell!.outcomeId ?? undefined);
+      const sellerAvailable =
+        (sellerPosition?.qty ?? 0) - reservedShares(this.openSellOrders(seller.id, sell!.marketId, sell!.outcomeId), sell!.id);
+      if (sellerAvailable < qty) {
+        throw new TradeError("INSUFFICIENT_SHARES", "Seller no longer has the shares");
+      }
+
+      const total = qty * price;
+      const released = limitOrderRelease(buy, buyer.id, { marketId: buy!.marketId, outcomeId: buy!.outcomeId, side: "BUY", qty });
+      const now = new Date();
 
-    entries.sort((a, b) => b.totalValue - a.totalValue);
-    entries.forEach((entry, index) => {
-      entry.rank = index + 1;
+      this.limitOrders.set(buy!.id, { ...buy!, ...limitOrderAfterFill(buy!, qty, released) });
+      this.limitOrders.set(sell!.id, { ...sell!, ...limitOrderAfterFill(sell!, qty, 0) });
+      this.users.set(buyer.id, { ...buyer, balance: buyer.balance + released - total });
+      this.users.set(seller.id, { ...seller, balance: seller.balance + total });
+      await this.upsertPosition({
+        userId: buyer.id,
+        marketId: buy!.marketId,
+        outcomeId: buy!.outcomeId,
+        ...nextPosition(buyerPosition, "BUY", qty, price),
+      });
+      await this.upsertPosition({
+        userId: seller.id,
+        marketId: sell!.marketId,
+        outcomeId: sell!.outcomeId,
+        ...nextPosition(sellerPosition, "SELL", qty, price),
+      });
+      await this.logBalanceEvent({ userId: buyer.id, type: "ORDER_RELEASE", amount: released, note: `Released reserve for ${qty} filled shares` });
+      await this.logBalanceEvent({ userId: buyer.id, type: "TRADE", amount: -total, note: `Limit order: BUY ${qty} shares at $${price.toFixed(2)}` });
+      await this.logBalanceEvent({ userId: seller.id, type: "TRADE", amount: total, note: `Limit order: SELL ${qty} shares at $${price.toFixed(2)}` });
+
+      const buyTrade: Trade = { id: randomUUID(), userId: buyer.id, marketId: buy!.marketId, outcomeId: buy!.outcomeId, side: "BUY", qty, price, total, createdAt: now };
+      const sellTrade: Trade = { id: randomUUID(), userId: seller.id, marketId: sell!.marketId, outcomeId: sell!.outcomeId, side: "SELL", qty, price, total, createdAt: now };
+      this.trades.set(buyTrade.id, buyTrade);
+      this.trades.set(sellTrade.id, sellTrade);
+      return [buyTrade, sellTrade];
     });
+  }
+
+  async createConditionalOrder(
+    order: Omit<ConditionalOrder, "id" | "status" | "tradeId" | "note" | "createdAt" | "triggeredAt">
+  ): Promise<ConditionalOrder> {
+    const id = randomUUID();
+    const newOrder: ConditionalOrder = {
+      ...order,
+      id,
+      status: "ACTIVE",
+      tradeId: null,
+      note: null,
+      createdAt: new Date(),
+      triggeredAt: null,
+    };
+    this.conditionalOrders.set(id, newOrder);
+    return newOrder;
+  }
 
-    return entries;
+  async getConditionalOrder(id: string): Promise<ConditionalOrder | undefined> {
+    return this.conditionalOrders.get(id);
   }
 
-  async getPortfolio(userId: string): Promise<PortfolioSummary> {
-    const user = await this.getUser(userId);
-    if (!user) {
-      return {
-        totalValue: 0,
-        cashBalance: 0,
-        positionsValue: 0,
-        totalPnL: 0,
-        positions: [],
-        recentTrades: [],
+  async getConditionalOrdersByUser(userId: string, status?: ConditionalOrderStatus): Promise<ConditionalOrder[]> {
+    return Array.from(this.conditionalOrders.values())
+      .filter((o) => o.userId === userId && (!status || o.status === status))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getActiveConditionalOrders(marketId?: string): Promise<ConditionalOrder[]> {
+    return Array.from(this.conditionalOrders.values())
+      .filter((o) => o.status === "ACTIVE" && (!marketId || o.marketId === marketId))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async transitionConditionalOrder(
+    id: string,
+    fromStatus: ConditionalOrderStatus,
+    updates: Partial<ConditionalOrder>
+  ): Promise<ConditionalOrder | undefined> {
+    const order = this.conditionalOrders.get(id);
+    if (!order || order.status !== fromStatus) return undefined;
+    const updated = { ...order, ...updates };
+    this.conditionalOrders.set(id, updated);
+    return updated;
+  }
+
+  async openShort(userId: string, order: ShortOrder): Promise<ShortExecution> {
+    return this.serialize(async () => {
+      const user = this.users.get(userId);
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+      const market = await this.getMarket(order.marketId);
+      const existing = Array.from(this.shortPositions.values()).find(
+        (s) => s.userId === userId && s.marketId === order.marketId && s.status === "OPEN"
+      );
+
+      const { quote, margin } = priceShortOpen(market, order, user.balance);
+      const newBalance = user.balance - margin;
+      const now = new Date();
+
+      const short: ShortPosition = existing
+        ? { ...existing, ...shortAfterOpen(existing, order.qty, quote, margin) }
+        : {
+            id: randomUUID(),
+            userId,
+            marketId: order.marketId,
+            ...shortAfterOpen(undefined, order.qty, quote, margin),
+            borrowFeesPaid: 0,
+            status: "OPEN",
+            createdAt: now,
+            closedAt: null,
+          };
+      this.shortPositions.set(short.id, short);
+
+      const trade: Trade = {
+        id: randomUUID(),
+        userId,
+        marketId: order.marketId,
+        outcomeId: null,
+        side: "SHORT",
+        qty: order.qty,
+        price: quote.averagePrice,
+        total: quote.total,
+        createdAt: now,
       };
-    }
+      this.trades.set(trade.id, trade);
+      this.users.set(userId, { ...user, balance: newBalance });
+      const eventId = randomUUID();
+      this.balanceEvents.set(eventId, {
+        id: eventId,
+        userId,
+        type: "SHORT_COLLATERAL",
+        amount: -margin,
+        note: `SHORT ${order.qty} shares at $${quote.averagePrice.toFixed(2)}`,
+        createdAt: now,
+      });
+      this.stockMetas.set(order.marketId, { ...market!.stockMeta!, currentPrice: quote.postTradePrice });
 
-    const positions = await this.getPositionsByUser(userId);
-    const trades = await this.getTradesByUser(userId);
+      return { short, trade, newBalance, quote };
+    });
+  }
 
-    const enrichedPositions: PositionWithDetails[] = await Promise.all(
-      positions.map(async (pos) => {
-        const market = await this.getMarket(pos.marketId);
-        let currentPrice = 0;
-        let outcome: Outcome | undefined;
-        let stockMeta: StockMeta | undefined;
+  async coverShort(shortId: string, order: CoverOrder): Promise<ShortExecution> {
+    return this.serialize(async () => {
+      const existing = this.shortPositions.get(shortId);
+      const user = existing ? this.users.get(existing.userId) : undefined;
+      if (existing && !user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+      const market = existing ? await this.getMarket(existing.marketId) : undefined;
 
-        if (pos.outcomeId) {
-          outcome = this.outcomes.get(pos.outcomeId);
-          currentPrice = outcome?.currentPrice ?? 0;
-        } else {
-          stockMeta = this.stockMetas.get(pos.marketId);
-          currentPrice = stockMeta?.currentPrice ?? 0;
-        }
+      const { quote, qty, released } = priceShortCover(market, existing, order);
+      const newBalance = balanceAfterCover(user!.balance, released, quote);
+      const now = new Date();
 
-        const currentValue = pos.qty * currentPrice;
-        const costBasis = pos.qty * pos.avgCost;
-        const pnl = currentValue - costBasis;
+      const short: ShortPosition = { ...existing!, ...shortAfterCover(existing!, qty, released, order.reason) };
+      this.shortPositions.set(short.id, short);
 
-        return {
-          ...pos,
-          market,
-          outcome,
-          stockMeta,
-          currentValue,
-          pnl,
-        };
-      })
-    );
+      const trade: Trade = {
+        id: randomUUID(),
+        userId: short.userId,
+        marketId: short.marketId,
+        outcomeId: null,
+        side: "COVER",
+        qty,
+        price: quote.averagePrice,
+        total: quote.total,
+        createdAt: now,
+      };
+      this.trades.set(trade.id, trade);
+      this.users.set(user!.id, { ...user!, balance: newBalance });
+      const eventId = randomUUID();
+      this.balanceEvents.set(eventId, {
+        id: eventId,
+        userId: short.userId,
+        type: "SHORT_COVER",
+        amount: newBalance - user!.balance,
+        note: coverNote(order.reason, qty, quote, newBalance - user!.balance),
+        createdAt: now,
+      });
+      this.stockMetas.set(short.marketId, { ...market!.stockMeta!, currentPrice: quote.postTradePrice });
 
-    const positionsValue = enrichedPositions.reduce((sum, p) => sum + p.currentValue, 0);
-    const totalValue = user.balance + positionsValue;
-    const totalPnL = totalValue - 1000;
+      return { short, trade, newBalance, quote };
+    });
+  }
 
-    return {
-      totalValue,
-      cashBalance: user.balance,
-      positionsValue,
-      totalPnL,
-      positions: enrichedPositions,
-      recentTrades: trades.slice(0, 20),
+  async chargeBorrowFees(rate: number): Promise<number> {
+    return this.serialize(async () => {
+      let charged = 0;
+      for (const short of Array.from(this.shortPositions.values())) {
+        const meta = this.stockMetas.get(short.marketId);
+        if (short.status !== "OPEN" || !meta) continue;
+        const fee = shortMarketValue(short, meta.currentPrice) * rate;
+        this.shortPositions.set(short.id, {
+          ...short,
+          collateral: short.collateral - fee,
+          borrowFeesPaid: short.borrowFeesPaid + fee,
+        });
+        charged++;
+      }
+      return charged;
+    });
+  }
+
+  async getShortPosition(id: string): Promise<ShortPosition | undefined> {
+    return this.shortPositions.get(id);
+  }
+
+  async getShortPositionsByUser(userId: string, status?: ShortPositionStatus): Promise<ShortPosition[]> {
+    return Array.from(this.shortPositions.values())
+      .filter((s) => s.userId === userId && (!status || s.status === status))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getOpenShortPositions(marketId?: string): Promise<ShortPosition[]> {
+    return Array.from(this.shortPositions.values())
+      .filter((s) => s.status === "OPEN" && (!marketId || s.marketId === marketId))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async createIpoRequest(
+    request: Omit<IpoRequest, "id" | "status" | "marketId" | "reviewedBy" | "reason" | "createdAt" | "reviewedAt">
+  ): Promise<IpoRequest> {
+    const newRequest: IpoRequest = {
+      ...request,
+      id: randomUUID(),
+      status: "PENDING",
+      marketId: null,
+      reviewedBy: null,
+      reason: null,
+      createdAt: new Date(),
+      reviewedAt: null,
     };
+    this.ipoRequests.set(newRequest.id, newRequest);
+    return newRequest;
   }
 
-  async getStockCandles(marketId: string, limit: number = 100): Promise<StockCandle[]> {
-    const candles = this.stockCandles.get(marketId) || [];
-    return candles.slice(-limit).sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
+  async getIpoRequest(id: string): Promise<IpoRequest | undefined> {
+    return this.ipoRequests.get(id);
   }
 
-  async addStockCandle(candle: Omit<StockCandle, "id">): Promise<StockCandle> {
-    const id = randomUUID();
-    const newCandle: StockCandle = { ...candle, id };
-    const candles = this.stockCandles.get(candle.marketId) || [];
-    candles.push(newCandle);
-    this.stockCandles.set(candle.marketId, candles);
-    return newCandle;
+  async getIpoRequests(status?: IpoRequestStatus): Promise<IpoRequest[]> {
+    return Array.from(this.ipoRequests.values())
+      .filter((r) => !status || r.status === status)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   }
 
-  async updateLatestCandle(marketId: string, price: number, volume: number): Promise<void> {
-    const candles = this.stockCandles.get(marketId) || [];
-    if (candles.length === 0) {
-      // Create a new candle if none exists
-      await this.addStockCandle({
+  async getIpoRequestsByUser(userId: string): Promise<IpoRequest[]> {
+    return Array.from(this.ipoRequests.values())
+      .filter((r) => r.requestedBy === userId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async updateIpoRequest(
+    id: string,
+    updates: Partial<IpoRequest>,
+    fromStatus?: IpoRequestStatus
+  ): Promise<IpoRequest | undefined> {
+    const request = this.ipoRequests.get(id);
+    if (!request || (fromStatus && request.status !== fromStatus)) return undefined;
+    const updated = { ...request, ...updates };
+    this.ipoRequests.set(id, updated);
+    return updated;
+  }
+
+  async deleteIpoStock(marketId: string): Promise<boolean> {
+    return this.serialize(async () => {
+      const market = this.markets.get(marketId);
+      if (!market || market.type !== "STOCK" || market.status !== "IPO") return false;
+      if (Array.from(this.ipoSubscriptions.values()).some((s) => s.marketId === marketId)) return false;
+
+      this.markets.delete(marketId);
+      this.stockMetas.delete(marketId);
+      this.stockCandles.delete(marketId);
+      for (const change of Array.from(this.marketStatusHistory.values())) {
+        if (change.marketId === marketId) this.marketStatusHistory.delete(change.id);
+      }
+      return true;
+    });
+  }
+
+  async subscribeToIpo(userId: string, marketId: string, qty: number): Promise<IpoSubscriptionExecution> {
+    return this.serialize(async () => {
+      const user = this.users.get(userId);
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+      const market = await this.getMarket(marketId);
+      const existing = Array.from(this.ipoSubscriptions.values()).find(
+        (s) => s.userId === userId && s.marketId === marketId
+      );
+
+      const cost = priceIpoSubscription(market, existing, qty, user.balance);
+      const newBalance = user.balance - cost;
+      const now = new Date();
+
+      const subscription: IpoSubscription = {
+        id: randomUUID(),
+        userId,
         marketId,
-        open: price,
-        high: price,
-        low: price,
-        close: price,
-        volume,
-        timestamp: new Date(),
+        qty,
+        price: market!.stockMeta!.initialPrice,
+        allocatedQty: null,
+        status: "PENDING",
+        createdAt: now,
+        settledAt: null,
+      };
+      this.ipoSubscriptions.set(subscription.id, subscription);
+      this.users.set(userId, { ...user, balance: newBalance });
+      const eventId = randomUUID();
+      this.balanceEvents.set(eventId, {
+        id: eventId,
+        userId,
+        type: "IPO_SUBSCRIBE",
+        amount: -cost,
+        note: `IPO: subscribed to ${qty} ${market!.stockMeta!.ticker} shares at $${subscription.price.toFixed(2)}`,
+        createdAt: now,
       });
-      return;
-    }
 
-    const lastCandle = candles[candles.length - 1];
-    const now = new Date();
-    const lastCandleTime = new Date(lastCandle.timestamp);
-    
-    // Check if we're still within the same trading period (same day for daily candles)
-    const isSameDay = lastCandleTime.toDateString() === now.toDateString();
+      return { subscription, newBalance };
+    });
+  }
 
-    if (isSameDay) {
-      // Update existing candle
-      lastCandle.close = price;
-      lastCandle.high = Math.max(lastCandle.high, price);
-      lastCandle.low = Math.min(lastCandle.low, price);
-      lastCandle.volume += volume;
-    } else {
-      // Create a new candle for the new day
-      await this.addStockCandle({
-        marketId,
-        open: price,
-        high: price,
-        low: price,
-        close: price,
-        volume,
-        timestamp: now,
+  async allocateIpoSubscription(id: string, allocatedQty: number): Promise<IpoSubscription> {
+    return this.serialize(async () => {
+      const existing = this.ipoSubscriptions.get(id);
+      const subscription: IpoSubscription = {
+        ...existing!,
+        ...ipoSubscriptionAfterAllocation(existing, allocatedQty),
+      };
+      const user = this.users.get(subscription.userId);
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+
+      const refund = (subscription.qty - allocatedQty) * subscription.price;
+      this.ipoSubscriptions.set(id, subscription);
+      this.users.set(user.id, { ...user, balance: user.balance + refund });
+      if (refund > 0) {
+        await this.logBalanceEvent({
+          userId: user.id,
+          type: "IPO_REFUND",
+          amount: refund,
+          note: `IPO: refunded ${subscription.qty - allocatedQty} unallocated shares`,
+        });
+      }
+      if (allocatedQty > 0) {
+        const position = await this.getPosition(user.id, subscription.marketId);
+        await this.upsertPosition({
+          userId: user.id,
+          marketId: subscription.marketId,
+          outcomeId: null,
+          ...nextPosition(position, "BUY", allocatedQty, subscription.price),
+        });
+        await this.createTrade({
+          userId: user.id,
+          marketId: subscription.marketId,
+          outcomeId: null,
+          side: "BUY",
+          qty: allocatedQty,
+          price: subscription.price,
+          total: allocatedQty * subscription.price,
+        });
+      }
+      return subscription;
+    });
+  }
+
+  async getIpoSubscriptions(marketId: string, status?: IpoSubscriptionStatus): Promise<IpoSubscription[]> {
+    return Array.from(this.ipoSubscriptions.values())
+      .filter((s) => s.marketId === marketId && (!status || s.status === status))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getIpoSubscriptionsByUser(userId: string): Promise<IpoSubscription[]> {
+    return Array.from(this.ipoSubscriptions.values())
+      .filter((s) => s.userId === userId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async placeParlay(userId: string, stake: number, potentialPayout: number, legs: NewParlayLeg[]): Promise<ParlayExecution> {
+    return this.serialize(async () => {
+      const user = this.users.get(userId);
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+      if (user.balance < stake) {
+        throw new TradeError("INSUFFICIENT_BALANCE", `A $${stake.toFixed(2)} stake is more than your balance`);
+      }
+
+      const now = new Date();
+      const parlay: Parlay = {
+        id: randomUUID(),
+        userId,
+        stake,
+        potentialPayout,
+        status: "OPEN",
+        payout: null,
+        createdAt: now,
+        settledAt: null,
+      };
+      const newLegs: ParlayLeg[] = legs.map((leg) => ({
+        ...leg,
+        id: randomUUID(),
+        parlayId: parlay.id,
+        status: "PENDING",
+        settledAt: null,
+      }));
+      const newBalance = user.balance - stake;
+
+      this.parlays.set(parlay.id, parlay);
+      for (const leg of newLegs) this.parlayLegs.set(leg.id, leg);
+      this.users.set(userId, { ...user, balance: newBalance });
+      const eventId = randomUUID();
+      this.balanceEvents.set(eventId, {
+        id: eventId,
+        userId,
+        type: "PARLAY_STAKE",
+        amount: -stake,
+        note: `Parlay: ${legs.length}-leg slip paying $${potentialPayout.toFixed(2)}`,
+        createdAt: now,
       });
-    }
+
+      return { parlay, legs: newLegs, newBalance };
+    });
   }
 
-  async getMarketCandles(marketId: string, outcomeId: string, limit: number = 100): Promise<MarketCandle[]> {
-    const key = `${marketId}:${outcomeId}`;
-    const candles = this.marketCandles.get(key) || [];
-    return candles.slice(-limit).sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
+  async getParlay(id: string): Promise<Parlay | undefined> {
+    return this.parlays.get(id);
   }
 
-  async createGame(game: Partial<Game>): Promise<Game> {
-    const id = randomUUID();
-    const newGame: Game = {
-      id,
-      sport: game.sport || "OTHER",
-      opponent: game.opponent || "",
-      isHome: game.isHome ?? true,
-      gameDate: game.gameDate || new Date(),
-      status: game.status || "UPCOMING",
-      menloScore: game.menloScore ?? null,
-      opponentScore: game.opponentScore ?? null,
-      marketId: game.marketId ?? null,
-      createdBy: game.createdBy || "",
-      createdAt: new Date(),
-    };
-    this.games.set(id, newGame);
-    return newGame;
+  async getParlaysByUser(userId: string, status?: ParlayStatus): Promise<Parlay[]> {
+    return Array.from(this.parlays.values())
+      .filter((p) => p.userId === userId && (!status || p.status === status))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
-  async getGame(id: string): Promise<Game | undefined> {
-    return this.games.get(id);
+  async getParlayLegs(parlayId: string): Promise<ParlayLeg[]> {
+    return Array.from(this.parlayLegs.values()).filter((l) => l.parlayId === parlayId);
+  }
+
+  async getPendingParlayLegs(marketId: string): Promise<ParlayLeg[]> {
+    return Array.from(this.parlayLegs.values()).filter((l) => l.marketId === marketId && l.status === "PENDING");
+  }
+
+  async settleParlayLeg(id: string, status: Exclude<ParlayLegStatus, "PENDING">): Promise<ParlayLeg | undefined> {
+    const leg = this.parlayLegs.get(id);
+    if (!leg || leg.status !== "PENDING") return undefined;
+    const updated = { ...leg, status, settledAt: new Date() };
+    this.parlayLegs.set(id, updated);
+    return updated;
+  }
+
+  async settleParlay(id: string, status: Exclude<ParlayStatus, "OPEN">, payout: number): Promise<Parlay | undefined> {
+    return this.serialize(async () => {
+      const parlay = this.parlays.get(id);
+      if (!parlay || parlay.status !== "OPEN") return undefined;
+      const user = this.users.get(parlay.userId);
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+
+      const settled: Parlay = { ...parlay, status, payout, settledAt: new Date() };
+      this.parlays.set(id, settled);
+      if (payout > 0) {
+        this.users.set(user.id, { ...user, balance: user.balance + payout });
+        await this.logBalanceEvent({
+          userId: user.id,
+          type: status === "VOID" ? "PARLAY_REFUND" : "PARLAY_PAYOUT",
+          amount: payout,
+          note: status === "VOID" ? "Parlay: every leg was voided" : "Parlay: slip won",
+        });
+      }
+      return settled;
+    });
+  }
+
+  // Stakes on a user's open parlays, for portfolio totals
+  private async getParlaysValue(userId: string): Promise<number> {
+    return (await this.getParlaysByUser(userId, "OPEN")).reduce((sum, p) => sum + p.stake, 0);
+  }
+
+  // Equity of a user's open shorts, for portfolio totals
+  private async getShortsValue(userId: string): Promise<number> {
+    return (await this.getShortPositionsByUser(userId, "OPEN")).reduce((sum, short) => {
+      const price = this.stockMetas.get(short.marketId)?.currentPrice ?? short.entryPrice;
+      return sum + shortEquity(short, price);
+    }, 0);
+  }
+
+  async getPosition(userId: string, marketId: string, outcomeId?: string): Promise<Position | undefined> {
+    const key = `${userId}-${marketId}-${outcomeId || "stock"}`;
+    return this.positions.get(key);
+  }
+
+  async upsertPosition(position: Omit<Position, "id">): Promise<Position> {
+    const key = `${position.userId}-${position.marketId}-${position.outcomeId || "stock"}`;
+    const existing = this.positions.get(key);
+    if (existing) {
+      const updated: Position = {
+        ...existing,
+        qty: position.qty,
+        avgCost: position.avgCost,
+      };
+      this.positions.set(key, updated);
+      return updated;
+    }
+    const id = randomUUID();
+    const newPosition: Position = { ...position, id };
+    this.positions.set(key, newPosition);
+    return newPosition;
+  }
+
+  async getPositionsByUser(userId: string): Promise<Position[]> {
+    return Array.from(this.positions.values()).filter(
+      (p) => p.userId === userId && p.qty > 0
+    );
+  }
+
+  async getPositionsByMarket(marketId: string): Promise<Position[]> {
+    return Array.from(this.positions.values()).filter(
+      (p) => p.marketId === marketId && p.qty > 0
+    );
+  }
+
+  async settleMarketPositions(
+    marketId: string,
+    closing: MarketClosing,
+    payoutFor: (position: Position) => PositionPayout
+  ): Promise<MarketSettlement | undefined> {
+    return this.serialize(async () => {
+      const market = this.markets.get(marketId);
+      if (!market || market.status !== closing.fromStatus) return undefined;
+      if (closing.resolution && this.resolutions.has(marketId)) {
+        throw new Error("Market already has a resolution");
+      }
+      await this.setMarketStatus(marketId, closing.toStatus, closing);
+      const resolution = closing.resolution && (await this.createResolution(closing.resolution));
+
+      const type = closing.toStatus === "RESOLVED" ? "RESOLUTION_PAYOUT" : "VOID_REFUND";
+      let payouts = 0;
+      let totalPaid = 0;
+      for (const [key, position] of Array.from(this.positions.entries())) {
+        if (position.marketId !== marketId) continue;
+        const payout = position.qty > 0 ? payoutFor(position) : null;
+        const holder = this.users.get(position.userId);
+        if (payout && payout.amount > 0 && holder) {
+          this.users.set(holder.id, { ...holder, balance: holder.balance + payout.amount });
+          await this.logBalanceEvent({ userId: holder.id, type, amount: payout.amount, note: payout.note });
+          payouts++;
+          totalPaid += payout.amount;
+        }
+        this.positions.set(key, { ...position, qty: 0 });
+      }
+      return { resolution, payouts, totalPaid };
+    });
+  }
+
+  async getSharesOutstanding(marketId: string): Promise<number> {
+    const held = await this.getPositionsByMarket(marketId);
+    return held.reduce((sum, p) => sum + p.qty, 0);
+  }
+
+  async getCommentsByMarket(marketId: string): Promise<Comment[]> {
+    return Array.from(this.comments.values())
+      .filter((c) => c.marketId === marketId && !c.hiddenAt)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async createComment(comment: Omit<Comment, "id" | "createdAt" | "hiddenAt">): Promise<Comment> {
+    const id = randomUUID();
+    const newComment: Comment = { ...comment, id, createdAt: new Date(), hiddenAt: null };
+    this.comments.set(id, newComment);
+    return newComment;
+  }
+
+  async createReport(report: Omit<Report, "id" | "createdAt" | "status">): Promise<Report> {
+    const id = randomUUID();
+    const newReport: Report = { ...report, id, status: "PENDING", createdAt: new Date() };
+    this.reports.set(id, newReport);
+    return newReport;
+  }
+
+  async getReports(): Promise<Report[]> {
+    return Array.from(this.reports.values()).sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }
+
+  async updateReport(id: string, updates: Partial<Report>): Promise<Report | undefined> {
+    const report = this.reports.get(id);
+    if (!report) return undefined;
+    const updated = { ...report, ...updates };
+    this.reports.set(id, updated);
+    return updated;
+  }
+
+  async createResolution(resolution: Omit<Resolution, "id" | "resolvedAt">): Promise<Resolution> {
+    if (this.resolutions.has(resolution.marketId)) {
+      throw new Error("Market already has a resolution");
+    }
+    const id = randomUUID();
+    const newResolution: Resolution = { ...resolution, id, resolvedAt: new Date() };
+    this.resolutions.set(resolution.marketId, newResolution);
+    return newResolution;
+  }
+
+  async getResolution(marketId: string): Promise<Resolution | undefined> {
+    return this.resolutions.get(marketId);
+  }
+
+  async createMarketReview(review: Omit<MarketReview, "id" | "createdAt">): Promise<MarketReview> {
+    const id = randomUUID();
+    const newReview: MarketReview = { ...review, id, createdAt: new Date() };
+    this.marketReviews.set(id, newReview);
+    return newReview;
+  }
+
+  async getLatestMarketReview(marketId: string): Promise<MarketReview | undefined> {
+    return Array.from(this.marketReviews.values())
+      .filter((r) => r.marketId === marketId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+  }
+
+  async logBalanceEvent(event: Omit<BalanceEvent, "id" | "createdAt">): Promise<BalanceEvent> {
+    const id = randomUUID();
+    const newEvent: BalanceEvent = { ...event, id, createdAt: new Date() };
+    this.balanceEvents.set(id, newEvent);
+    return newEvent;
+  }
+
+  async getBalanceEventsByUser(userId: string, since?: Date): Promise<BalanceEvent[]> {
+    return Array.from(this.balanceEvents.values())
+      .filter((e) => e.userId === userId && (!since || e.createdAt > since))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getBalanceEventsByType(types: BalanceEventType[]): Promise<BalanceEvent[]> {
+    return Array.from(this.balanceEvents.values())
+      .filter((e) => types.includes(e.type as BalanceEventType))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getPortfolioValues(league?: LeaderboardLeague): Promise<PortfolioValue[]> {
+    const members = league?.groupId
+      ? new Set((await this.getLeagueGroupMembers(league.groupId)).map((m) => m.userId))
+      : undefined;
+    const users = Array.from(this.users.values())
+      .filter((u) => u.status === "VERIFIED" && u.role !== "ADMIN")
+      .filter((u) => (!league?.grade || u.grade === league.grade) && (!members || members.has(u.id)));
+
+    return Promise.all(users.map((user) => this.valuePortfolio(user)));
+  }
+
+  async getPortfolioValue(userId: string): Promise<PortfolioValue | undefined> {
+    const user = await this.getUser(userId);
+    return user ? this.valuePortfolio(user) : undefined;
+  }
+
+  private async valuePortfolio(user: User): Promise<PortfolioValue> {
+    const positions = await this.getPositionsByUser(user.id);
+    let positionsValue = 0;
+
+    for (const pos of positions) {
+      if (pos.outcomeId) {
+        const outcome = this.outcomes.get(pos.outcomeId);
+        if (outcome) {
+          positionsValue += pos.qty * outcome.currentPrice;
+        }
+      } else {
+        const stockMeta = this.stockMetas.get(pos.marketId);
+        if (stockMeta) {
+          positionsValue += pos.qty * stockMeta.currentPrice;
+        }
+      }
+    }
+
+    const totalValue =
+      user.balance +
+      (await this.getReservedCash(user.id)) +
+      positionsValue +
+      (await this.getShortsValue(user.id)) +
+      (await this.getParlaysValue(user.id));
+
+    return { user, totalValue, cashBalance: user.balance, positionsValue };
+  }
+
+  async getLeaderboard(timeFilter?: string, query?: LeaderboardQuery): Promise<LeaderboardEntry[]> {
+    const entries = await rankLeaderboard(this, await this.getPortfolioValues(query), windowStart(parseLeaderboardWindow(timeFilter)));
+    return leaderboardPage(entries, query);
+  }
+
+  async getLeaderboardEntry(userId: string, timeFilter?: string, league?: LeaderboardLeague): Promise<LeaderboardEntry | undefined> {
+    const entries = await rankLeaderboard(this, await this.getPortfolioValues(league), windowStart(parseLeaderboardWindow(timeFilter)));
+    return leaderboardEntry(entries, userId);
+  }
+
+  async getGradeStandings(timeFilter?: string): Promise<GradeStanding[]> {
+    return gradeStandings(await this.getLeaderboard(timeFilter));
+  }
+
+  async savePortfolioSnapshot(snapshot: Omit<PortfolioSnapshot, "id" | "takenAt">): Promise<PortfolioSnapshot> {
+    const existing = Array.from(this.portfolioSnapshots.values()).find(
+      (s) => s.userId === snapshot.userId && s.day === snapshot.day
+    );
+    const saved: PortfolioSnapshot = { ...snapshot, id: existing?.id ?? randomUUID(), takenAt: new Date() };
+    this.portfolioSnapshots.set(saved.id, saved);
+    return saved;
+  }
+
+  async getPortfolioSnapshots(userId: string, since?: Date): Promise<PortfolioSnapshot[]> {
+    return Array.from(this.portfolioSnapshots.values())
+      .filter((s) => s.userId === userId && (!since || s.takenAt >= since))
+      .sort((a, b) => a.takenAt.getTime() - b.takenAt.getTime());
+  }
+
+  async getWindowBaselines(at: Date): Promise<PortfolioSnapshot[]> {
+    const baselines = new Map<string, PortfolioSnapshot>();
+    const byTime = Array.from(this.portfolioSnapshots.values()).sort(
+      (a, b) => a.takenAt.getTime() - b.takenAt.getTime()
+    );
+    for (const snapshot of byTime) {
+      const current = baselines.get(snapshot.userId);
+      // Later snapshots up to `at` replace earlier ones; past `at`, only the first counts
+      if (!current || snapshot.takenAt <= at) {
+        baselines.set(snapshot.userId, snapshot);
+      }
+    }
+    return Array.from(baselines.values());
+  }
+
+  async getPortfolio(userId: string): Promise<PortfolioSummary> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      return {
+        totalValue: 0,
+        cashBalance: 0,
+        reservedCash: 0,
+        positionsValue: 0,
+        shortsValue: 0,
+        parlaysValue: 0,
+        totalPnL: 0,
+        positions: [],
+        shorts: [],
+        recentTrades: [],
+      };
+    }
+
+    const positions = await this.getPositionsByUser(userId);
+    const trades = await this.getTradesByUser(userId);
+
+    const enrichedPositions: PositionWithDetails[] = await Promise.all(
+      positions.map(async (pos) => {
+        const market = await this.getMarket(pos.marketId);
+        let currentPrice = 0;
+        let outcome: Outcome | undefined;
+        let stockMeta: StockMeta | undefined;
+
+        if (pos.outcomeId) {
+          outcome = this.outcomes.get(pos.outcomeId);
+          currentPrice = outcome?.currentPrice ?? 0;
+        } else {
+          stockMeta = this.stockMetas.get(pos.marketId);
+          currentPrice = stockMeta?.currentPrice ?? 0;
+        }
+
+        const currentValue = pos.qty * currentPrice;
+        const costBasis = pos.qty * pos.avgCost;
+        const pnl = currentValue - costBasis;
+
+        return {
+          ...pos,
+          market,
+          outcome,
+          stockMeta,
+          currentValue,
+          pnl,
+        };
+      })
+    );
+
+    const positionsValue = enrichedPositions.reduce((sum, p) => sum + p.currentValue, 0);
+    const reservedCash = await this.getReservedCash(userId);
+    const shorts = await Promise.all(
+      (await this.getShortPositionsByUser(userId, "OPEN")).map(async (short) => {
+        const market = await this.getMarket(short.marketId);
+        return shortWithDetails(short, market, market?.stockMeta);
+      })
+    );
+    const shortsValue = shorts.reduce((sum, s) => sum + s.equity, 0);
+    const parlaysValue = await this.getParlaysValue(userId);
+    const totalValue = user.balance + reservedCash + positionsValue + shortsValue + parlaysValue;
+    const totalPnL = totalValue - 1000;
+
+    return {
+      totalValue,
+      cashBalance: user.balance,
+      reservedCash,
+      positionsValue,
+      shortsValue,
+      parlaysValue,
+      totalPnL,
+      positions: enrichedPositions,
+      shorts,
+      recentTrades: trades.slice(0, 20),
+    };
+  }
+
+  async getStockCandles(marketId: string, limit: number = 100): Promise<StockCandle[]> {
+    const candles = this.stockCandles.get(marketId) || [];
+    return candles.slice(-limit).sort((a, b) => 
+      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+  }
+
+  async addStockCandle(candle: Omit<StockCandle, "id">): Promise<StockCandle> {
+    const id = randomUUID();
+    const newCandle: StockCandle = { ...candle, id };
+    const candles = this.stockCandles.get(candle.marketId) || [];
+    candles.push(newCandle);
+    this.stockCandles.set(candle.marketId, candles);
+    return newCandle;
+  }
+
+  async updateLatestCandle(marketId: string, price: number, volume: number): Promise<void> {
+    const candles = this.stockCandles.get(marketId) || [];
+    if (candles.length === 0) {
+      // Create a new candle if none exists
+      await this.addStockCandle({
+        marketId,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume,
+        timestamp: new Date(),
+      });
+      return;
+    }
+
+    const lastCandle = candles[candles.length - 1];
+    const now = new Date();
+    const lastCandleTime = new Date(lastCandle.timestamp);
+    
+    // Check if we're still within the same trading period (same day for daily candles)
+    const isSameDay = lastCandleTime.toDateString() === now.toDateString();
+
+    if (isSameDay) {
+      // Update existing candle
+      lastCandle.close = price;
+      lastCandle.high = Math.max(lastCandle.high, price);
+      lastCandle.low = Math.min(lastCandle.low, price);
+      lastCandle.volume += volume;
+    } else {
+      // Create a new candle for the new day
+      await this.addStockCandle({
+        marketId,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume,
+        timestamp: now,
+      });
+    }
+  }
+
+  async getMarketCandles(marketId: string, outcomeId: string, limit: number = 100): Promise<MarketCandle[]> {
+    const key = `${marketId}:${outcomeId}`;
+    const candles = this.marketCandles.get(key) || [];
+    return candles.slice(-limit).sort((a, b) => 
+      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+  }
+
+  async syncOutcomePrices(marketId: string, prices: Record<string, number>): Promise<Outcome[] | undefined> {
+    return this.serialize(async () => {
+      const market = this.markets.get(marketId);
+      if (!market || market.status !== "OPEN") return undefined;
+
+      const now = new Date();
+      const updated: Outcome[] = [];
+      for (const outcome of await this.getOutcomesByMarket(marketId)) {
+        const price = prices[outcome.id];
+        if (price === undefined) {
+          updated.push(outcome);
+          continue;
+        }
+        const next = { ...outcome, currentPrice: price };
+        this.outcomes.set(outcome.id, next);
+        updated.push(next);
+
+        const key = `${marketId}:${outcome.id}`;
+        const candles = this.marketCandles.get(key) || [];
+        const lastCandle = candles[candles.length - 1];
+        if (lastCandle && new Date(lastCandle.timestamp).toDateString() === now.toDateString()) {
+          lastCandle.close = price;
+          lastCandle.high = Math.max(lastCandle.high, price);
+          lastCandle.low = Math.min(lastCandle.low, price);
+        } else {
+          candles.push({
+            id: randomUUID(),
+            marketId,
+            outcomeId: outcome.id,
+            open: lastCandle?.close ?? outcome.currentPrice,
+            high: Math.max(lastCandle?.close ?? outcome.currentPrice, price),
+            low: Math.min(lastCandle?.close ?? outcome.currentPrice, price),
+            close: price,
+            volume: 0,
+            timestamp: now,
+          });
+          this.marketCandles.set(key, candles);
+        }
+      }
+      return updated;
+    });
+  }
+
+  async createGame(game: Partial<Game>): Promise<Game> {
+    const id = randomUUID();
+    const newGame: Game = {
+      id,
+      sport: game.sport || "OTHER",
+      opponent: game.opponent || "",
+      isHome: game.isHome ?? true,
+      gameDate: game.gameDate || new Date(),
+      status: game.status || "UPCOMING",
+      menloScore: game.menloScore ?? null,
+      opponentScore: game.opponentScore ?? null,
+      marketId: game.marketId ?? null,
+      createdBy: game.createdBy || "",
+      createdAt: new Date(),
+    };
+    this.games.set(id, newGame);
+    return newGame;
+  }
+
+  async getGame(id: string): Promise<Game | undefined> {
+    return this.games.get(id);
+  }
+
+  async getAllGames(): Promise<Game[]> {
+    return Array.from(this.games.values()).sort(
+      (a, b) => new Date(b.gameDate).getTime() - new Date(a.gameDate).getTime()
+    );
+  }
+
+  async updateGame(id: string, updates: Partial<Game>): Promise<Game | undefined> {
+    const game = this.games.get(id);
+    if (!game) return undefined;
+    const updated = { ...game, ...updates };
+    this.games.set(id, updated);
+    return updated;
+  }
+
+  async deleteGame(id: string): Promise<boolean> {
+    return this.games.delete(id);
+  }
+
+  async createGameMarket(gameMarket: Omit<GameMarket, "id" | "createdAt">): Promise<GameMarket> {
+    const id = randomUUID();
+    const newGameMarket: GameMarket = { ...gameMarket, id, createdAt: new Date() };
+    this.gameMarkets.set(id, newGameMarket);
+    return newGameMarket;
+  }
+
+  async getGameMarkets(gameId: string): Promise<GameMarket[]> {
+    return Array.from(this.gameMarkets.values())
+      .filter((gm) => gm.gameId === gameId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getGameIdForMarket(marketId: string): Promise<string | undefined> {
+    const game = Array.from(this.games.values()).find((g) => g.marketId === marketId);
+    if (game) return game.id;
+    return Array.from(this.gameMarkets.values()).find((gm) => gm.marketId === marketId)?.gameId;
+  }
+
+  async createLeagueGroup(group: InsertLeagueGroup & { createdBy: string }): Promise<LeagueGroup> {
+    const id = randomUUID();
+    const newGroup: LeagueGroup = { ...group, id, createdAt: new Date() };
+    this.leagueGroups.set(id, newGroup);
+    return newGroup;
+  }
+
+  async getLeagueGroup(id: string): Promise<LeagueGroup | undefined> {
+    return this.leagueGroups.get(id);
+  }
+
+  async getLeagueGroups(): Promise<LeagueGroupWithCount[]> {
+    const members = Array.from(this.leagueGroupMembers.values());
+    return Array.from(this.leagueGroups.values())
+      .map((group) => ({ ...group, memberCount: members.filter((m) => m.groupId === group.id).length }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteLeagueGroup(id: string): Promise<boolean> {
+    for (const [memberId, member] of Array.from(this.leagueGroupMembers.entries())) {
+      if (member.groupId === id) this.leagueGroupMembers.delete(memberId);
+    }
+    return this.leagueGroups.delete(id);
+  }
+
+  async addLeagueGroupMember(groupId: string, userId: string): Promise<boolean> {
+    const existing = Array.from(this.leagueGroupMembers.values()).find(
+      (m) => m.groupId === groupId && m.userId === userId
+    );
+    if (existing) return false;
+    const id = randomUUID();
+    this.leagueGroupMembers.set(id, { id, groupId, userId, addedAt: new Date() });
+    return true;
+  }
+
+  async removeLeagueGroupMember(groupId: string, userId: string): Promise<boolean> {
+    const existing = Array.from(this.leagueGroupMembers.values()).find(
+      (m) => m.groupId === groupId && m.userId === userId
+    );
+    return existing ? this.leagueGroupMembers.delete(existing.id) : false;
+  }
+
+  async getLeagueGroupMembers(groupId: string): Promise<LeagueGroupMemberWithUser[]> {
+    const members: LeagueGroupMemberWithUser[] = [];
+    for (const member of Array.from(this.leagueGroupMembers.values())) {
+      const user = member.groupId === groupId ? this.users.get(member.userId) : undefined;
+      if (user) {
+        members.push({ ...member, displayName: user.displayName, email: user.email, grade: user.grade || undefined });
+      }
+    }
+    return members.sort((a, b) => a.displayName.localeCompare(b.displayName));
+  }
+
+  async getLeagueGrades(): Promise<string[]> {
+    const grades = new Set<string>();
+    for (const user of Array.from(this.users.values())) {
+      if (user.grade && user.status === "VERIFIED" && user.role !== "ADMIN") grades.add(user.grade);
+    }
+    return Array.from(grades).sort();
+  }
+
+  async createSeason(season: InsertSeason & { createdBy: string }): Promise<Season> {
+    const id = randomUUID();
+    const newSeason: Season = { ...season, id, status: "SCHEDULED", createdAt: new Date(), completedAt: null };
+    this.seasons.set(id, newSeason);
+    return newSeason;
+  }
+
+  async getSeason(id: string): Promise<Season | undefined> {
+    return this.seasons.get(id);
+  }
+
+  async getSeasons(): Promise<Season[]> {
+    return Array.from(this.seasons.values()).sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime());
+  }
+
+  async setSeasonStatus(id: string, status: SeasonStatus, fromStatus: SeasonStatus): Promise<Season | undefined> {
+    const season = this.seasons.get(id);
+    if (!season || season.status !== fromStatus) return undefined;
+    const updated: Season = { ...season, status, completedAt: status === "ENDING" ? new Date() : season.completedAt };
+    this.seasons.set(id, updated);
+    return updated;
+  }
+
+  async deleteSeason(id: string): Promise<boolean> {
+    for (const [resultId, result] of Array.from(this.seasonResults.entries())) {
+      if (result.seasonId === id) this.seasonResults.delete(resultId);
+    }
+    return this.seasons.delete(id);
+  }
+
+  async saveSeasonResults(results: Omit<SeasonResult, "id" | "createdAt" | "resetAt">[]): Promise<void> {
+    const existing = Array.from(this.seasonResults.values());
+    for (const result of results) {
+      if (existing.some((r) => r.seasonId === result.seasonId && r.userId === result.userId)) continue;
+      const id = randomUUID();
+      this.seasonResults.set(id, { ...result, id, resetAt: null, createdAt: new Date() });
+    }
+  }
+
+  async getSeasonResults(seasonId: string, limit?: number): Promise<SeasonResult[]> {
+    const results = Array.from(this.seasonResults.values())
+      .filter((r) => r.seasonId === seasonId)
+      .sort((a, b) => a.rank - b.rank);
+    return limit ? results.slice(0, limit) : results;
+  }
+
+  async getSeasonStandings(since: Date): Promise<LeaderboardEntry[]> {
+    return rankLeaderboard(this, await this.getPortfolioValues(), since);
+  }
+
+  async resetPortfolioForSeason(
+    seasonId: string,
+    userId: string,
+    startingBalance: number,
+    note: string
+  ): Promise<number | undefined> {
+    return this.serialize(async () => {
+      const user = this.users.get(userId);
+      const result = Array.from(this.seasonResults.values()).find(
+        (r) => r.seasonId === seasonId && r.userId === userId
+      );
+      if (!user || !result || result.resetAt) return undefined;
+      const now = new Date();
+      this.seasonResults.set(result.id, { ...result, resetAt: now });
+
+      // Hand back everything held in reserve first, so the value below is cash
+      // plus whatever couldn't be sold
+      const refund = async (type: BalanceEventType, amount: number, refundNote: string) => {
+        const current = this.users.get(userId)!;
+        this.users.set(userId, { ...current, balance: current.balance + amount });
+        await this.logBalanceEvent({ userId, type, amount, note: refundNote });
+      };
+      for (const order of Array.from(this.limitOrders.values())) {
+        if (order.userId !== userId || order.status !== "OPEN") continue;
+        this.limitOrders.set(order.id, { ...order, status: "CANCELLED", reservedAmount: 0, updatedAt: now });
+        if (order.reservedAmount > 0) {
+          await refund("ORDER_RELEASE", order.reservedAmount, "Limit order cancelled - season ended");
+        }
+      }
+      for (const order of Array.from(this.conditionalOrders.values())) {
+        if (order.userId === userId && order.status === "ACTIVE") {
+          this.conditionalOrders.set(order.id, { ...order, status: "CANCELLED", note: "Season ended" });
+        }
+      }
+      for (const subscription of Array.from(this.ipoSubscriptions.values())) {
+        if (subscription.userId !== userId || subscription.status !== "PENDING") continue;
+        this.ipoSubscriptions.set(subscription.id, { ...subscription, status: "REFUNDED", allocatedQty: 0, settledAt: now });
+        await refund("IPO_REFUND", subscription.qty * subscription.price, "IPO: subscription refunded - season ended");
+      }
+      for (const parlay of Array.from(this.parlays.values())) {
+        if (parlay.userId !== userId || parlay.status !== "OPEN") continue;
+        this.parlays.set(parlay.id, { ...parlay, status: "VOID", payout: parlay.stake, settledAt: now });
+        await refund("PARLAY_REFUND", parlay.stake, "Parlay: stake refunded - season ended");
+      }
+
+      // Anything still held is in a market that couldn't trade - written off at the current mark
+      const { totalValue } = await this.valuePortfolio(this.users.get(userId)!);
+      for (const [id, position] of Array.from(this.positions.entries())) {
+        if (position.userId === userId && position.qty > 0) this.positions.set(id, { ...position, qty: 0 });
+      }
+      for (const short of Array.from(this.shortPositions.values())) {
+        if (short.userId === userId && short.status === "OPEN") {
+          this.shortPositions.set(short.id, { ...short, status: "COVERED", closedAt: now });
+        }
+      }
+
+      this.users.set(userId, { ...this.users.get(userId)!, balance: startingBalance });
+      await this.logBalanceEvent({ userId, type: "SEASON_RESET", amount: startingBalance - totalValue, note });
+      return totalValue;
+    });
+  }
+
+  async createPolymarketLink(link: Omit<PolymarketLink, "id" | "lastSynced">): Promise<PolymarketLink> {
+    const id = randomUUID();
+    const newLink: PolymarketLink = {
+      ...link,
+      id,
+      lastSynced: new Date(),
+    };
+    this.polymarketLinks.set(link.marketId, newLink);
+    return newLink;
+  }
+
+  async getPolymarketLink(marketId: string): Promise<PolymarketLink | undefined> {
+    return this.polymarketLinks.get(marketId);
+  }
+
+  async getPolymarketLinks(): Promise<PolymarketLink[]> {
+    return Array.from(this.polymarketLinks.values());
+  }
+
+  async updatePolymarketLink(marketId: string, updates: Partial<PolymarketLink>): Promise<PolymarketLink | undefined> {
+    const link = this.polymarketLinks.get(marketId);
+    if (!link) return undefined;
+    const updated = { ...link, ...updates };
+    this.polymarketLinks.set(marketId, updated);
+    return updated;
+  }
+
+  async getPolymarketMarkets(): Promise<MarketWithDetails[]> {
+    const polymarketMarketIds = new Set(
+      Array.from(this.polymarketLinks.values()).map((link) => link.marketId)
+    );
+    
+    const markets = Array.from(this.markets.values())
+      .filter((m) => m.source === "POLYMARKET" || polymarketMarketIds.has(m.id))
+      .filter((m) => m.status !== "HIDDEN")
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+    return Promise.all(markets.map((m) => this.enrichMarket(m)));
+  }
+}
+
+function hashPassword(password: string): string {
+  return createHash("sha256").update(password).digest("hex");
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function positionMatch(userId: string, marketId: string, outcomeId?: string | null) {
+  return and(
+    eq(positions.userId, userId),
+    eq(positions.marketId, marketId),
+    outcomeId ? eq(positions.outcomeId, outcomeId) : isNull(positions.outcomeId)
+  );
+}
+
+export class DbStorage implements IStorage {
+  async getUser(id: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.email, email)).limit(1);
+    return result[0];
+  }
+
+  async createUser(user: InsertUser & { id?: string }): Promise<User> {
+    const id = user.id || randomUUID();
+    const DEVELOPER_EMAILS = [
+      "alex.kindler@menloschool.org",
+      "lincoln.bott@menloschool.org",
+    ];
+    const isDeveloper = DEVELOPER_EMAILS.includes(user.email.toLowerCase());
+    
+    const result = await db.insert(users).values({
+      id,
+      email: user.email,
+      password: hashPassword(user.password),
+      displayName: user.displayName,
+      grade: user.grade || null,
+      role: "STUDENT",
+      status: "VERIFIED",
+      emailVerifiedAt: new Date(),
+      balance: 1000,
+      disclaimerAcceptedAt: null,
+      lastBankruptcyReset: null,
+      hasMkAiAccess: isDeveloper,
+    }).returning();
+
+    await this.logBalanceEvent({
+      userId: id,
+      type: "STARTING_CREDIT",
+      amount: 1000,
+      note: "Initial balance upon registration",
+    });
+
+    return result[0];
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const result = await db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  async resetBankruptUser(userId: string, amount: number, notSince: Date): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      // Conditional, so a credit that lands first or a second trade resetting
+      // at the same time finds nothing to do
+      const [reset] = await tx.update(users)
+        .set({ balance: amount, lastBankruptcyReset: new Date() })
+        .where(and(
+          eq(users.id, userId),
+          lte(users.balance, 0),
+          or(isNull(users.lastBankruptcyReset), lt(users.lastBankruptcyReset, notSince))
+        ))
+        .returning();
+      if (!reset) return undefined;
+
+      await tx.insert(balanceEvents).values({
+        id: randomUUID(),
+        userId,
+        type: "BANKRUPTCY_RESET",
+        amount,
+        note: "Automatic bankruptcy reset",
+      });
+      return reset;
+    });
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return db.select().from(users);
+  }
+
+  async createVerificationToken(userId: string): Promise<string> {
+    const token = randomUUID();
+    const tokenHash = createHash("sha256").update(token).digest("hex");
+    await db.insert(emailVerificationTokens).values({
+      userId,
+      tokenHash,
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    });
+    return token;
+  }
+
+  async verifyToken(token: string): Promise<User | null> {
+    const tokenHash = createHash("sha256").update(token).digest("hex");
+    const result = await db.select().from(emailVerificationTokens)
+      .where(eq(emailVerificationTokens.tokenHash, tokenHash)).limit(1);
+    
+    if (!result[0]) return null;
+    const record = result[0];
+    
+    if (record.expiresAt < new Date() || record.usedAt) {
+      return null;
+    }
+    
+    const user = await this.getUser(record.userId);
+    if (!user) return null;
+
+    const updatedUser = await this.updateUser(user.id, {
+      status: "VERIFIED",
+      emailVerifiedAt: new Date(),
+      balance: 1000,
+    });
+
+    await this.logBalanceEvent({
+      userId: user.id,
+      type: "STARTING_CREDIT",
+      amount: 1000,
+      note: "Initial balance upon email verification",
+    });
+
+    await db.update(emailVerificationTokens)
+      .set({ usedAt: new Date() })
+      .where(eq(emailVerificationTokens.tokenHash, tokenHash));
+
+    return updatedUser || null;
+  }
+
+  async createPasswordResetToken(userId: string): Promise<string> {
+    const token = randomUUID();
+    const tokenHash = createHash("sha256").update(token).digest("hex");
+    await db.insert(passwordResetTokens).values({
+      userId,
+      tokenHash,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    return token;
+  }
+
+  async verifyPasswordResetToken(token: string): Promise<User | null> {
+    const tokenHash = createHash("sha256").update(token).digest("hex");
+    const result = await db.select().from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash)).limit(1);
+    
+    if (!result[0]) return null;
+    const record = result[0];
+    
+    if (record.expiresAt < new Date() || record.usedAt) {
+      return null;
+    }
+    
+    const user = await this.getUser(record.userId);
+    return user || null;
+  }
+
+  async markPasswordResetTokenUsed(token: string): Promise<void> {
+    const tokenHash = createHash("sha256").update(token).digest("hex");
+    await db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+  }
+
+  private async enrichMarket(market: Market): Promise<MarketWithDetails> {
+    const creator = await this.getUser(market.createdBy);
+    const marketOutcomes = market.type !== "STOCK" 
+      ? await this.getOutcomesByMarket(market.id) 
+      : undefined;
+    const stockMetaData = market.type === "STOCK" 
+      ? await this.getStockMeta(market.id) 
+      : undefined;
+    const scalarMetaData = market.type === "SCALAR"
+      ? await this.getScalarMeta(market.id)
+      : undefined;
+
+    return {
+      ...market,
+      outcomes: marketOutcomes,
+      stockMeta: stockMetaData,
+      scalarMeta: scalarMetaData,
+      creatorName: creator?.displayName,
+    };
+  }
+
+  async getMarkets(type?: string): Promise<MarketWithDetails[]> {
+    let query = db.select().from(markets)
+      .where(notInArray(markets.status, UNLISTED_STATUSES))
+      .orderBy(desc(markets.createdAt));
+    
+    const result = await query;
+    const filtered = type ? result.filter(m => m.type === type) : result;
+    return Promise.all(filtered.map((m) => this.enrichMarket(m)));
+  }
+
+  async getMarket(id: string): Promise<MarketWithDetails | undefined> {
+    const result = await db.select().from(markets).where(eq(markets.id, id)).limit(1);
+    if (!result[0]) return undefined;
+    return this.enrichMarket(result[0]);
+  }
+
+  async createMarket(market: Omit<Market, "id" | "createdAt">): Promise<Market> {
+    const id = randomUUID();
+    const result = await db.insert(markets).values({
+      ...market,
+      id,
+    }).returning();
+    return result[0];
+  }
+
+  async updateMarket(id: string, updates: Partial<Market>): Promise<Market | undefined> {
+    const result = await db.update(markets).set(updates).where(eq(markets.id, id)).returning();
+    return result[0];
+  }
+
+  async setMarketStatus(id: string, toStatus: MarketStatus, update: MarketStatusUpdate): Promise<Market | undefined> {
+    return db.transaction(async (tx) => {
+      const [market] = await tx.select().from(markets).where(eq(markets.id, id)).for("update");
+      if (!market || (update.fromStatus && market.status !== update.fromStatus)) return undefined;
+      if (market.status === toStatus) return market;
+
+      const [updated] = await tx.update(markets).set({ status: toStatus }).where(eq(markets.id, id)).returning();
+      await tx.insert(marketStatusHistory).values({
+        id: randomUUID(),
+        marketId: id,
+        fromStatus: market.status,
+        toStatus,
+        changedBy: update.changedBy,
+        reason: update.reason ?? null,
+      });
+      return updated;
+    });
+  }
+
+  async getMarketStatusHistory(marketId: string): Promise<MarketStatusChange[]> {
+    return db.select().from(marketStatusHistory)
+      .where(eq(marketStatusHistory.marketId, marketId))
+      .orderBy(marketStatusHistory.createdAt);
+  }
+
+  async getMarketsPastClose(asOf: Date): Promise<Market[]> {
+    return db.select().from(markets)
+      .where(and(eq(markets.status, "OPEN"), isNotNull(markets.closeAt), lte(markets.closeAt, asOf)));
+  }
+
+  async getMarketsPastResolve(asOf: Date): Promise<Market[]> {
+    return db.select().from(markets)
+      .where(and(
+        inArray(markets.status, ["OPEN", "CLOSED"]),
+        isNotNull(markets.resolveAt),
+        lte(markets.resolveAt, asOf)
+      ));
+  }
+
+  async createResolutionReminder(marketId: string): Promise<boolean> {
+    const result = await db.insert(resolutionReminders)
+      .values({ id: randomUUID(), marketId })
+      .onConflictDoNothing({ target: resolutionReminders.marketId })
+      .returning();
+    return result.length > 0;
+  }
+
+  async getMarketsByStatus(status: MarketStatus): Promise<MarketWithDetails[]> {
+    const result = await db.select().from(markets)
+      .where(eq(markets.status, status))
+      .orderBy(markets.createdAt);
+    return Promise.all(result.map((m) => this.enrichMarket(m)));
+  }
+
+  async getMarketsByCreator(userId: string): Promise<MarketWithDetails[]> {
+    const result = await db.select().from(markets)
+      .where(eq(markets.createdBy, userId))
+      .orderBy(desc(markets.createdAt));
+    return Promise.all(result.map((m) => this.enrichMarket(m)));
+  }
+
+  async createOutcome(outcome: Omit<Outcome, "id">): Promise<Outcome> {
+    const id = randomUUID();
+    const result = await db.insert(outcomes).values({
+      ...outcome,
+      id,
+    }).returning();
+    return result[0];
+  }
+
+  async getOutcomesByMarket(marketId: string): Promise<Outcome[]> {
+    return db.select().from(outcomes).where(eq(outcomes.marketId, marketId));
+  }
+
+  async updateOutcome(id: string, updates: Partial<Outcome>): Promise<Outcome | undefined> {
+    const result = await db.update(outcomes).set(updates).where(eq(outcomes.id, id)).returning();
+    return result[0];
+  }
+
+  async createStockMeta(stockMetaData: Omit<StockMeta, "id">): Promise<StockMeta> {
+    const id = randomUUID();
+    const result = await db.insert(stockMetaTable).values({
+      ...stockMetaData,
+      id,
+    }).returning();
+    return result[0];
+  }
+
+  async getStockMeta(marketId: string): Promise<StockMeta | undefined> {
+    const result = await db.select().from(stockMetaTable)
+      .where(eq(stockMetaTable.marketId, marketId)).limit(1);
+    return result[0];
+  }
+
+  async createScalarMeta(scalarMetaData: Omit<ScalarMeta, "id">): Promise<ScalarMeta> {
+    const id = randomUUID();
+    const result = await db.insert(scalarMetaTable).values({
+      ...scalarMetaData,
+      id,
+    }).returning();
+    return result[0];
+  }
+
+  async getScalarMeta(marketId: string): Promise<ScalarMeta | undefined> {
+    const result = await db.select().from(scalarMetaTable)
+      .where(eq(scalarMetaTable.marketId, marketId)).limit(1);
+    return result[0];
+  }
+
+  async updateStockMeta(marketId: string, updates: Partial<StockMeta>): Promise<StockMeta | undefined> {
+    const result = await db.update(stockMetaTable)
+      .set(updates)
+      .where(eq(stockMetaTable.marketId, marketId))
+      .returning();
+    return result[0];
+  }
+
+  async createTrade(trade: Omit<Trade, "id" | "createdAt">): Promise<Trade> {
+    const id = randomUUID();
+    const result = await db.insert(trades).values({
+      ...trade,
+      id,
+    }).returning();
+    return result[0];
+  }
+
+  async getTradesByUser(userId: string): Promise<Trade[]> {
+    return db.select().from(trades)
+      .where(eq(trades.userId, userId))
+      .orderBy(desc(trades.createdAt));
+  }
+
+  async executeTrade(userId: string, order: TradeOrder, notePrefix: string = ""): Promise<TradeExecution> {
+    return db.transaction(async (tx) => {
+      // Lock order: user, market, then the market's price rows and the position.
+      // The market row lock serializes trades per market; the user row lock
+      // serializes a user's trades across markets.
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+
+      const [market] = await tx.select().from(markets).where(eq(markets.id, order.marketId)).for("update");
+      let details: MarketWithDetails | undefined;
+      let sharesOutstanding = 0;
+      if (market) {
+        const marketOutcomes = market.type !== "STOCK"
+          ? await tx.select().from(outcomes).where(eq(outcomes.marketId, market.id)).for("update")
+          : undefined;
+        const [meta] = market.type === "STOCK"
+          ? await tx.select().from(stockMetaTable).where(eq(stockMetaTable.marketId, market.id)).for("update")
+          : [];
+        if (market.type === "STOCK") {
+          const held = await tx.select({
+            total: sql<number>`coalesce(sum(${positions.qty}), 0)`,
+          }).from(positions)
+            .where(and(eq(positions.marketId, market.id), sql`${positions.qty} > 0`));
+          sharesOutstanding = Number(held[0]?.total ?? 0);
+        }
+        details = { ...market, outcomes: marketOutcomes, stockMeta: meta };
+      }
+
+      const [existing] = await tx.select().from(positions)
+        .where(positionMatch(userId, order.marketId, order.outcomeId))
+        .limit(1)
+        .for("update");
+
+      let limitOrder: LimitOrder | undefined;
+      let released = 0;
+      if (order.limitOrderId) {
+        [limitOrder] = await tx.select().from(limitOrders).where(eq(limitOrders.id, order.limitOrderId)).for("update");
+        released = limitOrderRelease(limitOrder, userId, order);
+      }
+      const sellOrders = order.side === "SELL"
+        ? await this.openSellOrders(tx, userId, order.marketId, order.outcomeId)
+        : [];
+      const available = (existing?.qty ?? 0) - reservedShares(sellOrders, order.limitOrderId);
+
+      const quote = priceOrder(details, order, user.balance + released, available, sharesOutstanding);
+      const newBalance =
+        released + (order.side === "BUY" ? user.balance - quote.total : user.balance + quote.total);
+      const position = nextPosition(existing, order.side, order.qty, quote.averagePrice);
+
+      if (limitOrder) {
+        await tx.update(limitOrders)
+          .set(limitOrderAfterFill(limitOrder, order.qty, released))
+          .where(eq(limitOrders.id, limitOrder.id));
+        if (released > 0) {
+          await tx.insert(balanceEvents).values({
+            id: randomUUID(),
+            userId,
+            type: "ORDER_RELEASE",
+            amount: released,
+            note: `Released reserve for ${order.qty} filled shares`,
+          });
+        }
+      }
+
+      const [trade] = await tx.insert(trades).values({
+        id: randomUUID(),
+        userId,
+        marketId: order.marketId,
+        outcomeId: order.outcomeId || null,
+        side: order.side,
+        qty: order.qty,
+        price: quote.averagePrice,
+        total: quote.total,
+      }).returning();
+
+      await tx.update(users).set({ balance: newBalance }).where(eq(users.id, userId));
+
+      await tx.insert(balanceEvents).values({
+        id: randomUUID(),
+        userId,
+        type: "TRADE",
+        amount: order.side === "BUY" ? -quote.total : quote.total,
+        note: tradeNote(order, quote, notePrefix),
+      });
+
+      if (existing) {
+        await tx.update(positions).set(position).where(eq(positions.id, existing.id));
+      } else {
+        await tx.insert(positions).values({
+          id: randomUUID(),
+          userId,
+          marketId: order.marketId,
+          outcomeId: order.outcomeId || null,
+          ...position,
+        });
+      }
+
+      if (quote.outcomePrices) {
+        for (const [id, price] of Object.entries(quote.outcomePrices)) {
+          await tx.update(outcomes).set({ currentPrice: price }).where(eq(outcomes.id, id));
+        }
+      } else if (market?.type === "STOCK") {
+        await tx.update(stockMetaTable)
+          .set({ currentPrice: quote.postTradePrice })
+          .where(eq(stockMetaTable.marketId, order.marketId));
+      }
+
+      return { trade, newBalance, quote };
+    });
+  }
+
+  private async openSellOrders(tx: Tx, userId: string, marketId: string, outcomeId?: string | null): Promise<LimitOrder[]> {
+    return tx.select().from(limitOrders)
+      .where(and(
+        eq(limitOrders.userId, userId),
+        eq(limitOrders.marketId, marketId),
+        outcomeId ? eq(limitOrders.outcomeId, outcomeId) : isNull(limitOrders.outcomeId),
+        eq(limitOrders.side, "SELL"),
+        eq(limitOrders.status, "OPEN")
+      ));
+  }
+
+  async placeLimitOrder(userId: string, input: InsertLimitOrder): Promise<LimitOrder> {
+    return db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+
+      const [market] = await tx.select().from(markets).where(eq(markets.id, input.marketId));
+      const marketOutcomes = market && market.type !== "STOCK"
+        ? await tx.select().from(outcomes).where(eq(outcomes.marketId, market.id))
+        : undefined;
+      checkLimitOrderMarket(market ? { ...market, outcomes: marketOutcomes } : undefined, input);
+
+      let reservedAmount = 0;
+      if (input.side === "BUY") {
+        reservedAmount = input.qty * input.limitPrice;
+        if (user.balance < reservedAmount) {
+          throw new TradeError("INSUFFICIENT_BALANCE", "Insufficient balance");
+        }
+        await tx.update(users).set({ balance: user.balance - reservedAmount }).where(eq(users.id, userId));
+        await tx.insert(balanceEvents).values({
+          id: randomUUID(),
+          userId,
+          type: "ORDER_RESERVE",
+          amount: -reservedAmount,
+          note: `Reserved for limit BUY ${input.qty} @ $${input.limitPrice.toFixed(2)}`,
+        });
+      } else {
+        const [position] = await tx.select().from(positions)
+          .where(positionMatch(userId, input.marketId, input.outcomeId))
+          .limit(1)
+          .for("update");
+        const sellOrders = await this.openSellOrders(tx, userId, input.marketId, input.outcomeId);
+        if ((position?.qty ?? 0) - reservedShares(sellOrders) < input.qty) {
+          throw new TradeError("INSUFFICIENT_SHARES", "Insufficient shares");
+        }
+      }
+
+      const [limitOrder] = await tx.insert(limitOrders).values({
+        id: randomUUID(),
+        userId,
+        marketId: input.marketId,
+        outcomeId: input.outcomeId || null,
+        side: input.side,
+        qty: input.qty,
+        limitPrice: input.limitPrice,
+        reservedAmount,
+      }).returning();
+      return limitOrder;
+    });
   }
 
-  async getAllGames(): Promise<Game[]> {
-    return Array.from(this.games.values()).sort(
-      (a, b) => new Date(b.gameDate).getTime() - new Date(a.gameDate).getTime()
-    );
+  async cancelLimitOrder(id: string, userId?: string): Promise<LimitOrder> {
+    return db.transaction(async (tx) => {
+      const [peek] = await tx.select().from(limitOrders).where(eq(limitOrders.id, id));
+      if (!peek || (userId && peek.userId !== userId)) {
+        throw new TradeError("ORDER_NOT_FOUND", "Order not found");
+      }
+
+      // Same lock order as executeTrade: user first, then the order
+      const [owner] = await tx.select().from(users).where(eq(users.id, peek.userId)).for("update");
+      const [limitOrder] = await tx.select().from(limitOrders).where(eq(limitOrders.id, id)).for("update");
+      if (limitOrder.status !== "OPEN") {
+        throw new TradeError("ORDER_NOT_OPEN", "Order is no longer open");
+      }
+
+      if (owner && limitOrder.reservedAmount > 0) {
+        await tx.update(users)
+          .set({ balance: owner.balance + limitOrder.reservedAmount })
+          .where(eq(users.id, owner.id));
+        await tx.insert(balanceEvents).values({
+          id: randomUUID(),
+          userId: owner.id,
+          type: "ORDER_RELEASE",
+          amount: limitOrder.reservedAmount,
+          note: "Limit order cancelled",
+        });
+      }
+
+      const [cancelled] = await tx.update(limitOrders)
+        .set({ status: "CANCELLED", reservedAmount: 0, updatedAt: new Date() })
+        .where(eq(limitOrders.id, id))
+        .returning();
+      return cancelled;
+    });
   }
 
-  async updateGame(id: string, updates: Partial<Game>): Promise<Game | undefined> {
-    const game = this.games.get(id);
-    if (!game) return undefined;
-    const updated = { ...game, ...updates };
-    this.games.set(id, updated);
-    return updated;
+  async getLimitOrder(id: string): Promise<LimitOrder | undefined> {
+    const result = await db.select().from(limitOrders).where(eq(limitOrders.id, id));
+    return result[0];
   }
 
-  async deleteGame(id: string): Promise<boolean> {
-    return this.games.delete(id);
+  async getLimitOrdersByUser(userId: string, status?: LimitOrderStatus): Promise<LimitOrder[]> {
+    return db.select().from(limitOrders)
+      .where(status
+        ? and(eq(limitOrders.userId, userId), eq(limitOrders.status, status))
+        : eq(limitOrders.userId, userId))
+      .orderBy(desc(limitOrders.createdAt));
   }
 
-  async createPolymarketLink(link: Omit<PolymarketLink, "id" | "lastSynced">): Promise<PolymarketLink> {
-    const id = randomUUID();
-    const newLink: PolymarketLink = {
-      ...link,
-      id,
-      lastSynced: new Date(),
-    };
-    this.polymarketLinks.set(link.marketId, newLink);
-    return newLink;
+  async getOpenLimitOrders(marketId?: string): Promise<LimitOrder[]> {
+    return db.select().from(limitOrders)
+      .where(marketId
+        ? and(eq(limitOrders.status, "OPEN"), eq(limitOrders.marketId, marketId))
+        : eq(limitOrders.status, "OPEN"))
+      .orderBy(limitOrders.createdAt);
   }
 
-  async getPolymarketLink(marketId: string): Promise<PolymarketLink | undefined> {
-    return this.polymarketLinks.get(marketId);
+  async getReservedCash(userId: string): Promise<number> {
+    const orders = await db.select({
+      total: sql<number>`coalesce(sum(${limitOrders.reservedAmount}), 0)`,
+    }).from(limitOrders)
+      .where(and(eq(limitOrders.userId, userId), eq(limitOrders.status, "OPEN")));
+    const subscriptions = await db.select({
+      total: sql<number>`coalesce(sum(${ipoSubscriptions.qty} * ${ipoSubscriptions.price}), 0)`,
+    }).from(ipoSubscriptions)
+      .where(and(eq(ipoSubscriptions.userId, userId), eq(ipoSubscriptions.status, "PENDING")));
+    return Number(orders[0]?.total ?? 0) + Number(subscriptions[0]?.total ?? 0);
   }
 
-  async getPolymarketMarkets(): Promise<MarketWithDetails[]> {
-    const polymarketMarketIds = new Set(
-      Array.from(this.polymarketLinks.values()).map((link) => link.marketId)
-    );
-    
-    const markets = Array.from(this.markets.values())
-      .filter((m) => m.source === "POLYMARKET" || polymarketMarketIds.has(m.id))
-      .filter((m) => m.status !== "HIDDEN")
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  async matchLimitOrders(buyOrderId: string, sellOrderId: string, qty: number, price: number): Promise<Trade[]> {
+    return db.transaction(async (tx) => {
+      const [buyPeek] = await tx.select().from(limitOrders).where(eq(limitOrders.id, buyOrderId));
+      const [sellPeek] = await tx.select().from(limitOrders).where(eq(limitOrders.id, sellOrderId));
+      checkOrderMatch(buyPeek, sellPeek, qty, price);
+
+      // Lock users in id order so two matches between the same pair can't deadlock
+      const userIds = [buyPeek.userId, sellPeek.userId].sort();
+      const lockedUsers: User[] = [];
+      for (const id of userIds) {
+        const [u] = await tx.select().from(users).where(eq(users.id, id)).for("update");
+        if (!u) {
+          throw new TradeError("USER_NOT_FOUND", "User not found");
+        }
+        lockedUsers.push(u);
+      }
+      const buyer = lockedUsers.find((u) => u.id === buyPeek.userId)!;
+      const seller = lockedUsers.find((u) => u.id === sellPeek.userId)!;
 
-    return Promise.all(markets.map((m) => this.enrichMarket(m)));
-  }
-}
+      const [market] = await tx.select().from(markets).where(eq(markets.id, buyPeek.marketId)).for("update");
+      if (!market || market.status !== "OPEN") {
+        throw new TradeError("MARKET_CLOSED", "Market not available for trading");
+      }
 
-function hashPassword(password: string): string {
-  return createHash("sha256").update(password).digest("hex");
-}
+      const [buyerPosition] = await tx.select().from(positions)
+        .where(positionMatch(buyer.id, buyPeek.marketId, buyPeek.outcomeId))
+        .limit(1)
+        .for("update");
+      const [sellerPosition] = await tx.select().from(positions)
+        .where(positionMatch(seller.id, sellPeek.marketId, sellPeek.outcomeId))
+        .limit(1)
+        .for("update");
+
+      const [buy] = await tx.select().from(limitOrders).where(eq(limitOrders.id, buyOrderId)).for("update");
+      const [sell] = await tx.select().from(limitOrders).where(eq(limitOrders.id, sellOrderId)).for("update");
+      checkOrderMatch(buy, sell, qty, price);
+
+      const sellOrders = await this.openSellOrders(tx, seller.id, sell.marketId, sell.outcomeId);
+      if ((sellerPosition?.qty ?? 0) - reservedShares(sellOrders, sell.id) < qty) {
+        throw new TradeError("INSUFFICIENT_SHARES", "Seller no longer has the shares");
+      }
 
-export class DbStorage implements IStorage {
-  async getUser(id: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
-    return result[0];
+      const total = qty * price;
+      const released = limitOrderRelease(buy, buyer.id, { marketId: buy.marketId, outcomeId: buy.outcomeId, side: "BUY", qty });
+
+      await tx.update(limitOrders).set(limitOrderAfterFill(buy, qty, released)).where(eq(limitOrders.id, buy.id));
+      await tx.update(limitOrders).set(limitOrderAfterFill(sell, qty, 0)).where(eq(limitOrders.id, sell.id));
+      await tx.update(users).set({ balance: buyer.balance + released - total }).where(eq(users.id, buyer.id));
+      await tx.update(users).set({ balance: seller.balance + total }).where(eq(users.id, seller.id));
+
+      const fills = [
+        { order: buy, user: buyer, position: buyerPosition },
+        { order: sell, user: seller, position: sellerPosition },
+      ];
+      for (const { order, user, position } of fills) {
+        const next = nextPosition(position, order.side as TradeSide, qty, price);
+        if (position) {
+          await tx.update(positions).set(next).where(eq(positions.id, position.id));
+        } else {
+          await tx.insert(positions).values({
+            id: randomUUID(),
+            userId: user.id,
+            marketId: order.marketId,
+            outcomeId: order.outcomeId,
+            ...next,
+          });
+        }
+      }
+
+      await tx.insert(balanceEvents).values([
+        { id: randomUUID(), userId: buyer.id, type: "ORDER_RELEASE", amount: released, note: `Released reserve for ${qty} filled shares` },
+        { id: randomUUID(), userId: buyer.id, type: "TRADE", amount: -total, note: `Limit order: BUY ${qty} shares at $${price.toFixed(2)}` },
+        { id: randomUUID(), userId: seller.id, type: "TRADE", amount: total, note: `Limit order: SELL ${qty} shares at $${price.toFixed(2)}` },
+      ]);
+
+      return tx.insert(trades).values([
+        { id: randomUUID(), userId: buyer.id, marketId: buy.marketId, outcomeId: buy.outcomeId, side: "BUY", qty, price, total },
+        { id: randomUUID(), userId: seller.id, marketId: sell.marketId, outcomeId: sell.outcomeId, side: "SELL", qty, price, total },
+      ]).returning();
+    });
   }
 
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.email, email)).limit(1);
+  async createConditionalOrder(
+    order: Omit<ConditionalOrder, "id" | "status" | "tradeId" | "note" | "createdAt" | "triggeredAt">
+  ): Promise<ConditionalOrder> {
+    const result = await db.insert(conditionalOrders).values(order).returning();
     return result[0];
   }
 
-  async createUser(user: InsertUser & { id?: string }): Promise<User> {
-    const id = user.id || randomUUID();
-    const DEVELOPER_EMAILS = [
-      "alex.kindler@menloschool.org",
-      "lincoln.bott@menloschool.org",
-    ];
-    const isDeveloper = DEVELOPER_EMAILS.includes(user.email.toLowerCase());
-    
-    const result = await db.insert(users).values({
-      id,
-      email: user.email,
-      password: hashPassword(user.password),
-      displayName: user.displayName,
-      grade: user.grade || null,
-      role: "STUDENT",
-      status: "VERIFIED",
-      emailVerifiedAt: new Date(),
-      balance: 1000,
-      disclaimerAcceptedAt: null,
-      lastBankruptcyReset: null,
-      hasMkAiAccess: isDeveloper,
-    }).returning();
+  async getConditionalOrder(id: string): Promise<ConditionalOrder | undefined> {
+    const result = await db.select().from(conditionalOrders).where(eq(conditionalOrders.id, id));
+    return result[0];
+  }
 
-    await this.logBalanceEvent({
-      userId: id,
-      type: "STARTING_CREDIT",
-      amount: 1000,
-      note: "Initial balance upon registration",
-    });
+  async getConditionalOrdersByUser(userId: string, status?: ConditionalOrderStatus): Promise<ConditionalOrder[]> {
+    return db.select().from(conditionalOrders)
+      .where(status
+        ? and(eq(conditionalOrders.userId, userId), eq(conditionalOrders.status, status))
+        : eq(conditionalOrders.userId, userId))
+      .orderBy(desc(conditionalOrders.createdAt));
+  }
 
-    return result[0];
+  async getActiveConditionalOrders(marketId?: string): Promise<ConditionalOrder[]> {
+    return db.select().from(conditionalOrders)
+      .where(marketId
+        ? and(eq(conditionalOrders.status, "ACTIVE"), eq(conditionalOrders.marketId, marketId))
+        : eq(conditionalOrders.status, "ACTIVE"))
+      .orderBy(conditionalOrders.createdAt);
   }
 
-  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
-    const result = await db.update(users).set(updates).where(eq(users.id, id)).returning();
+  async transitionConditionalOrder(
+    id: string,
+    fromStatus: ConditionalOrderStatus,
+    updates: Partial<ConditionalOrder>
+  ): Promise<ConditionalOrder | undefined> {
+    const result = await db.update(conditionalOrders)
+      .set(updates)
+      .where(and(eq(conditionalOrders.id, id), eq(conditionalOrders.status, fromStatus)))
+      .returning();
     return result[0];
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return db.select().from(users);
+  // Locks a stock's market and price rows for a short or cover
+  private async lockStockMarket(tx: Tx, marketId: string): Promise<MarketWithDetails | undefined> {
+    const [market] = await tx.select().from(markets).where(eq(markets.id, marketId)).for("update");
+    if (!market) return undefined;
+    const [meta] = await tx.select().from(stockMetaTable)
+      .where(eq(stockMetaTable.marketId, marketId))
+      .for("update");
+    return { ...market, stockMeta: meta };
   }
 
-  async createVerificationToken(userId: string): Promise<string> {
-    const token = randomUUID();
-    const tokenHash = createHash("sha256").update(token).digest("hex");
-    await db.insert(emailVerificationTokens).values({
-      userId,
-      tokenHash,
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  async openShort(userId: string, order: ShortOrder): Promise<ShortExecution> {
+    return db.transaction(async (tx) => {
+      // Same lock order as executeTrade: user, market, price rows, then the position
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+      const market = await this.lockStockMarket(tx, order.marketId);
+      const [existing] = await tx.select().from(shortPositions)
+        .where(and(
+          eq(shortPositions.userId, userId),
+          eq(shortPositions.marketId, order.marketId),
+          eq(shortPositions.status, "OPEN")
+        ))
+        .limit(1)
+        .for("update");
+
+      const { quote, margin } = priceShortOpen(market, order, user.balance);
+      const newBalance = user.balance - margin;
+
+      let short: ShortPosition;
+      if (existing) {
+        [short] = await tx.update(shortPositions)
+          .set(shortAfterOpen(existing, order.qty, quote, margin))
+          .where(eq(shortPositions.id, existing.id))
+          .returning();
+      } else {
+        [short] = await tx.insert(shortPositions).values({
+          id: randomUUID(),
+          userId,
+          marketId: order.marketId,
+          ...shortAfterOpen(undefined, order.qty, quote, margin),
+        }).returning();
+      }
+
+      const [trade] = await tx.insert(trades).values({
+        id: randomUUID(),
+        userId,
+        marketId: order.marketId,
+        outcomeId: null,
+        side: "SHORT",
+        qty: order.qty,
+        price: quote.averagePrice,
+        total: quote.total,
+      }).returning();
+
+      await tx.update(users).set({ balance: newBalance }).where(eq(users.id, userId));
+      await tx.insert(balanceEvents).values({
+        id: randomUUID(),
+        userId,
+        type: "SHORT_COLLATERAL",
+        amount: -margin,
+        note: `SHORT ${order.qty} shares at $${quote.averagePrice.toFixed(2)}`,
+      });
+      await tx.update(stockMetaTable)
+        .set({ currentPrice: quote.postTradePrice })
+        .where(eq(stockMetaTable.marketId, order.marketId));
+
+      return { short, trade, newBalance, quote };
     });
-    return token;
   }
 
-  async verifyToken(token: string): Promise<User | null> {
-    const tokenHash = createHash("sha256").update(token).digest("hex");
-    const result = await db.select().from(emailVerificationTokens)
-      .where(eq(emailVerificationTokens.tokenHash, tokenHash)).limit(1);
-    
-    if (!result[0]) return null;
-    const record = result[0];
-    
-    if (record.expiresAt < new Date() || record.usedAt) {
-      return null;
-    }
-    
-    const user = await this.getUser(record.userId);
-    if (!user) return null;
+  async coverShort(shortId: string, order: CoverOrder): Promise<ShortExecution> {
+    return db.transaction(async (tx) => {
+      // Peek to find the owner and market, then lock in the usual order and re-read
+      const [peek] = await tx.select().from(shortPositions).where(eq(shortPositions.id, shortId));
+      if (!peek) {
+        throw new TradeError("POSITION_NOT_FOUND", "Short position not found");
+      }
+      const [user] = await tx.select().from(users).where(eq(users.id, peek.userId)).for("update");
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+      const market = await this.lockStockMarket(tx, peek.marketId);
+      const [existing] = await tx.select().from(shortPositions)
+        .where(eq(shortPositions.id, shortId))
+        .for("update");
 
-    const updatedUser = await this.updateUser(user.id, {
-      status: "VERIFIED",
-      emailVerifiedAt: new Date(),
-      balance: 1000,
-    });
+      const { quote, qty, released } = priceShortCover(market, existing, order);
+      const newBalance = balanceAfterCover(user.balance, released, quote);
 
-    await this.logBalanceEvent({
-      userId: user.id,
-      type: "STARTING_CREDIT",
-      amount: 1000,
-      note: "Initial balance upon email verification",
+      const [short] = await tx.update(shortPositions)
+        .set(shortAfterCover(existing, qty, released, order.reason))
+        .where(eq(shortPositions.id, shortId))
+        .returning();
+
+      const [trade] = await tx.insert(trades).values({
+        id: randomUUID(),
+        userId: user.id,
+        marketId: existing.marketId,
+        outcomeId: null,
+        side: "COVER",
+        qty,
+        price: quote.averagePrice,
+        total: quote.total,
+      }).returning();
+
+      await tx.update(users).set({ balance: newBalance }).where(eq(users.id, user.id));
+      await tx.insert(balanceEvents).values({
+        id: randomUUID(),
+        userId: user.id,
+        type: "SHORT_COVER",
+        amount: newBalance - user.balance,
+        note: coverNote(order.reason, qty, quote, newBalance - user.balance),
+      });
+      await tx.update(stockMetaTable)
+        .set({ currentPrice: quote.postTradePrice })
+        .where(eq(stockMetaTable.marketId, existing.marketId));
+
+      return { short, trade, newBalance, quote };
     });
+  }
 
-    await db.update(emailVerificationTokens)
-      .set({ usedAt: new Date() })
-      .where(eq(emailVerificationTokens.tokenHash, tokenHash));
+  async chargeBorrowFees(rate: number): Promise<number> {
+    const fee = sql`${shortPositions.qty} * ${stockMetaTable.currentPrice} * ${rate}`;
+    const charged = await db.update(shortPositions)
+      .set({
+        collateral: sql`${shortPositions.collateral} - ${fee}`,
+        borrowFeesPaid: sql`${shortPositions.borrowFeesPaid} + ${fee}`,
+      })
+      .from(stockMetaTable)
+      .where(and(
+        eq(stockMetaTable.marketId, shortPositions.marketId),
+        eq(shortPositions.status, "OPEN")
+      ))
+      .returning({ id: shortPositions.id });
+    return charged.length;
+  }
 
-    return updatedUser || null;
+  async getShortPosition(id: string): Promise<ShortPosition | undefined> {
+    const result = await db.select().from(shortPositions).where(eq(shortPositions.id, id));
+    return result[0];
   }
 
-  async createPasswordResetToken(userId: string): Promise<string> {
-    const token = randomUUID();
-    const tokenHash = createHash("sha256").update(token).digest("hex");
-    await db.insert(passwordResetTokens).values({
-      userId,
-      tokenHash,
-      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
-    });
-    return token;
+  async getShortPositionsByUser(userId: string, status?: ShortPositionStatus): Promise<ShortPosition[]> {
+    return db.select().from(shortPositions)
+      .where(status
+        ? and(eq(shortPositions.userId, userId), eq(shortPositions.status, status))
+        : eq(shortPositions.userId, userId))
+      .orderBy(desc(shortPositions.createdAt));
   }
 
-  async verifyPasswordResetToken(token: string): Promise<User | null> {
-    const tokenHash = createHash("sha256").update(token).digest("hex");
-    const result = await db.select().from(passwordResetTokens)
-      .where(eq(passwordResetTokens.tokenHash, tokenHash)).limit(1);
-    
-    if (!result[0]) return null;
-    const record = result[0];
-    
-    if (record.expiresAt < new Date() || record.usedAt) {
-      return null;
-    }
-    
-    const user = await this.getUser(record.userId);
-    return user || null;
+  async getOpenShortPositions(marketId?: string): Promise<ShortPosition[]> {
+    return db.select().from(shortPositions)
+      .where(marketId
+        ? and(eq(shortPositions.status, "OPEN"), eq(shortPositions.marketId, marketId))
+        : eq(shortPositions.status, "OPEN"))
+      .orderBy(shortPositions.createdAt);
   }
 
-  async markPasswordResetTokenUsed(token: string): Promise<void> {
-    const tokenHash = createHash("sha256").update(token).digest("hex");
-    await db.update(passwordResetTokens)
-      .set({ usedAt: new Date() })
-      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+  async createIpoRequest(
+    request: Omit<IpoRequest, "id" | "status" | "marketId" | "reviewedBy" | "reason" | "createdAt" | "reviewedAt">
+  ): Promise<IpoRequest> {
+    const result = await db.insert(ipoRequests).values({ ...request, id: randomUUID() }).returning();
+    return result[0];
   }
 
-  private async enrichMarket(market: Market): Promise<MarketWithDetails> {
-    const creator = await this.getUser(market.createdBy);
-    const marketOutcomes = market.type === "PREDICTION" 
-      ? await this.getOutcomesByMarket(market.id) 
-      : undefined;
-    const stockMetaData = market.type === "STOCK" 
-      ? await this.getStockMeta(market.id) 
-      : undefined;
+  async getIpoRequest(id: string): Promise<IpoRequest | undefined> {
+    const result = await db.select().from(ipoRequests).where(eq(ipoRequests.id, id));
+    return result[0];
+  }
 
-    return {
-      ...market,
-      outcomes: marketOutcomes,
-      stockMeta: stockMetaData,
-      creatorName: creator?.displayName,
-    };
+  async getIpoRequests(status?: IpoRequestStatus): Promise<IpoRequest[]> {
+    return db.select().from(ipoRequests)
+      .where(status ? eq(ipoRequests.status, status) : undefined)
+      .orderBy(ipoRequests.createdAt);
   }
 
-  async getMarkets(type?: string): Promise<MarketWithDetails[]> {
-    let query = db.select().from(markets)
-      .where(ne(markets.status, "HIDDEN"))
-      .orderBy(desc(markets.createdAt));
-    
-    const result = await query;
-    const filtered = type ? result.filter(m => m.type === type) : result;
-    return Promise.all(filtered.map((m) => this.enrichMarket(m)));
+  async getIpoRequestsByUser(userId: string): Promise<IpoRequest[]> {
+    return db.select().from(ipoRequests)
+      .where(eq(ipoRequests.requestedBy, userId))
+      .orderBy(desc(ipoRequests.createdAt));
+  }
+
+  async updateIpoRequest(
+    id: string,
+    updates: Partial<IpoRequest>,
+    fromStatus?: IpoRequestStatus
+  ): Promise<IpoRequest | undefined> {
+    const result = await db.update(ipoRequests)
+      .set(updates)
+      .where(fromStatus ? and(eq(ipoRequests.id, id), eq(ipoRequests.status, fromStatus)) : eq(ipoRequests.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteIpoStock(marketId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      // Locked like subscribeToIpo locks it, so nobody can subscribe while it's taken down
+      const [market] = await tx.select().from(markets).where(eq(markets.id, marketId)).for("update");
+      if (!market || market.type !== "STOCK" || market.status !== "IPO") return false;
+      const [subscription] = await tx.select({ id: ipoSubscriptions.id }).from(ipoSubscriptions)
+        .where(eq(ipoSubscriptions.marketId, marketId))
+        .limit(1);
+      if (subscription) return false;
+
+      await tx.delete(stockCandles).where(eq(stockCandles.marketId, marketId));
+      await tx.delete(stockSimProfiles).where(eq(stockSimProfiles.marketId, marketId));
+      await tx.delete(stockMetaTable).where(eq(stockMetaTable.marketId, marketId));
+      await tx.delete(marketStatusHistory).where(eq(marketStatusHistory.marketId, marketId));
+      await tx.delete(markets).where(eq(markets.id, marketId));
+      return true;
+    });
+  }
+
+  async subscribeToIpo(userId: string, marketId: string, qty: number): Promise<IpoSubscriptionExecution> {
+    return db.transaction(async (tx) => {
+      // Same lock order as executeTrade: user, then market and price rows
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+      const market = await this.lockStockMarket(tx, marketId);
+      const [existing] = await tx.select().from(ipoSubscriptions)
+        .where(and(eq(ipoSubscriptions.userId, userId), eq(ipoSubscriptions.marketId, marketId)))
+        .limit(1);
+
+      const cost = priceIpoSubscription(market, existing, qty, user.balance);
+      const newBalance = user.balance - cost;
+      const price = market!.stockMeta!.initialPrice;
+
+      const [subscription] = await tx.insert(ipoSubscriptions).values({
+        id: randomUUID(),
+        userId,
+        marketId,
+        qty,
+        price,
+      }).returning();
+      await tx.update(users).set({ balance: newBalance }).where(eq(users.id, userId));
+      await tx.insert(balanceEvents).values({
+        id: randomUUID(),
+        userId,
+        type: "IPO_SUBSCRIBE",
+        amount: -cost,
+        note: `IPO: subscribed to ${qty} ${market!.stockMeta!.ticker} shares at $${price.toFixed(2)}`,
+      });
+
+      return { subscription, newBalance };
+    });
   }
 
-  async getMarket(id: string): Promise<MarketWithDetails | undefined> {
-    const result = await db.select().from(markets).where(eq(markets.id, id)).limit(1);
-    if (!result[0]) return undefined;
-    return this.enrichMarket(result[0]);
+  async allocateIpoSubscription(id: string, allocatedQty: number): Promise<IpoSubscription> {
+    return db.transaction(async (tx) => {
+      // Peek for the owner, then lock user before the subscription like every other money path
+      const [peek] = await tx.select().from(ipoSubscriptions).where(eq(ipoSubscriptions.id, id));
+      if (!peek) {
+        throw new TradeError("ORDER_NOT_FOUND", "Subscription not found");
+      }
+      const [user] = await tx.select().from(users).where(eq(users.id, peek.userId)).for("update");
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+      const [existing] = await tx.select().from(ipoSubscriptions).where(eq(ipoSubscriptions.id, id)).for("update");
+      const [subscription] = await tx.update(ipoSubscriptions)
+        .set(ipoSubscriptionAfterAllocation(existing, allocatedQty))
+        .where(eq(ipoSubscriptions.id, id))
+        .returning();
+
+      const refund = (subscription.qty - allocatedQty) * subscription.price;
+      await tx.update(users).set({ balance: user.balance + refund }).where(eq(users.id, user.id));
+      if (refund > 0) {
+        await tx.insert(balanceEvents).values({
+          id: randomUUID(),
+          userId: user.id,
+          type: "IPO_REFUND",
+          amount: refund,
+          note: `IPO: refunded ${subscription.qty - allocatedQty} unallocated shares`,
+        });
+      }
+
+      if (allocatedQty > 0) {
+        const [position] = await tx.select().from(positions)
+          .where(positionMatch(user.id, subscription.marketId, null))
+          .limit(1)
+          .for("update");
+        const next = nextPosition(position, "BUY", allocatedQty, subscription.price);
+        if (position) {
+          await tx.update(positions).set(next).where(eq(positions.id, position.id));
+        } else {
+          await tx.insert(positions).values({
+            id: randomUUID(),
+            userId: user.id,
+            marketId: subscription.marketId,
+            outcomeId: null,
+            ...next,
+          });
+        }
+        await tx.insert(trades).values({
+          id: randomUUID(),
+          userId: user.id,
+          marketId: subscription.marketId,
+          outcomeId: null,
+          side: "BUY",
+          qty: allocatedQty,
+          price: subscription.price,
+          total: allocatedQty * subscription.price,
+        });
+      }
+
+      return subscription;
+    });
   }
 
-  async createMarket(market: Omit<Market, "id" | "createdAt">): Promise<Market> {
-    const id = randomUUID();
-    const result = await db.insert(markets).values({
-      ...market,
-      id,
-    }).returning();
-    return result[0];
+  async getIpoSubscriptions(marketId: string, status?: IpoSubscriptionStatus): Promise<IpoSubscription[]> {
+    return db.select().from(ipoSubscriptions)
+      .where(status
+        ? and(eq(ipoSubscriptions.marketId, marketId), eq(ipoSubscriptions.status, status))
+        : eq(ipoSubscriptions.marketId, marketId))
+      .orderBy(ipoSubscriptions.createdAt);
   }
 
-  async updateMarket(id: string, updates: Partial<Market>): Promise<Market | undefined> {
-    const result = await db.update(markets).set(updates).where(eq(markets.id, id)).returning();
-    return result[0];
+  async getIpoSubscriptionsByUser(userId: string): Promise<IpoSubscription[]> {
+    return db.select().from(ipoSubscriptions)
+      .where(eq(ipoSubscriptions.userId, userId))
+      .orderBy(desc(ipoSubscriptions.createdAt));
   }
 
-  async createOutcome(outcome: Omit<Outcome, "id">): Promise<Outcome> {
-    const id = randomUUID();
-    const result = await db.insert(outcomes).values({
-      ...outcome,
-      id,
-    }).returning();
-    return result[0];
-  }
+  async placeParlay(userId: string, stake: number, potentialPayout: number, legs: NewParlayLeg[]): Promise<ParlayExecution> {
+    return db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+      if (user.balance < stake) {
+        throw new TradeError("INSUFFICIENT_BALANCE", `A $${stake.toFixed(2)} stake is more than your balance`);
+      }
 
-  async getOutcomesByMarket(marketId: string): Promise<Outcome[]> {
-    return db.select().from(outcomes).where(eq(outcomes.marketId, marketId));
+      const [parlay] = await tx.insert(parlays).values({
+        id: randomUUID(),
+        userId,
+        stake,
+        potentialPayout,
+      }).returning();
+      const newLegs = await tx.insert(parlayLegs)
+        .values(legs.map((leg) => ({ ...leg, id: randomUUID(), parlayId: parlay.id })))
+        .returning();
+      const newBalance = user.balance - stake;
+      await tx.update(users).set({ balance: newBalance }).where(eq(users.id, userId));
+      await tx.insert(balanceEvents).values({
+        id: randomUUID(),
+        userId,
+        type: "PARLAY_STAKE",
+        amount: -stake,
+        note: `Parlay: ${legs.length}-leg slip paying $${potentialPayout.toFixed(2)}`,
+      });
+
+      return { parlay, legs: newLegs, newBalance };
+    });
   }
 
-  async updateOutcome(id: string, updates: Partial<Outcome>): Promise<Outcome | undefined> {
-    const result = await db.update(outcomes).set(updates).where(eq(outcomes.id, id)).returning();
+  async getParlay(id: string): Promise<Parlay | undefined> {
+    const result = await db.select().from(parlays).where(eq(parlays.id, id)).limit(1);
     return result[0];
   }
 
-  async createStockMeta(stockMetaData: Omit<StockMeta, "id">): Promise<StockMeta> {
-    const id = randomUUID();
-    const result = await db.insert(stockMetaTable).values({
-      ...stockMetaData,
-      id,
-    }).returning();
-    return result[0];
+  async getParlaysByUser(userId: string, status?: ParlayStatus): Promise<Parlay[]> {
+    return db.select().from(parlays)
+      .where(status ? and(eq(parlays.userId, userId), eq(parlays.status, status)) : eq(parlays.userId, userId))
+      .orderBy(desc(parlays.createdAt));
   }
 
-  async getStockMeta(marketId: string): Promise<StockMeta | undefined> {
-    const result = await db.select().from(stockMetaTable)
-      .where(eq(stockMetaTable.marketId, marketId)).limit(1);
-    return result[0];
+  async getParlayLegs(parlayId: string): Promise<ParlayLeg[]> {
+    return db.select().from(parlayLegs).where(eq(parlayLegs.parlayId, parlayId));
   }
 
-  async updateStockMeta(marketId: string, updates: Partial<StockMeta>): Promise<StockMeta | undefined> {
-    const result = await db.update(stockMetaTable)
-      .set(updates)
-      .where(eq(stockMetaTable.marketId, marketId))
+  async getPendingParlayLegs(marketId: string): Promise<ParlayLeg[]> {
+    return db.select().from(parlayLegs)
+      .where(and(eq(parlayLegs.marketId, marketId), eq(parlayLegs.status, "PENDING")));
+  }
+
+  async settleParlayLeg(id: string, status: Exclude<ParlayLegStatus, "PENDING">): Promise<ParlayLeg | undefined> {
+    const result = await db.update(parlayLegs)
+      .set({ status, settledAt: new Date() })
+      .where(and(eq(parlayLegs.id, id), eq(parlayLegs.status, "PENDING")))
       .returning();
     return result[0];
   }
 
-  async createTrade(trade: Omit<Trade, "id" | "createdAt">): Promise<Trade> {
-    const id = randomUUID();
-    const result = await db.insert(trades).values({
-      ...trade,
-      id,
-    }).returning();
-    return result[0];
+  async settleParlay(id: string, status: Exclude<ParlayStatus, "OPEN">, payout: number): Promise<Parlay | undefined> {
+    return db.transaction(async (tx) => {
+      // Peek for the owner, then lock user before the slip like every other money path
+      const [peek] = await tx.select().from(parlays).where(eq(parlays.id, id));
+      if (!peek) return undefined;
+      const [user] = await tx.select().from(users).where(eq(users.id, peek.userId)).for("update");
+      if (!user) {
+        throw new TradeError("USER_NOT_FOUND", "User not found");
+      }
+      const [parlay] = await tx.select().from(parlays).where(eq(parlays.id, id)).for("update");
+      if (parlay.status !== "OPEN") return undefined;
+
+      const [settled] = await tx.update(parlays)
+        .set({ status, payout, settledAt: new Date() })
+        .where(eq(parlays.id, id))
+        .returning();
+      if (payout > 0) {
+        await tx.update(users).set({ balance: user.balance + payout }).where(eq(users.id, user.id));
+        await tx.insert(balanceEvents).values({
+          id: randomUUID(),
+          userId: user.id,
+          type: status === "VOID" ? "PARLAY_REFUND" : "PARLAY_PAYOUT",
+          amount: payout,
+          note: status === "VOID" ? "Parlay: every leg was voided" : "Parlay: slip won",
+        });
+      }
+      return settled;
+    });
   }
 
-  async getTradesByUser(userId: string): Promise<Trade[]> {
-    return db.select().from(trades)
-      .where(eq(trades.userId, userId))
-      .orderBy(desc(trades.createdAt));
+  // Stakes on a user's open parlays, for portfolio totals
+  private async getParlaysValue(userId: string): Promise<number> {
+    const result = await db.select({ total: sql<number>`coalesce(sum(${parlays.stake}), 0)` })
+      .from(parlays)
+      .where(and(eq(parlays.userId, userId), eq(parlays.status, "OPEN")));
+    return Number(result[0]?.total ?? 0);
   }
 
+
   async getPosition(userId: string, marketId: string, outcomeId?: string): Promise<Position | undefined> {
     let result;
     if (outcomeId) {
@@ -1223,6 +4124,96 @@ export class DbStorage implements IStorage {
       ));
   }
 
+  async getPositionsByMarket(marketId: string): Promise<Position[]> {
+    return db.select().from(positions)
+      .where(and(
+        eq(positions.marketId, marketId),
+        sql`${positions.qty} > 0`
+      ));
+  }
+
+  async settleMarketPositions(
+    marketId: string,
+    closing: MarketClosing,
+    payoutFor: (position: Position) => PositionPayout
+  ): Promise<MarketSettlement | undefined> {
+    return db.transaction(async (tx) => {
+      // Same lock order as executeTrade: holders first - in id order, so two
+      // settlements sharing holders can't deadlock - then the market, then
+      // their positions
+      const lockHolders = () => tx.select().from(users)
+        .where(inArray(
+          users.id,
+          tx.select({ userId: positions.userId }).from(positions).where(eq(positions.marketId, marketId))
+        ))
+        .orderBy(asc(users.id))
+        .for("update");
+      await lockHolders();
+      const [market] = await tx.select().from(markets).where(eq(markets.id, marketId)).for("update");
+      if (!market || market.status !== closing.fromStatus) return undefined;
+      // No trade gets past the market lock now, so this only adds anyone whose
+      // first trade here committed before we got it
+      const holders = await lockHolders();
+
+      await tx.update(markets).set({ status: closing.toStatus }).where(eq(markets.id, marketId));
+      await tx.insert(marketStatusHistory).values({
+        id: randomUUID(),
+        marketId,
+        fromStatus: market.status,
+        toStatus: closing.toStatus,
+        changedBy: closing.changedBy,
+        reason: closing.reason ?? null,
+      });
+      const [resolution] = closing.resolution
+        ? await tx.insert(resolutions).values({ ...closing.resolution, id: randomUUID() }).returning()
+        : [];
+
+      const type = closing.toStatus === "RESOLVED" ? "RESOLUTION_PAYOUT" : "VOID_REFUND";
+      const marketPositions = await tx.select().from(positions)
+        .where(and(eq(positions.marketId, marketId), sql`${positions.qty} > 0`))
+        .for("update");
+
+      const balances = new Map(holders.map((holder) => [holder.id, holder.balance]));
+      let payouts = 0;
+      let totalPaid = 0;
+      for (const position of marketPositions) {
+        const payout = payoutFor(position);
+        const balance = balances.get(position.userId);
+        if (!payout || payout.amount <= 0 || balance === undefined) continue;
+        balances.set(position.userId, balance + payout.amount);
+        await tx.insert(balanceEvents).values({
+          id: randomUUID(),
+          userId: position.userId,
+          type,
+          amount: payout.amount,
+          note: payout.note,
+        });
+        payouts++;
+        totalPaid += payout.amount;
+      }
+
+      for (const holder of holders) {
+        const balance = balances.get(holder.id)!;
+        if (balance !== holder.balance) {
+          await tx.update(users).set({ balance }).where(eq(users.id, holder.id));
+        }
+      }
+      await tx.update(positions).set({ qty: 0 }).where(eq(positions.marketId, marketId));
+      return { resolution, payouts, totalPaid };
+    });
+  }
+
+  async getSharesOutstanding(marketId: string): Promise<number> {
+    const result = await db.select({
+      total: sql<number>`coalesce(sum(${positions.qty}), 0)`,
+    }).from(positions)
+      .where(and(
+        eq(positions.marketId, marketId),
+        sql`${positions.qty} > 0`
+      ));
+    return Number(result[0]?.total ?? 0);
+  }
+
   async getCommentsByMarket(marketId: string): Promise<Comment[]> {
     return db.select().from(comments)
       .where(and(
@@ -1261,6 +4252,38 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async createResolution(resolution: Omit<Resolution, "id" | "resolvedAt">): Promise<Resolution> {
+    const id = randomUUID();
+    const result = await db.insert(resolutions).values({
+      ...resolution,
+      id,
+    }).returning();
+    return result[0];
+  }
+
+  async getResolution(marketId: string): Promise<Resolution | undefined> {
+    const result = await db.select().from(resolutions)
+      .where(eq(resolutions.marketId, marketId)).limit(1);
+    return result[0];
+  }
+
+  async createMarketReview(review: Omit<MarketReview, "id" | "createdAt">): Promise<MarketReview> {
+    const id = randomUUID();
+    const result = await db.insert(marketReviews).values({
+      ...review,
+      id,
+    }).returning();
+    return result[0];
+  }
+
+  async getLatestMarketReview(marketId: string): Promise<MarketReview | undefined> {
+    const result = await db.select().from(marketReviews)
+      .where(eq(marketReviews.marketId, marketId))
+      .orderBy(desc(marketReviews.createdAt))
+      .limit(1);
+    return result[0];
+  }
+
   async logBalanceEvent(event: Omit<BalanceEvent, "id" | "createdAt">): Promise<BalanceEvent> {
     const id = randomUUID();
     const result = await db.insert(balanceEvents).values({
@@ -1270,56 +4293,302 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async getLeaderboard(timeFilter?: string): Promise<LeaderboardEntry[]> {
-    const allUsers = await db.select().from(users)
+  async getBalanceEventsByUser(userId: string, since?: Date): Promise<BalanceEvent[]> {
+    return db.select().from(balanceEvents)
       .where(and(
-        eq(users.status, "VERIFIED"),
-        ne(users.role, "ADMIN")
-      ));
+        eq(balanceEvents.userId, userId),
+        since ? gt(balanceEvents.createdAt, since) : undefined
+      ))
+      .orderBy(asc(balanceEvents.createdAt));
+  }
 
-    const entries: LeaderboardEntry[] = await Promise.all(
-      allUsers.map(async (user) => {
-        const userPositions = await this.getPositionsByUser(user.id);
-        let positionsValue = 0;
-
-        for (const pos of userPositions) {
-          if (pos.outcomeId) {
-            const outcomeResult = await db.select().from(outcomes)
-              .where(eq(outcomes.id, pos.outcomeId)).limit(1);
-            if (outcomeResult[0]) {
-              positionsValue += pos.qty * outcomeResult[0].currentPrice;
-            }
-          } else {
-            const stockMetaResult = await db.select().from(stockMetaTable)
-              .where(eq(stockMetaTable.marketId, pos.marketId)).limit(1);
-            if (stockMetaResult[0]) {
-              positionsValue += pos.qty * stockMetaResult[0].currentPrice;
-            }
-          }
-        }
+  async getBalanceEventsByType(types: BalanceEventType[]): Promise<BalanceEvent[]> {
+    return db.select().from(balanceEvents)
+      .where(inArray(balanceEvents.type, types))
+      .orderBy(asc(balanceEvents.createdAt));
+  }
+
+  async getPortfolioValues(league?: LeaderboardLeague): Promise<PortfolioValue[]> {
+    return this.selectPortfolioValues(this.leaderboardWhere(league));
+  }
 
-        const totalValue = user.balance + positionsValue;
-        const changePercent = ((totalValue - 1000) / 1000) * 100;
+  // The students a leaderboard ranks: verified, not admins, and in the league if one is picked
+  private leaderboardWhere(league?: LeaderboardLeague): SQL | undefined {
+    return and(
+      eq(users.status, "VERIFIED"),
+      ne(users.role, "ADMIN"),
+      league?.grade ? eq(users.grade, league.grade) : undefined,
+      league?.groupId
+        ? inArray(
+            users.id,
+            db.select({ userId: leagueGroupMembers.userId }).from(leagueGroupMembers)
+              .where(eq(leagueGroupMembers.groupId, league.groupId))
+          )
+        : undefined
+    );
+  }
 
-        return {
-          rank: 0,
-          userId: user.id,
-          displayName: user.displayName,
-          grade: user.grade || undefined,
-          totalValue,
-          cashBalance: user.balance,
-          positionsValue,
-          changePercent,
-        };
-      })
+  async getPortfolioValue(userId: string): Promise<PortfolioValue | undefined> {
+    const result = await this.selectPortfolioValues(eq(users.id, userId));
+    return result[0];
+  }
+
+  // Values every matching user's portfolio in one query - the same sum as
+  // getPortfolio, with each part totalled per user in a grouped subquery
+  private portfolioValueQuery(where: SQL | undefined) {
+    const positionTotals = db.select({
+      userId: positions.userId,
+      value: sql<number>`sum(${positions.qty} * coalesce(${outcomes.currentPrice}, ${stockMetaTable.currentPrice}, 0))`.as("positions_value"),
+    }).from(positions)
+      .leftJoin(outcomes, eq(outcomes.id, positions.outcomeId))
+      .leftJoin(stockMetaTable, and(isNull(positions.outcomeId), eq(stockMetaTable.marketId, positions.marketId)))
+      .groupBy(positions.userId)
+      .as("position_totals");
+    const orderTotals = db.select({
+      userId: limitOrders.userId,
+      value: sql<number>`sum(${limitOrders.reservedAmount})`.as("reserved_orders"),
+    }).from(limitOrders)
+      .where(eq(limitOrders.status, "OPEN"))
+      .groupBy(limitOrders.userId)
+      .as("order_totals");
+    const subscriptionTotals = db.select({
+      userId: ipoSubscriptions.userId,
+      value: sql<number>`sum(${ipoSubscriptions.qty} * ${ipoSubscriptions.price})`.as("reserved_subscriptions"),
+    }).from(ipoSubscriptions)
+      .where(eq(ipoSubscriptions.status, "PENDING"))
+      .groupBy(ipoSubscriptions.userId)
+      .as("subscription_totals");
+    const shortTotals = db.select({
+      userId: shortPositions.userId,
+      value: sql<number>`sum(${shortPositions.collateral} - ${shortPositions.qty} * ${stockMetaTable.currentPrice})`.as("shorts_value"),
+    }).from(shortPositions)
+      .innerJoin(stockMetaTable, eq(stockMetaTable.marketId, shortPositions.marketId))
+      .where(eq(shortPositions.status, "OPEN"))
+      .groupBy(shortPositions.userId)
+      .as("short_totals");
+    const parlayTotals = db.select({
+      userId: parlays.userId,
+      value: sql<number>`sum(${parlays.stake})`.as("parlays_value"),
+    }).from(parlays)
+      .where(eq(parlays.status, "OPEN"))
+      .groupBy(parlays.userId)
+      .as("parlay_totals");
+
+    return db.select({
+      userId: sql<string>`${users.id}`.as("valued_user_id"),
+      positionsValue: sql<number>`coalesce(${positionTotals.value}, 0)::float8`.as("valued_positions"),
+      totalValue: sql<number>`(${users.balance}
+        + coalesce(${orderTotals.value}, 0)
+        + coalesce(${subscriptionTotals.value}, 0)
+        + coalesce(${positionTotals.value}, 0)
+        + coalesce(${shortTotals.value}, 0)
+        + coalesce(${parlayTotals.value}, 0))::float8`.as("valued_total"),
+    }).from(users)
+      .leftJoin(positionTotals, eq(positionTotals.userId, users.id))
+      .leftJoin(orderTotals, eq(orderTotals.userId, users.id))
+      .leftJoin(subscriptionTotals, eq(subscriptionTotals.userId, users.id))
+      .leftJoin(shortTotals, eq(shortTotals.userId, users.id))
+      .leftJoin(parlayTotals, eq(parlayTotals.userId, users.id))
+      .where(where);
+  }
+
+  private async selectPortfolioValues(where: SQL | undefined, executor: Tx | typeof db = db): Promise<PortfolioValue[]> {
+    const valued = this.portfolioValueQuery(where).as("valued");
+    const rows = await executor.select({
+      user: users,
+      positionsValue: valued.positionsValue,
+      totalValue: valued.totalValue,
+    }).from(valued)
+      .innerJoin(users, eq(users.id, valued.userId));
+
+    return rows.map((row) => ({
+      user: row.user,
+      totalValue: Number(row.totalValue),
+      cashBalance: row.user.balance,
+      positionsValue: Number(row.positionsValue),
+    }));
+  }
+
+  // Ranks the matching students by their return since `opensAt` (null for
+  // all-time), richest first on a tie. It's windowedReturnPercent worked out in
+  // SQL, as a subquery that a page of the leaderboard, one student's rank or a
+  // per-grade rollup reads in a single query.
+  private rankedPortfolios(where: SQL | undefined, opensAt: Date | null, now: Date = new Date()) {
+    const valued = this.portfolioValueQuery(where).as("valued");
+
+    // The snapshot each return is measured from - see getWindowBaselines. It
+    // only counts for students who joined before the window opened.
+    const baselines = db.selectDistinctOn([portfolioSnapshots.userId], {
+      userId: sql<string>`${portfolioSnapshots.userId}`.as("baseline_user_id"),
+      takenAt: sql<Date>`${portfolioSnapshots.takenAt}`.as("baseline_taken_at"),
+      totalValue: sql<number>`${portfolioSnapshots.totalValue}`.as("baseline_value"),
+    }).from(portfolioSnapshots)
+      .innerJoin(users, eq(users.id, portfolioSnapshots.userId))
+      .where(opensAt ? sql`${users.createdAt} < ${opensAt}` : sql`false`)
+      .orderBy(
+        portfolioSnapshots.userId,
+        sql`case when ${portfolioSnapshots.takenAt} <= ${opensAt} then 0 else 1 end`,
+        sql`case when ${portfolioSnapshots.takenAt} <= ${opensAt} then ${portfolioSnapshots.takenAt} end desc`,
+        asc(portfolioSnapshots.takenAt)
+      )
+      .as("baselines");
+
+    // External flows after the baseline, each with the start of its student's
+    // window: the baseline, or the first deposit for students without one
+    const flows = db.select({
+      userId: sql<string>`${balanceEvents.userId}`.as("flow_user_id"),
+      amount: sql<number>`${balanceEvents.amount}`.as("flow_amount"),
+      at: sql<Date>`${balanceEvents.createdAt}`.as("flow_at"),
+      start: sql<Date>`coalesce(${baselines.takenAt}, min(${balanceEvents.createdAt}) over (partition by ${balanceEvents.userId}))`.as("flow_start"),
+    }).from(balanceEvents)
+      .leftJoin(baselines, eq(baselines.userId, balanceEvents.userId))
+      .where(and(
+        inArray(balanceEvents.type, EXTERNAL_FLOW_TYPES),
+        sql`(${baselines.takenAt} is null or ${balanceEvents.createdAt} > ${baselines.takenAt})`
+      ))
+      .as("flows");
+
+    // Modified Dietz weights: the share of the window each flow was invested for
+    const span = sql`extract(epoch from (${now}::timestamp - ${flows.start}))`;
+    const flowTotals = db.select({
+      userId: flows.userId,
+      net: sql<number>`sum(${flows.amount})::float8`.as("flow_net"),
+      weighted: sql<number>`sum(${flows.amount} * case when ${span} > 0
+        then least(1, greatest(0, extract(epoch from (${now}::timestamp - ${flows.at})) / ${span}))
+        else 1 end)::float8`.as("flow_weighted"),
+    }).from(flows)
+      .groupBy(flows.userId)
+      .as("flow_totals");
+
+    const invested = sql`(coalesce(${baselines.totalValue}, 0) + coalesce(${flowTotals.weighted}, 0))`;
+    const changePercent = sql<number>`(case
+      when ${baselines.userId} is null and ${flowTotals.userId} is null then 0
+      when ${invested} <= 0 then 0
+      else (${valued.totalValue} - coalesce(${baselines.totalValue}, 0) - coalesce(${flowTotals.net}, 0)) / ${invested} * 100
+    end)::float8`;
+
+    return db.select({
+      userId: sql<string>`${users.id}`.as("ranked_user_id"),
+      displayName: sql<string>`${users.displayName}`.as("ranked_display_name"),
+      grade: sql<string | null>`${users.grade}`.as("ranked_grade"),
+      cashBalance: sql<number>`${users.balance}`.as("ranked_cash"),
+      totalValue: sql<number>`${valued.totalValue}`.as("ranked_total"),
+      positionsValue: sql<number>`${valued.positionsValue}`.as("ranked_positions"),
+      changePercent: changePercent.as("ranked_change"),
+      rank: sql<number>`(row_number() over (order by ${changePercent} desc, ${valued.totalValue} desc, ${users.id}))::int`.as("ranked_rank"),
+    }).from(valued)
+      .innerJoin(users, eq(users.id, valued.userId))
+      .leftJoin(baselines, eq(baselines.userId, valued.userId))
+      .leftJoin(flowTotals, eq(flowTotals.userId, valued.userId))
+      .as("ranked");
+  }
+
+  // The ranking, or just the rows asked for
+  private async rankPortfolios(
+    where: SQL | undefined,
+    opensAt: Date | null,
+    only: { limit: number; offset: number } | { userId: string } | null
+  ): Promise<LeaderboardEntry[]> {
+    const ranked = this.rankedPortfolios(where, opensAt);
+    const query = db.select().from(ranked)
+      .where(only && "userId" in only ? eq(ranked.userId, only.userId) : undefined)
+      .orderBy(asc(ranked.rank));
+    const rows = only && "limit" in only ? await query.limit(only.limit).offset(only.offset) : await query;
+
+    return rows.map((row) => ({
+      rank: Number(row.rank),
+      userId: row.userId,
+      displayName: row.displayName,
+      grade: row.grade || undefined,
+      totalValue: Number(row.totalValue),
+      cashBalance: Number(row.cashBalance),
+      positionsValue: Number(row.positionsValue),
+      changePercent: Number(row.changePercent),
+    }));
+  }
+
+  async getLeaderboard(timeFilter?: string, query?: LeaderboardQuery): Promise<LeaderboardEntry[]> {
+    return this.rankPortfolios(
+      this.leaderboardWhere(query),
+      windowStart(parseLeaderboardWindow(timeFilter)),
+      query ? { limit: query.limit, offset: query.offset } : null
     );
+  }
 
-    entries.sort((a, b) => b.totalValue - a.totalValue);
-    entries.forEach((entry, index) => {
-      entry.rank = index + 1;
-    });
+  async getLeaderboardEntry(userId: string, timeFilter?: string, league?: LeaderboardLeague): Promise<LeaderboardEntry | undefined> {
+    const [entry] = await this.rankPortfolios(
+      this.leaderboardWhere(league),
+      windowStart(parseLeaderboardWindow(timeFilter)),
+      { userId }
+    );
+    return entry && { ...entry, isCurrentUser: true };
+  }
+
+  async getGradeStandings(timeFilter?: string): Promise<GradeStanding[]> {
+    const ranked = this.rankedPortfolios(this.leaderboardWhere(), windowStart(parseLeaderboardWindow(timeFilter)));
+    const averageReturn = sql`avg(${ranked.changePercent})`;
+    // Ties go to the grade whose leader ranks higher, as in gradeStandings
+    const order = sql`${averageReturn} desc, count(*) desc, min(${ranked.rank})`;
+    // Each grade's leader is its best-ranked student
+    const leader = <T>(column: SQL.Aliased<T>) => sql<T>`(array_agg(${column} order by ${ranked.rank}))[1]`;
+    const rows = await db.select({
+      rank: sql<number>`(row_number() over (order by ${order}))::int`,
+      grade: ranked.grade,
+      students: sql<number>`count(*)::int`,
+      averageReturn: sql<number>`${averageReturn}::float8`,
+      totalValue: sql<number>`sum(${ranked.totalValue})::float8`,
+      leaderId: leader(ranked.userId),
+      leaderName: leader(ranked.displayName),
+      leaderChange: leader(ranked.changePercent),
+    }).from(ranked)
+      .where(sql`coalesce(${ranked.grade}, '') <> ''`)
+      .groupBy(ranked.grade)
+      .orderBy(order);
+
+    return rows.map((row) => ({
+      rank: Number(row.rank),
+      grade: row.grade!,
+      students: Number(row.students),
+      averageReturn: Number(row.averageReturn),
+      totalValue: Number(row.totalValue),
+      leader: { userId: row.leaderId, displayName: row.leaderName, changePercent: Number(row.leaderChange) },
+    }));
+  }
+
+  async savePortfolioSnapshot(snapshot: Omit<PortfolioSnapshot, "id" | "takenAt">): Promise<PortfolioSnapshot> {
+    const result = await db.insert(portfolioSnapshots)
+      .values(snapshot)
+      .onConflictDoUpdate({
+        target: [portfolioSnapshots.userId, portfolioSnapshots.day],
+        set: {
+          totalValue: snapshot.totalValue,
+          cashBalance: snapshot.cashBalance,
+          positionsValue: snapshot.positionsValue,
+          takenAt: new Date(),
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getPortfolioSnapshots(userId: string, since?: Date): Promise<PortfolioSnapshot[]> {
+    return db.select().from(portfolioSnapshots)
+      .where(and(
+        eq(portfolioSnapshots.userId, userId),
+        since ? gte(portfolioSnapshots.takenAt, since) : undefined
+      ))
+      .orderBy(asc(portfolioSnapshots.takenAt));
+  }
 
-    return entries;
+  async getWindowBaselines(at: Date): Promise<PortfolioSnapshot[]> {
+    // Snapshots at or before `at` sort first, newest first; then the rest, oldest first
+    return db.selectDistinctOn([portfolioSnapshots.userId]).from(portfolioSnapshots)
+      .orderBy(
+        portfolioSnapshots.userId,
+        sql`case when ${portfolioSnapshots.takenAt} <= ${at} then 0 else 1 end`,
+        sql`case when ${portfolioSnapshots.takenAt} <= ${at} then ${portfolioSnapshots.takenAt} end desc`,
+        asc(portfolioSnapshots.takenAt)
+      );
   }
 
   async getPortfolio(userId: string): Promise<PortfolioSummary> {
@@ -1328,9 +4597,13 @@ export class DbStorage implements IStorage {
       return {
         totalValue: 0,
         cashBalance: 0,
+        reservedCash: 0,
         positionsValue: 0,
+        shortsValue: 0,
+        parlaysValue: 0,
         totalPnL: 0,
         positions: [],
+        shorts: [],
         recentTrades: [],
       };
     }
@@ -1373,15 +4646,28 @@ export class DbStorage implements IStorage {
     );
 
     const positionsValue = enrichedPositions.reduce((sum, p) => sum + p.currentValue, 0);
-    const totalValue = user.balance + positionsValue;
+    const reservedCash = await this.getReservedCash(userId);
+    const shorts = await Promise.all(
+      (await this.getShortPositionsByUser(userId, "OPEN")).map(async (short) => {
+        const market = await this.getMarket(short.marketId);
+        return shortWithDetails(short, market, market?.stockMeta);
+      })
+    );
+    const shortsValue = shorts.reduce((sum, s) => sum + s.equity, 0);
+    const parlaysValue = await this.getParlaysValue(userId);
+    const totalValue = user.balance + reservedCash + positionsValue + shortsValue + parlaysValue;
     const totalPnL = totalValue - 1000;
 
     return {
       totalValue,
       cashBalance: user.balance,
+      reservedCash,
       positionsValue,
+      shortsValue,
+      parlaysValue,
       totalPnL,
       positions: enrichedPositions,
+      shorts,
       recentTrades: userTrades.slice(0, 20),
     };
   }
@@ -1466,6 +4752,56 @@ export class DbStorage implements IStorage {
     );
   }
 
+  async syncOutcomePrices(marketId: string, prices: Record<string, number>): Promise<Outcome[] | undefined> {
+    return db.transaction(async (tx) => {
+      const [market] = await tx.select().from(markets).where(eq(markets.id, marketId)).for("update");
+      if (!market || market.status !== "OPEN") return undefined;
+
+      const now = new Date();
+      const updated: Outcome[] = [];
+      for (const outcome of await tx.select().from(outcomes).where(eq(outcomes.marketId, marketId))) {
+        const price = prices[outcome.id];
+        if (price === undefined) {
+          updated.push(outcome);
+          continue;
+        }
+        const [next] = await tx.update(outcomes)
+          .set({ currentPrice: price })
+          .where(eq(outcomes.id, outcome.id))
+          .returning();
+        updated.push(next);
+
+        const [lastCandle] = await tx.select().from(marketCandles)
+          .where(and(eq(marketCandles.marketId, marketId), eq(marketCandles.outcomeId, outcome.id)))
+          .orderBy(desc(marketCandles.timestamp))
+          .limit(1);
+        if (lastCandle && new Date(lastCandle.timestamp).toDateString() === now.toDateString()) {
+          await tx.update(marketCandles)
+            .set({
+              close: price,
+              high: Math.max(lastCandle.high, price),
+              low: Math.min(lastCandle.low, price),
+            })
+            .where(eq(marketCandles.id, lastCandle.id));
+        } else {
+          const open = lastCandle?.close ?? outcome.currentPrice;
+          await tx.insert(marketCandles).values({
+            id: randomUUID(),
+            marketId,
+            outcomeId: outcome.id,
+            open,
+            high: Math.max(open, price),
+            low: Math.min(open, price),
+            close: price,
+            volume: 0,
+            timestamp: now,
+          });
+        }
+      }
+      return updated;
+    });
+  }
+
   async createGame(game: Partial<Game>): Promise<Game> {
     const id = randomUUID();
     const result = await db.insert(games).values({
@@ -1502,6 +4838,224 @@ export class DbStorage implements IStorage {
     return result.length > 0;
   }
 
+  async createGameMarket(gameMarket: Omit<GameMarket, "id" | "createdAt">): Promise<GameMarket> {
+    const result = await db.insert(gameMarkets).values(gameMarket).returning();
+    return result[0];
+  }
+
+  async getGameMarkets(gameId: string): Promise<GameMarket[]> {
+    return db.select().from(gameMarkets).where(eq(gameMarkets.gameId, gameId)).orderBy(asc(gameMarkets.createdAt));
+  }
+
+  async getGameIdForMarket(marketId: string): Promise<string | undefined> {
+    const [game] = await db.select({ id: games.id }).from(games).where(eq(games.marketId, marketId)).limit(1);
+    if (game) return game.id;
+    const [line] = await db.select({ gameId: gameMarkets.gameId }).from(gameMarkets)
+      .where(eq(gameMarkets.marketId, marketId))
+      .limit(1);
+    return line?.gameId;
+  }
+
+  async createLeagueGroup(group: InsertLeagueGroup & { createdBy: string }): Promise<LeagueGroup> {
+    const result = await db.insert(leagueGroups).values(group).returning();
+    return result[0];
+  }
+
+  async getLeagueGroup(id: string): Promise<LeagueGroup | undefined> {
+    const result = await db.select().from(leagueGroups).where(eq(leagueGroups.id, id));
+    return result[0];
+  }
+
+  async getLeagueGroups(): Promise<LeagueGroupWithCount[]> {
+    const rows = await db.select({
+      group: leagueGroups,
+      memberCount: sql<number>`count(${leagueGroupMembers.id})`,
+    }).from(leagueGroups)
+      .leftJoin(leagueGroupMembers, eq(leagueGroupMembers.groupId, leagueGroups.id))
+      .groupBy(leagueGroups.id)
+      .orderBy(asc(leagueGroups.name));
+    return rows.map((row) => ({ ...row.group, memberCount: Number(row.memberCount) }));
+  }
+
+  async deleteLeagueGroup(id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(leagueGroupMembers).where(eq(leagueGroupMembers.groupId, id));
+      const result = await tx.delete(leagueGroups).where(eq(leagueGroups.id, id)).returning();
+      return result.length > 0;
+    });
+  }
+
+  async addLeagueGroupMember(groupId: string, userId: string): Promise<boolean> {
+    const result = await db.insert(leagueGroupMembers)
+      .values({ groupId, userId })
+      .onConflictDoNothing()
+      .returning();
+    return result.length > 0;
+  }
+
+  async removeLeagueGroupMember(groupId: string, userId: string): Promise<boolean> {
+    const result = await db.delete(leagueGroupMembers)
+      .where(and(eq(leagueGroupMembers.groupId, groupId), eq(leagueGroupMembers.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getLeagueGroupMembers(groupId: string): Promise<LeagueGroupMemberWithUser[]> {
+    const rows = await db.select({ member: leagueGroupMembers, user: users })
+      .from(leagueGroupMembers)
+      .innerJoin(users, eq(users.id, leagueGroupMembers.userId))
+      .where(eq(leagueGroupMembers.groupId, groupId))
+      .orderBy(asc(users.displayName));
+    return rows.map(({ member, user }) => ({
+      ...member,
+      displayName: user.displayName,
+      email: user.email,
+      grade: user.grade || undefined,
+    }));
+  }
+
+  async getLeagueGrades(): Promise<string[]> {
+    const rows = await db.selectDistinct({ grade: users.grade }).from(users)
+      .where(and(
+        isNotNull(users.grade),
+        ne(users.grade, ""),
+        eq(users.status, "VERIFIED"),
+        ne(users.role, "ADMIN")
+      ))
+      .orderBy(asc(users.grade));
+    return rows.map((row) => row.grade!);
+  }
+
+  async createSeason(season: InsertSeason & { createdBy: string }): Promise<Season> {
+    const result = await db.insert(seasons).values(season).returning();
+    return result[0];
+  }
+
+  async getSeason(id: string): Promise<Season | undefined> {
+    const result = await db.select().from(seasons).where(eq(seasons.id, id));
+    return result[0];
+  }
+
+  async getSeasons(): Promise<Season[]> {
+    return db.select().from(seasons).orderBy(desc(seasons.startsAt));
+  }
+
+  async setSeasonStatus(id: string, status: SeasonStatus, fromStatus: SeasonStatus): Promise<Season | undefined> {
+    const result = await db.update(seasons)
+      .set(status === "ENDING" ? { status, completedAt: new Date() } : { status })
+      .where(and(eq(seasons.id, id), eq(seasons.status, fromStatus)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteSeason(id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(seasonResults).where(eq(seasonResults.seasonId, id));
+      const result = await tx.delete(seasons).where(eq(seasons.id, id)).returning();
+      return result.length > 0;
+    });
+  }
+
+  async saveSeasonResults(results: Omit<SeasonResult, "id" | "createdAt" | "resetAt">[]): Promise<void> {
+    if (results.length === 0) return;
+    await db.insert(seasonResults).values(results).onConflictDoNothing();
+  }
+
+  async getSeasonResults(seasonId: string, limit?: number): Promise<SeasonResult[]> {
+    const query = db.select().from(seasonResults)
+      .where(eq(seasonResults.seasonId, seasonId))
+      .orderBy(asc(seasonResults.rank));
+    return limit ? query.limit(limit) : query;
+  }
+
+  async getSeasonStandings(since: Date): Promise<LeaderboardEntry[]> {
+    return this.rankPortfolios(this.leaderboardWhere(), since, null);
+  }
+
+  async resetPortfolioForSeason(
+    seasonId: string,
+    userId: string,
+    startingBalance: number,
+    note: string
+  ): Promise<number | undefined> {
+    return db.transaction(async (tx) => {
+      // Same lock order as executeTrade - nothing can trade for the student
+      // between valuing the portfolio and closing it out
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) return undefined;
+      const now = new Date();
+      const [claimed] = await tx.update(seasonResults)
+        .set({ resetAt: now })
+        .where(and(eq(seasonResults.seasonId, seasonId), eq(seasonResults.userId, userId), isNull(seasonResults.resetAt)))
+        .returning();
+      if (!claimed) return undefined;
+
+      // Hand back everything held in reserve first, so the value below is cash
+      // plus whatever couldn't be sold
+      const refunds: { type: BalanceEventType; amount: number; note: string }[] = [];
+      const openOrders = await tx.select().from(limitOrders)
+        .where(and(eq(limitOrders.userId, userId), eq(limitOrders.status, "OPEN")))
+        .for("update");
+      for (const order of openOrders) {
+        if (order.reservedAmount > 0) {
+          refunds.push({
+            type: "ORDER_RELEASE",
+            amount: order.reservedAmount,
+            note: "Limit order cancelled - season ended",
+          });
+        }
+      }
+      await tx.update(limitOrders)
+        .set({ status: "CANCELLED", reservedAmount: 0, updatedAt: now })
+        .where(and(eq(limitOrders.userId, userId), eq(limitOrders.status, "OPEN")));
+      await tx.update(conditionalOrders)
+        .set({ status: "CANCELLED", note: "Season ended" })
+        .where(and(eq(conditionalOrders.userId, userId), eq(conditionalOrders.status, "ACTIVE")));
+      const subscriptions = await tx.update(ipoSubscriptions)
+        .set({ status: "REFUNDED", allocatedQty: 0, settledAt: now })
+        .where(and(eq(ipoSubscriptions.userId, userId), eq(ipoSubscriptions.status, "PENDING")))
+        .returning();
+      for (const subscription of subscriptions) {
+        refunds.push({
+          type: "IPO_REFUND",
+          amount: subscription.qty * subscription.price,
+          note: "IPO: subscription refunded - season ended",
+        });
+      }
+      const slips = await tx.update(parlays)
+        .set({ status: "VOID", payout: sql`${parlays.stake}`, settledAt: now })
+        .where(and(eq(parlays.userId, userId), eq(parlays.status, "OPEN")))
+        .returning();
+      for (const parlay of slips) {
+        refunds.push({ type: "PARLAY_REFUND", amount: parlay.stake, note: "Parlay: stake refunded - season ended" });
+      }
+      if (refunds.length > 0) {
+        const refunded = refunds.reduce((sum, r) => sum + r.amount, 0);
+        await tx.update(users).set({ balance: user.balance + refunded }).where(eq(users.id, userId));
+        await tx.insert(balanceEvents).values(refunds.map((r) => ({ id: randomUUID(), userId, ...r })));
+      }
+
+      // Anything still held is in a market that couldn't trade (closed, or in
+      // its IPO window), so there's no price to move - it's written off at
+      // the current mark
+      const [value] = await this.selectPortfolioValues(eq(users.id, userId), tx);
+      await tx.update(positions).set({ qty: 0 }).where(eq(positions.userId, userId));
+      await tx.update(shortPositions)
+        .set({ status: "COVERED", closedAt: now })
+        .where(and(eq(shortPositions.userId, userId), eq(shortPositions.status, "OPEN")));
+
+      await tx.update(users).set({ balance: startingBalance }).where(eq(users.id, userId));
+      await tx.insert(balanceEvents).values({
+        id: randomUUID(),
+        userId,
+        type: "SEASON_RESET",
+        amount: startingBalance - value.totalValue,
+        note,
+      });
+      return value.totalValue;
+    });
+  }
+
   async createPolymarketLink(link: Omit<PolymarketLink, "id" | "lastSynced">): Promise<PolymarketLink> {
     const id = randomUUID();
     const result = await db.insert(polymarketLinks).values({
@@ -1518,6 +5072,18 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async getPolymarketLinks(): Promise<PolymarketLink[]> {
+    return db.select().from(polymarketLinks);
+  }
+
+  async updatePolymarketLink(marketId: string, updates: Partial<PolymarketLink>): Promise<PolymarketLink | undefined> {
+    const result = await db.update(polymarketLinks)
+      .set(updates)
+      .where(eq(polymarketLinks.marketId, marketId))
+      .returning();
+    return result[0];
+  }
+
   async getPolymarketMarkets(): Promise<MarketWithDetails[]> {
     const links = await db.select().from(polymarketLinks);
     const polymarketMarketIds = new Set(links.map((link) => link.marketId));
@@ -0,0 +1,90 @@
+// Constant-product bonding curve for student stocks.
+//
+// Each stock trades against a virtual pool of cash (C) and shares (S) with
+// C * S = k. The spot price is C / S. The pool is sized off the stock's
+// `virtualLiquidity`: at the IPO price P0 it holds virtualLiquidity in cash, so
+// k = virtualLiquidity^2 / P0. At any later price P, the reserves are
+// C = sqrt(k * P) and S = sqrt(k / P). This means they depend only on the price
+// and a buy followed by the same sell round-trips exactly.
+//
+//   buy n:  cost     = C * n / (S - n),  post-trade price = k / (S - n)^2
+//   sell n: proceeds = C * n / (S + n),  post-trade price = k / (S + n)^2
+//
+// Shares held by students can never exceed `floatSupply`.
+
+export interface BondingCurveState {
+  currentPrice: number;
+  initialPrice: number;
+  virtualLiquidity: number;
+  floatSupply: number;
+  // Shares currently held across all student positions
+  sharesOutstanding: number;
+}
+
+export interface BondingCurveFill {
+  // Spot price before the trade
+  executionPrice: number;
+  // What the trader actually pays (or receives) per share
+  averagePrice: number;
+  postTradePrice: number;
+  total: number;
+}
+
+export class BondingCurveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BondingCurveError";
+  }
+}
+
+const MIN_PRICE = 0.01;
+
+export function poolReserves(state: Pick<BondingCurveState, "currentPrice" | "initialPrice" | "virtualLiquidity">) {
+  const anchor = state.initialPrice > 0 ? state.initialPrice : state.currentPrice;
+  const k = (state.virtualLiquidity * state.virtualLiquidity) / anchor;
+  return {
+    k,
+    cash: Math.sqrt(k * state.currentPrice),
+    shares: Math.sqrt(k / state.currentPrice),
+  };
+}
+
+export function quoteBondingCurveTrade(
+  state: BondingCurveState,
+  side: "BUY" | "SELL",
+  qty: number
+): BondingCurveFill {
+  if (!(state.currentPrice > 0) || !(state.virtualLiquidity > 0)) {
+    throw new BondingCurveError("Stock has no liquidity");
+  }
+
+  const { k, cash, shares } = poolReserves(state);
+
+  if (side === "BUY") {
+    if (state.sharesOutstanding + qty > state.floatSupply) {
+      const available = Math.max(0, state.floatSupply - state.sharesOutstanding);
+      throw new BondingCurveError(
+        `Only ${available} shares left in the float of ${state.floatSupply}`
+      );
+    }
+    if (qty >= shares) {
+      throw new BondingCurveError("Order is too large for the available liquidity");
+    }
+
+    const total = (cash * qty) / (shares - qty);
+    return {
+      executionPrice: state.currentPrice,
+      averagePrice: total / qty,
+      postTradePrice: k / ((shares - qty) * (shares - qty)),
+      total,
+    };
+  }
+
+  const total = (cash * qty) / (shares + qty);
+  return {
+    executionPrice: state.currentPrice,
+    averagePrice: total / qty,
+    postTradePrice: Math.max(MIN_PRICE, k / ((shares + qty) * (shares + qty))),
+    total,
+  };
+}
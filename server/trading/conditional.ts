@@ -0,0 +1,223 @@
+import type {
+  ConditionalOrder,
+  ConditionalOrderStatus,
+  ConditionalOrderWithDetails,
+  InsertConditionalOrder,
+  MarketWithDetails,
+  TradeErrorCode,
+} from "@shared/schema";
+import { storage, TradeError } from "../storage";
+import { executeTrade } from "./execute";
+import { marketQueues, serializePerKey } from "./serialize";
+
+export type ConditionalOrderResult =
+  | { ok: true; order: ConditionalOrder }
+  | { ok: false; code: TradeErrorCode; message: string };
+
+// Same cap as a regular trade - bigger positions are sold down 1000 shares per trigger
+const MAX_TRIGGER_QTY = 1000;
+
+// Price a trigger is compared against: the outcome's price for predictions, the stock price otherwise
+function marketPrice(market: MarketWithDetails, outcomeId: string | null): number | undefined {
+  if (market.type === "STOCK") return market.stockMeta?.currentPrice;
+  return market.outcomes?.find((o) => o.id === outcomeId)?.currentPrice;
+}
+
+function isTriggered(order: ConditionalOrder, price: number): boolean {
+  return order.type === "STOP_LOSS" ? price <= order.triggerPrice : price >= order.triggerPrice;
+}
+
+export async function createConditionalOrder(
+  userId: string,
+  input: InsertConditionalOrder
+): Promise<ConditionalOrderResult> {
+  const position = (await storage.getPositionsByUser(userId)).find((p) => p.id === input.positionId);
+  if (!position) {
+    return { ok: false, code: "POSITION_NOT_FOUND", message: "Position not found" };
+  }
+  if (input.qty && input.qty > position.qty) {
+    return { ok: false, code: "INSUFFICIENT_SHARES", message: `You only hold ${position.qty} shares` };
+  }
+
+  const market = await storage.getMarket(position.marketId);
+  if (!market) {
+    return { ok: false, code: "MARKET_NOT_FOUND", message: "Market not found" };
+  }
+  if (market.status !== "OPEN") {
+    return { ok: false, code: "MARKET_CLOSED", message: "Market is not open for trading" };
+  }
+
+  // A trigger on the wrong side of the price would fire straight away
+  const price = marketPrice(market, position.outcomeId) ?? 0;
+  if (input.type === "STOP_LOSS" && input.triggerPrice >= price) {
+    return {
+      ok: false,
+      code: "INVALID_ORDER",
+      message: `Stop-loss price must be below the current price of $${price.toFixed(2)}`,
+    };
+  }
+  if (input.type === "TAKE_PROFIT" && input.triggerPrice <= price) {
+    return {
+      ok: false,
+      code: "INVALID_ORDER",
+      message: `Take-profit price must be above the current price of $${price.toFixed(2)}`,
+    };
+  }
+
+  const order = await storage.createConditionalOrder({
+    userId,
+    positionId: position.id,
+    marketId: position.marketId,
+    outcomeId: position.outcomeId,
+    type: input.type,
+    triggerPrice: input.triggerPrice,
+    qty: input.qty ?? null,
+  });
+  return { ok: true, order };
+}
+
+export async function cancelConditionalOrder(orderId: string, userId: string): Promise<ConditionalOrderResult> {
+  const order = await storage.getConditionalOrder(orderId);
+  if (!order || order.userId !== userId) {
+    return { ok: false, code: "ORDER_NOT_FOUND", message: "Order not found" };
+  }
+  const cancelled = await storage.transitionConditionalOrder(orderId, "ACTIVE", { status: "CANCELLED" });
+  if (!cancelled) {
+    return { ok: false, code: "ORDER_NOT_OPEN", message: "Order is no longer active" };
+  }
+  return { ok: true, order: cancelled };
+}
+
+// Drops every active trigger on a market. Called when a market is resolved or voided.
+export async function cancelConditionalOrders(marketId: string, note: string): Promise<number> {
+  const active = await storage.getActiveConditionalOrders(marketId);
+  let cancelled = 0;
+  for (const order of active) {
+    if (await storage.transitionConditionalOrder(order.id, "ACTIVE", { status: "CANCELLED", note })) {
+      cancelled++;
+    }
+  }
+  return cancelled;
+}
+
+export async function getConditionalOrdersWithDetails(
+  userId: string,
+  status?: ConditionalOrderStatus
+): Promise<ConditionalOrderWithDetails[]> {
+  const orders = await storage.getConditionalOrdersByUser(userId, status);
+  const marketCache = new Map<string, MarketWithDetails | undefined>();
+  const result: ConditionalOrderWithDetails[] = [];
+
+  for (const order of orders) {
+    if (!marketCache.has(order.marketId)) {
+      marketCache.set(order.marketId, await storage.getMarket(order.marketId));
+    }
+    const market = marketCache.get(order.marketId);
+    result.push({
+      ...order,
+      market,
+      outcome: market?.outcomes?.find((o) => o.id === order.outcomeId),
+      ticker: market?.stockMeta?.ticker,
+    });
+  }
+  return result;
+}
+
+// ==================== TRIGGERS ====================
+
+// One check per market at a time, queued with matching and margin calls. A
+// stop-loss sale moves the price, which queues another check that may fire the
+// next stop.
+export function checkConditionalOrders(marketId: string): Promise<void> {
+  return serializePerKey(marketQueues, marketId, () => runCheck(marketId));
+}
+
+// Re-checks every market with active triggers (e.g. after a stock simulator tick)
+export async function checkAllConditionalOrders(): Promise<void> {
+  const active = await storage.getActiveConditionalOrders();
+  const marketIds = Array.from(new Set(active.map((o) => o.marketId)));
+  for (const marketId of marketIds) {
+    await checkConditionalOrders(marketId).catch((error) =>
+      console.error(`Conditional order check failed for ${marketId}:`, error)
+    );
+  }
+}
+
+async function runCheck(marketId: string): Promise<void> {
+  const active = await storage.getActiveConditionalOrders(marketId);
+
+  for (const order of active) {
+    // Re-read every time: each triggered sale moves the price
+    const market = await storage.getMarket(marketId);
+    if (!market || market.status !== "OPEN") return;
+
+    const price = marketPrice(market, order.outcomeId);
+    if (price === undefined || !isTriggered(order, price)) continue;
+
+    await fireConditionalOrder(order);
+  }
+}
+
+async function fireConditionalOrder(order: ConditionalOrder): Promise<void> {
+  // Claim it first so a concurrent check can't sell the same position twice
+  const claimed = await storage.transitionConditionalOrder(order.id, "ACTIVE", {
+    status: "TRIGGERED",
+    triggeredAt: new Date(),
+  });
+  if (!claimed) return;
+
+  const position = await storage.getPosition(order.userId, order.marketId, order.outcomeId ?? undefined);
+  const held = position?.qty ?? 0;
+  const qty = Math.min(order.qty ?? held, held, MAX_TRIGGER_QTY);
+  if (qty < 1) {
+    await storage.transitionConditionalOrder(order.id, "TRIGGERED", {
+      status: "FAILED",
+      note: "Position was already closed",
+    });
+    return;
+  }
+
+  await releaseReservedShares(order, held, qty);
+  const result = await executeTrade(
+    order.userId,
+    { marketId: order.marketId, outcomeId: order.outcomeId, side: "SELL", qty },
+    { source: order.type === "STOP_LOSS" ? "STOP_LOSS" : "TAKE_PROFIT" }
+  );
+  if (!result.ok) {
+    await storage.transitionConditionalOrder(order.id, "TRIGGERED", { status: "FAILED", note: result.message });
+    return;
+  }
+  await storage.transitionConditionalOrder(order.id, "TRIGGERED", { tradeId: result.trade.id });
+
+  // Once the position is gone, its other triggers (e.g. the take-profit paired
+  // with this stop-loss) have nothing left to sell
+  if (held - qty <= 0) {
+    const siblings = await storage.getActiveConditionalOrders(order.marketId);
+    for (const sibling of siblings.filter((o) => o.positionId === order.positionId)) {
+      await storage.transitionConditionalOrder(sibling.id, "ACTIVE", {
+        status: "CANCELLED",
+        note: "Position was closed",
+      });
+    }
+  }
+}
+
+// Shares resting in the student's own limit sells can't be sold again, and the
+// trigger is the protection they set up - so cancel those sells, newest first,
+// until `qty` of the `held` shares are free
+async function releaseReservedShares(order: ConditionalOrder, held: number, qty: number): Promise<void> {
+  const sells = (await storage.getLimitOrdersByUser(order.userId, "OPEN")).filter(
+    (o) => o.marketId === order.marketId && o.outcomeId === order.outcomeId && o.side === "SELL"
+  );
+  let free = held - sells.reduce((sum, o) => sum + o.qty - o.filledQty, 0);
+  for (const sell of sells) {
+    if (free >= qty) return;
+    try {
+      await storage.cancelLimitOrder(sell.id);
+      free += sell.qty - sell.filledQty;
+    } catch (error) {
+      // Filled or cancelled since we read it
+      if (!(error instanceof TradeError)) throw error;
+    }
+  }
+}
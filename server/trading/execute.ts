@@ -0,0 +1,106 @@
+import type { Trade, TradeErrorCode, TradeQuote } from "@shared/schema";
+import { storage, TradeError, type TradeOrder } from "../storage";
+import { matchMarket } from "./orders";
+import { checkConditionalOrders } from "./conditional";
+import { checkMarginCalls } from "./shorts";
+import { afterPortfolioChange } from "../portfolioSnapshots";
+
+// Where a trade came from - recorded in the balance event note
+export type TradeSource = "WEB" | "MK_AI" | "BOT" | "STOP_LOSS" | "TAKE_PROFIT" | "SEASON_END";
+
+export interface TradeContext {
+  source: TradeSource;
+}
+
+export type TradeResult =
+  | {
+      ok: true;
+      trade: Trade;
+      newBalance: number;
+      quote: TradeQuote;
+      bankruptcyReset: boolean;
+    }
+  | {
+      ok: false;
+      code: TradeErrorCode;
+      message: string;
+    };
+
+const BANKRUPTCY_RESET_AMOUNT = 100;
+const BANKRUPTCY_RESET_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+const SOURCE_PREFIX: Record<TradeSource, string> = {
+  WEB: "",
+  MK_AI: "MK AI: ",
+  BOT: "Bot: ",
+  STOP_LOSS: "Stop-loss: ",
+  TAKE_PROFIT: "Take-profit: ",
+  SEASON_END: "Season end: ",
+};
+
+// HTTP status for each rejection, for routes that surface TradeResult directly
+export const TRADE_ERROR_STATUS: Record<TradeErrorCode, number> = {
+  USER_NOT_FOUND: 404,
+  MARKET_NOT_FOUND: 404,
+  MARKET_CLOSED: 400,
+  OUTCOME_NOT_FOUND: 400,
+  INVALID_ORDER: 400,
+  INSUFFICIENT_BALANCE: 400,
+  INSUFFICIENT_SHARES: 400,
+  INSUFFICIENT_LIQUIDITY: 400,
+  SLIPPAGE_EXCEEDED: 409,
+  ORDER_NOT_FOUND: 404,
+  ORDER_NOT_OPEN: 400,
+  POSITION_NOT_FOUND: 404,
+};
+
+// The one entry point for buying and selling. REST, MK AI and anything else
+// that trades on a user's behalf should go through here so the rules can't drift.
+export async function executeTrade(
+  userId: string,
+  order: TradeOrder,
+  context: TradeContext
+): Promise<TradeResult> {
+  if (!Number.isInteger(order.qty) || order.qty < 1 || order.qty > 1000) {
+    return { ok: false, code: "INVALID_ORDER", message: "Quantity must be a whole number from 1 to 1000" };
+  }
+
+  let execution;
+  try {
+    execution = await storage.executeTrade(userId, order, SOURCE_PREFIX[context.source]);
+  } catch (error) {
+    if (error instanceof TradeError) {
+      return { ok: false, code: error.code, message: error.message };
+    }
+    throw error;
+  }
+
+  const bankruptcyReset = await applyBankruptcyReset(userId);
+  const user = bankruptcyReset ? await storage.getUser(userId) : undefined;
+
+  afterPriceMove(order.marketId);
+  afterPortfolioChange(userId);
+
+  return {
+    ok: true,
+    trade: execution.trade,
+    newBalance: user?.balance ?? execution.newBalance,
+    quote: execution.quote,
+    bankruptcyReset,
+  };
+}
+
+// The price just moved - resting limit orders, stop/take-profit triggers and
+// short margin checks on this market may now fire. Runs in the background.
+export function afterPriceMove(marketId: string): void {
+  matchMarket(marketId).catch((error) => console.error("Order matching error:", error));
+  checkConditionalOrders(marketId).catch((error) => console.error("Conditional order error:", error));
+  checkMarginCalls(marketId).catch((error) => console.error("Margin check error:", error));
+}
+
+// Students who hit zero get a fresh $100, at most once a day. The reset is a
+// conditional update, so it can't wipe out a credit that landed after the trade.
+async function applyBankruptcyReset(userId: string): Promise<boolean> {
+  const notSince = new Date(Date.now() - BANKRUPTCY_RESET_COOLDOWN_MS);
+  return (await storage.resetBankruptUser(userId, BANKRUPTCY_RESET_AMOUNT, notSince)) !== undefined;
+}
@@ -0,0 +1,72 @@
+export {
+  quoteLmsrTrade,
+  normalizePrices,
+  quantitiesFromPrices,
+  DEFAULT_LIQUIDITY,
+  type LmsrOutcome,
+  type LmsrTradeResult,
+} from "./lmsr";
+export {
+  quoteBondingCurveTrade,
+  poolReserves,
+  BondingCurveError,
+  type BondingCurveState,
+  type BondingCurveFill,
+} from "./bondingCurve";
+export {
+  quoteTrade,
+  checkSlippage,
+  QuoteError,
+  TRADE_FEE_RATE,
+  type QuoteOrder,
+  type PricedTrade,
+} from "./quote";
+export {
+  executeTrade,
+  afterPriceMove,
+  TRADE_ERROR_STATUS,
+  type TradeSource,
+  type TradeContext,
+  type TradeResult,
+} from "./execute";
+export {
+  placeLimitOrder,
+  cancelLimitOrder,
+  cancelOpenOrders,
+  getOrdersWithDetails,
+  matchMarket,
+  matchAllOpenOrders,
+  type OrderResult,
+} from "./orders";
+export {
+  createConditionalOrder,
+  cancelConditionalOrder,
+  cancelConditionalOrders,
+  getConditionalOrdersWithDetails,
+  checkConditionalOrders,
+  checkAllConditionalOrders,
+  type ConditionalOrderResult,
+} from "./conditional";
+export {
+  INITIAL_MARGIN_RATE,
+  MAINTENANCE_MARGIN_RATE,
+  BORROW_FEE_RATE,
+  shortMarketValue,
+  shortEquity,
+  shortPnL,
+  marginRatio,
+  isBelowMaintenance,
+} from "./margin";
+export {
+  openShort,
+  coverShort,
+  runShortMaintenance,
+  checkMarginCalls,
+  checkAllMarginCalls,
+  type ShortResult,
+} from "./shorts";
+export {
+  SCALAR_OUTCOME_LABELS,
+  longPayout,
+  impliedValue,
+} from "./scalar";
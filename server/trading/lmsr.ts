@@ -0,0 +1,91 @@
+// Logarithmic market scoring rule (LMSR) market maker for prediction outcomes.
+//
+// The market maker's cost function is C(q) = b * ln(sum_i e^(q_i / b)), where q_i
+// is the net number of shares sold for outcome i and b is the market's liquidity.
+// Prices are the gradient of C (a softmax over q / b), so they always sum to 1,
+// and buying Δ shares of outcome k costs C(q + Δ·e_k) - C(q).
+//
+// We don't store share quantities - outcome prices are the market state. Since
+// prices are invariant to shifting every q_i by a constant, q_i = b * ln(p_i)
+// recovers an equivalent quantity vector from the current prices.
+
+export const DEFAULT_LIQUIDITY = 100;
+
+// Keeps an outcome from being priced at exactly 0 (where ln(p) blows up and the
+// outcome could never move again)
+const PRICE_FLOOR = 1e-6;
+
+export interface LmsrOutcome {
+  id: string;
+  currentPrice: number;
+}
+
+export interface LmsrTradeResult {
+  // Cash paid by the trader on a buy, or received on a sell
+  cost: number;
+  averagePrice: number;
+  // Post-trade price for every outcome in the market, keyed by outcome id
+  prices: Record<string, number>;
+}
+
+export function normalizePrices(prices: number[]): number[] {
+  if (prices.length === 0) return [];
+  const floored = prices.map((p) => (Number.isFinite(p) ? Math.max(p, PRICE_FLOOR) : PRICE_FLOOR));
+  const sum = floored.reduce((acc, p) => acc + p, 0);
+  return floored.map((p) => p / sum);
+}
+
+function logSumExp(values: number[]): number {
+  const max = Math.max(...values);
+  return max + Math.log(values.reduce((acc, v) => acc + Math.exp(v - max), 0));
+}
+
+function costFunction(quantities: number[], liquidity: number): number {
+  return liquidity * logSumExp(quantities.map((q) => q / liquidity));
+}
+
+function pricesFromQuantities(quantities: number[], liquidity: number): number[] {
+  const lse = logSumExp(quantities.map((q) => q / liquidity));
+  return quantities.map((q) => Math.exp(q / liquidity - lse));
+}
+
+export function quantitiesFromPrices(prices: number[], liquidity: number): number[] {
+  return normalizePrices(prices).map((p) => liquidity * Math.log(p));
+}
+
+// Price a trade of `qty` shares of `outcomeId`. `side` SELL is treated as buying
+// a negative amount, so `cost` is the (positive) proceeds in that case.
+export function quoteLmsrTrade(
+  outcomes: LmsrOutcome[],
+  outcomeId: string,
+  side: "BUY" | "SELL",
+  qty: number,
+  liquidity: number = DEFAULT_LIQUIDITY
+): LmsrTradeResult {
+  const index = outcomes.findIndex((o) => o.id === outcomeId);
+  if (index === -1) {
+    throw new Error("Outcome not found");
+  }
+  if (!(liquidity > 0)) {
+    throw new Error("Liquidity must be positive");
+  }
+
+  const before = quantitiesFromPrices(outcomes.map((o) => o.currentPrice), liquidity);
+  const after = [...before];
+  after[index] += side === "BUY" ? qty : -qty;
+
+  const delta = costFunction(after, liquidity) - costFunction(before, liquidity);
+  const cost = side === "BUY" ? delta : -delta;
+
+  const newPrices = normalizePrices(pricesFromQuantities(after, liquidity));
+  const prices: Record<string, number> = {};
+  outcomes.forEach((o, i) => {
+    prices[o.id] = newPrices[i];
+  });
+
+  return {
+    cost,
+    averagePrice: qty > 0 ? cost / qty : outcomes[index].currentPrice,
+    prices,
+  };
+}
@@ -0,0 +1,39 @@
+// Margin rules for shorting student stocks.
+//
+// Opening a short sells borrowed shares into the bonding curve. The sale
+// proceeds plus an initial margin taken from the student's cash are locked as
+// collateral. Each simulator tick charges a borrow fee out of the collateral.
+// Equity is the collateral minus what it would cost to buy the shares back; once
+// that drops below the maintenance margin the short is force-covered.
+
+import type { ShortPosition } from "@shared/schema";
+
+// Cash the student must add on top of the proceeds, as a share of the proceeds
+export const INITIAL_MARGIN_RATE = 0.5;
+// Minimum equity as a share of the short's market value
+export const MAINTENANCE_MARGIN_RATE = 0.25;
+// Charged every simulator tick (5 minutes) on the market value of the borrowed shares
+export const BORROW_FEE_RATE = 0.0002;
+
+type ShortState = Pick<ShortPosition, "qty" | "collateral" | "entryPrice" | "borrowFeesPaid">;
+
+export function shortMarketValue(short: Pick<ShortPosition, "qty">, price: number): number {
+  return short.qty * price;
+}
+
+export function shortEquity(short: Pick<ShortPosition, "qty" | "collateral">, price: number): number {
+  return short.collateral - shortMarketValue(short, price);
+}
+
+export function shortPnL(short: ShortState, price: number): number {
+  return short.qty * (short.entryPrice - price) - short.borrowFeesPaid;
+}
+
+export function marginRatio(short: Pick<ShortPosition, "qty" | "collateral">, price: number): number {
+  const value = shortMarketValue(short, price);
+  return value > 0 ? shortEquity(short, price) / value : Infinity;
+}
+
+export function isBelowMaintenance(short: Pick<ShortPosition, "qty" | "collateral">, price: number): boolean {
+  return marginRatio(short, price) < MAINTENANCE_MARGIN_RATE;
+}
@@ -0,0 +1,237 @@
+import type {
+  InsertLimitOrder,
+  LimitOrder,
+  LimitOrderStatus,
+  LimitOrderWithDetails,
+  MarketWithDetails,
+  TradeErrorCode,
+} from "@shared/schema";
+import { storage, TradeError } from "../storage";
+import { quoteTrade, QuoteError } from "./quote";
+import { checkConditionalOrders } from "./conditional";
+import { checkMarginCalls } from "./shorts";
+import { marketQueues, serializePerKey } from "./serialize";
+import { afterPortfolioChange } from "../portfolioSnapshots";
+
+export type OrderResult =
+  | { ok: true; order: LimitOrder }
+  | { ok: false; code: TradeErrorCode; message: string };
+
+// Places a resting order (reserving cash or shares), then tries to fill it right away
+export async function placeLimitOrder(userId: string, input: InsertLimitOrder): Promise<OrderResult> {
+  let order: LimitOrder;
+  try {
+    order = await storage.placeLimitOrder(userId, input);
+  } catch (error) {
+    if (error instanceof TradeError) {
+      return { ok: false, code: error.code, message: error.message };
+    }
+    throw error;
+  }
+
+  await matchMarket(order.marketId);
+  return { ok: true, order: (await storage.getLimitOrder(order.id)) ?? order };
+}
+
+export async function cancelLimitOrder(orderId: string, userId: string): Promise<OrderResult> {
+  try {
+    return { ok: true, order: await storage.cancelLimitOrder(orderId, userId) };
+  } catch (error) {
+    if (error instanceof TradeError) {
+      return { ok: false, code: error.code, message: error.message };
+    }
+    throw error;
+  }
+}
+
+// Cancels every open order on a market and hands back the reserved cash.
+// Called when a market closes, resolves or is voided.
+export async function cancelOpenOrders(marketId: string): Promise<number> {
+  const open = await storage.getOpenLimitOrders(marketId);
+  let cancelled = 0;
+  for (const order of open) {
+    try {
+      await storage.cancelLimitOrder(order.id);
+      cancelled++;
+    } catch (error) {
+      // Filled or cancelled while we were looping - nothing left to release
+      if (!(error instanceof TradeError)) throw error;
+    }
+  }
+  return cancelled;
+}
+
+export async function getOrdersWithDetails(
+  userId: string,
+  status?: LimitOrderStatus
+): Promise<LimitOrderWithDetails[]> {
+  const orders = await storage.getLimitOrdersByUser(userId, status);
+  const marketCache = new Map<string, MarketWithDetails | undefined>();
+  const result: LimitOrderWithDetails[] = [];
+
+  for (const order of orders) {
+    if (!marketCache.has(order.marketId)) {
+      marketCache.set(order.marketId, await storage.getMarket(order.marketId));
+    }
+    const market = marketCache.get(order.marketId);
+    result.push({
+      ...order,
+      market,
+      outcome: market?.outcomes?.find((o) => o.id === order.outcomeId),
+      ticker: market?.stockMeta?.ticker,
+    });
+  }
+  return result;
+}
+
+// ==================== MATCHING ====================
+
+// Matching runs one pass at a time per market; a request that comes in while a
+// pass (or a trigger or margin check) is running queues up behind it
+export function matchMarket(marketId: string): Promise<void> {
+  return serializePerKey(marketQueues, marketId, () => runMatch(marketId));
+}
+
+// Re-checks every market with resting orders (e.g. after the stock simulator moves prices)
+export async function matchAllOpenOrders(): Promise<void> {
+  const open = await storage.getOpenLimitOrders();
+  const marketIds = Array.from(new Set(open.map((o) => o.marketId)));
+  for (const marketId of marketIds) {
+    await matchMarket(marketId).catch((error) => console.error(`Order matching failed for ${marketId}:`, error));
+  }
+}
+
+async function runMatch(marketId: string): Promise<void> {
+  const market = await storage.getMarket(marketId);
+  if (!market || market.status !== "OPEN") return;
+
+  const open = await storage.getOpenLimitOrders(marketId);
+  if (open.length === 0) return;
+
+  await crossOrders(open);
+  await fillAgainstMarketMaker(marketId);
+
+  // Fills move the price too, so stops and shorts on this market get another look
+  checkConditionalOrders(marketId).catch((error) => console.error("Conditional order error:", error));
+  checkMarginCalls(marketId).catch((error) => console.error("Margin check error:", error));
+}
+
+interface BookEntry {
+  order: LimitOrder;
+  remaining: number;
+}
+
+// Orders between students fill against each other first, at the resting (older) order's price
+async function crossOrders(orders: LimitOrder[]): Promise<void> {
+  const books = new Map<string, LimitOrder[]>();
+  for (const order of orders) {
+    const key = order.outcomeId ?? "stock";
+    books.set(key, [...(books.get(key) ?? []), order]);
+  }
+
+  for (const book of Array.from(books.values())) {
+    const byTime = (a: LimitOrder, b: LimitOrder) =>
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+    const buys: BookEntry[] = book
+      .filter((o) => o.side === "BUY")
+      .sort((a, b) => b.limitPrice - a.limitPrice || byTime(a, b))
+      .map((order) => ({ order, remaining: order.qty - order.filledQty }));
+    const sells: BookEntry[] = book
+      .filter((o) => o.side === "SELL")
+      .sort((a, b) => a.limitPrice - b.limitPrice || byTime(a, b))
+      .map((order) => ({ order, remaining: order.qty - order.filledQty }));
+
+    for (const buy of buys) {
+      for (const sell of sells) {
+        if (buy.remaining <= 0) break;
+        if (sell.remaining <= 0 || sell.order.userId === buy.order.userId) continue;
+        if (sell.order.limitPrice > buy.order.limitPrice) break;
+
+        const qty = Math.min(buy.remaining, sell.remaining);
+        const price = byTime(buy.order, sell.order) <= 0 ? buy.order.limitPrice : sell.order.limitPrice;
+        try {
+          await storage.matchLimitOrders(buy.order.id, sell.order.id, qty, price);
+          buy.remaining -= qty;
+          sell.remaining -= qty;
+          afterPortfolioChange(buy.order.userId);
+          afterPortfolioChange(sell.order.userId);
+        } catch (error) {
+          if (!(error instanceof TradeError)) throw error;
+          // A sell order whose shares are gone can never fill - drop it
+          if (error.code === "INSUFFICIENT_SHARES") {
+            await storage.cancelLimitOrder(sell.order.id).catch(() => undefined);
+          }
+          sell.remaining = 0;
+        }
+      }
+    }
+  }
+}
+
+// Fills whatever the AMM will give at or better than each order's limit, oldest order first
+async function fillAgainstMarketMaker(marketId: string): Promise<void> {
+  const orders = await storage.getOpenLimitOrders(marketId);
+
+  for (const order of orders) {
+    // Re-read every time: each fill moves the price for the next order
+    const market = await storage.getMarket(marketId);
+    if (!market || market.status !== "OPEN") return;
+    const sharesOutstanding = market.type === "STOCK" ? await storage.getSharesOutstanding(marketId) : 0;
+
+    const qty = fillableQty(market, order, sharesOutstanding);
+    if (qty < 1) continue;
+
+    try {
+      await storage.executeTrade(
+        order.userId,
+        {
+          marketId,
+          outcomeId: order.outcomeId,
+          side: order.side as "BUY" | "SELL",
+          qty,
+          ...(order.side === "BUY" ? { maxPrice: order.limitPrice } : { minPrice: order.limitPrice }),
+          limitOrderId: order.id,
+        },
+        "Limit order: "
+      );
+      afterPortfolioChange(order.userId);
+    } catch (error) {
+      if (!(error instanceof TradeError)) throw error;
+      if (error.code === "INSUFFICIENT_SHARES") {
+        await storage.cancelLimitOrder(order.id).catch(() => undefined);
+      }
+    }
+  }
+}
+
+// Largest quantity whose average AMM fill is within the order's limit. Average
+// price only gets worse as size grows, so a binary search finds it.
+function fillableQty(market: MarketWithDetails, order: LimitOrder, sharesOutstanding: number): number {
+  const fits = (qty: number) => {
+    try {
+      const quote = quoteTrade(
+        market,
+        { outcomeId: order.outcomeId, side: order.side as "BUY" | "SELL", qty },
+        sharesOutstanding
+      );
+      return order.side === "BUY"
+        ? quote.averagePrice <= order.limitPrice
+        : quote.averagePrice >= order.limitPrice;
+    } catch (error) {
+      if (error instanceof QuoteError) return false;
+      throw error;
+    }
+  };
+
+  let lo = 0;
+  let hi = order.qty - order.filledQty;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (fits(mid)) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return lo;
+}
@@ -0,0 +1,101 @@
+import type { MarketWithDetails, TradeErrorCode, TradeQuote, TradeSide } from "@shared/schema";
+import { quoteLmsrTrade } from "./lmsr";
+import { quoteBondingCurveTrade, BondingCurveError } from "./bondingCurve";
+
+// Flat fee on trade notional. Zero for now, but quotes already report it so the
+// UI doesn't have to change when we turn it on.
+export const TRADE_FEE_RATE = 0;
+
+export class QuoteError extends Error {
+  constructor(public code: TradeErrorCode, message: string) {
+    super(message);
+    this.name = "QuoteError";
+  }
+}
+
+export interface QuoteOrder {
+  outcomeId?: string | null;
+  side: TradeSide;
+  qty: number;
+}
+
+export interface PricedTrade extends TradeQuote {
+  // New price for every outcome of a prediction market (null for stocks)
+  outcomePrices: Record<string, number> | null;
+}
+
+// Prices an order against the market's current state without touching storage.
+// `sharesOutstanding` is only used for stocks (float supply check).
+export function quoteTrade(
+  market: MarketWithDetails,
+  order: QuoteOrder,
+  sharesOutstanding: number = 0
+): PricedTrade {
+  const { side, qty } = order;
+
+  let executionPrice: number;
+  let averagePrice: number;
+  let postTradePrice: number;
+  let notional: number;
+  let outcomePrices: Record<string, number> | null = null;
+
+  if (market.type !== "STOCK" && order.outcomeId) {
+    const outcomes = market.outcomes ?? [];
+    const outcome = outcomes.find((o) => o.id === order.outcomeId);
+    if (!outcome) {
+      throw new QuoteError("OUTCOME_NOT_FOUND", "Outcome not found");
+    }
+    const result = quoteLmsrTrade(outcomes, outcome.id, side, qty, market.liquidity);
+    executionPrice = outcome.currentPrice;
+    averagePrice = result.averagePrice;
+    postTradePrice = result.prices[outcome.id];
+    notional = result.cost;
+    outcomePrices = result.prices;
+  } else if (market.type === "STOCK") {
+    if (!market.stockMeta) {
+      throw new QuoteError("MARKET_NOT_FOUND", "Stock not found");
+    }
+    try {
+      const fill = quoteBondingCurveTrade({ ...market.stockMeta, sharesOutstanding }, side, qty);
+      executionPrice = fill.executionPrice;
+      averagePrice = fill.averagePrice;
+      postTradePrice = fill.postTradePrice;
+      notional = fill.total;
+    } catch (error) {
+      if (error instanceof BondingCurveError) {
+        throw new QuoteError("INSUFFICIENT_LIQUIDITY", error.message);
+      }
+      throw error;
+    }
+  } else {
+    throw new QuoteError("INVALID_ORDER", "Invalid trade");
+  }
+
+  const fee = notional * TRADE_FEE_RATE;
+
+  return {
+    side,
+    qty,
+    executionPrice,
+    averagePrice,
+    postTradePrice,
+    priceImpact: executionPrice > 0 ? Math.abs(averagePrice - executionPrice) / executionPrice : 0,
+    fee,
+    total: side === "BUY" ? notional + fee : notional - fee,
+    outcomePrices,
+  };
+}
+
+// Returns an error message if the fill is worse than the trader's limit
+export function checkSlippage(
+  quote: TradeQuote,
+  limits: { maxPrice?: number; minPrice?: number }
+): string | null {
+  if (quote.side === "BUY" && limits.maxPrice !== undefined && quote.averagePrice > limits.maxPrice) {
+    return `Price moved: fill at $${quote.averagePrice.toFixed(4)} is above your limit of $${limits.maxPrice.toFixed(4)}`;
+  }
+  if (quote.side === "SELL" && limits.minPrice !== undefined && quote.averagePrice < limits.minPrice) {
+    return `Price moved: fill at $${quote.averagePrice.toFixed(4)} is below your limit of $${limits.minPrice.toFixed(4)}`;
+  }
+  return null;
+}
@@ -0,0 +1,22 @@
+// Scalar (range) markets answer a numeric question between two bounds. They
+// trade like a two-outcome prediction market: LONG and SHORT prices sum to 1,
+// and LONG's price is where the market expects the answer to land in the range.
+//
+// At resolution a LONG share pays the fraction of the range below the actual
+// value (clamped to [0, 1]) and a SHORT share pays the rest.
+
+import type { ScalarMeta } from "@shared/schema";
+
+export const SCALAR_OUTCOME_LABELS = ["LONG", "SHORT"] as const;
+
+type Bounds = Pick<ScalarMeta, "lowerBound" | "upperBound">;
+
+export function longPayout(bounds: Bounds, value: number): number {
+  const fraction = (value - bounds.lowerBound) / (bounds.upperBound - bounds.lowerBound);
+  return Math.min(1, Math.max(0, fraction));
+}
+
+// The value the market currently expects, given LONG's price
+export function impliedValue(bounds: Bounds, longPrice: number): number {
+  return bounds.lowerBound + longPrice * (bounds.upperBound - bounds.lowerBound);
+}
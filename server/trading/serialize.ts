@@ -0,0 +1,29 @@
+// Runs `fn` once everything already queued under `key` has settled, so passes
+// for the same market never overlap. A pass that throws rejects its own caller
+// but doesn't stop the ones queued behind it.
+//
+// The queue lives in this process's memory: it orders work within one server,
+// not across several servers sharing a database.
+export function serializePerKey<T>(
+  queues: Map<string, Promise<void>>,
+  key: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const previous = queues.get(key) ?? Promise.resolve();
+  const run = previous.then(fn);
+  const tail = run.then(
+    () => undefined,
+    () => undefined
+  );
+  queues.set(key, tail);
+  tail.then(() => {
+    if (queues.get(key) === tail) queues.delete(key);
+  });
+  return run;
+}
+
+// The one queue per market that order matching, trigger checks and margin calls
+// all share, so no two of them trade on a market at once. A pass only ever
+// fires off the others without awaiting them - awaiting one from inside a pass
+// would wait on itself.
+export const marketQueues = new Map<string, Promise<void>>();
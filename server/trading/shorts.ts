@@ -0,0 +1,95 @@
+import type { CoverShort, OpenShort, ShortPosition, Trade, TradeErrorCode, TradeQuote } from "@shared/schema";
+import { storage, TradeError, type ShortExecution } from "../storage";
+import { afterPriceMove } from "./execute";
+import { BORROW_FEE_RATE, isBelowMaintenance } from "./margin";
+import { marketQueues, serializePerKey } from "./serialize";
+import { afterPortfolioChange } from "../portfolioSnapshots";
+
+export type ShortResult =
+  | {
+      ok: true;
+      short: ShortPosition;
+      trade: Trade;
+      newBalance: number;
+      quote: TradeQuote;
+    }
+  | { ok: false; code: TradeErrorCode; message: string };
+
+async function runShortTrade(marketId: string, run: () => Promise<ShortExecution>): Promise<ShortResult> {
+  let execution: ShortExecution;
+  try {
+    execution = await run();
+  } catch (error) {
+    if (error instanceof TradeError) {
+      return { ok: false, code: error.code, message: error.message };
+    }
+    throw error;
+  }
+
+  afterPriceMove(marketId);
+  afterPortfolioChange(execution.short.userId);
+  return { ok: true, ...execution };
+}
+
+export async function openShort(userId: string, input: OpenShort): Promise<ShortResult> {
+  return runShortTrade(input.marketId, () => storage.openShort(userId, input));
+}
+
+export async function coverShort(shortId: string, userId: string, input: CoverShort): Promise<ShortResult> {
+  const short = await storage.getShortPosition(shortId);
+  if (!short || short.userId !== userId) {
+    return { ok: false, code: "POSITION_NOT_FOUND", message: "Short position not found" };
+  }
+  return runShortTrade(short.marketId, () =>
+    storage.coverShort(shortId, { ...input, userId, reason: "USER" })
+  );
+}
+
+// Runs on every simulator tick: charge a tick of borrow fees, then margin-call
+// anything the fees or the new prices pushed under maintenance
+export async function runShortMaintenance(): Promise<void> {
+  await storage.chargeBorrowFees(BORROW_FEE_RATE);
+  await checkAllMarginCalls();
+}
+
+// ==================== MARGIN CALLS ====================
+
+// One check per market at a time, queued with matching and trigger checks.
+// Each short is re-read with the latest price since a forced cover pushes the
+// price up.
+export function checkMarginCalls(marketId: string): Promise<void> {
+  return serializePerKey(marketQueues, marketId, () => runMarginCalls(marketId));
+}
+
+export async function checkAllMarginCalls(): Promise<void> {
+  const open = await storage.getOpenShortPositions();
+  const marketIds = Array.from(new Set(open.map((s) => s.marketId)));
+  for (const marketId of marketIds) {
+    await checkMarginCalls(marketId).catch((error) =>
+      console.error(`Margin check failed for ${marketId}:`, error)
+    );
+  }
+}
+
+async function runMarginCalls(marketId: string): Promise<void> {
+  const open = await storage.getOpenShortPositions(marketId);
+  let covered = false;
+
+  for (const { id } of open) {
+    const [short, meta] = await Promise.all([storage.getShortPosition(id), storage.getStockMeta(marketId)]);
+    if (!short || short.status !== "OPEN" || !meta) continue;
+    if (!isBelowMaintenance(short, meta.currentPrice)) continue;
+
+    try {
+      await storage.coverShort(id, { reason: "MARGIN_CALL" });
+      covered = true;
+    } catch (error) {
+      if (!(error instanceof TradeError)) throw error;
+      console.error(`Margin call on short ${id} failed:`, error.message);
+    }
+  }
+
+  // Forced covers are buys, so the price went up. Another pass gets queued and
+  // runs until a pass covers nothing.
+  if (covered) afterPriceMove(marketId);
+}
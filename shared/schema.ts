@@ -1,4 +1,4 @@
-import { pgTable, text, varchar, integer, timestamp, boolean, real } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, real, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from "drizzle-orm";
@@ -6,11 +6,40 @@ import { sql } from "drizzle-orm";
 // User roles and status
 export type UserRole = "STUDENT" | "ADMIN";
 export type UserStatus = "PENDING_VERIFICATION" | "VERIFIED" | "SUSPENDED";
-export type MarketType = "PREDICTION" | "STOCK";
-export type MarketStatus = "OPEN" | "CLOSED" | "RESOLVED" | "HIDDEN";
+export type MarketType = "PREDICTION" | "STOCK" | "SCALAR";
+// PENDING_REVIEW / REJECTED are student proposals that haven't been opened by an admin.
+// IPO is a newly listed stock still in its allocation window (subscriptions only, no trading).
+export type MarketStatus = "OPEN" | "CLOSED" | "RESOLVED" | "VOIDED" | "HIDDEN" | "PENDING_REVIEW" | "REJECTED" | "IPO";
+export type MarketReviewDecision = "APPROVED" | "REJECTED";
 export type MarketSource = "INTERNAL" | "POLYMARKET";
 export type TradeSide = "BUY" | "SELL";
-export type BalanceEventType = "STARTING_CREDIT" | "BANKRUPTCY_RESET" | "ADMIN_ADJUST" | "TRADE" | "MK_AI_PURCHASE";
+export type TradeErrorCode =
+  | "USER_NOT_FOUND"
+  | "MARKET_NOT_FOUND"
+  | "MARKET_CLOSED"
+  | "OUTCOME_NOT_FOUND"
+  | "INVALID_ORDER"
+  | "INSUFFICIENT_BALANCE"
+  | "INSUFFICIENT_SHARES"
+  | "INSUFFICIENT_LIQUIDITY"
+  | "SLIPPAGE_EXCEEDED"
+  | "ORDER_NOT_FOUND"
+  | "ORDER_NOT_OPEN"
+  | "POSITION_NOT_FOUND";
+export type BalanceEventType = "STARTING_CREDIT" | "BANKRUPTCY_RESET" | "ADMIN_ADJUST" | "TRADE" | "MK_AI_PURCHASE" | "RESOLUTION_PAYOUT" | "VOID_REFUND" | "ORDER_RESERVE" | "ORDER_RELEASE" | "SHORT_COLLATERAL" | "SHORT_COVER" | "IPO_SUBSCRIBE" | "IPO_REFUND" | "PARLAY_STAKE" | "PARLAY_PAYOUT" | "PARLAY_REFUND" | "SEASON_RESET";
+export type LimitOrderStatus = "OPEN" | "FILLED" | "CANCELLED";
+export type ConditionalOrderType = "STOP_LOSS" | "TAKE_PROFIT";
+export type ConditionalOrderStatus = "ACTIVE" | "TRIGGERED" | "FAILED" | "CANCELLED";
+export type ShortPositionStatus = "OPEN" | "COVERED" | "LIQUIDATED";
+export type IpoRequestStatus = "PENDING" | "APPROVED" | "REJECTED";
+export type IpoSubscriptionStatus = "PENDING" | "ALLOCATED" | "REFUNDED";
+export type ParlayStatus = "OPEN" | "WON" | "LOST" | "VOID";
+export type ParlayLegStatus = "PENDING" | "WON" | "LOST" | "VOID";
+export type GameMarketKind = "TOTAL" | "SPREAD";
+export type LeaderboardWindow = "all" | "week" | "month";
+export type LeagueGroupKind = "ADVISORY" | "CLUB" | "OTHER";
+export type SeasonStatus = "SCHEDULED" | "ACTIVE" | "ENDING" | "COMPLETED";
+export type PortfolioHistoryRange = "1w" | "1m" | "3m" | "all";
 export type GameStatus = "UPCOMING" | "IN_PROGRESS" | "COMPLETED" | "CANCELLED";
 export type SportType = "BASKETBALL" | "FOOTBALL" | "SOCCER" | "BASEBALL" | "VOLLEYBALL" | "TENNIS" | "SWIMMING" | "TRACK" | "OTHER";
 export type ReportTargetType = "MARKET" | "COMMENT" | "USER";
@@ -63,6 +92,8 @@ export const markets = pgTable("markets", {
   closeAt: timestamp("close_at"),
   resolveAt: timestamp("resolve_at"),
   resolutionRule: text("resolution_rule"),
+  // LMSR liquidity parameter (b) for prediction markets - higher means prices move less per share
+  liquidity: real("liquidity").notNull().default(100),
   createdBy: varchar("created_by").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -85,6 +116,17 @@ export const outcomes = pgTable("outcomes", {
   currentPrice: real("current_price").notNull().default(0.5),
 });
 
+// Bounds for scalar (range) markets. These trade a LONG and a SHORT outcome;
+// at resolution LONG pays (value - lowerBound) / (upperBound - lowerBound),
+// clamped to [0, 1], and SHORT pays the rest.
+export const scalarMeta = pgTable("scalar_meta", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketId: varchar("market_id").notNull().unique(),
+  lowerBound: real("lower_bound").notNull(),
+  upperBound: real("upper_bound").notNull(),
+  unit: text("unit"),
+});
+
 // Stock metadata (for stock markets)
 export const stockMeta = pgTable("stock_meta", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -94,6 +136,8 @@ export const stockMeta = pgTable("stock_meta", {
   currentPrice: real("current_price").notNull(),
   floatSupply: integer("float_supply").notNull(),
   virtualLiquidity: real("virtual_liquidity").notNull().default(10000),
+  // End of the IPO allocation window; null for stocks that were listed directly
+  ipoEndsAt: timestamp("ipo_ends_at"),
 });
 
 // Trades
@@ -119,6 +163,56 @@ export const positions = pgTable("positions", {
   avgCost: real("avg_cost").notNull().default(0),
 });
 
+// Resting limit orders. BUY orders hold their cash (reservedAmount) out of the
+// user's balance; SELL orders hold shares that stay in the position but can't be sold.
+export const limitOrders = pgTable("limit_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  marketId: varchar("market_id").notNull(),
+  outcomeId: varchar("outcome_id"),
+  side: text("side").notNull(),
+  qty: integer("qty").notNull(),
+  filledQty: integer("filled_qty").notNull().default(0),
+  limitPrice: real("limit_price").notNull(),
+  reservedAmount: real("reserved_amount").notNull().default(0),
+  status: text("status").notNull().default("OPEN"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Stop-loss / take-profit triggers on a position. When the price crosses
+// triggerPrice the position is sold at market (qty null = the whole position).
+export const conditionalOrders = pgTable("conditional_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  positionId: varchar("position_id").notNull(),
+  marketId: varchar("market_id").notNull(),
+  outcomeId: varchar("outcome_id"),
+  type: text("type").notNull(),
+  triggerPrice: real("trigger_price").notNull(),
+  qty: integer("qty"),
+  status: text("status").notNull().default("ACTIVE"),
+  tradeId: varchar("trade_id"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  triggeredAt: timestamp("triggered_at"),
+});
+
+// Short positions on student stocks. Borrowed shares were sold into the curve;
+// `collateral` holds the sale proceeds plus the initial margin, less borrow fees.
+export const shortPositions = pgTable("short_positions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  marketId: varchar("market_id").notNull(),
+  qty: integer("qty").notNull(),
+  entryPrice: real("entry_price").notNull(),
+  collateral: real("collateral").notNull(),
+  borrowFeesPaid: real("borrow_fees_paid").notNull().default(0),
+  status: text("status").notNull().default("OPEN"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"),
+});
+
 // Price snapshots for charts
 export const priceSnapshots = pgTable("price_snapshots", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -180,11 +274,103 @@ export const resolutions = pgTable("resolutions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   marketId: varchar("market_id").notNull().unique(),
   resolvedBy: varchar("resolved_by").notNull(),
-  winningOutcomeId: varchar("winning_outcome_id").notNull(),
+  // Null for scalar markets, which resolve to a value instead
+  winningOutcomeId: varchar("winning_outcome_id"),
+  value: real("value"),
   note: text("note"),
   resolvedAt: timestamp("resolved_at").defaultNow().notNull(),
 });
 
+// Admin decisions on student-proposed markets
+export const marketReviews = pgTable("market_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketId: varchar("market_id").notNull(),
+  reviewedBy: varchar("reviewed_by").notNull(),
+  decision: text("decision").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every status change a market goes through, by an admin or the lifecycle scheduler
+export const marketStatusHistory = pgTable("market_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketId: varchar("market_id").notNull(),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  // Null when the scheduler made the change
+  changedBy: varchar("changed_by"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Markets whose resolveAt passed without a resolution - admins are emailed once per market
+export const resolutionReminders = pgTable("resolution_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketId: varchar("market_id").notNull().unique(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+});
+
+// Club leaders ask to list their club as a student stock; an admin approves or rejects
+export const ipoRequests = pgTable("ipo_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  requestedBy: varchar("requested_by").notNull(),
+  ticker: text("ticker").notNull(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  category: text("category").notNull(),
+  initialPrice: real("initial_price").notNull(),
+  floatSupply: integer("float_supply").notNull(),
+  status: text("status").notNull().default("PENDING"),
+  // Set on approval - the STOCK market created for this listing
+  marketId: varchar("market_id"),
+  reviewedBy: varchar("reviewed_by"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  reviewedAt: timestamp("reviewed_at"),
+});
+
+// Orders placed during an IPO allocation window. The full amount is taken from
+// the balance up front; at the end of the window each subscription is filled
+// (pro-rata if oversubscribed) at the IPO price and the rest is refunded.
+export const ipoSubscriptions = pgTable("ipo_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  marketId: varchar("market_id").notNull(),
+  qty: integer("qty").notNull(),
+  price: real("price").notNull(),
+  allocatedQty: integer("allocated_qty"),
+  status: text("status").notNull().default("PENDING"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  settledAt: timestamp("settled_at"),
+});
+
+// Multi-leg sports bets. The stake comes out of the balance when the slip is
+// placed; a winning slip pays stake x the product of each leg's odds (1 / price
+// at placement). Voided legs drop out of the product, and a slip whose legs all
+// void is refunded.
+export const parlays = pgTable("parlays", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  stake: real("stake").notNull(),
+  // What the slip pays if every leg wins, fixed at placement
+  potentialPayout: real("potential_payout").notNull(),
+  status: text("status").notNull().default("OPEN"),
+  payout: real("payout"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  settledAt: timestamp("settled_at"),
+});
+
+export const parlayLegs = pgTable("parlay_legs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  parlayId: varchar("parlay_id").notNull(),
+  marketId: varchar("market_id").notNull(),
+  outcomeId: varchar("outcome_id").notNull(),
+  // The outcome's price when the slip was placed
+  price: real("price").notNull(),
+  status: text("status").notNull().default("PENDING"),
+  settledAt: timestamp("settled_at"),
+});
+
 // Balance events log
 export const balanceEvents = pgTable("balance_events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -195,6 +381,78 @@ export const balanceEvents = pgTable("balance_events", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// One row per student per day with what their portfolio was worth. The snapshot
+// job rewrites today's row each time it runs, so past days hold the closing value.
+export const portfolioSnapshots = pgTable(
+  "portfolio_snapshots",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    // Server calendar date, YYYY-MM-DD
+    day: text("day").notNull(),
+    totalValue: real("total_value").notNull(),
+    cashBalance: real("cash_balance").notNull(),
+    positionsValue: real("positions_value").notNull(),
+    takenAt: timestamp("taken_at").defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.userId, table.day)]
+);
+
+// Admin-defined leagues (advisories, clubs) that students compete in alongside
+// their grade. Membership is managed by admins, not joined by students.
+export const leagueGroups = pgTable("league_groups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  kind: text("kind").notNull().default("ADVISORY"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const leagueGroupMembers = pgTable(
+  "league_group_members",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    groupId: varchar("group_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    addedAt: timestamp("added_at").defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.groupId, table.userId)]
+);
+
+// Trading seasons. When one ends its final standings are archived to
+// seasonResults and every student is liquidated and reset to the starting credit.
+export const seasons = pgTable("seasons", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  status: text("status").notNull().default("SCHEDULED"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Each student's final line in a season's standings, copied from the
+// leaderboard so it survives the reset
+export const seasonResults = pgTable(
+  "season_results",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    seasonId: varchar("season_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    rank: integer("rank").notNull(),
+    displayName: text("display_name").notNull(),
+    grade: text("grade"),
+    totalValue: real("total_value").notNull(),
+    // Return over the season, as a percentage
+    changePercent: real("change_percent").notNull(),
+    // When the student was liquidated and reset for the next season
+    resetAt: timestamp("reset_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.seasonId, table.userId)]
+);
+
 // Games (for sports betting markets)
 export const games = pgTable("games", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -210,6 +468,18 @@ export const games = pgTable("games", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Over/under and point-spread markets generated from a game (the "Will Menlo
+// win?" market stays on games.marketId). For TOTAL, `line` is the combined
+// score; for SPREAD it's Menlo's handicap, e.g. -7.5 when Menlo is favored by 7.5.
+export const gameMarkets = pgTable("game_markets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").notNull(),
+  marketId: varchar("market_id").notNull().unique(),
+  kind: text("kind").notNull(),
+  line: real("line").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Stock simulation profiles for realistic price movements
 export const stockSimProfiles = pgTable("stock_sim_profiles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -246,6 +516,7 @@ export const loginSchema = z.object({
   password: z.string(),
 });
 
+// Student-proposed market. These are YES/NO prediction markets that wait for admin review.
 export const insertMarketSchema = createInsertSchema(markets).pick({
   type: true,
   title: true,
@@ -254,15 +525,60 @@ export const insertMarketSchema = createInsertSchema(markets).pick({
   closeAt: true,
   resolveAt: true,
   resolutionRule: true,
+}).extend({
+  type: z.literal("PREDICTION").default("PREDICTION"),
+  title: z.string().trim().min(5, "Title must be at least 5 characters").max(200),
+  description: z.string().trim().min(10, "Description must be at least 10 characters").max(2000),
+  category: z.string().min(1),
+  closeAt: z.coerce.date(),
+  resolveAt: z.coerce.date().optional().nullable(),
+  resolutionRule: z.string().trim().min(10, "Explain how the market will be resolved").max(500),
+});
+
+// Admin edits to a proposal before it's approved
+export const updateProposedMarketSchema = z.object({
+  title: z.string().trim().min(5).max(200).optional(),
+  closeAt: z.coerce.date().optional(),
+  resolveAt: z.coerce.date().optional(),
+  resolutionRule: z.string().trim().min(10).max(500).optional(),
 });
 
+export const rejectMarketSchema = z.object({
+  reason: z.string().trim().min(5, "Give the student a reason").max(500),
+});
+
+// A club leader's IPO request for a new student stock
 export const insertStockSchema = z.object({
   ticker: z.string().min(3).max(5).regex(/^[A-Z]+$/, "Ticker must be 3-5 uppercase letters"),
-  name: z.string().min(2),
-  description: z.string().min(10),
+  name: z.string().trim().min(2).max(100),
+  description: z.string().trim().min(10).max(2000),
   category: z.string(),
-  initialPrice: z.number().min(1).max(1000),
-  floatSupply: z.number().min(100).max(1000000),
+  initialPrice: z.coerce.number().min(1).max(1000),
+  floatSupply: z.coerce.number().int().min(100).max(1000000),
+});
+
+// Approval turns the request into a STOCK market in its IPO allocation window
+export const approveIpoSchema = z.object({
+  allocationHours: z.coerce.number().int().min(1).max(168).default(48),
+  // Backfill simulated price history that ends at the IPO price
+  generateHistory: z.boolean().default(false),
+});
+
+export const rejectIpoSchema = z.object({
+  reason: z.string().trim().min(5, "Give the club a reason").max(500),
+});
+
+export const ipoSubscribeSchema = z.object({
+  qty: z.coerce.number().int().min(1).max(1000),
+});
+
+export const placeParlaySchema = z.object({
+  stake: z.coerce.number().min(1).max(1000),
+  legs: z
+    .array(z.object({ marketId: z.string(), outcomeId: z.string() }))
+    .min(2, "A parlay needs at least 2 legs")
+    .max(8, "A parlay can have at most 8 legs")
+    .refine((legs) => new Set(legs.map((l) => l.marketId)).size === legs.length, "Each leg must be a different market"),
 });
 
 export const insertTradeSchema = z.object({
@@ -270,8 +586,13 @@ export const insertTradeSchema = z.object({
   outcomeId: z.string().optional().nullable(),
   side: z.enum(["BUY", "SELL"]),
   qty: z.coerce.number().int().min(1).max(1000),
+  // Slippage limits on the average fill price (BUY uses maxPrice, SELL uses minPrice)
+  maxPrice: z.number().positive().optional(),
+  minPrice: z.number().nonnegative().optional(),
 });
 
+export const tradeQuoteSchema = insertTradeSchema.omit({ maxPrice: true, minPrice: true });
+
 export const insertCommentSchema = z.object({
   marketId: z.string(),
   text: z.string().min(1).max(500),
@@ -283,24 +604,195 @@ export const insertReportSchema = z.object({
   reason: z.string().min(10).max(500),
 });
 
+export const insertLimitOrderSchema = z.object({
+  marketId: z.string(),
+  outcomeId: z.string().optional().nullable(),
+  side: z.enum(["BUY", "SELL"]),
+  qty: z.coerce.number().int().min(1).max(1000),
+  limitPrice: z.coerce.number().positive(),
+});
+
+export const insertConditionalOrderSchema = z.object({
+  positionId: z.string(),
+  type: z.enum(["STOP_LOSS", "TAKE_PROFIT"]),
+  triggerPrice: z.coerce.number().positive(),
+  qty: z.coerce.number().int().min(1).max(1000).optional().nullable(),
+});
+
+export const openShortSchema = z.object({
+  marketId: z.string(),
+  qty: z.coerce.number().int().min(1).max(1000),
+  minPrice: z.number().nonnegative().optional(),
+});
+
+export const coverShortSchema = z.object({
+  qty: z.coerce.number().int().min(1).max(1000).optional(),
+  maxPrice: z.number().positive().optional(),
+});
+
+const createMarketFields = z.object({
+  title: z.string().min(5).max(200),
+  description: z.string().min(10),
+  category: z.string().min(1),
+  closeAt: z.string().transform((s) => new Date(s)).optional(),
+  resolutionRule: z.string().max(500).optional(),
+  liquidity: z.coerce.number().min(10).max(10000).optional(),
+});
+
+// Admin-created prediction market. Two outcomes make a binary market; more make a
+// categorical one (e.g. one outcome per candidate). Prices start out equal.
+export const createPredictionMarketSchema = createMarketFields.extend({
+  outcomes: z
+    .array(z.string().trim().min(1).max(60))
+    .min(2, "A market needs at least two outcomes")
+    .max(12, "A market can have at most 12 outcomes")
+    .refine((labels) => new Set(labels.map((l) => l.toLowerCase())).size === labels.length, {
+      message: "Outcome labels must be unique",
+    }),
+});
+
+// Admin-created scalar market on a numeric question (e.g. attendance, an average score)
+export const createScalarMarketSchema = createMarketFields
+  .extend({
+    lowerBound: z.coerce.number(),
+    upperBound: z.coerce.number(),
+    unit: z.string().trim().max(20).optional(),
+  })
+  .refine((m) => m.upperBound > m.lowerBound, {
+    message: "Upper bound must be above the lower bound",
+  });
+
+// Prediction markets resolve to a winning outcome, scalar markets to a value
+export const resolveMarketSchema = z
+  .object({
+    winningOutcomeId: z.string().optional(),
+    value: z.coerce.number().optional(),
+    note: z.string().max(500).optional(),
+  })
+  .refine((r) => (r.winningOutcomeId === undefined) !== (r.value === undefined), {
+    message: "Provide either a winning outcome or a value",
+  });
+
+export const voidMarketSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
 export const insertGameSchema = z.object({
   sport: z.enum(["BASKETBALL", "FOOTBALL", "SOCCER", "BASEBALL", "VOLLEYBALL", "TENNIS", "SWIMMING", "TRACK", "OTHER"]),
   opponent: z.string().min(1),
   isHome: z.boolean(),
-  gameDate: z.string().transform((s) => new Date(s)),
+  gameDate: z
+    .string()
+    .transform((s) => new Date(s))
+    .refine((d) => !isNaN(d.getTime()), "Invalid game date"),
+});
+
+// `grade` or `groupId` narrows the rankings to one league
+export const leaderboardQuerySchema = z
+  .object({
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+    grade: z.string().trim().min(1).max(40).optional(),
+    groupId: z.string().min(1).optional(),
+  })
+  .refine((q) => !(q.grade && q.groupId), { message: "Pick either a grade or a group, not both" });
+
+export const insertSeasonSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(60),
+    startsAt: z
+      .string()
+      .transform((s) => new Date(s))
+      .refine((d) => !isNaN(d.getTime()), "Invalid start date"),
+    endsAt: z
+      .string()
+      .transform((s) => new Date(s))
+      .refine((d) => !isNaN(d.getTime()), "Invalid end date"),
+  })
+  .refine((s) => s.endsAt > s.startsAt, { message: "A season has to end after it starts", path: ["endsAt"] });
+
+export const insertLeagueGroupSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+  kind: z.enum(["ADVISORY", "CLUB", "OTHER"]).default("ADVISORY"),
 });
 
+export const addLeagueGroupMembersSchema = z.object({
+  emails: z.array(z.string().trim().min(1)).min(1, "Add at least one email").max(500),
+});
+
+export const portfolioHistoryQuerySchema = z.object({
+  range: z.enum(["1w", "1m", "3m", "all"]).default("1m"),
+});
+
+// A schedule file for the game importer. `format` is detected from the content
+// when left out.
+export const importGamesSchema = z.object({
+  format: z.enum(["CSV", "ICS"]).optional(),
+  content: z.string().min(1, "The file is empty").max(500000, "The file is too large to import"),
+  dryRun: z.boolean().default(false),
+  createMarkets: z.boolean().default(false),
+});
+
+export const createGameLineMarketSchema = z
+  .object({
+    kind: z.enum(["TOTAL", "SPREAD"]),
+    line: z.coerce.number().min(-500).max(500).refine((line) => Number.isInteger(line * 2), "Lines go in half points"),
+  })
+  .refine((input) => input.kind !== "TOTAL" || input.line > 0, {
+    message: "An over/under line must be above 0",
+    path: ["line"],
+  })
+  .refine((input) => input.kind !== "SPREAD" || input.line !== 0, {
+    message: "A spread of 0 is the same as the moneyline market",
+    path: ["line"],
+  });
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertMarket = z.infer<typeof insertMarketSchema>;
+export type UpdateProposedMarket = z.infer<typeof updateProposedMarketSchema>;
+export type InsertLimitOrder = z.infer<typeof insertLimitOrderSchema>;
+export type InsertConditionalOrder = z.infer<typeof insertConditionalOrderSchema>;
+export type CreatePredictionMarket = z.infer<typeof createPredictionMarketSchema>;
+export type CreateScalarMarket = z.infer<typeof createScalarMarketSchema>;
+export type OpenShort = z.infer<typeof openShortSchema>;
+export type CoverShort = z.infer<typeof coverShortSchema>;
+export type InsertStock = z.infer<typeof insertStockSchema>;
+export type ApproveIpo = z.infer<typeof approveIpoSchema>;
+export type PlaceParlay = z.infer<typeof placeParlaySchema>;
+export type CreateGameLineMarket = z.infer<typeof createGameLineMarketSchema>;
+export type InsertGame = z.infer<typeof insertGameSchema>;
+export type ImportGames = z.infer<typeof importGamesSchema>;
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+export type LeaderboardLeague = Pick<LeaderboardQuery, "grade" | "groupId">;
+export type InsertLeagueGroup = z.infer<typeof insertLeagueGroupSchema>;
+export type InsertSeason = z.infer<typeof insertSeasonSchema>;
 export type User = typeof users.$inferSelect;
 export type Market = typeof markets.$inferSelect;
 export type Outcome = typeof outcomes.$inferSelect;
 export type StockMeta = typeof stockMeta.$inferSelect;
+export type ScalarMeta = typeof scalarMeta.$inferSelect;
 export type Trade = typeof trades.$inferSelect;
 export type Position = typeof positions.$inferSelect;
+export type LimitOrder = typeof limitOrders.$inferSelect;
+export type ConditionalOrder = typeof conditionalOrders.$inferSelect;
+export type ShortPosition = typeof shortPositions.$inferSelect;
 export type Comment = typeof comments.$inferSelect;
 export type Report = typeof reports.$inferSelect;
 export type Resolution = typeof resolutions.$inferSelect;
+export type MarketReview = typeof marketReviews.$inferSelect;
+export type MarketStatusChange = typeof marketStatusHistory.$inferSelect;
+export type ResolutionReminder = typeof resolutionReminders.$inferSelect;
+export type IpoRequest = typeof ipoRequests.$inferSelect;
+export type IpoSubscription = typeof ipoSubscriptions.$inferSelect;
+export type GameMarket = typeof gameMarkets.$inferSelect;
+export type PortfolioSnapshot = typeof portfolioSnapshots.$inferSelect;
+export type LeagueGroup = typeof leagueGroups.$inferSelect;
+export type LeagueGroupMember = typeof leagueGroupMembers.$inferSelect;
+export type Season = typeof seasons.$inferSelect;
+export type SeasonResult = typeof seasonResults.$inferSelect;
+export type Parlay = typeof parlays.$inferSelect;
+export type ParlayLeg = typeof parlayLegs.$inferSelect;
 export type BalanceEvent = typeof balanceEvents.$inferSelect;
 export type PriceSnapshot = typeof priceSnapshots.$inferSelect;
 export type StockCandle = typeof stockCandles.$inferSelect;
@@ -322,23 +814,161 @@ export interface LeaderboardEntry {
   isCurrentUser?: boolean;
 }
 
+export interface LeagueGroupWithCount extends LeagueGroup {
+  memberCount: number;
+}
+
+export interface LeagueGroupMemberWithUser extends LeagueGroupMember {
+  displayName: string;
+  email: string;
+  grade?: string;
+}
+
+// Everything the league selector offers
+export interface Leagues {
+  grades: string[];
+  groups: LeagueGroupWithCount[];
+}
+
+// One grade's line in the class-vs-class table
+export interface GradeStanding {
+  rank: number;
+  grade: string;
+  students: number;
+  // Mean of the students' returns over the window, as a percentage
+  averageReturn: number;
+  totalValue: number;
+  leader: Pick<LeaderboardEntry, "userId" | "displayName" | "changePercent">;
+}
+
+// A finished season with the top of its final standings
+export interface SeasonWithWinners extends Season {
+  winners: SeasonResult[];
+}
+
+export interface AddLeagueGroupMembersResult {
+  added: number;
+  alreadyMembers: number;
+  notFound: string[];
+}
+
 // Market with outcomes/stock meta
 export interface MarketWithDetails extends Market {
   outcomes?: Outcome[];
   stockMeta?: StockMeta;
+  scalarMeta?: ScalarMeta;
   creatorName?: string;
 }
 
+// A student proposal with the latest admin decision on it, if any
+export interface ProposedMarket extends MarketWithDetails {
+  review?: MarketReview;
+}
+
+export interface IpoSubscriptionWithDetails extends IpoSubscription {
+  market?: Market;
+  ticker?: string;
+}
+
+// One day on a student's equity curve - the day's closing snapshot, or the
+// live value for today
+export interface PortfolioHistoryPoint {
+  day: string;
+  totalValue: number;
+  cashBalance: number;
+  positionsValue: number;
+}
+
+export interface GameWithMarkets extends Game {
+  lineMarkets: GameMarket[];
+}
+
+// One row of a schedule import. READY rows are what a dry run would import.
+export type GameImportRowStatus = "READY" | "IMPORTED" | "DUPLICATE" | "INVALID" | "FAILED";
+
+export interface GameImportRow {
+  row: number;
+  // The CSV line or calendar event summary the row came from
+  source: string;
+  status: GameImportRowStatus;
+  game?: InsertGame;
+  gameId?: string;
+  error?: string;
+}
+
+export interface GameImportResult {
+  format: "CSV" | "ICS";
+  dryRun: boolean;
+  rows: GameImportRow[];
+  imported: number;
+  duplicates: number;
+  invalid: number;
+  // Rows that were valid but couldn't be saved
+  failed: number;
+  marketsCreated: number;
+}
+
+export interface ParlayLegWithDetails extends ParlayLeg {
+  market?: Market;
+  outcome?: Outcome;
+}
+
+export interface ParlayWithLegs extends Parlay {
+  legs: ParlayLegWithDetails[];
+}
+
 // Portfolio summary
 export interface PortfolioSummary {
   totalValue: number;
   cashBalance: number;
+  // Cash held by open BUY limit orders (counted in totalValue, not in cashBalance)
+  reservedCash: number;
   positionsValue: number;
+  // Collateral minus the cost of buying back every open short (can be negative)
+  shortsValue: number;
+  // Stakes riding on open parlays, valued at cost until they settle
+  parlaysValue: number;
   totalPnL: number;
   positions: PositionWithDetails[];
+  shorts: ShortPositionWithDetails[];
   recentTrades: Trade[];
 }
 
+// Trade preview from /api/trades/quote
+export interface TradeQuote {
+  side: TradeSide;
+  qty: number;
+  executionPrice: number;
+  averagePrice: number;
+  postTradePrice: number;
+  priceImpact: number;
+  fee: number;
+  total: number;
+}
+
+export interface LimitOrderWithDetails extends LimitOrder {
+  market?: Market;
+  outcome?: Outcome;
+  ticker?: string;
+}
+
+export interface ConditionalOrderWithDetails extends ConditionalOrder {
+  market?: Market;
+  outcome?: Outcome;
+  ticker?: string;
+}
+
+export interface ShortPositionWithDetails extends ShortPosition {
+  market?: Market;
+  stockMeta?: StockMeta;
+  // What it would cost to buy the shares back at the current price
+  marketValue: number;
+  equity: number;
+  pnl: number;
+  // Equity / market value; force-covered below the maintenance margin
+  marginRatio: number;
+}
+
 export interface PositionWithDetails extends Position {
   market?: Market;
   outcome?: Outcome;